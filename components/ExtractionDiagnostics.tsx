@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronRight, Check, X, Crosshair, Loader2, ScanSearch } from 'lucide-react';
+import type { ExtractionDebug, CustomSelector } from '../utils/extractors';
+import { loadCustomSelectors, removeCustomSelector, CUSTOM_SELECTORS_KEY } from '../utils/extractors';
+
+interface ExtractionDiagnosticsProps {
+  debug?: ExtractionDebug;
+  picking: boolean;
+  onPickElement: () => void;
+}
+
+const MAX_TRIED = 8;
+
+function confidenceColor(confidence: number): string {
+  if (confidence >= 0.8) return 'bg-green-500';
+  if (confidence >= 0.5) return 'bg-amber-500';
+  return 'bg-rose-500';
+}
+
+/**
+ * "Why did I get this JD?" — which adapter and selector won, how sure it was,
+ * what lost, and a way to point at the right element instead
+ */
+export default function ExtractionDiagnostics({ debug, picking, onPickElement }: ExtractionDiagnosticsProps) {
+  const [open, setOpen] = useState(false);
+  const [customSelector, setCustomSelector] = useState<CustomSelector | undefined>();
+  const host = debug?.host;
+
+  useEffect(() => {
+    if (!host) return;
+    loadCustomSelectors().then((selectors) => setCustomSelector(selectors[host]));
+
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, namespace: string) => {
+      if (namespace === 'local' && changes[CUSTOM_SELECTORS_KEY]) {
+        setCustomSelector((changes[CUSTOM_SELECTORS_KEY].newValue as Record<string, CustomSelector> | undefined)?.[host]);
+      }
+    };
+    chrome.storage?.onChanged?.addListener(listener);
+    return () => chrome.storage?.onChanged?.removeListener(listener);
+  }, [host]);
+
+  const candidates = debug?.candidates || [];
+  const winner = candidates.find((c) => c.extractorId === debug?.extractor);
+  const losers = candidates.filter((c) => c !== winner);
+  const winnerSelector = debug?.found?.selector || winner?.selector;
+  const tried = debug?.tried || [];
+
+  return (
+    <div className="mt-3 rounded-lg border border-border/50 overflow-hidden">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between gap-2 px-2.5 py-1.5 text-left hover:bg-muted/50 transition-colors"
+      >
+        <span className="flex items-center gap-1.5">
+          <ChevronRight className={`w-3 h-3 text-muted-foreground transition-transform ${open ? 'rotate-90' : ''}`} />
+          <ScanSearch className="w-3 h-3 text-brand-500" />
+          <span className="text-[10px] font-bold text-foreground uppercase tracking-tight">Why this JD?</span>
+        </span>
+        {winner && (
+          <span className="text-[9px] font-bold text-muted-foreground/60 truncate">
+            {winner.extractorName} · {Math.round(winner.confidence * 100)}%
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 pt-1 space-y-3 text-[11px]">
+          {/* Winner */}
+          {winner ? (
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <span className="font-bold text-foreground">{winner.extractorName}</span>
+                <span className="text-[10px] font-mono text-muted-foreground">{winner.jdLength} chars</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="flex-1 h-1.5 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${confidenceColor(winner.confidence)}`}
+                    style={{ width: `${Math.round(winner.confidence * 100)}%` }}
+                  />
+                </div>
+                <span className="text-[10px] font-bold text-muted-foreground">{Math.round(winner.confidence * 100)}%</span>
+              </div>
+              {winnerSelector && (
+                <code className="block px-2 py-1 bg-muted rounded text-[10px] text-foreground break-all">{winnerSelector}</code>
+              )}
+              {debug?.frameUrl && (
+                <p className="text-[10px] text-muted-foreground break-all">Read from an embedded frame: {debug.frameUrl}</p>
+              )}
+              {typeof debug?.source === 'string' && (
+                <p className="text-[10px] text-muted-foreground">
+                  Read from schema.org {debug.source === 'json-ld' ? 'JSON-LD' : 'microdata'}
+                  {debug.stale ? ' (describes a different URL — may be stale)' : ''}
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-muted-foreground">No adapter found a job description on this page.</p>
+          )}
+
+          {/* Selectors tried by the winning adapter */}
+          {tried.length > 0 && (
+            <div>
+              <p className="text-[9px] font-bold text-muted-foreground uppercase mb-1">Selectors tried</p>
+              <ul className="space-y-0.5">
+                {tried.slice(0, MAX_TRIED).map((t) => (
+                  <li key={t.selector} className="flex items-center gap-1.5 font-mono text-[10px]">
+                    {t.found
+                      ? <Check className="w-3 h-3 text-green-500 shrink-0" />
+                      : <X className="w-3 h-3 text-muted-foreground/40 shrink-0" />}
+                    <span className={`truncate ${t.found ? 'text-foreground' : 'text-muted-foreground/60'}`}>{t.selector}</span>
+                  </li>
+                ))}
+              </ul>
+              {tried.length > MAX_TRIED && (
+                <p className="text-[10px] text-muted-foreground/60 mt-0.5">+{tried.length - MAX_TRIED} more</p>
+              )}
+            </div>
+          )}
+
+          {/* Candidates that lost */}
+          {losers.length > 0 && (
+            <div>
+              <p className="text-[9px] font-bold text-muted-foreground uppercase mb-1">Other candidates</p>
+              <div className="space-y-1.5">
+                {losers.map((c) => (
+                  <div key={c.extractorId} className="p-2 bg-muted/50 rounded-lg">
+                    <div className="flex items-center justify-between gap-2 mb-0.5">
+                      <span className="font-bold text-foreground truncate">{c.extractorName}</span>
+                      <span className="text-[10px] text-muted-foreground shrink-0">
+                        {Math.round(c.confidence * 100)}% · {c.jdLength} chars
+                      </span>
+                    </div>
+                    {c.selector && <code className="block text-[10px] text-muted-foreground break-all mb-0.5">{c.selector}</code>}
+                    <p className="text-[10px] text-muted-foreground/80 line-clamp-3 italic">"{c.preview}"</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Picked selector for this site */}
+          {host && customSelector && (
+            <div className="flex items-start justify-between gap-2 p-2 bg-brand-50/50 dark:bg-brand-900/20 rounded-lg border border-brand-100 dark:border-brand-900">
+              <div className="min-w-0">
+                <p className="text-[10px] font-bold text-brand-700 dark:text-brand-400">Your picked element on {host}</p>
+                <code className="block text-[10px] text-foreground break-all">{customSelector.selector}</code>
+              </div>
+              <button
+                onClick={() => removeCustomSelector(host)}
+                className="text-[10px] font-bold text-rose-500 hover:text-rose-600 uppercase tracking-tight shrink-0"
+              >
+                Forget
+              </button>
+            </div>
+          )}
+
+          <button
+            onClick={onPickElement}
+            disabled={picking}
+            className="w-full flex items-center justify-center gap-1.5 py-2 rounded-xl text-[11px] font-bold bg-muted text-foreground hover:bg-brand-50 hover:text-brand-600 dark:hover:bg-brand-900/30 disabled:opacity-60 transition-all"
+          >
+            {picking ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Crosshair className="w-3.5 h-3.5" />}
+            {picking ? 'Click the job description on the page…' : 'Pick element on page'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
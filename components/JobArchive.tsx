@@ -0,0 +1,253 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Archive, ArrowLeft, Search, ExternalLink, Trash2, Copy, Check, Target, MapPin, Banknote, Globe } from 'lucide-react';
+import type { JobData } from '../utils/extractors';
+import type { ArchivedJob, ArchivedJobSummary } from '../utils/jobArchive';
+import {
+  JOB_ARCHIVE_KEY,
+  listArchivedJobs,
+  getArchivedJob,
+  deleteArchivedJob,
+  clearJobArchive,
+  archivedJobToJobData,
+  sanitizeJobHtml,
+} from '../utils/jobArchive';
+import { formatSalary, WORKPLACE_LABELS, SENIORITY_LABELS } from '../utils/jobMetadata';
+
+interface JobArchiveProps {
+  /** Load an archived job back as the target job */
+  onUseJob: (data: JobData) => void;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Browse the jobs captured so far: a searchable list and a snapshot viewer
+ */
+export default function JobArchive({ onUseJob }: JobArchiveProps) {
+  const [entries, setEntries] = useState<ArchivedJobSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<ArchivedJob | null>(null);
+  const [showText, setShowText] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    listArchivedJobs().then(setEntries);
+
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, namespace: string) => {
+      if (namespace === 'local' && changes[JOB_ARCHIVE_KEY]) {
+        const next = changes[JOB_ARCHIVE_KEY].newValue;
+        setEntries(Array.isArray(next) ? next as ArchivedJobSummary[] : []);
+      }
+    };
+    chrome.storage?.onChanged?.addListener(listener);
+    return () => chrome.storage?.onChanged?.removeListener(listener);
+  }, []);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return entries;
+    return entries.filter((e) => `${e.title} ${e.company} ${e.location || ''} ${hostOf(e.url)}`.toLowerCase().includes(q));
+  }, [entries, query]);
+
+  const openEntry = async (id: string) => {
+    const job = await getArchivedJob(id);
+    if (job) {
+      setSelected({ ...job, html: sanitizeJobHtml(job.html) });
+      setShowText(false);
+    }
+  };
+
+  const removeEntry = async (id: string) => {
+    await deleteArchivedJob(id);
+    if (selected?.id === id) setSelected(null);
+  };
+
+  const copyText = async () => {
+    if (!selected) return;
+    await navigator.clipboard.writeText(selected.text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  if (selected) {
+    const { details } = selected;
+    return (
+      <section className="space-y-4 animate-in">
+        <button
+          onClick={() => setSelected(null)}
+          className="flex items-center gap-1.5 text-xs font-bold text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <ArrowLeft className="w-3.5 h-3.5" />
+          Archive
+        </button>
+
+        <div className="glass-card p-4 space-y-3">
+          <div>
+            <h3 className="text-sm font-bold text-foreground font-display">{selected.title || 'Untitled job'}</h3>
+            <p className="text-xs text-muted-foreground">{selected.company || hostOf(selected.url)}</p>
+          </div>
+
+          <div className="flex flex-wrap gap-1.5">
+            {selected.location && (
+              <span className="flex items-center gap-1 px-2 py-0.5 bg-muted rounded-md text-[10px] font-bold text-muted-foreground">
+                <MapPin className="w-3 h-3" /> {selected.location}
+              </span>
+            )}
+            {details.salary && (
+              <span className="flex items-center gap-1 px-2 py-0.5 bg-green-50 dark:bg-green-900/20 rounded-md text-[10px] font-bold text-green-700 dark:text-green-400">
+                <Banknote className="w-3 h-3" /> {formatSalary(details.salary)}
+              </span>
+            )}
+            {details.workplace && (
+              <span className="flex items-center gap-1 px-2 py-0.5 bg-muted rounded-md text-[10px] font-bold text-muted-foreground">
+                <Globe className="w-3 h-3" /> {WORKPLACE_LABELS[details.workplace]}
+              </span>
+            )}
+            {details.seniority && (
+              <span className="px-2 py-0.5 bg-muted rounded-md text-[10px] font-bold text-muted-foreground">
+                {SENIORITY_LABELS[details.seniority]}
+              </span>
+            )}
+          </div>
+
+          <p className="text-[10px] text-muted-foreground">
+            Captured {new Date(selected.capturedAt).toLocaleString()} from{' '}
+            <a href={selected.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-0.5 text-brand-600 hover:underline">
+              {hostOf(selected.url)} <ExternalLink className="w-2.5 h-2.5" />
+            </a>
+          </p>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => onUseJob(archivedJobToJobData(selected))}
+              className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-xl text-[11px] font-bold bg-brand-600 text-white hover:bg-brand-700 transition-all"
+            >
+              <Target className="w-3.5 h-3.5" />
+              Use as target job
+            </button>
+            <button
+              onClick={copyText}
+              className="p-2 rounded-xl bg-muted text-muted-foreground hover:text-foreground transition-all"
+              title="Copy text"
+            >
+              {copied ? <Check className="w-3.5 h-3.5 text-green-500" /> : <Copy className="w-3.5 h-3.5" />}
+            </button>
+            <button
+              onClick={() => removeEntry(selected.id)}
+              className="p-2 rounded-xl bg-muted text-muted-foreground hover:text-rose-500 transition-all"
+              title="Delete from archive"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="glass-card p-4">
+          <div className="flex gap-1 mb-3 p-0.5 bg-muted rounded-lg w-fit">
+            {[
+              { id: false, label: 'Formatted' },
+              { id: true, label: 'Text' },
+            ].map((mode) => (
+              <button
+                key={mode.label}
+                onClick={() => setShowText(mode.id)}
+                className={`px-2.5 py-1 rounded-md text-[10px] font-bold transition-all ${showText === mode.id ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground'}`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+          {showText ? (
+            <p className="text-xs text-foreground leading-relaxed whitespace-pre-wrap break-words">{selected.text}</p>
+          ) : (
+            // Sanitized at capture and again on opening: structure and http(s) links only
+            <div className="job-snapshot" dangerouslySetInnerHTML={{ __html: selected.html }} />
+          )}
+        </div>
+      </section>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <section className="animate-in">
+        <div className="py-16 flex flex-col items-center justify-center text-center space-y-4">
+          <div className="w-16 h-16 bg-muted rounded-2xl flex items-center justify-center text-muted-foreground/30">
+            <Archive className="w-8 h-8" />
+          </div>
+          <div>
+            <h4 className="text-sm font-bold text-foreground">No archived jobs</h4>
+            <p className="text-xs text-muted-foreground px-8 mt-1">Turn on Job archive in Settings and the jobs you open are kept here, even after the posting is taken down.</p>
+          </div>
+        </div>
+      </section>
+    );
+  }
+
+  return (
+    <section className="space-y-3 animate-in">
+      <div className="flex items-center justify-between px-1">
+        <h3 className="text-sm font-bold text-foreground font-display">Job Archive</h3>
+        <span className="text-[10px] font-bold text-muted-foreground">{entries.length} saved</span>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search title, company, site…"
+          className="w-full pl-9 pr-3 py-2 bg-background border border-border rounded-xl text-xs text-foreground placeholder:text-muted-foreground/50 focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500 transition-all"
+        />
+      </div>
+
+      <div className="space-y-2">
+        {filtered.map((entry) => (
+          <div
+            key={entry.id}
+            onClick={() => openEntry(entry.id)}
+            className="group flex items-center justify-between gap-3 p-3 glass-card glass-card-hover cursor-pointer"
+          >
+            <div className="min-w-0">
+              <p className="text-xs font-bold text-foreground truncate">{entry.title || 'Untitled job'}</p>
+              <p className="text-[10px] text-muted-foreground truncate">
+                {[entry.company, hostOf(entry.url), formatDate(entry.capturedAt)].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                removeEntry(entry.id);
+              }}
+              className="p-1.5 text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-rose-500 rounded-lg transition-all shrink-0"
+              title="Delete from archive"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        {filtered.length === 0 && (
+          <p className="text-xs text-muted-foreground text-center py-6">No archived jobs match "{query}".</p>
+        )}
+      </div>
+
+      <button
+        onClick={() => window.confirm('Delete every archived job?') && clearJobArchive()}
+        className="w-full py-2 text-[10px] font-bold text-muted-foreground hover:text-rose-500 uppercase tracking-tight transition-colors"
+      >
+        Clear archive
+      </button>
+    </section>
+  );
+}
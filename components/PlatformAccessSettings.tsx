@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { Building2, ExternalLink, Loader2 } from 'lucide-react';
+import {
+  ATS_PLATFORMS,
+  getGrantedAtsPlatforms,
+  requestAtsPlatformAccess,
+  revokeAtsPlatformAccess,
+} from '../utils/atsPlatforms';
+
+/**
+ * Per-platform access toggles for hosted ATS job boards (Greenhouse, Lever, ...).
+ * Permissions can only be requested from an extension page, so inside the
+ * on-page overlay this links to the settings page instead.
+ */
+export default function PlatformAccessSettings() {
+  const [granted, setGranted] = useState<Record<string, boolean>>({});
+  const [pending, setPending] = useState<string | null>(null);
+  const canRequest = typeof chrome !== 'undefined' && !!chrome.permissions;
+
+  useEffect(() => {
+    if (!canRequest) return;
+    getGrantedAtsPlatforms().then(setGranted);
+
+    const refresh = () => getGrantedAtsPlatforms().then(setGranted);
+    chrome.permissions.onAdded.addListener(refresh);
+    chrome.permissions.onRemoved.addListener(refresh);
+    return () => {
+      chrome.permissions.onAdded.removeListener(refresh);
+      chrome.permissions.onRemoved.removeListener(refresh);
+    };
+  }, [canRequest]);
+
+  const handleToggle = async (platformId: string) => {
+    setPending(platformId);
+    try {
+      if (granted[platformId]) {
+        await revokeAtsPlatformAccess(platformId);
+      } else {
+        await requestAtsPlatformAccess(platformId);
+      }
+      setGranted(await getGrantedAtsPlatforms());
+    } catch (error) {
+      console.error('Failed to update platform access:', error);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex items-center gap-2 mb-5">
+        <div className="p-2 bg-sky-100 dark:bg-sky-900/30 rounded-lg">
+          <Building2 className="w-4 h-4 text-sky-600" />
+        </div>
+        <div>
+          <h3 className="text-base font-bold text-foreground">Job Platforms</h3>
+          <p className="text-xs text-muted-foreground">Allow JD Scan on hosted applicant tracking boards</p>
+        </div>
+      </div>
+
+      {!canRequest ? (
+        <button
+          onClick={() => chrome.runtime?.sendMessage({ type: 'OPEN_SETTINGS_PAGE' }).catch(() => { })}
+          className="w-full flex items-center justify-between p-4 bg-muted/50 hover:bg-muted rounded-xl transition-all text-left"
+        >
+          <div>
+            <p className="text-sm font-bold text-foreground">Manage platform access</p>
+            <p className="text-xs text-muted-foreground">Greenhouse, Lever, Ashby, Workday and SmartRecruiters are granted from the settings page</p>
+          </div>
+          <ExternalLink className="w-4 h-4 text-muted-foreground shrink-0" />
+        </button>
+      ) : (
+        <div className="space-y-3">
+          {ATS_PLATFORMS.map((platform) => (
+            <label
+              key={platform.id}
+              className="flex items-center justify-between p-4 bg-muted/50 hover:bg-muted rounded-xl cursor-pointer transition-all group"
+            >
+              <div>
+                <p className="text-sm font-bold text-foreground">{platform.name}</p>
+                <p className="text-xs text-muted-foreground font-mono">{platform.example}</p>
+              </div>
+              {pending === platform.id ? (
+                <Loader2 className="w-5 h-5 text-brand-600 animate-spin" />
+              ) : (
+                <input
+                  type="checkbox"
+                  checked={!!granted[platform.id]}
+                  onChange={() => handleToggle(platform.id)}
+                  className="w-5 h-5 rounded-lg border-border text-brand-600 focus:ring-brand-500 transition-all bg-background"
+                />
+              )}
+            </label>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,11 @@
+import { createContext, useContext } from 'react';
+
+/**
+ * Where portalled UI (modals, popovers) is rendered. The on-page overlay
+ * provides an element inside its shadow root; extension pages use document.body.
+ */
+export const PortalTargetContext = createContext<HTMLElement | null>(null);
+
+export function usePortalTarget(): HTMLElement {
+  return useContext(PortalTargetContext) ?? document.body;
+}
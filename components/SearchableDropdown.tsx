@@ -41,7 +41,8 @@ export default function SearchableDropdown({
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
-      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+      // composedPath: inside the overlay's shadow root event.target is retargeted to the host
+      if (containerRef.current && !event.composedPath().includes(containerRef.current)) {
         setIsOpen(false);
       }
     };
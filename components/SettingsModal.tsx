@@ -4,7 +4,8 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { X, Monitor, Moon, Sun, Layout, Layers, Bell, Zap, Cpu, Key, CheckCircle2, AlertCircle, Loader2, Power, Trash2, Sparkles, Shield } from 'lucide-react';
+import { X, Monitor, Moon, Sun, Layout, Layers, Bell, Zap, Cpu, Key, CheckCircle2, AlertCircle, Loader2, Power, Trash2, Sparkles, Shield, Gauge, Archive, WholeWord, Brain } from 'lucide-react';
+import { createPortal } from 'react-dom';
 import { motion, AnimatePresence } from 'motion/react';
 import { UserSettings } from '../utils/settings';
 import { 
@@ -19,6 +20,10 @@ import {
   LLMAPIConfig 
 } from '../utils/api';
 import SearchableDropdown, { DropdownOption } from './SearchableDropdown';
+import PlatformAccessSettings from './PlatformAccessSettings';
+import SiteRulesSettings from './SiteRulesSettings';
+import SkillAliasSettings from './SkillAliasSettings';
+import { usePortalTarget } from './PortalTarget';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -47,6 +52,7 @@ export default function SettingsModal({ isOpen, onClose, settings, onSettingsCha
   const [testing, setTesting] = useState(false);
   const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
   const [openRouterModels, setOpenRouterModels] = useState<any[]>([]);
+  const portalTarget = usePortalTarget();
   const [fetchingModels, setFetchingModels] = useState(false);
 
   useEffect(() => {
@@ -184,7 +190,7 @@ export default function SettingsModal({ isOpen, onClose, settings, onSettingsCha
 
   if (!isOpen) return null;
 
-  return (
+  return createPortal(
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
       <motion.div
         initial={{ opacity: 0 }}
@@ -372,6 +378,11 @@ export default function SettingsModal({ isOpen, onClose, settings, onSettingsCha
                     {[
                       { id: 'autoScan', label: 'Auto-scan pages', desc: 'Automatically detect job descriptions', icon: Zap },
                       { id: 'showNotifications', label: 'Notifications', desc: 'Show scan completion alerts', icon: Bell },
+                      { id: 'showFitBadges', label: 'Fit badges', desc: 'Score job cards in LinkedIn and Indeed search results', icon: Gauge },
+                      { id: 'archiveJobs', label: 'Job archive', desc: 'Keep a snapshot of every captured job posting', icon: Archive },
+                      { id: 'stemming', label: 'Match word forms', desc: 'Count managed and management as one keyword; off for exact-match ATS simulation', icon: WholeWord },
+                      { id: 'semanticMatch', label: 'Semantic match', desc: 'Pair each JD requirement with your closest resume bullet and blend that into local scores', icon: Brain },
+                      { id: 'semanticModel', label: 'On-device model', desc: 'Score semantic match with the bundled embedding model; off uses lighter TF-IDF similarity', icon: Cpu },
                     ].map((pref) => (
                       <label
                         key={pref.id}
@@ -397,6 +408,12 @@ export default function SettingsModal({ isOpen, onClose, settings, onSettingsCha
                   </div>
                 </section>
 
+                <PlatformAccessSettings />
+
+                <SiteRulesSettings rules={settings.siteRules || []} onChange={(siteRules) => onSettingsChange({ siteRules })} />
+
+                <SkillAliasSettings />
+
                 {/* LLM Config Selection */}
                 <section>
                   <div className="flex items-center gap-2 mb-5">
@@ -796,6 +813,7 @@ export default function SettingsModal({ isOpen, onClose, settings, onSettingsCha
           </AnimatePresence>
         </div>
       </motion.div>
-    </div>
+    </div>,
+    portalTarget
   );
 }
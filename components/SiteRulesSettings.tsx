@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { ListFilter, Plus, Trash2, Ban, KeyRound, ExternalLink } from 'lucide-react';
+import type { SiteRule } from '../utils/jobSites';
+import {
+  findSiteRule,
+  getGrantedSiteRules,
+  normalizeRuleDomain,
+  requestSiteRuleAccess,
+  revokeSiteRuleAccess,
+  siteRuleNeedsAccess,
+} from '../utils/jobSites';
+
+interface SiteRulesSettingsProps {
+  rules: SiteRule[];
+  onChange: (rules: SiteRule[]) => void;
+}
+
+function parsePatterns(value: string): string[] {
+  return value.split(/[,\n]/).map((p) => p.trim()).filter(Boolean);
+}
+
+/**
+ * Comma-separated pattern list, saved when the field loses focus
+ */
+function PatternInput({ label, patterns, placeholder, onCommit }: {
+  label: string;
+  patterns: string[];
+  placeholder: string;
+  onCommit: (patterns: string[]) => void;
+}) {
+  const [draft, setDraft] = useState(patterns.join(', '));
+
+  const commit = () => {
+    const next = parsePatterns(draft);
+    setDraft(next.join(', '));
+    if (next.join('\n') !== patterns.join('\n')) onCommit(next);
+  };
+
+  return (
+    <label className="block">
+      <span className="text-[10px] font-bold text-muted-foreground uppercase tracking-tight">{label}</span>
+      <input
+        type="text"
+        value={draft}
+        placeholder={placeholder}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        className="mt-1 w-full px-3 py-2 bg-background border border-border rounded-lg text-xs font-mono text-foreground placeholder:text-muted-foreground/50 focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500 transition-all"
+      />
+    </label>
+  );
+}
+
+/**
+ * Per-domain job page rules: which URLs count as job pages, which never do,
+ * and sites where JD Scan should not run at all. Domains outside the built-in
+ * boards need the user's permission before JD Scan can run there; like
+ * platform access, that can only be asked from an extension page.
+ */
+export default function SiteRulesSettings({ rules, onChange }: SiteRulesSettingsProps) {
+  // Inside the on-page overlay, offer the current site
+  const [domain, setDomain] = useState(
+    typeof window !== 'undefined' && /^https?:$/.test(window.location.protocol) ? window.location.hostname : ''
+  );
+  const [granted, setGranted] = useState<Record<string, boolean>>({});
+  const canRequest = typeof chrome !== 'undefined' && !!chrome.permissions;
+  const domainsKey = rules.map((rule) => `${rule.domain}:${rule.disabled}`).join('\n');
+
+  useEffect(() => {
+    if (!canRequest) return;
+    const refresh = () => getGrantedSiteRules(rules).then(setGranted);
+    refresh();
+    chrome.permissions.onAdded.addListener(refresh);
+    chrome.permissions.onRemoved.addListener(refresh);
+    return () => {
+      chrome.permissions.onAdded.removeListener(refresh);
+      chrome.permissions.onRemoved.removeListener(refresh);
+    };
+  }, [canRequest, domainsKey]);
+
+  // Inside the overlay there is no permissions API, but running here means this site was granted
+  const lacksAccess = (rule: SiteRule) => siteRuleNeedsAccess(rule) && (canRequest
+    ? !granted[rule.domain]
+    : !findSiteRule(window.location.href, [rule]));
+
+  const requestAccess = (rule: SiteRule) => {
+    if (canRequest && siteRuleNeedsAccess(rule)) requestSiteRuleAccess(rule.domain);
+  };
+
+  const updateRule = (id: string, patch: Partial<SiteRule>) => {
+    const rule = rules.find((r) => r.id === id);
+    onChange(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+    if (!rule || patch.disabled === undefined) return;
+    // Switched off: give the access back; switched on again: ask for it
+    if (patch.disabled) revokeSiteRuleAccess(rule.domain);
+    else requestAccess({ ...rule, ...patch });
+  };
+
+  const removeRule = (rule: SiteRule) => {
+    onChange(rules.filter((r) => r.id !== rule.id));
+    revokeSiteRuleAccess(rule.domain);
+  };
+
+  const addRule = () => {
+    const normalized = normalizeRuleDomain(domain);
+    if (!normalized || rules.some((rule) => rule.domain === normalized)) return;
+    const rule: SiteRule = { id: crypto.randomUUID(), domain: normalized, include: [], exclude: [], disabled: false };
+    onChange([...rules, rule]);
+    requestAccess(rule);
+    setDomain('');
+  };
+
+  return (
+    <section>
+      <div className="flex items-center gap-2 mb-5">
+        <div className="p-2 bg-amber-100 dark:bg-amber-900/30 rounded-lg">
+          <ListFilter className="w-4 h-4 text-amber-600" />
+        </div>
+        <div>
+          <h3 className="text-base font-bold text-foreground">Site Rules</h3>
+          <p className="text-xs text-muted-foreground">Decide which pages count as job pages, per domain</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {rules.map((rule) => (
+          <div key={rule.id} className="p-4 bg-muted/50 rounded-xl space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm font-bold text-foreground font-mono truncate">{rule.domain}</p>
+              <button
+                onClick={() => removeRule(rule)}
+                className="p-1.5 text-muted-foreground hover:text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-lg transition-all"
+                title="Remove rule"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+
+            <label className="flex items-center justify-between gap-3 cursor-pointer">
+              <span className="flex items-center gap-2 text-xs font-bold text-foreground">
+                <Ban className="w-3.5 h-3.5 text-rose-500" />
+                Never run here
+              </span>
+              <input
+                type="checkbox"
+                checked={rule.disabled}
+                onChange={(e) => updateRule(rule.id, { disabled: e.target.checked })}
+                className="w-5 h-5 rounded-lg border-border text-brand-600 focus:ring-brand-500 transition-all bg-background"
+              />
+            </label>
+
+            {lacksAccess(rule) && (
+              canRequest ? (
+                <button
+                  onClick={() => requestAccess(rule)}
+                  className="w-full flex items-center gap-2 p-3 bg-amber-50 dark:bg-amber-900/20 hover:bg-amber-100 dark:hover:bg-amber-900/30 rounded-lg text-left transition-all"
+                >
+                  <KeyRound className="w-3.5 h-3.5 text-amber-600 shrink-0" />
+                  <span className="text-xs text-foreground">JD Scan can&apos;t run on this site yet. <span className="font-bold">Allow access</span></span>
+                </button>
+              ) : (
+                <button
+                  onClick={() => chrome.runtime?.sendMessage({ type: 'OPEN_SETTINGS_PAGE' }).catch(() => { })}
+                  className="w-full flex items-center justify-between gap-2 p-3 bg-amber-50 dark:bg-amber-900/20 hover:bg-amber-100 dark:hover:bg-amber-900/30 rounded-lg text-left transition-all"
+                >
+                  <span className="text-xs text-foreground">Sites outside the built-in job boards need access, granted from the settings page</span>
+                  <ExternalLink className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+                </button>
+              )
+            )}
+
+            {!rule.disabled && (
+              <>
+                <PatternInput
+                  label="Job pages (only these, if set)"
+                  patterns={rule.include}
+                  placeholder="/jobs/*, /careers/*/apply"
+                  onCommit={(include) => updateRule(rule.id, { include })}
+                />
+                <PatternInput
+                  label="Never job pages"
+                  patterns={rule.exclude}
+                  placeholder="/blog/*, *apply-for-credit*"
+                  onCommit={(exclude) => updateRule(rule.id, { exclude })}
+                />
+              </>
+            )}
+          </div>
+        ))}
+
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={domain}
+            placeholder="example.com"
+            onChange={(e) => setDomain(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addRule()}
+            className="flex-1 px-3 py-2.5 bg-background border border-border rounded-xl text-sm font-mono text-foreground placeholder:text-muted-foreground/50 focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500 transition-all"
+          />
+          <button
+            onClick={addRule}
+            disabled={!normalizeRuleDomain(domain)}
+            className="flex items-center gap-1.5 px-4 py-2.5 bg-brand-600 hover:bg-brand-700 disabled:opacity-50 text-white text-sm font-bold rounded-xl transition-all"
+          >
+            <Plus className="w-4 h-4" />
+            Add site
+          </button>
+        </div>
+        <p className="text-[11px] text-muted-foreground">
+          Patterns match the URL path from the start; <code className="font-mono">*</code> matches anything. Rules cover subdomains.
+        </p>
+      </div>
+    </section>
+  );
+}
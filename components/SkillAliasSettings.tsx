@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { Tags, Plus, X } from 'lucide-react';
+import type { UserSkillAliases } from '../utils/skills';
+import {
+  SKILL_ALIASES_KEY,
+  SKILL_TAXONOMY_VERSION,
+  loadSkillAliases,
+  addSkillAlias,
+  removeSkillAlias,
+  listSkills,
+  findSkill,
+} from '../utils/skills';
+
+/**
+ * The user's own skill aliases on top of the bundled taxonomy, e.g. an
+ * internal tool name that should count as the skill it stands for
+ */
+export default function SkillAliasSettings() {
+  const [aliases, setAliases] = useState<UserSkillAliases>({});
+  const [skill, setSkill] = useState('');
+  const [alias, setAlias] = useState('');
+
+  useEffect(() => {
+    loadSkillAliases().then(setAliases);
+
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, namespace: string) => {
+      if (namespace === 'local' && changes[SKILL_ALIASES_KEY]) {
+        setAliases((changes[SKILL_ALIASES_KEY].newValue as UserSkillAliases) || {});
+      }
+    };
+    chrome.storage?.onChanged?.addListener(listener);
+    return () => chrome.storage?.onChanged?.removeListener(listener);
+  }, []);
+
+  const bundledCount = listSkills().filter((s) => !s.custom).length;
+  const known = skill.trim() ? findSkill(skill) : undefined;
+
+  const add = async () => {
+    if (!skill.trim() || !alias.trim()) return;
+    await addSkillAlias(skill, alias);
+    setAliases(await loadSkillAliases());
+    setAlias('');
+  };
+
+  const remove = async (name: string, value: string) => {
+    await removeSkillAlias(name, value);
+    setAliases(await loadSkillAliases());
+  };
+
+  const entries = Object.entries(aliases).filter(([, list]) => list.length > 0);
+
+  return (
+    <section>
+      <div className="flex items-center gap-2 mb-5">
+        <div className="p-2 bg-emerald-100 dark:bg-emerald-900/30 rounded-lg">
+          <Tags className="w-4 h-4 text-emerald-600" />
+        </div>
+        <div>
+          <h3 className="text-base font-bold text-foreground">Skill Aliases</h3>
+          <p className="text-xs text-muted-foreground">
+            {bundledCount} bundled skills (taxonomy v{SKILL_TAXONOMY_VERSION}); add your own spellings
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {entries.map(([name, list]) => (
+          <div key={name} className="p-3 bg-muted/50 rounded-xl">
+            <p className="text-xs font-bold text-foreground mb-2">{name}</p>
+            <div className="flex flex-wrap gap-1.5">
+              {list.map((value) => (
+                <span key={value} className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-background border border-border rounded-md text-[11px] font-mono text-foreground">
+                  {value}
+                  <button
+                    onClick={() => remove(name, value)}
+                    className="p-0.5 text-muted-foreground hover:text-rose-500 rounded transition-colors"
+                    title="Remove alias"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={skill}
+            placeholder="Skill, e.g. Kubernetes"
+            onChange={(e) => setSkill(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2.5 bg-background border border-border rounded-xl text-sm text-foreground placeholder:text-muted-foreground/50 focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500 transition-all"
+          />
+          <input
+            type="text"
+            value={alias}
+            placeholder="Alias, e.g. kube"
+            onChange={(e) => setAlias(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && add()}
+            className="flex-1 min-w-0 px-3 py-2.5 bg-background border border-border rounded-xl text-sm font-mono text-foreground placeholder:text-muted-foreground/50 focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500 transition-all"
+          />
+          <button
+            onClick={add}
+            disabled={!skill.trim() || !alias.trim()}
+            className="flex items-center gap-1.5 px-4 py-2.5 bg-brand-600 hover:bg-brand-700 disabled:opacity-50 text-white text-sm font-bold rounded-xl transition-all"
+          >
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+        </div>
+        <p className="text-[11px] text-muted-foreground">
+          {known
+            ? `Adds to ${known.name}${known.aliases.length > 0 ? ` (already matches ${known.aliases.slice(0, 4).join(', ')})` : ''}.`
+            : 'An unknown skill name creates a new skill. Case and separators are ignored: "node js" matches "Node.js".'}
+        </p>
+      </div>
+    </section>
+  );
+}
@@ -1,10 +1,38 @@
 import { defineBackground } from "wxt/utils/define-background";
+import { syncAtsContentScripts } from "../../utils/atsPlatforms";
+import { applySiteRules, isJobUrl, syncSiteRuleContentScripts } from "../../utils/jobSites";
+import type { SiteRule } from "../../utils/jobSites";
+import { loadSettings } from "../../utils/settings";
+import { applyJobArchiveWrite, textToHtml } from "../../utils/jobArchive";
+import type { JobArchiveWriteMessage } from "../../utils/jobArchive";
+import { registerSelectionMenus, handleSelectionMenuClick } from "../../utils/selectionMenu";
 
 export default defineBackground({
     type: "module",
     main() {
         console.log("JD Scan background script initialized");
 
+        // Keep runtime content scripts in line with the ATS boards and rule domains the user granted
+        const syncContentScripts = async () => {
+            await syncAtsContentScripts();
+            const settings = await loadSettings();
+            await syncSiteRuleContentScripts(settings.siteRules || []);
+        };
+        syncContentScripts();
+        chrome.permissions.onAdded.addListener(() => syncContentScripts());
+        chrome.permissions.onRemoved.addListener(() => syncContentScripts());
+        chrome.storage.onChanged.addListener((changes, namespace) => {
+            const change = changes.userSettings;
+            if (namespace !== "local" || !change) return;
+            const before = (change.oldValue as { siteRules?: SiteRule[] } | undefined)?.siteRules;
+            const after = (change.newValue as { siteRules?: SiteRule[] } | undefined)?.siteRules;
+            if (JSON.stringify(before) !== JSON.stringify(after)) syncSiteRuleContentScripts(after || []);
+        });
+
+        // Right-click a selection to scan it as a JD or keep it as a resume
+        chrome.runtime.onInstalled.addListener(() => registerSelectionMenus());
+        chrome.contextMenus.onClicked.addListener(handleSelectionMenuClick);
+
         // Handle messages from sidepanel or content script
         chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
             if (request.type === "SCAN_REQUEST") {
@@ -34,6 +62,45 @@ export default defineBackground({
                     });
             }
 
+            // Every archive write lands here, so concurrent captures are applied in turn
+            if (request.type === "JOB_ARCHIVE_WRITE") {
+                applyJobArchiveWrite((request as JobArchiveWriteMessage).write).then(
+                    (summary) => sendResponse({ summary }),
+                    (error) => sendResponse({ error: error instanceof Error ? error.message : String(error) })
+                );
+                return true;
+            }
+
+            if (request.type === "OPEN_SETTINGS_PAGE") {
+                // Content scripts cannot request permissions, so send the user to the settings page
+                chrome.tabs.create({ url: chrome.runtime.getURL("settings.html") });
+            }
+
+            if (request.type === "FRAME_JOB_CANDIDATE" && sender.tab?.id !== undefined && sender.frameId) {
+                const tabId = sender.tab.id;
+                const pageUrl = sender.tab.url || request.url;
+                loadSettings().then(({ siteRules, archiveJobs }) => {
+                    // The user's rules for the page the frame sits in apply to its jobs too
+                    const verdict = applySiteRules(pageUrl, siteRules);
+                    if (verdict === "disabled" || verdict === "not-job") return;
+
+                    // The top frame picks the best job across frames
+                    chrome.tabs.sendMessage(tabId, { ...request, frameId: sender.frameId }, { frameId: 0 }, () => {
+                        if (!chrome.runtime.lastError || !request.data?.jd) return;
+
+                        // No content script up top (a career site outside our matches): the frame's job is the job
+                        console.log("JD Scan: Publishing job from embedded frame", request.url);
+                        chrome.storage.local.set({
+                            jdScan_lastJob: { data: request.data, timestamp: Date.now(), url: pageUrl }
+                        }).catch(() => { });
+                        chrome.runtime.sendMessage({ type: "JD_FOUND", data: request.data }).catch(() => { });
+                        if (!archiveJobs) return;
+                        applyJobArchiveWrite({ op: "archive", data: request.data, url: pageUrl, html: request.html || textToHtml(request.data.jd) })
+                            .catch((err) => console.error("JD Scan: Failed to archive job", err));
+                    });
+                }).catch((err) => console.error("JD Scan: Failed to load settings for a frame's job", err));
+            }
+
             if (request.type === "JD_FOUND") {
                 console.log("JD found via content script, broadcasting to sidepanel");
                 // Re-broadcast to anyone listening (e.g., sidepanel)
@@ -44,11 +111,14 @@ export default defineBackground({
         });
 
         // Auto-extract JD when tab updates to a job page
-        chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+        chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
             if (changeInfo.status === "complete" && tab.url) {
-                if (tab.url.includes("linkedin.com/jobs") || tab.url.includes("indeed.com")) {
+                // Same rules as the content script: the user's per-domain rules, then built-in guesses
+                const { siteRules } = await loadSettings();
+                if (isJobUrl(tab.url, siteRules)) {
                     console.log("Detected job page, triggering extraction");
                     chrome.tabs.sendMessage(tabId, { type: "GET_JD" }, (response) => {
+                        if (chrome.runtime.lastError) return; // No content script (e.g. board access not granted)
                         if (response && response.data) {
                             chrome.runtime.sendMessage({ type: "JD_FOUND", data: response.data }).catch(() => { });
                         }
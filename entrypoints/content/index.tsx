@@ -1,119 +1,98 @@
 import { defineContentScript } from "wxt/utils/define-content-script";
+import { createShadowRootUi } from "wxt/utils/content-script-ui/shadow-root";
+import type { ContentScriptContext } from "wxt/utils/content-script-context";
 import ReactDOM from "react-dom/client";
 import React from "react";
 import FloatingButton from "../../components/FloatingButton";
 import FloatingOverlay from "../../components/FloatingOverlay";
 import SidepanelApp from "../sidepanel/App";
-import { loadSettings } from "../../utils/settings";
-import "../../entrypoints/sidepanel/style.css";
-
-function getElementText(el: Element | null): string {
-    if (!el) return "";
-    const anyEl = el as any;
-    const text = (typeof anyEl.innerText === 'string' ? anyEl.innerText : el.textContent) || "";
-    return text.replace(/\s+\n/g, "\n").replace(/\n\s+/g, "\n").trim();
-}
+import { loadSettings, setColorModeRoot } from "../../utils/settings";
+import { loadSkillAliases } from "../../utils/skills";
+import { PortalTargetContext } from "../../components/PortalTarget";
+import { extractJobData, hasStructuredJobPosting, loadCustomSelectors, getCustomSelector, saveCustomSelector, CUSTOM_SELECTORS_KEY } from "../../utils/extractors";
+import type { JobData, CustomSelector } from "../../utils/extractors";
+import { startElementPicker, buildSelector, setElementPickHandler } from "../../utils/elementPicker";
+import { handleHighlightCommand, subscribeHighlightState } from "../../utils/keywordHighlighter";
+import { startJobWatcher, onExtractionEvent } from "../../utils/jobWatcher";
+import { JOB_SITE_MATCHES, applySiteRules, findSiteRule, isKnownJobUrl } from "../../utils/jobSites";
+import type { SiteRule } from "../../utils/jobSites";
+import { cacheJobDetail, startFitBadges, supportsFitBadges } from "../../utils/fitBadges";
+import { createFrameJobPicker, isTopFrame, reportFrameJob } from "../../utils/frameJobs";
+import { archiveJob, snapshotJobHtml, textToHtml } from "../../utils/jobArchive";
+import type { FrameJobReport } from "../../utils/frameJobs";
+import "./style.css";
+
+// The user's per-domain rules and archive preference from settings, kept in sync with storage
+let siteRules: SiteRule[] = [];
+let archiveEnabled = false;
 
 function isLikelyJobPage(): boolean {
-    const url = window.location.href.toLowerCase();
-    const isJob = url.includes("linkedin.com/jobs") ||
-        url.includes("linkedin.com/jobs") ||
-        (url.includes("linkedin.com") && (url.includes("/jobs") || url.includes("/job/"))) ||
-        url.includes("indeed.com") ||
-        url.includes("glassdoor.com") ||
-        url.includes("wellfound.com") ||
-        url.includes("career") ||
-        url.includes("/job/") ||
-        url.includes("/jobs/") ||
-        url.includes("apply");
+    const url = window.location.href;
+    // The user's rules decide outright; otherwise guess from the URL and the page
+    const verdict = applySiteRules(url, siteRules);
+    const isJob = verdict
+        ? verdict === "job"
+        : isKnownJobUrl(url) ||
+        !!getCustomSelector(window.location.hostname) ||
+        hasStructuredJobPosting(document);
 
     console.log("JD Scan: Path check", { url, isJob });
     return isJob;
 }
 
-function extractJobData(): { jd: string; title: string; company: string; debug?: any } {
-    let jd = "";
-    let title = "";
-    let company = "";
-    const debug: any = { tried: [], found: null, textLength: 0 };
-
-    // LinkedIn Specifics - Try multiple strategies
-    const linkedInSelectors = [
-        // Job description containers
-        ".jobs-description__content",
-        ".jobs-description-content__text",
-        ".jobs-description-content",
-        ".jobs-box__html-content",
-        "#job-details",
-        ".jobs-search__job-details",
-        ".jobs-search__job-details--wrapper",
-        ".jobs-search__job-details--container",
-        ".jobs-details__main-content",
-        ".jobs-details__container",
-        ".job-view-layout",
-        "section.jobs-description",
-        "[class*='jobs-description']",
-        // More aggressive - any section with job-related text
-        ".jobs-unified-top-card~div",
-        ".jobs-search__right-rail",
-    ];
-
-    for (const selector of linkedInSelectors) {
-        const el = document.querySelector(selector);
-        debug.tried.push({ selector, found: !!el });
-        if (el) {
-            const text = getElementText(el);
-            debug.found = { selector, textLength: text.length, preview: text.slice(0, 100) };
-            if (text.length > jd.length && text.length > 50) {
-                jd = text;
-            }
-        }
-    }
-
-    // If we found something, try to get title/company
-    if (jd) {
-        title = getElementText(document.querySelector(".jobs-unified-top-card__job-title")) ||
-            getElementText(document.querySelector("h1")) ||
-            getElementText(document.querySelector(".t-24.t-bold")) ||
-            getElementText(document.querySelector("[class*='job-title']")) || "";
-        company = getElementText(document.querySelector(".jobs-unified-top-card__company-name")) ||
-            getElementText(document.querySelector(".jobs-unified-top-card__primary-description")) ||
-            getElementText(document.querySelector(".jobs-company__name")) ||
-            getElementText(document.querySelector("[class*='company-name']")) || "";
-    }
-
-    // Fallback: Look for job description by searching for common job description patterns
-    if (!jd || jd.length < 100) {
-        const allSections = document.querySelectorAll('section, article, div[role="main"], .jobs-box');
-        for (const section of Array.from(allSections)) {
-            const text = getElementText(section);
-            // Look for sections with job-related keywords and decent length
-            if (text.length > 200 && text.length < 10000) {
-                const hasJobKeywords = /(?:requirements?|responsibilities?|qualifications?|experience|skills?|about (?:the )?job|description)/i.test(text);
-                if (hasJobKeywords && text.length > (jd?.length || 0)) {
-                    jd = text;
-                    debug.fallback = { type: 'keyword-search', selector: section.className || section.tagName, length: text.length };
-                }
+/**
+ * Hand extracted job data to the side panel: message first, storage as the reliable fallback.
+ * `html` is the sanitized description markup kept in the job archive.
+ */
+function publishJobData(data: JobData, html?: string) {
+    console.log("JD Scan: Sending JD_FOUND", { title: data.title, jdLength: data.jd.length });
+
+    // Method 1: Try sendMessage (may fail if sidepanel not ready)
+    try {
+        chrome.runtime.sendMessage({ type: "JD_FOUND", data }, (response) => {
+            if (chrome.runtime.lastError) {
+                console.error("JD Scan: Send failed (expected if sidepanel closed)", chrome.runtime.lastError.message);
+            } else {
+                console.log("JD Scan: Send succeeded", response);
             }
-        }
+        });
+    } catch (e) {
+        console.error("JD Scan: Send error", e);
     }
 
-    // Last resort: Look at the right rail specifically
-    if (!jd || jd.length < 100) {
-        const rightRail = document.querySelector('.jobs-search__right-rail, .jobs-details__main-content, [class*="job-details"]');
-        if (rightRail) {
-            const text = getElementText(rightRail);
-            if (text.length > jd.length) {
-                jd = text;
-                debug.lastResort = { found: true, length: text.length };
-            }
+    // Method 2: Also write to storage (reliable fallback)
+    chrome.storage?.local?.set({
+        jdScan_lastJob: {
+            data,
+            timestamp: Date.now(),
+            url: window.location.href
         }
+    }).then(() => {
+        console.log("JD Scan: Saved to storage");
+    }).catch((err) => {
+        console.error("JD Scan: Storage save failed", err);
+    });
+
+    // Let fit badges on the results list use the full description
+    cacheJobDetail(window.location.href, data.jd).catch(() => { });
+
+    if (archiveEnabled) {
+        archiveJob(data, window.location.href, html || textToHtml(data.jd))
+            .catch((err) => console.error("JD Scan: Failed to archive job", err));
     }
+}
 
-    debug.final = { jdLength: jd.length, title, company };
-    console.log("JD Scan: Extraction debug", debug);
-
-    return { jd, title, company, debug };
+/**
+ * Let the user point at the real job description and remember it for this site
+ */
+async function pickJobElement(): Promise<boolean> {
+    const element = await startElementPicker();
+    if (!element) return false;
+
+    const selector = buildSelector(element);
+    await saveCustomSelector(window.location.hostname, selector);
+    console.log("JD Scan: Saved picked selector", { host: window.location.hostname, selector });
+    return true;
 }
 
 // Content script overlay — SidepanelApp manages its own overlay/button UI internally
@@ -123,18 +102,12 @@ const OverlayApp = () => {
     React.useEffect(() => {
         console.log("JD Scan: OverlayApp mounted, isJobPage=", isJobPage);
 
-        // Monitor URL changes for SPAs (LinkedIn, etc.)
-        let lastUrl = window.location.href;
-        const urlObserver = new MutationObserver(() => {
-            if (window.location.href !== lastUrl) {
-                const currentIsJob = isLikelyJobPage();
-                console.log("JD Scan: URL changed", { from: lastUrl, to: window.location.href, isJob: currentIsJob });
-                lastUrl = window.location.href;
-                setIsJobPage(currentIsJob);
+        // Follow SPA navigations (LinkedIn, etc.) and rule changes reported by the job watcher
+        return onExtractionEvent((event) => {
+            if (event.type === "navigation" || event.type === "extraction-started") {
+                setIsJobPage(isLikelyJobPage());
             }
         });
-        urlObserver.observe(document, { subtree: true, childList: true });
-        return () => urlObserver.disconnect();
     }, []);
 
     if (!isJobPage) {
@@ -152,156 +125,269 @@ const OverlayApp = () => {
     );
 };
 
-export default defineContentScript({
-    matches: ["*://*.linkedin.com/*", "*://*.indeed.com/*", "*://*.glassdoor.com/*", "*://*.wellfound.com/*"],
-    async main() {
-        console.log("JD Scan content script loaded");
+/** What a frame started, so it can stop when the user switches the site off */
+interface RunningFrame {
+    stop: () => void;
+    /** Re-check the page after the site's rules changed */
+    refresh: () => void;
+}
 
-        // Wait for document.body to be available
-        const initializeExtension = () => {
-            if (!document.body) {
-                console.log("JD Scan: Waiting for document.body...");
-                setTimeout(initializeExtension, 100);
-                return;
-            }
+/**
+ * Embedded job boards only extract and report to the top frame, which owns the UI
+ */
+function startSubFrame(): RunningFrame {
+    const offEvent = onExtractionEvent((event) => {
+        if (event.type === "job-lost") reportFrameJob(null);
+    });
+    const watcher = startJobWatcher({
+        isJobPage: isLikelyJobPage,
+        publish: (data, element) => reportFrameJob(data, element, archiveEnabled),
+    });
+    return {
+        stop: () => {
+            offEvent();
+            watcher.stop();
+            reportFrameJob(null);
+        },
+        refresh: () => watcher.refresh(),
+    };
+}
+
+/**
+ * Detection, the overlay, highlights and fit badges on the page the user is on
+ */
+function startTopFrame(ctx: ContentScriptContext): RunningFrame {
+    setElementPickHandler(pickJobElement);
+
+    // This frame's job and those of embedded boards compete; the best one is published
+    const framePicker = createFrameJobPicker(publishJobData);
+
+    // Let the rest of the extension follow extraction progress
+    const offEvent = onExtractionEvent((event) => {
+        chrome.runtime.sendMessage({ type: "EXTRACTION_EVENT", event }).catch(() => { });
+        if (event.type === "job-lost") framePicker.offerOwn(null);
+        // Taken down by a rule edit; back once a job turns up on a page that qualifies
+        if (event.type === "job-found") showOverlay();
+    });
+
+    // Extract on load and on SPA navigations to another job
+    const watcher = startJobWatcher({
+        isJobPage: isLikelyJobPage,
+        publish: (data, element) => framePicker.offerOwn(data, archiveEnabled ? snapshotJobHtml(element, data.jd) : undefined),
+    });
+
+    // Re-extract as soon as this site's picked selector is saved or forgotten
+    const selectorListener = (changes: Record<string, chrome.storage.StorageChange>, namespace: string) => {
+        const change = changes[CUSTOM_SELECTORS_KEY];
+        if (namespace !== "local" || !change) return;
+        const host = window.location.hostname;
+        const before = (change.oldValue as Record<string, CustomSelector> | undefined)?.[host]?.selector;
+        const after = (change.newValue as Record<string, CustomSelector> | undefined)?.[host]?.selector;
+        if (before === after) return;
+
+        watcher.refresh();
+    };
+    chrome.storage.onChanged.addListener(selectorListener);
+
+    let stopped = false;
+    let overlayWanted = true;
+    let mounting = false;
+    let overlayUi: { remove: () => void } | null = null;
+
+    // Wait for document.body to be available
+    const initializeExtension = async () => {
+        if (stopped || !overlayWanted || overlayUi || mounting) return;
+        if (!document.body) {
+            console.log("JD Scan: Waiting for document.body...");
+            setTimeout(initializeExtension, 100);
+            return;
+        }
 
-            // Always create container if we're on a supported host
-            const container = document.createElement('div');
-            container.id = 'jd-scan-overlay-root';
-            container.style.position = 'fixed';
-            container.style.zIndex = '2147483647'; // Maximum possible z-index
-            container.style.top = '0';
-            container.style.left = '0';
-            container.style.width = '0';
-            container.style.height = '0';
-            container.style.overflow = 'visible';
-            container.style.pointerEvents = 'none';
-            document.body.appendChild(container);
-
-            // Render the overlay
-            const root = ReactDOM.createRoot(container);
-            root.render(
-                <React.StrictMode>
-                    <OverlayApp />
-                </React.StrictMode>
-            );
-        };
-
-        // Start initialization
+        // The whole overlay lives in a shadow root: the page's CSS can't reach in, ours can't leak out
+        mounting = true;
+        const ui = await createShadowRootUi(ctx, {
+            name: "jd-scan-overlay",
+            position: "inline",
+            anchor: "body",
+            append: "last",
+            // Keep typing in our inputs from triggering the site's keyboard shortcuts
+            isolateEvents: true,
+            onMount: (uiContainer, _shadow, shadowHost) => {
+                shadowHost.id = "jd-scan-overlay-root";
+                Object.assign(shadowHost.style, {
+                    position: "fixed",
+                    zIndex: "2147483647", // Maximum possible z-index
+                    top: "0",
+                    left: "0",
+                    width: "0",
+                    height: "0",
+                    overflow: "visible",
+                    pointerEvents: "none",
+                });
+
+                // Theme root: applyColorMode toggles `dark` here instead of on the page's <html>
+                const themeRoot = document.createElement("div");
+                themeRoot.className = "jd-scan-theme";
+                uiContainer.appendChild(themeRoot);
+                setColorModeRoot(themeRoot);
+
+                // Portals (modals, popovers) must stay inside the shadow root to get our styles
+                const portalTarget = document.createElement("div");
+                portalTarget.className = "jd-scan-portal";
+                themeRoot.appendChild(portalTarget);
+
+                const appRoot = document.createElement("div");
+                themeRoot.insertBefore(appRoot, portalTarget);
+
+                const root = ReactDOM.createRoot(appRoot);
+                root.render(
+                    <React.StrictMode>
+                        <PortalTargetContext.Provider value={portalTarget}>
+                            <OverlayApp />
+                        </PortalTargetContext.Provider>
+                    </React.StrictMode>
+                );
+                return root;
+            },
+            onRemove: (root) => root?.unmount(),
+        });
+        mounting = false;
+        // Switched off or taken down while the stylesheet loaded
+        if (stopped || !overlayWanted) return;
+        ui.mount();
+        overlayUi = ui;
+    };
+
+    const showOverlay = () => {
+        overlayWanted = true;
         initializeExtension();
+    };
+
+    const hideOverlay = () => {
+        overlayWanted = false;
+        handleHighlightCommand({ action: "hide" });
+        overlayUi?.remove();
+        overlayUi = null;
+    };
+
+    // Start initialization
+    initializeExtension();
+
+    // Message listener for commands
+    const messageListener = (request: any, sender: any, sendResponse: any) => {
+        if (request.type === "GET_JD") {
+            const data = framePicker.best(extractJobData());
+            sendResponse({ type: "JD_RESULT", data });
+            return true;
+        }
 
-        // Message listener for commands
-        chrome.runtime.onMessage.addListener((request: any, sender: any, sendResponse: any) => {
-            if (request.type === "GET_JD") {
-                const data = extractJobData();
-                sendResponse({ type: "JD_RESULT", data });
-                return true;
-            }
+        if (request.type === "FRAME_JOB_CANDIDATE") {
+            framePicker.offerFrame(request as FrameJobReport);
+            // Acknowledge, or the background takes this frame's job as the only one
+            sendResponse({ received: true });
+            return;
+        }
 
-            if (request.type === "SCAN_PAGE") {
-                const data = extractJobData();
-                if (data.jd) {
-                    chrome.runtime.sendMessage({ type: "JD_FOUND", data }).catch(() => { });
-                }
-                return true;
+        if (request.type === "START_ELEMENT_PICKER") {
+            pickJobElement().then((picked) => sendResponse({ picked }));
+            return true;
+        }
+
+        if (request.type === "HIGHLIGHT_KEYWORDS") {
+            sendResponse(handleHighlightCommand(request.command));
+            return true;
+        }
+
+        if (request.type === "SCAN_PAGE") {
+            const data = framePicker.best(extractJobData());
+            if (data?.jd) {
+                chrome.runtime.sendMessage({ type: "JD_FOUND", data }).catch(() => { });
             }
-        });
+            return true;
+        }
+    };
+    chrome.runtime.onMessage.addListener(messageListener);
+
+    // Keep the side panel's highlight toggle in sync with the on-page legend
+    const offHighlightState = subscribeHighlightState((state) => {
+        chrome.runtime.sendMessage({ type: "HIGHLIGHT_STATE", state }).catch(() => { });
+    });
+
+    // Score job cards on search result lists
+    const stopFitBadges = supportsFitBadges() ? startFitBadges() : null;
+
+    return {
+        stop: () => {
+            stopped = true;
+            offEvent();
+            watcher.stop();
+            framePicker.stop();
+            chrome.storage.onChanged.removeListener(selectorListener);
+            chrome.runtime.onMessage.removeListener(messageListener);
+            handleHighlightCommand({ action: "hide" });
+            offHighlightState();
+            stopFitBadges?.();
+            overlayUi?.remove();
+        },
+        refresh: () => {
+            // The edited rules may no longer count this page as a job page:
+            // the watcher then forgets its job and the overlay comes down
+            if (isLikelyJobPage()) showOverlay();
+            else hideOverlay();
+            watcher.refresh();
+        },
+    };
+}
 
-        // Proactively send JD if we think we are on a job page
-        if (isLikelyJobPage()) {
-            console.log("JD Scan: Starting proactive JD detection on", window.location.href);
-            let lastSentKey = "";
-            let debounceTimer: number | null = null;
-            let attempts = 0;
-            const maxAttempts = 20;
-
-            // Define pollJD first
-            const pollJD = (attemptNum: number = 1) => {
-                const data = extractJobData();
-                const jdOk = data.jd.length >= 80;
-                const key = `${data.title}::${data.company}::${data.jd.slice(0, 300)}`;
-
-                console.log(`JD Scan: Poll attempt ${attemptNum}`, { jdOk, jdLength: data.jd.length, title: data.title, company: data.company, keyPreview: key.slice(0, 50) });
-
-                if (jdOk && key !== lastSentKey) {
-                    lastSentKey = key;
-                    console.log("JD Scan: Sending JD_FOUND", { title: data.title, jdLength: data.jd.length });
-                    
-                    // Method 1: Try sendMessage (may fail if sidepanel not ready)
-                    try {
-                        chrome.runtime.sendMessage({ type: "JD_FOUND", data }, (response) => {
-                            if (chrome.runtime.lastError) {
-                                console.error("JD Scan: Send failed (expected if sidepanel closed)", chrome.runtime.lastError.message);
-                            } else {
-                                console.log("JD Scan: Send succeeded", response);
-                            }
-                        });
-                    } catch (e) {
-                        console.error("JD Scan: Send error", e);
-                    }
-                    
-                    // Method 2: Also write to storage (reliable fallback)
-                    chrome.storage?.local?.set({ 
-                        jdScan_lastJob: { 
-                            data, 
-                            timestamp: Date.now(),
-                            url: window.location.href 
-                        } 
-                    }).then(() => {
-                        console.log("JD Scan: Saved to storage");
-                    }).catch((err) => {
-                        console.error("JD Scan: Storage save failed", err);
-                    });
-                    
-                    return true;
-                }
-                if (!jdOk) {
-                    console.log("JD Scan: JD not ready yet (length < 80)");
-                } else if (key === lastSentKey) {
-                    console.log("JD Scan: JD unchanged, skipping send");
-                }
-                return false;
-            };
-
-            const schedulePoll = (delayMs: number) => {
-                if (debounceTimer) window.clearTimeout(debounceTimer);
-                debounceTimer = window.setTimeout(() => {
-                    attempts++;
-                    const success = pollJD(attempts);
-                    if (!success && attempts < maxAttempts) {
-                        console.log(`JD Scan: Will retry (${attempts}/${maxAttempts})`);
-                        // Actually schedule the next retry!
-                        schedulePoll(1000);
-                    }
-                }, delayMs);
-            };
-
-            // Start polling
-            schedulePoll(500);
-            schedulePoll(1500);
-            schedulePoll(3000);
-
-            // LinkedIn SPA mutation observer
-            const domObserver = new MutationObserver((mutations) => {
-                const hasMeaningfulChange = mutations.some(m => 
-                    m.type === 'childList' && 
-                    ((m.target as Element).className?.includes('jobs') || 
-                    (m.target as Element).className?.includes('description'))
-                );
-                if (hasMeaningfulChange && isLikelyJobPage()) {
-                    console.log("JD Scan: Detected DOM change in job area");
-                    schedulePoll(600);
-                }
-            });
-            domObserver.observe(document.documentElement, { subtree: true, childList: true });
-
-            // Poll on clicks
-            document.addEventListener('click', () => {
-                console.log("JD Scan: Click detected, scheduling poll");
-                attempts = 0;
-                schedulePoll(800);
-                schedulePoll(2000);
-            });
+export default defineContentScript({
+    matches: JOB_SITE_MATCHES,
+    // Styles go into the overlay's shadow root, never into the job site
+    cssInjectionMode: "ui",
+    // Career sites embed hosted boards in iframes; those frames report to the top one
+    allFrames: true,
+    async main(ctx) {
+        console.log("JD Scan content script loaded");
+
+        // Selectors the user picked for this site take part in every extraction
+        await loadCustomSelectors().catch((err) => console.error("JD Scan: Failed to load picked selectors", err));
+        // Fit badges and highlights match skills through the user's aliases too
+        await loadSkillAliases().catch((err) => console.error("JD Scan: Failed to load skill aliases", err));
+
+        const settings = await loadSettings();
+        siteRules = settings.siteRules || [];
+        archiveEnabled = settings.archiveJobs;
+
+        const start = () => (isTopFrame() ? startTopFrame(ctx) : startSubFrame());
+        let running: RunningFrame | null = null;
+        if (applySiteRules(window.location.href, siteRules) === "disabled") {
+            console.log("JD Scan: Disabled on this site by the user");
+        } else {
+            running = start();
         }
+
+        // Rules for this site edited in settings: re-check now, shut down if the
+        // site was switched off, or start up if it was switched back on
+        chrome.storage.onChanged.addListener((changes, namespace) => {
+            const change = changes.userSettings;
+            if (namespace !== "local" || !change) return;
+            const href = window.location.href;
+            const before = findSiteRule(href, siteRules);
+            const updated = change.newValue as { siteRules?: SiteRule[]; archiveJobs?: boolean } | undefined;
+            siteRules = updated?.siteRules || [];
+            archiveEnabled = updated?.archiveJobs ?? archiveEnabled;
+            const after = findSiteRule(href, siteRules);
+            if (JSON.stringify(before) === JSON.stringify(after)) return;
+
+            if (after?.disabled) {
+                if (running) console.log("JD Scan: Disabled on this site by the user");
+                running?.stop();
+                running = null;
+            } else if (running) {
+                running.refresh();
+            } else {
+                console.log("JD Scan: Enabled on this site again");
+                running = start();
+            }
+        });
     },
 });
@@ -0,0 +1,14 @@
+import { defineContentScript } from "wxt/utils/define-content-script";
+import { JOB_SITE_MATCHES } from "../utils/jobSites";
+import { installNavigationHook } from "../utils/navigationHook";
+
+// Main-world companion of the content script: reports SPA navigations
+export default defineContentScript({
+    matches: JOB_SITE_MATCHES,
+    world: "MAIN",
+    runAt: "document_start",
+    allFrames: true,
+    main() {
+        installNavigationHook();
+    },
+});
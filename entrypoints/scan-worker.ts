@@ -0,0 +1,30 @@
+import { defineUnlistedScript } from "wxt/utils/define-unlisted-script";
+import { runScanJob } from "../utils/scanWorker";
+import type { ScanWorkerMessage, ScanWorkerRequest } from "../utils/scanWorker";
+import { setSkillAliases } from "../utils/skills";
+
+// Dedicated worker that runs local scans off the UI thread (see utils/scanWorker)
+export default defineUnlistedScript(() => {
+    const scope = self as unknown as {
+        addEventListener(type: "message", listener: (event: MessageEvent<ScanWorkerRequest>) => void): void;
+        postMessage(message: ScanWorkerMessage): void;
+    };
+    let aliases = "";
+
+    scope.addEventListener("message", async (event) => {
+        const { id, job, skillAliases, assetBase } = event.data;
+        // Rebuilding the skill index is costly; only do it when the aliases changed
+        const aliasKey = JSON.stringify(skillAliases);
+        if (aliasKey !== aliases) {
+            aliases = aliasKey;
+            setSkillAliases(skillAliases);
+        }
+
+        try {
+            const results = await runScanJob(job, assetBase, (progress) => scope.postMessage({ type: "progress", id, progress }));
+            scope.postMessage({ type: "done", id, results });
+        } catch (error) {
+            scope.postMessage({ type: "error", id, message: error instanceof Error ? error.message : String(error) });
+        }
+    });
+});
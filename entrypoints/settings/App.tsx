@@ -4,7 +4,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { Monitor, Moon, Sun, Layout, Layers, Bell, Zap, Cpu, Key, CheckCircle2, AlertCircle, Loader2, Power, Trash2, Sparkles, Shield, ArrowLeft } from 'lucide-react';
+import { Monitor, Moon, Sun, Layout, Layers, Bell, Zap, Cpu, Key, CheckCircle2, AlertCircle, Loader2, Power, Trash2, Sparkles, Shield, Gauge, ArrowLeft, Archive, WholeWord, Brain } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { loadSettings, saveSettings, UserSettings, DEFAULT_SETTINGS, applyColorMode } from '../../utils/settings';
 import { 
@@ -19,6 +19,9 @@ import {
   LLMAPIConfig 
 } from '../../utils/api';
 import SearchableDropdown, { DropdownOption } from '../../components/SearchableDropdown';
+import PlatformAccessSettings from '../../components/PlatformAccessSettings';
+import SiteRulesSettings from '../../components/SiteRulesSettings';
+import SkillAliasSettings from '../../components/SkillAliasSettings';
 
 export default function App() {
   const [activeTab, setActiveTab] = useState<'general' | 'llm'>('general');
@@ -382,6 +385,11 @@ export default function App() {
                       {[
                         { id: 'autoScan', label: 'Auto-scan pages', desc: 'Automatically detect job descriptions', icon: Zap },
                         { id: 'showNotifications', label: 'Notifications', desc: 'Show scan completion alerts', icon: Bell },
+                        { id: 'showFitBadges', label: 'Fit badges', desc: 'Score job cards in LinkedIn and Indeed search results', icon: Gauge },
+                        { id: 'archiveJobs', label: 'Job archive', desc: 'Keep a snapshot of every captured job posting', icon: Archive },
+                        { id: 'stemming', label: 'Match word forms', desc: 'Count managed and management as one keyword; off for exact-match ATS simulation', icon: WholeWord },
+                        { id: 'semanticMatch', label: 'Semantic match', desc: 'Pair each JD requirement with your closest resume bullet and blend that into local scores', icon: Brain },
+                        { id: 'semanticModel', label: 'On-device model', desc: 'Score semantic match with the bundled embedding model; off uses lighter TF-IDF similarity', icon: Cpu },
                       ].map((pref) => (
                         <label
                           key={pref.id}
@@ -407,6 +415,12 @@ export default function App() {
                     </div>
                   </section>
 
+                  <PlatformAccessSettings />
+
+                  <SiteRulesSettings rules={settings.siteRules || []} onChange={(siteRules) => handleSettingsChange({ siteRules })} />
+
+                  <SkillAliasSettings />
+
                   {/* LLM Config Selection */}
                   <section>
                     <div className="flex items-center gap-2 mb-5">
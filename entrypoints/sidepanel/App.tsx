@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import {
     FileText,
     ScanLine,
@@ -25,31 +25,48 @@ import {
     Globe,
     Building2,
     Briefcase,
-    Cpu
+    Cpu,
+    MapPin,
+    Banknote,
+    Star,
+    Highlighter,
+    SkipForward,
+    Crosshair,
+    Award,
+    ShieldCheck,
+    AlertTriangle,
+    Info,
+    Brain
 } from "lucide-react";
-import { scanMultipleResumes } from "../../utils/atsScanner";
+import type { CategoryScore } from "../../utils/atsScanner";
+import type { ExperienceMatch } from "../../utils/experience";
+import type { CredentialMatch, CredentialStatus } from "../../utils/credentials";
+import { STUFFING_SIGNAL_LABELS } from "../../utils/keywordStuffing";
+import type { StuffingReport } from "../../utils/keywordStuffing";
+import type { SemanticResult } from "../../utils/semantic";
+import { scanInBackground } from "../../utils/scanWorker";
+import type { ScanJob, ScanProgress } from "../../utils/scanWorker";
+import { KEYWORD_CATEGORY_LABELS } from "../../utils/keyphrases";
+import type { JobData } from "../../utils/extractors";
+import { parseJDSections, SECTION_LABELS, JDSectionKind } from "../../utils/jdSections";
+import { formatSalary, WORKPLACE_LABELS, SENIORITY_LABELS, EMPLOYMENT_TYPE_LABELS } from "../../utils/jobMetadata";
+import { requestElementPick } from "../../utils/elementPicker";
+import { onExtractionEvent, ExtractionEvent } from "../../utils/jobWatcher";
+import { sendHighlightCommand, subscribeHighlightState, HighlightState } from "../../utils/keywordHighlighter";
 import { loadSettings, saveSettings, UserSettings, DEFAULT_SETTINGS, applyColorMode } from "../../utils/settings";
+import { loadSkillAliases } from "../../utils/skills";
 import { getSessionId } from "../../utils/session";
 import { scanResumeATS, fetchLLMConfigs, LLMAPIConfig } from "../../utils/api";
 import SettingsModal from "../../components/SettingsModal";
+import ExtractionDiagnostics from "../../components/ExtractionDiagnostics";
+import JobArchive from "../../components/JobArchive";
 import FloatingOverlay from "../../components/FloatingOverlay";
 import FloatingButton from "../../components/FloatingButton";
-
-interface JobData {
-    jd: string;
-    title: string;
-    company: string;
-}
-
-interface Resume {
-    id: string;
-    name: string;
-    content: string;
-    fileSize: number;
-    fileType: string;
-    uploadedAt: string;
-    selected: boolean;
-}
+import type { Resume } from "../../utils/resumes";
+import { withParsedResume, withResumeLint } from "../../utils/resumes";
+import { parseResume } from "../../utils/resumeParser";
+import { inspectResumeFile, lintResume, LINT_SEVERITY_LABELS } from "../../utils/resumeLint";
+import type { LintSeverity, ResumeFileFacts, ResumeLintReport } from "../../utils/resumeLint";
 
 interface UploadingFile {
     id: string;
@@ -65,6 +82,11 @@ interface ScanResult {
     matchedKeywords: string[];
     missingKeywords: string[];
     suggestions: string[];
+    categories?: CategoryScore[];
+    experience?: ExperienceMatch[];
+    credentials?: CredentialMatch[];
+    stuffing?: StuffingReport;
+    semantic?: SemanticResult;
 }
 
 const FILE_TYPE_CONFIG: Record<string, { color: string; bg: string; border: string; label: string }> = {
@@ -74,6 +96,49 @@ const FILE_TYPE_CONFIG: Record<string, { color: string; bg: string; border: stri
     "text/plain": { color: "text-slate-600 dark:text-slate-300", bg: "bg-slate-100 dark:bg-slate-800/50", border: "border-slate-200 dark:border-slate-700", label: "TXT" },
 };
 
+const CREDENTIAL_STATUS: Record<CredentialStatus, { label: string; className: string }> = {
+    met: { label: "Met", className: "bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400" },
+    equivalent: { label: "Equiv.", className: "bg-sky-50 text-sky-700 dark:bg-sky-900/20 dark:text-sky-400" },
+    partial: { label: "Partial", className: "bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400" },
+    unmet: { label: "Missing", className: "bg-rose-50 text-rose-700 dark:bg-rose-900/20 dark:text-rose-400" },
+};
+
+const LINT_SEVERITY_STYLE: Record<LintSeverity, { icon: typeof Info; className: string }> = {
+    error: { icon: AlertCircle, className: "text-rose-500" },
+    warning: { icon: AlertTriangle, className: "text-amber-500" },
+    info: { icon: Info, className: "text-sky-500" },
+};
+
+const SECTION_COLORS: Record<JDSectionKind, string> = {
+    summary: "text-slate-600 dark:text-slate-300",
+    about: "text-slate-500 dark:text-slate-400",
+    responsibilities: "text-brand-600 dark:text-brand-400",
+    requirements: "text-rose-600 dark:text-rose-400",
+    niceToHave: "text-amber-600 dark:text-amber-400",
+    benefits: "text-green-600 dark:text-green-400",
+    other: "text-muted-foreground",
+};
+
+/** Issue count of the worst severity in a readiness report */
+function LintBadge({ report }: { report: ResumeLintReport }) {
+    const worst = report.issues.find((issue) => issue.severity !== "info")?.severity;
+    if (!worst) {
+        return <span className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400">ATS OK</span>;
+    }
+    const count = report.issues.filter((issue) => issue.severity === worst).length;
+    return (
+        <span
+            className={`text-[9px] font-bold px-1.5 py-0.5 rounded ${worst === "error"
+                ? "bg-rose-50 text-rose-700 dark:bg-rose-900/20 dark:text-rose-400"
+                : "bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400"
+                }`}
+            title={report.issues.map((issue) => `${LINT_SEVERITY_LABELS[issue.severity]}: ${issue.message}`).join("\n")}
+        >
+            {count} {worst === "error" ? `ATS error${count > 1 ? "s" : ""}` : `warning${count > 1 ? "s" : ""}`}
+        </span>
+    );
+}
+
 function getFileTypeConfig(type: string) {
     return FILE_TYPE_CONFIG[type] || { color: "text-slate-500 dark:text-slate-300", bg: "bg-slate-50 dark:bg-slate-800/50", border: "border-slate-100 dark:border-slate-700", label: "FILE" };
 }
@@ -111,8 +176,9 @@ export default function App() {
     const [jobData, setJobData] = useState<JobData>({ jd: "", title: "", company: "" });
     const [isManualMode, setIsManualMode] = useState(false);
     const [scanning, setScanning] = useState(false);
+    const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
     const [results, setResults] = useState<ScanResult[]>([]);
-    const [activeTab, setActiveTab] = useState<'match' | 'resumes' | 'history'>('match');
+    const [activeTab, setActiveTab] = useState<'match' | 'resumes' | 'archive'>('match');
     const [isDragOver, setIsDragOver] = useState(false);
     const [uploadingFiles, setUploadingFiles] = useState<UploadingFile[]>([]);
     const [showUploadZone, setShowUploadZone] = useState(false);
@@ -120,6 +186,12 @@ export default function App() {
     const [showSettings, setShowSettings] = useState(false);
     const [isOverlayExpanded, setIsOverlayExpanded] = useState(false);
     const [llmConfigs, setLlmConfigs] = useState<LLMAPIConfig[]>([]);
+    const [expandedSections, setExpandedSections] = useState<Record<number, boolean>>({});
+    const [picking, setPicking] = useState(false);
+    const [detection, setDetection] = useState<'idle' | 'detecting' | 'not-found'>('idle');
+    const [highlight, setHighlight] = useState<{ resumeId: string; state: HighlightState } | null>(null);
+    const highlightRef = useRef(highlight);
+    highlightRef.current = highlight;
     const fileInputRef = useRef<HTMLInputElement>(null);
     const dropZoneRef = useRef<HTMLDivElement>(null);
     const dragCounter = useRef(0);
@@ -130,6 +202,7 @@ export default function App() {
             const loaded = await loadSettings();
             setSettings(loaded);
             applyColorMode(loaded.colorMode);
+            await loadSkillAliases().catch((err) => console.error("JD Scan: Failed to load skill aliases", err));
 
             const configs = await fetchLLMConfigs();
             setLlmConfigs(configs);
@@ -156,7 +229,13 @@ export default function App() {
     useEffect(() => {
         chrome.storage?.local?.get("resumes", (data) => {
             if (data?.resumes && Array.isArray(data.resumes)) {
-                setResumes(data.resumes as Resume[]);
+                // Resumes stored before the structure parser (or by an older one) are parsed once here
+                const stored = data.resumes as Resume[];
+                const parsed = stored.map((resume) => withResumeLint(withParsedResume(resume)));
+                setResumes(parsed);
+                if (parsed.some((resume, i) => resume !== stored[i])) {
+                    chrome.storage.local.set({ resumes: parsed });
+                }
             }
         });
 
@@ -180,6 +259,12 @@ export default function App() {
                 setResults(msg.data);
                 setScanning(false);
             }
+            if (msg.type === "EXTRACTION_EVENT") {
+                applyExtractionEvent(msg.event);
+            }
+            if (msg.type === "HIGHLIGHT_STATE") {
+                applyHighlightState(msg.state);
+            }
             if (msg.type === "SETTINGS_UPDATED") {
                 setSettings(msg.settings);
                 applyColorMode(msg.settings.colorMode);
@@ -196,17 +281,56 @@ export default function App() {
                     if (!isManualMode) setIsManualMode(false);
                 }
             }
+            // Resumes can be added from outside the panel (context menu)
+            if (namespace === 'local' && changes.resumes && Array.isArray(changes.resumes.newValue)) {
+                setResumes(changes.resumes.newValue as Resume[]);
+            }
         };
 
         chrome.runtime?.onMessage.addListener(messageListener);
         chrome.storage?.onChanged?.addListener(storageListener);
+        // In overlay mode the highlighter runs in this same page
+        const unsubscribeHighlight = subscribeHighlightState(applyHighlightState);
+        const unsubscribeExtraction = onExtractionEvent(applyExtractionEvent);
 
         return () => {
             chrome.runtime?.onMessage.removeListener(messageListener);
             chrome.storage?.onChanged?.removeListener(storageListener);
+            unsubscribeHighlight();
+            unsubscribeExtraction();
         };
     }, []);
 
+    const applyExtractionEvent = (event: ExtractionEvent) => {
+        if (event.type === "extraction-started") setDetection("detecting");
+        if (event.type === "job-found" || event.type === "job-lost") setDetection("idle");
+        if (event.type === "job-not-found") setDetection("not-found");
+    };
+
+    // Changes made from the page (legend buttons, moving to another job)
+    const applyHighlightState = (state: HighlightState) => {
+        setHighlight((prev) => (prev && state.active ? { ...prev, state } : null));
+    };
+
+    const toggleHighlight = async (result: ScanResult) => {
+        if (highlight?.resumeId === result.resumeId && highlight.state.active) {
+            await sendHighlightCommand({ action: "hide" });
+            setHighlight(null);
+            return;
+        }
+        const state = await sendHighlightCommand({
+            action: "show",
+            matched: result.matchedKeywords,
+            missing: result.missingKeywords,
+        });
+        setHighlight({ resumeId: result.resumeId, state });
+    };
+
+    const jumpToNextMissing = async () => {
+        const state = await sendHighlightCommand({ action: "nextMissing" });
+        setHighlight((prev) => (prev ? { ...prev, state } : null));
+    };
+
     const handleSettingsChange = async (newSettings: Partial<UserSettings>) => {
         setSettings((prev) => {
             const updated = { ...prev, ...newSettings };
@@ -256,12 +380,20 @@ export default function App() {
                 );
 
                 let content = "";
-                if (file.type === "text/plain" || file.name.endsWith('.txt')) {
+                let facts: ResumeFileFacts | null = null;
+                const isText = file.type === "text/plain" || file.name.endsWith('.txt');
+                if (isText) {
                     content = await file.text();
                 } else {
-                    // For PDF/DOCX: read as text placeholder (real impl would use pdf-parse or mammoth)
-                    content = `Parsed content of ${file.name}`;
+                    // DOCX text is read from the file; PDF text still needs a parser (pdf-parse), so it stays a placeholder
+                    facts = await inspectResumeFile(file).catch((err) => {
+                        console.warn(`JD Scan: Could not inspect ${file.name}`, err);
+                        return null;
+                    });
+                    content = facts?.text || `Parsed content of ${file.name}`;
                 }
+                const parsed = parseResume(content);
+                const fileType = file.type || "text/plain";
 
                 await new Promise((r) => setTimeout(r, 200));
 
@@ -274,9 +406,11 @@ export default function App() {
                     name: file.name,
                     content,
                     fileSize: file.size,
-                    fileType: file.type || "text/plain",
+                    fileType,
                     uploadedAt: new Date().toISOString(),
                     selected: true,
+                    parsed,
+                    lint: lintResume({ text: isText || facts?.text ? content : undefined, parsed, file: facts, fileType }),
                 });
             } catch (err) {
                 setUploadingFiles((prev) =>
@@ -377,6 +511,24 @@ export default function App() {
 
     const selectedResumes = resumes.filter((r) => r.selected);
 
+    // Manually entered JDs have no sections yet; parse them on the fly
+    const jdSections = useMemo(
+        () => jobData.sections ?? (jobData.jd ? parseJDSections(jobData.jd) : []),
+        [jobData.jd, jobData.sections]
+    );
+
+    useEffect(() => {
+        setExpandedSections({});
+    }, [jobData.jd]);
+
+    // Highlights belong to one scan of one JD; drop them when either changes
+    useEffect(() => {
+        if (highlightRef.current?.state.active) {
+            sendHighlightCommand({ action: "hide" }).catch(() => { });
+        }
+        setHighlight(null);
+    }, [jobData.jd, results]);
+
     const fetchPageJD = () => {
         chrome.tabs.query({ active: true, currentWindow: true }, (tabs: any[]) => {
             if (tabs[0]?.id) {
@@ -390,6 +542,25 @@ export default function App() {
         });
     };
 
+    // The picked selector is saved by the page, which then re-sends the JD
+    const pickElementOnPage = async () => {
+        setPicking(true);
+        try {
+            await requestElementPick();
+        } finally {
+            setPicking(false);
+        }
+    };
+
+    const localScanJob = (toScan: Resume[]): ScanJob => ({
+        resumes: toScan.map((r) => ({ id: r.id, content: r.content, parsed: r.parsed, hiddenText: r.lint?.hiddenText })),
+        jobDescription: jobData.jd,
+        sections: jdSections,
+        stemming: settings.stemming,
+        title: jobData.title,
+        ...(settings.semanticMatch ? { semantic: { useModel: settings.semanticModel } } : {}),
+    });
+
     const startAIScan = async () => {
         if (!jobData.jd || selectedResumes.length === 0) return;
 
@@ -444,10 +615,7 @@ export default function App() {
                 } else {
                     // Fallback to local scanner if API fails
                     console.warn(`API scan failed for ${resume.name}, using local scanner:`, result.error);
-                    const localResult = scanMultipleResumes(
-                        [{ id: resume.id, content: resume.content }],
-                        jobData.jd
-                    );
+                    const localResult = await scanInBackground(localScanJob([resume]));
                     return localResult[0];
                 }
             });
@@ -457,29 +625,25 @@ export default function App() {
         } catch (error) {
             console.error('Scan failed:', error);
             // Fallback to local scanner on error
-            const scanResults = scanMultipleResumes(
-                selectedResumes.map((r) => ({ id: r.id, content: r.content })),
-                jobData.jd
-            );
+            const scanResults = await scanInBackground(localScanJob(selectedResumes));
             setResults(scanResults);
         } finally {
             setScanning(false);
         }
     };
 
-    const startLocalScan = () => {
+    const startLocalScan = async () => {
         if (!jobData.jd || selectedResumes.length === 0) return;
         setScanning(true);
         try {
-            const scanResults = scanMultipleResumes(
-                selectedResumes.map((r) => ({ id: r.id, content: r.content })),
-                jobData.jd
-            );
+            // Runs in the scan worker; progress arrives after each resume
+            const scanResults = await scanInBackground(localScanJob(selectedResumes), setScanProgress);
             setResults(scanResults);
         } catch (error) {
             console.error('Local scan failed:', error);
         } finally {
             setScanning(false);
+            setScanProgress(null);
         }
     };
 
@@ -535,7 +699,7 @@ export default function App() {
                 {[
                     { id: 'match', label: 'Match', icon: TrendingUp },
                     { id: 'resumes', label: 'Resumes', icon: FileText, badge: resumes.length || undefined },
-                    { id: 'history', label: 'History', icon: History },
+                    { id: 'archive', label: 'Archive', icon: History },
                 ].map((tab) => (
                     <button
                         key={tab.id}
@@ -566,7 +730,12 @@ export default function App() {
                             <div className="flex items-center justify-between px-1">
                                 <div className="flex items-center gap-2">
                                     <h3 className="text-sm font-bold text-foreground font-display">Target Job</h3>
-                                    {!isManualMode && jobData.jd && (
+                                    {!isManualMode && detection === 'detecting' && (
+                                        <span className="flex items-center gap-1 px-1.5 py-0.5 bg-brand-50 dark:bg-brand-900/30 text-brand-600 dark:text-brand-400 text-[10px] font-bold rounded-md border border-brand-100 dark:border-brand-900 uppercase tracking-tighter">
+                                            <RefreshCw className="w-2.5 h-2.5 animate-spin" /> Detecting
+                                        </span>
+                                    )}
+                                    {!isManualMode && detection !== 'detecting' && jobData.jd && (
                                         <span className="flex items-center gap-1 px-1.5 py-0.5 bg-green-50 dark:bg-green-900/30 text-green-600 dark:text-green-400 text-[10px] font-bold rounded-md border border-green-100 dark:border-green-900 uppercase tracking-tighter">
                                             <Globe className="w-2.5 h-2.5" /> Auto-Synced
                                         </span>
@@ -595,7 +764,7 @@ export default function App() {
                                     <div className="space-y-2">
                                         <textarea
                                             value={jobData.jd}
-                                            onChange={(e) => setJobData({ ...jobData, jd: e.target.value })}
+                                            onChange={(e) => setJobData({ ...jobData, jd: e.target.value, sections: undefined })}
                                             placeholder="Paste the job description here..."
                                             className="w-full h-40 p-3 text-xs text-foreground bg-muted/50 border border-border rounded-xl focus:ring-2 focus:ring-brand-200 focus:border-brand-300 outline-none resize-none premium-scrollbar"
                                         />
@@ -634,9 +803,78 @@ export default function App() {
                                                 )}
                                             </div>
                                         )}
+                                        {(jobData.salary || jobData.location || jobData.workplace || jobData.seniority || jobData.employmentType?.length) && (
+                                            <div className="flex flex-wrap gap-1.5 mb-3">
+                                                {jobData.salary && (
+                                                    <span className="flex items-center gap-1 px-2 py-0.5 bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-400 text-[10px] font-bold rounded-md border border-green-100 dark:border-green-900">
+                                                        <Banknote className="w-3 h-3" /> {formatSalary(jobData.salary)}
+                                                    </span>
+                                                )}
+                                                {jobData.location && (
+                                                    <span className="flex items-center gap-1 px-2 py-0.5 bg-muted text-muted-foreground text-[10px] font-semibold rounded-md max-w-[200px]">
+                                                        <MapPin className="w-3 h-3 shrink-0" /> <span className="truncate">{jobData.location}</span>
+                                                    </span>
+                                                )}
+                                                {jobData.workplace && (
+                                                    <span className="px-2 py-0.5 bg-brand-50 dark:bg-brand-900/30 text-brand-700 dark:text-brand-400 text-[10px] font-bold rounded-md border border-brand-100 dark:border-brand-900">
+                                                        {WORKPLACE_LABELS[jobData.workplace]}
+                                                    </span>
+                                                )}
+                                                {jobData.seniority && (
+                                                    <span className="px-2 py-0.5 bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-400 text-[10px] font-bold rounded-md border border-purple-100 dark:border-purple-900">
+                                                        {SENIORITY_LABELS[jobData.seniority]}
+                                                    </span>
+                                                )}
+                                                {jobData.employmentType?.map((type) => (
+                                                    <span key={type} className="px-2 py-0.5 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 text-[10px] font-bold rounded-md border border-amber-100 dark:border-amber-900">
+                                                        {EMPLOYMENT_TYPE_LABELS[type] || type}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        )}
                                         <div className="text-xs text-muted-foreground line-clamp-4 leading-relaxed italic">
                                             "{jobData.jd}"
                                         </div>
+                                        {jdSections.some((section) => section.kind !== 'summary') && (
+                                            <div className="mt-3 space-y-1.5">
+                                                {jdSections.map((section, idx) => {
+                                                    const isOpen = !!expandedSections[idx];
+                                                    return (
+                                                        <div key={idx} className="rounded-lg border border-border/50 overflow-hidden">
+                                                            <button
+                                                                onClick={() => setExpandedSections((prev) => ({ ...prev, [idx]: !prev[idx] }))}
+                                                                className="w-full flex items-center justify-between gap-2 px-2.5 py-1.5 text-left hover:bg-muted/50 transition-colors"
+                                                            >
+                                                                <span className="flex items-center gap-1.5 min-w-0">
+                                                                    <ChevronRight className={`w-3 h-3 text-muted-foreground shrink-0 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+                                                                    <span className={`text-[10px] font-bold uppercase tracking-tight shrink-0 ${SECTION_COLORS[section.kind]}`}>
+                                                                        {SECTION_LABELS[section.kind]}
+                                                                    </span>
+                                                                    {section.heading && section.heading.toLowerCase() !== SECTION_LABELS[section.kind].toLowerCase() && (
+                                                                        <span className="text-[10px] text-muted-foreground/60 truncate">{section.heading}</span>
+                                                                    )}
+                                                                </span>
+                                                                {section.bullets.length > 0 && (
+                                                                    <span className="text-[9px] font-bold text-muted-foreground/60 shrink-0">{section.bullets.length}</span>
+                                                                )}
+                                                            </button>
+                                                            {isOpen && (
+                                                                <div className="px-3 pb-2 text-[11px] text-muted-foreground leading-relaxed whitespace-pre-line max-h-48 overflow-y-auto premium-scrollbar">
+                                                                    {section.text}
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                    );
+                                                })}
+                                            </div>
+                                        )}
+                                        {jobData.debug && (
+                                            <ExtractionDiagnostics
+                                                debug={jobData.debug}
+                                                picking={picking}
+                                                onPickElement={pickElementOnPage}
+                                            />
+                                        )}
                                         <div className="flex items-center justify-between pt-3 mt-2 border-t border-border/50">
                                             <span className="text-[10px] text-muted-foreground/60 font-medium">Character count: {jobData.jd.length}</span>
                                             <button
@@ -653,8 +891,17 @@ export default function App() {
                                             <Globe className="w-6 h-6 text-muted-foreground/30" />
                                         </div>
                                         <p className="text-xs text-muted-foreground px-4 leading-relaxed">
+                                            {detection === 'not-found' && "No job description detected on this page. "}
                                             Open a job page to capture automatically or <button onClick={() => setIsManualMode(true)} className="text-brand-600 dark:text-brand-400 font-bold hover:underline">enter manually</button>.
                                         </p>
+                                        <button
+                                            onClick={pickElementOnPage}
+                                            disabled={picking}
+                                            className="mt-3 inline-flex items-center gap-1.5 text-[10px] font-bold text-muted-foreground hover:text-brand-600 disabled:opacity-60 transition-colors"
+                                        >
+                                            <Crosshair className="w-3 h-3" />
+                                            {picking ? "Click the job description on the page…" : "Pick it on the page"}
+                                        </button>
                                     </div>
                                 )}
                             </div>
@@ -746,8 +993,17 @@ export default function App() {
                                     disabled={!jobData.jd || selectedResumes.length === 0 || scanning}
                                     className="btn-secondary w-full flex items-center justify-center gap-3 py-3 border border-brand-200 dark:border-brand-800 text-brand-700 dark:text-brand-300 hover:bg-brand-50 dark:hover:bg-brand-900/40 transition-colors rounded-xl"
                                 >
-                                    <ScanLine className="w-5 h-5" />
-                                    <span>ATS Keyword Match</span>
+                                    {scanProgress ? (
+                                        <>
+                                            <div className="w-5 h-5 border-2 border-brand-200 border-t-brand-600 rounded-full animate-spin" />
+                                            <span>Scanning {Math.min(scanProgress.done + 1, scanProgress.total)} of {scanProgress.total}...</span>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <ScanLine className="w-5 h-5" />
+                                            <span>ATS Keyword Match</span>
+                                        </>
+                                    )}
                                 </button>
                             </div>
 
@@ -805,6 +1061,227 @@ export default function App() {
                                                     <span className="text-sm font-bold text-rose-800 dark:text-rose-300">{result.missingKeywords.length}</span>
                                                 </div>
                                             </div>
+
+                                            {/* Per-category breakdown */}
+                                            {result.categories && result.categories.length > 0 && (
+                                                <div className="space-y-1.5 pt-1">
+                                                    {result.categories.map((category) => (
+                                                        <div
+                                                            key={category.category}
+                                                            className="flex items-center gap-2"
+                                                            title={category.missing.length > 0 ? `Missing: ${category.missing.slice(0, 8).join(', ')}` : 'All found'}
+                                                        >
+                                                            <span className="w-20 shrink-0 text-[10px] font-bold text-muted-foreground truncate">
+                                                                {KEYWORD_CATEGORY_LABELS[category.category]}
+                                                            </span>
+                                                            <div className="flex-1 h-1.5 bg-muted rounded-full overflow-hidden">
+                                                                <div
+                                                                    className={`h-full rounded-full ${category.score >= 80 ? "bg-green-500" : category.score >= 60 ? "bg-amber-500" : "bg-rose-500"}`}
+                                                                    style={{ width: `${category.score}%` }}
+                                                                />
+                                                            </div>
+                                                            <span className="w-16 shrink-0 text-right text-[10px] font-mono text-muted-foreground">
+                                                                {category.score}% · {category.matched.length}/{category.matched.length + category.missing.length}
+                                                            </span>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+
+                                            {/* Years of experience, apart from the keyword list */}
+                                            {result.experience && result.experience.length > 0 && (
+                                                <div className="space-y-1.5 pt-1">
+                                                    <span className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider flex items-center gap-1">
+                                                        <Briefcase className="w-3 h-3" />
+                                                        Experience
+                                                    </span>
+                                                    {result.experience.map((requirement) => (
+                                                        <div
+                                                            key={requirement.skill ?? "overall"}
+                                                            className="flex items-center gap-2"
+                                                            title={requirement.source === "stated" ? `${requirement.text} · as stated on the resume` : requirement.text}
+                                                        >
+                                                            {requirement.met ? (
+                                                                <CheckCircle2 className="w-3.5 h-3.5 shrink-0 text-green-500" />
+                                                            ) : (
+                                                                <AlertCircle className="w-3.5 h-3.5 shrink-0 text-rose-500" />
+                                                            )}
+                                                            <span className="flex-1 text-[11px] font-medium text-foreground truncate">
+                                                                {requirement.skill ?? "Overall"}
+                                                            </span>
+                                                            <span className="shrink-0 text-[10px] font-mono text-muted-foreground">
+                                                                {requirement.actual}y / {requirement.maxYears ? `${requirement.years}-${requirement.maxYears}` : `${requirement.years}+`}y
+                                                            </span>
+                                                            {!requirement.met && (
+                                                                <span className="shrink-0 text-[10px] font-bold text-rose-600 dark:text-rose-400">
+                                                                    −{requirement.gap}y
+                                                                </span>
+                                                            )}
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+
+                                            {/* Education and certifications, requirement by requirement */}
+                                            {result.credentials && result.credentials.length > 0 && (
+                                                <div className="space-y-1.5 pt-1">
+                                                    <span className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider flex items-center gap-1">
+                                                        <Award className="w-3 h-3" />
+                                                        Education & Certifications
+                                                    </span>
+                                                    <table className="w-full text-[10px]">
+                                                        <tbody>
+                                                            {result.credentials.map((credential) => (
+                                                                <tr key={`${credential.kind}:${credential.label}`} className="align-top" title={credential.text}>
+                                                                    <td className="py-0.5 pr-2 text-foreground font-medium">
+                                                                        {credential.label}
+                                                                        {credential.strictness !== "required" && (
+                                                                            <span className="ml-1 text-muted-foreground/70 font-normal">
+                                                                                ({credential.strictness === "preferred" ? "preferred" : "or equivalent"})
+                                                                            </span>
+                                                                        )}
+                                                                    </td>
+                                                                    <td className="py-0.5 pr-2 text-muted-foreground">{credential.found || "—"}</td>
+                                                                    <td className="py-0.5 text-right">
+                                                                        <span className={`px-1.5 py-0.5 rounded-md font-bold whitespace-nowrap ${CREDENTIAL_STATUS[credential.status].className}`}>
+                                                                            {CREDENTIAL_STATUS[credential.status].label}
+                                                                        </span>
+                                                                    </td>
+                                                                </tr>
+                                                            ))}
+                                                        </tbody>
+                                                    </table>
+                                                </div>
+                                            )}
+
+                                            {/* Each JD requirement and the resume bullet closest in meaning */}
+                                            {result.semantic && result.semantic.matches.length > 0 && (
+                                                <div className="space-y-1.5 pt-1">
+                                                    <span className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider flex items-center gap-1">
+                                                        <Brain className="w-3 h-3" />
+                                                        Semantic Match
+                                                        <span className="ml-auto font-mono normal-case tracking-normal">
+                                                            {result.semantic.score}% · {result.semantic.mode === "model" ? "on-device model" : "TF-IDF"}
+                                                        </span>
+                                                    </span>
+                                                    {result.semantic.matches.map((match, i) => (
+                                                        <div
+                                                            key={`${match.section}-${i}`}
+                                                            className="flex items-start gap-2"
+                                                            title={`${SECTION_LABELS[match.section]} · similarity ${match.similarity}`}
+                                                        >
+                                                            {match.coverage >= 0.7 ? (
+                                                                <CheckCircle2 className="w-3.5 h-3.5 shrink-0 mt-px text-green-500" />
+                                                            ) : match.coverage > 0 ? (
+                                                                <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px text-amber-500" />
+                                                            ) : (
+                                                                <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-px text-rose-500" />
+                                                            )}
+                                                            <span className="flex-1 min-w-0 text-[11px] text-foreground leading-snug">
+                                                                {match.requirement}
+                                                                <span className="block text-[10px] text-muted-foreground truncate">
+                                                                    {match.bullet ? `→ ${match.bullet}` : "No bullet comes close"}
+                                                                </span>
+                                                            </span>
+                                                            <span className="shrink-0 text-[10px] font-mono text-muted-foreground">
+                                                                {Math.round(match.coverage * 100)}%
+                                                            </span>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+
+                                            {/* Keyword stuffing findings and the points they cost */}
+                                            {result.stuffing && result.stuffing.findings.length > 0 && (
+                                                <div className="space-y-1.5 pt-1">
+                                                    <span className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider flex items-center gap-1">
+                                                        <AlertTriangle className="w-3 h-3" />
+                                                        Keyword Stuffing
+                                                        <span className="ml-auto font-mono normal-case tracking-normal text-rose-600 dark:text-rose-400">
+                                                            −{result.stuffing.penalty} pts
+                                                        </span>
+                                                    </span>
+                                                    {result.stuffing.findings.map((finding) => (
+                                                        <div
+                                                            key={finding.signal}
+                                                            className="flex items-start gap-2"
+                                                            title={finding.keywords ? finding.keywords.join(", ") : STUFFING_SIGNAL_LABELS[finding.signal]}
+                                                        >
+                                                            <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-px text-rose-500" />
+                                                            <span className="flex-1 text-[11px] text-foreground leading-snug">{finding.message}</span>
+                                                            <span className="shrink-0 text-[10px] font-mono text-muted-foreground">−{finding.penalty}</span>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+
+                                            {/* Layout and formatting checks from upload, next to the match */}
+                                            {(() => {
+                                                const lint = resumes.find((r) => r.id === result.resumeId)?.lint;
+                                                if (!lint) return null;
+                                                return (
+                                                    <div className="space-y-1.5 pt-1">
+                                                        <span className="text-[9px] font-bold text-muted-foreground uppercase tracking-wider flex items-center gap-1">
+                                                            <ShieldCheck className="w-3 h-3" />
+                                                            ATS Readiness
+                                                        </span>
+                                                        {lint.issues.length === 0 ? (
+                                                            <div className="flex items-center gap-2">
+                                                                <CheckCircle2 className="w-3.5 h-3.5 shrink-0 text-green-500" />
+                                                                <span className="text-[11px] font-medium text-foreground">No formatting problems found</span>
+                                                            </div>
+                                                        ) : lint.issues.map((issue, i) => {
+                                                            const { icon: Icon, className } = LINT_SEVERITY_STYLE[issue.severity];
+                                                            return (
+                                                                <div
+                                                                    key={`${issue.check}-${i}`}
+                                                                    className="flex items-start gap-2"
+                                                                    title={issue.examples ? `${LINT_SEVERITY_LABELS[issue.severity]}: ${issue.examples.join(' · ')}` : LINT_SEVERITY_LABELS[issue.severity]}
+                                                                >
+                                                                    <Icon className={`w-3.5 h-3.5 shrink-0 mt-px ${className}`} />
+                                                                    <span className="flex-1 text-[11px] text-foreground leading-snug">
+                                                                        {issue.message}
+                                                                        {issue.examples && issue.examples.length > 0 && (
+                                                                            <span className="block text-[10px] text-muted-foreground truncate">{issue.examples.join(" · ")}</span>
+                                                                        )}
+                                                                    </span>
+                                                                </div>
+                                                            );
+                                                        })}
+                                                    </div>
+                                                );
+                                            })()}
+
+                                            {/* Highlight keywords in the page's job description */}
+                                            {!isManualMode && (
+                                                <div className="flex items-center gap-2">
+                                                    <button
+                                                        onClick={() => toggleHighlight(result)}
+                                                        className={`flex-1 flex items-center justify-center gap-1.5 py-2 rounded-xl text-[11px] font-bold transition-all ${highlight?.resumeId === result.resumeId && highlight.state.active
+                                                            ? "bg-brand-600 text-white shadow-md"
+                                                            : "bg-muted text-muted-foreground hover:bg-brand-50 hover:text-brand-600 dark:hover:bg-brand-900/30"
+                                                            }`}
+                                                    >
+                                                        <Highlighter className="w-3.5 h-3.5" />
+                                                        {highlight?.resumeId === result.resumeId && highlight.state.active ? "Hide highlights" : "Highlight on page"}
+                                                    </button>
+                                                    {highlight?.resumeId === result.resumeId && highlight.state.active && highlight.state.missingCount > 0 && (
+                                                        <button
+                                                            onClick={jumpToNextMissing}
+                                                            className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-[11px] font-bold bg-rose-50 text-rose-700 hover:bg-rose-100 dark:bg-rose-900/20 dark:text-rose-400 transition-all"
+                                                        >
+                                                            <SkipForward className="w-3.5 h-3.5" />
+                                                            Next missing
+                                                            {highlight.state.current && (
+                                                                <span className="font-mono opacity-70">{highlight.state.current.index}/{highlight.state.current.total}</span>
+                                                            )}
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            )}
+                                            {highlight?.resumeId === result.resumeId && highlight.state.error && (
+                                                <p className="text-[10px] text-rose-600 dark:text-rose-400">{highlight.state.error}</p>
+                                            )}
                                         </div>
                                     </div>
                                 ))}
@@ -990,9 +1467,25 @@ export default function App() {
                                                     <span className="text-[10px] text-muted-foreground/60">{formatFileSize(resume.fileSize)}</span>
                                                     <span className="text-[10px] text-muted-foreground/30">·</span>
                                                     <span className="text-[10px] text-muted-foreground/60">{timeAgo(resume.uploadedAt)}</span>
+                                                    {resume.lint && <LintBadge report={resume.lint} />}
                                                 </div>
                                             </div>
 
+                                            {/* Default resume for fit badges */}
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    handleSettingsChange({ defaultResumeId: settings.defaultResumeId === resume.id ? undefined : resume.id });
+                                                }}
+                                                title={settings.defaultResumeId === resume.id ? "Default resume" : "Set as default resume"}
+                                                className={`p-2 rounded-lg transition-all ${settings.defaultResumeId === resume.id
+                                                    ? "text-amber-500"
+                                                    : "text-muted-foreground/30 hover:text-amber-500 hover:bg-amber-50 dark:hover:bg-amber-900/20 opacity-0 group-hover:opacity-100"
+                                                    }`}
+                                            >
+                                                <Star className={`w-4 h-4 ${settings.defaultResumeId === resume.id ? "fill-current" : ""}`} />
+                                            </button>
+
                                             {/* Delete */}
                                             <button
                                                 onClick={(e) => {
@@ -1012,18 +1505,14 @@ export default function App() {
 
                 )}
 
-                {activeTab === 'history' && (
-                    <section className="animate-in">
-                        <div className="py-16 flex flex-col items-center justify-center text-center space-y-4">
-                            <div className="w-16 h-16 bg-muted rounded-2xl flex items-center justify-center text-muted-foreground/30">
-                                <History className="w-8 h-8" />
-                            </div>
-                            <div>
-                                <h4 className="text-sm font-bold text-foreground">No scan history</h4>
-                                <p className="text-xs text-muted-foreground px-8 mt-1">Your past scan results will appear here.</p>
-                            </div>
-                        </div>
-                    </section>
+                {activeTab === 'archive' && (
+                    <JobArchive
+                        onUseJob={(data) => {
+                            setJobData(data);
+                            setIsManualMode(false);
+                            setActiveTab('match');
+                        }}
+                    />
                 )}
 
             </main>
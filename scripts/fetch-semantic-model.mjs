@@ -0,0 +1,91 @@
+/**
+ * Puts the semantic match model and its runtime in public/, so the build
+ * ships them inside the extension: all-MiniLM-L6-v2 (quantized ONNX) and its
+ * vocabulary from Hugging Face, and onnxruntime-web's WASM binary from
+ * node_modules. Runs before every build, and production builds fail without
+ * these files (see wxt.config.ts).
+ *
+ * The model comes from the Hugging Face commit pinned in
+ * semantic-model.lock.json, and every file must match the sha256 recorded
+ * there; files already in public/ are kept only if they still match. To move
+ * to another commit, run `npm run semantic-model -- --pin <commit>`, which
+ * downloads from it and rewrites the lock file with the new hashes.
+ */
+
+import { createHash } from 'node:crypto';
+import { copyFile, mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const LOCK_FILE = join(root, 'scripts/semantic-model.lock.json');
+const MODEL_REPO = 'https://huggingface.co/Xenova/all-MiniLM-L6-v2';
+const MODEL_DIR = join(root, 'public/models/all-MiniLM-L6-v2');
+const MODEL_FILES = [
+  ['onnx/model_quantized.onnx', 'model_quantized.onnx'],
+  ['vocab.txt', 'vocab.txt'],
+];
+const RUNTIME_WASM = 'ort-wasm-simd-threaded.wasm';
+const COMMIT_RE = /^[0-9a-f]{40}$/;
+
+async function exists(path) {
+  return stat(path).then(() => true, () => false);
+}
+
+function sha256(bytes) {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+async function download(revision, source) {
+  console.log(`Downloading ${source} at ${revision.slice(0, 7)}…`);
+  const response = await fetch(`${MODEL_REPO}/resolve/${revision}/${source}`);
+  if (!response.ok) throw new Error(`${source}: HTTP ${response.status}`);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+async function pin(revision) {
+  if (!COMMIT_RE.test(revision || '')) throw new Error('--pin needs a full 40-character commit hash');
+  await mkdir(MODEL_DIR, { recursive: true });
+  const files = {};
+  for (const [source, name] of MODEL_FILES) {
+    const bytes = await download(revision, source);
+    files[source] = sha256(bytes);
+    await writeFile(join(MODEL_DIR, name), bytes);
+  }
+  await writeFile(LOCK_FILE, `${JSON.stringify({ revision, files }, null, 2)}\n`);
+  console.log(`Pinned the semantic model to ${revision}; commit scripts/semantic-model.lock.json`);
+}
+
+async function readLock() {
+  const lock = await readFile(LOCK_FILE, 'utf8').then(JSON.parse, () => null);
+  const complete = lock && COMMIT_RE.test(lock.revision || '') &&
+    MODEL_FILES.every(([source]) => /^[0-9a-f]{64}$/.test(lock.files?.[source] || ''));
+  if (!complete) {
+    throw new Error('scripts/semantic-model.lock.json is missing or incomplete; run npm run semantic-model -- --pin <commit>');
+  }
+  return lock;
+}
+
+async function fetchPinned() {
+  const { revision, files } = await readLock();
+  await mkdir(MODEL_DIR, { recursive: true });
+  for (const [source, name] of MODEL_FILES) {
+    const target = join(MODEL_DIR, name);
+    if (await exists(target) && sha256(await readFile(target)) === files[source]) continue;
+
+    const bytes = await download(revision, source);
+    const actual = sha256(bytes);
+    if (actual !== files[source]) {
+      throw new Error(`${source}: sha256 ${actual} doesn't match the pinned ${files[source]}`);
+    }
+    await writeFile(target, bytes);
+  }
+}
+
+const pinAt = process.argv.indexOf('--pin');
+if (pinAt !== -1) await pin(process.argv[pinAt + 1]);
+else await fetchPinned();
+
+await mkdir(join(root, 'public/ort'), { recursive: true });
+await copyFile(join(root, 'node_modules/onnxruntime-web/dist', RUNTIME_WASM), join(root, 'public/ort', RUNTIME_WASM));
+console.log('Semantic model ready in public/models and public/ort');
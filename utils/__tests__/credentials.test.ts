@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { findCertificationMentions, matchCredentials } from '../credentials';
+
+const names = (text: string) => findCertificationMentions(text).map((m) => m.certification.name);
+
+describe('certifications', () => {
+  it('maps a name without a level to the family, and a level to that level', () => {
+    expect(names('AWS Certified Solutions Architect preferred')).toEqual(['AWS Certified Solutions Architect']);
+    expect(names('AWS Certified Solutions Architect – Associate')).toEqual(['AWS Certified Solutions Architect – Associate']);
+    expect(names('AWS Solutions Architect Professional (SAP-C02)')).toEqual([
+      'AWS Certified Solutions Architect – Professional',
+      'AWS Certified Solutions Architect – Professional',
+    ]);
+  });
+
+  it('meets a family requirement with any level', () => {
+    const [match] = matchCredentials(
+      'CERTIFICATIONS\nAWS Certified Solutions Architect – Professional',
+      'AWS Certified Solutions Architect required.'
+    );
+    expect(match).toMatchObject({ certification: 'AWS Certified Solutions Architect', status: 'met' });
+  });
+
+  it('only partly meets a level with a certification named without one', () => {
+    const [match] = matchCredentials(
+      'CERTIFICATIONS\nAWS Certified Solutions Architect',
+      'AWS Certified Solutions Architect – Associate required.'
+    );
+    expect(match).toMatchObject({ certification: 'AWS Certified Solutions Architect – Associate', status: 'partial' });
+  });
+});
@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { runExtractors } from '../extractors';
+import { fixture } from './fixtures';
+
+const jd = fixture('backend-jd.txt');
+const jdHtml = jd.split('\n\n').map((block) => `<p>${block.replace(/\n/g, '<br>')}</p>`).join('');
+
+function page(body: string): Document {
+  return new DOMParser().parseFromString(`<!doctype html><html><head><title>Jobs</title></head><body>${body}</body></html>`, 'text/html');
+}
+
+function jsonLd(posting: object): string {
+  return `<script type="application/ld+json">${JSON.stringify({ '@context': 'https://schema.org', '@type': 'JobPosting', ...posting })}</script>`;
+}
+
+describe('runExtractors', () => {
+  // Every run logs its debug info
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+  });
+
+  it('prefers JSON-LD and fills in its structured fields', () => {
+    const doc = page(jsonLd({
+      title: 'Senior Backend Engineer',
+      description: jdHtml,
+      hiringOrganization: { '@type': 'Organization', name: 'Acme Payments' },
+      baseSalary: { '@type': 'MonetaryAmount', currency: 'EUR', value: { '@type': 'QuantitativeValue', minValue: 80000, maxValue: 100000, unitText: 'YEAR' } },
+    }));
+    const outcome = runExtractors(doc, 'https://careers.example.com/jobs/1');
+    expect(outcome.extractorId).toBe('structured-data');
+    expect(outcome.data).toMatchObject({ title: 'Senior Backend Engineer', company: 'Acme Payments' });
+    expect(outcome.data.salary).toMatchObject({ min: 80000, max: 100000, currency: 'EUR', period: 'year' });
+    expect(outcome.data.jd).toContain('event streaming infrastructure');
+  });
+
+  it('borrows the element holding the JSON-LD description, and no other', () => {
+    const posting = jsonLd({ title: 'Senior Backend Engineer', description: jdHtml });
+    const same = runExtractors(page(`${posting}<section class="posting">${jdHtml}</section>`), 'https://careers.example.com/jobs/1');
+    expect(same.extractorId).toBe('structured-data');
+    expect(same.element?.className).toBe('posting');
+
+    const otherJd = fixture('ml-jd.txt').split('\n\n').map((block) => `<p>${block}</p>`).join('');
+    const other = runExtractors(page(`${posting}<section class="posting">${otherJd}</section>`), 'https://careers.example.com/jobs/1');
+    expect(other.extractorId).toBe('structured-data');
+    expect(other.element).toBeNull();
+  });
+
+  it('falls back to the section that reads like a JD', () => {
+    const doc = page(`<nav>Home · Jobs · About</nav><section class="posting">${jdHtml}</section><footer>© Example</footer>`);
+    const outcome = runExtractors(doc, 'https://careers.example.com/jobs/1');
+    expect(outcome.extractorId).toBe('generic');
+    expect(outcome.element?.className).toBe('posting');
+    expect(outcome.data.jd).toContain('Kubernetes on AWS');
+  });
+
+  it('reports nothing on a page without a job', () => {
+    const outcome = runExtractors(page('<p>Hello</p>'), 'https://example.com/');
+    expect(outcome.data.jd).toBe('');
+    expect(outcome.element).toBeNull();
+  });
+});
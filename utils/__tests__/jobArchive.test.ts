@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { fakeBrowser } from 'wxt/testing/fake-browser';
+import type { JobData } from '../extractors';
+import { applyJobArchiveWrite, getArchivedJob, listArchivedJobs, sanitizeJobHtml, snapshotJobHtml } from '../jobArchive';
+
+function job(title: string, jd = `${title} description`): JobData {
+  return { jd, title, company: 'Acme' };
+}
+
+describe('job archive', () => {
+  beforeEach(() => {
+    fakeBrowser.reset();
+  });
+
+  it('applies writes one at a time, so concurrent captures all land in the index', async () => {
+    await Promise.all(['One', 'Two', 'Three'].map((title, i) =>
+      applyJobArchiveWrite({ op: 'archive', data: job(title), url: `https://example.com/jobs/${i}`, html: '<p>x</p>' })));
+    const index = await listArchivedJobs();
+    expect(index.map((entry) => entry.title).sort()).toEqual(['One', 'Three', 'Two']);
+    expect(await getArchivedJob(index[0].id)).toMatchObject({ text: `${index[0].title} description` });
+  });
+
+  it('keeps one entry per job and only refreshes it when the text changed', async () => {
+    const first = await applyJobArchiveWrite({ op: 'archive', data: job('One'), url: 'https://example.com/jobs/1?utm_source=x', html: '' });
+    const again = await applyJobArchiveWrite({ op: 'archive', data: job('One'), url: 'https://example.com/jobs/1', html: '' });
+    expect(again).toEqual(first);
+    await applyJobArchiveWrite({ op: 'archive', data: job('One', 'Edited'), url: 'https://example.com/jobs/1', html: '' });
+    const index = await listArchivedJobs();
+    expect(index).toHaveLength(1);
+    expect((await getArchivedJob(index[0].id))?.text).toBe('Edited');
+  });
+
+  it('deletes and clears entries with their snapshots', async () => {
+    const kept = await applyJobArchiveWrite({ op: 'archive', data: job('Kept'), url: 'https://example.com/jobs/1', html: '' });
+    const gone = await applyJobArchiveWrite({ op: 'archive', data: job('Gone'), url: 'https://example.com/jobs/2', html: '' });
+    await applyJobArchiveWrite({ op: 'delete', id: gone!.id });
+    expect((await listArchivedJobs()).map((entry) => entry.id)).toEqual([kept!.id]);
+    expect(await getArchivedJob(gone!.id)).toBeNull();
+    await applyJobArchiveWrite({ op: 'clear' });
+    expect(await listArchivedJobs()).toEqual([]);
+    expect(await getArchivedJob(kept!.id)).toBeNull();
+  });
+});
+
+describe('snapshotJobHtml', () => {
+  it('keeps structure and safe links, and drops scripts, handlers and styles', () => {
+    const el = document.createElement('div');
+    el.innerHTML = '<h2 style="color:red">Role</h2><p onclick="steal()">Build <a href="https://example.com/x">things</a> <a href="javascript:alert(1)">now</a></p><script>steal()</script><img src="x" onerror="steal()">';
+    const html = snapshotJobHtml(el, 'Role');
+    expect(html).toBe('<div><h2>Role</h2><p>Build <a href="https://example.com/x" target="_blank" rel="noopener noreferrer">things</a> <a>now</a></p></div>');
+  });
+});
+
+describe('sanitizeJobHtml', () => {
+  it('cleans markup stored without going through a snapshot', () => {
+    const raw = '<p onmouseover="steal()">Apply <a href="javascript:steal()">here</a></p><iframe src="https://evil.example"></iframe><svg onload="steal()"></svg><b>now</b>';
+    expect(sanitizeJobHtml(raw)).toBe('<p>Apply <a>here</a></p><b>now</b>');
+  });
+
+  it('leaves a clean snapshot as it is', () => {
+    const clean = '<h2>Role</h2><p>Build <a href="https://example.com/x" target="_blank" rel="noopener noreferrer">things</a></p>';
+    expect(sanitizeJobHtml(clean)).toBe(clean);
+  });
+});
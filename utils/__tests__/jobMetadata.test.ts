@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { detectSeniority, formatSalary, parseSalary } from '../jobMetadata';
+
+describe('parseSalary', () => {
+  it('reads ranges with a shared k', () => {
+    expect(parseSalary('Salary: $120k–150k per year')).toMatchObject({ min: 120000, max: 150000, currency: 'USD', period: 'year' });
+  });
+
+  it('reads Polish monthly offers', () => {
+    expect(parseSalary('15 000 - 20 000 PLN brutto / mies.')).toMatchObject({ min: 15000, max: 20000, currency: 'PLN', period: 'month', basis: 'gross' });
+  });
+
+  it('reads hourly rates', () => {
+    expect(parseSalary('Pay: $45/hr')).toMatchObject({ min: 45, max: 45, period: 'hour' });
+  });
+
+  it('treats "up to" as a ceiling and "from" as a floor', () => {
+    const ceiling = parseSalary('Compensation up to £90k a year')!;
+    expect(ceiling).toMatchObject({ min: undefined, max: 90000 });
+    expect(formatSalary(ceiling)).toBe('up to £90K/yr');
+    const floor = parseSalary('Salary from $120,000 per year')!;
+    expect(floor).toMatchObject({ min: 120000, max: undefined });
+    expect(formatSalary(floor)).toBe('$120K+/yr');
+  });
+
+  it('ignores numbers without a currency', () => {
+    expect(parseSalary('5+ years of experience across 2 offices')).toBeUndefined();
+  });
+
+  it('reads "$100K+" as a floor without a ceiling', () => {
+    const salary = parseSalary('Compensation: $100K+ depending on experience')!;
+    expect(salary).toMatchObject({ min: 100000, max: undefined, currency: 'USD' });
+    expect(formatSalary(salary)).toBe('$100K+/yr');
+  });
+
+  it('skips perks and finds the pay further on', () => {
+    expect(parseSalary('Perks include a $5,000 learning budget and a $1,500 home office stipend.')).toBeUndefined();
+    expect(parseSalary('We offer a $5,000 learning budget per year. Base salary: $140k–$160k')).toMatchObject({ min: 140000, max: 160000 });
+  });
+
+  it('needs a sign that a lone figure is pay', () => {
+    expect(parseSalary('We raised $20,000,000 last year from our investors and grew to 50 people')).toBeUndefined();
+  });
+});
+
+describe('detectSeniority', () => {
+  it('prefers the title', () => {
+    expect(detectSeniority('Senior Engineering Manager', '')).toBe('manager');
+    expect(detectSeniority('Staff Engineer', '3+ years')).toBe('principal');
+  });
+
+  it('falls back to the years of experience asked for', () => {
+    expect(detectSeniority('Backend Engineer', 'You have 5+ years of experience with Go')).toBe('senior');
+    expect(detectSeniority('Backend Engineer', 'At least 2 years of professional experience')).toBe('mid');
+    expect(detectSeniority('Backend Engineer', 'Experience: 3+ years with Python')).toBe('mid');
+  });
+
+  it('ignores years that are not experience', () => {
+    expect(detectSeniority('Backend Engineer', 'Founded 25 years ago, we now serve 2 million users.')).toBeUndefined();
+    expect(detectSeniority('Backend Engineer', 'Founded 25 years ago. You have 5 years of experience with Go.')).toBe('senior');
+  });
+});
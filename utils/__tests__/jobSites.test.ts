@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { applySiteRules, findSiteRule, isJobUrl, normalizeRuleDomain, type SiteRule } from '../jobSites';
+
+function rule(domain: string, patch: Partial<SiteRule> = {}): SiteRule {
+  return { id: domain, domain, include: [], exclude: [], disabled: false, ...patch };
+}
+
+describe('site rules', () => {
+  it('normalizes typed domains', () => {
+    expect(normalizeRuleDomain(' https://Careers.Example.com:443/jobs?x=1 ')).toBe('careers.example.com');
+  });
+
+  it('picks the most specific rule for a host', () => {
+    const rules = [rule('example.com'), rule('jobs.example.com')];
+    expect(findSiteRule('https://jobs.example.com/1', rules)?.domain).toBe('jobs.example.com');
+    expect(findSiteRule('https://www.example.com/1', rules)?.domain).toBe('example.com');
+    expect(findSiteRule('https://example.org/1', rules)).toBeUndefined();
+  });
+
+  it('applies disabled, exclude and include patterns in that order', () => {
+    expect(applySiteRules('https://example.com/jobs/1', [rule('example.com', { disabled: true, include: ['/jobs/*'] })])).toBe('disabled');
+    const rules = [rule('example.com', { include: ['/jobs/*'], exclude: ['*apply*'] })];
+    expect(applySiteRules('https://example.com/jobs/1', rules)).toBe('job');
+    expect(applySiteRules('https://example.com/jobs/1/apply', rules)).toBe('not-job');
+    expect(applySiteRules('https://example.com/blog/1', rules)).toBe('not-job');
+    expect(applySiteRules('https://example.com/blog/1', [rule('example.com')])).toBeNull();
+  });
+
+  it('lets rules override the built-in guess', () => {
+    expect(isJobUrl('https://www.linkedin.com/jobs/view/123')).toBe(true);
+    expect(isJobUrl('https://www.linkedin.com/feed/')).toBe(false);
+    expect(isJobUrl('https://example.com/careers/backend')).toBe(true);
+    expect(isJobUrl('https://example.com/careers/backend', [rule('example.com', { exclude: ['/careers/*'] })])).toBe(false);
+    expect(isJobUrl('https://example.com/team', [rule('example.com', { include: ['/team'] })])).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { onExtractionEvent, startJobWatcher, type JobWatcher } from '../jobWatcher';
+import { fixture } from './fixtures';
+
+const jdHtml = fixture('backend-jd.txt').split('\n\n').map((block) => `<p>${block}</p>`).join('');
+
+describe('startJobWatcher', () => {
+  let watcher: JobWatcher | null = null;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    document.body.innerHTML = `<section class="posting">${jdHtml}</section>`;
+  });
+
+  afterEach(() => {
+    watcher?.stop();
+    watcher = null;
+  });
+
+  it('forgets the job instead of re-extracting once the page stops qualifying', () => {
+    let jobPage = true;
+    const publish = vi.fn();
+    const events: string[] = [];
+    const off = onExtractionEvent((event) => events.push(event.type));
+
+    watcher = startJobWatcher({ isJobPage: () => jobPage, publish });
+    expect(publish).toHaveBeenCalledTimes(1);
+
+    jobPage = false;
+    watcher.refresh();
+    off();
+    expect(publish).toHaveBeenCalledTimes(1);
+    expect(events).toContain('job-lost');
+  });
+
+  it('publishes again on refresh while the page still qualifies', () => {
+    const publish = vi.fn();
+    watcher = startJobWatcher({ isJobPage: () => true, publish });
+    watcher.refresh();
+    expect(publish).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { extractKeyPhrases } from '../keyphrases';
+import { fixture } from './fixtures';
+
+const phrases = (text: string) => extractKeyPhrases(text).map((p) => p.phrase);
+
+describe('extractKeyPhrases', () => {
+  it('finds the skills a JD asks for, named as the taxonomy names them', () => {
+    const found = phrases(fixture('backend-jd.txt'));
+    expect(found).toEqual(expect.arrayContaining(['Python', 'Go', 'Apache Kafka', 'Kubernetes', 'Amazon Web Services', 'PostgreSQL']));
+  });
+
+  it('leaves out headings, the employer pitch and perks', () => {
+    const found = phrases(fixture('ml-jd.txt')).map((p) => p.toLowerCase());
+    for (const noise of ['job', 'engineers', 'great team', 'perks', 'team lunches', 'proficiency', 'requirements']) {
+      expect(found).not.toContain(noise);
+    }
+  });
+
+  it('sorts phrases into categories', () => {
+    const byPhrase = new Map(extractKeyPhrases(fixture('ml-jd.txt')).map((p) => [p.phrase, p.category]));
+    expect(byPhrase.get('Python')).toBe('hardSkill');
+    expect(byPhrase.get('Docker')).toBe('tool');
+    expect(byPhrase.get('Communication')).toBe('softSkill');
+    expect(byPhrase.get('computer science')).toBe('education');
+  });
+
+  it('keeps one of the overlapping n-grams of a run of nouns', () => {
+    const found = phrases([
+      'Data Engineer', '',
+      'About the role',
+      'Join our fast-growing team building streaming data pipelines for retail analytics.', '',
+      'Requirements',
+      '- 3+ years building streaming data pipelines with Apache Flink or Spark',
+      '- Experience with Airflow and dbt',
+    ].join('\n'));
+    expect(found).toContain('streaming data pipelines');
+    expect(found).not.toContain('building streaming data');
+    expect(found).not.toContain('team building streaming');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { scanResume } from '../atsScanner';
+import { fixture } from './fixtures';
+
+const jd = fixture('backend-jd.txt');
+const resume = fixture('backend-resume.txt');
+const natural = scanResume(resume, jd);
+const signals = (text: string) => scanResume(text, jd).stuffing!.findings.map((f) => f.signal);
+/** The resume with its skills section replaced */
+const withSkills = (skills: string) => resume.replace(/SKILLS[\s\S]*$/, `SKILLS\n${skills}\n`);
+/** The JD's skills, in the JD's order */
+const JD_ORDER = ['Python', 'Go', 'Kafka', 'Prometheus', 'Grafana', 'Kubernetes', 'AWS', 'Terraform', 'Django', 'PostgreSQL', 'Redis', 'Docker', 'CI/CD', 'REST APIs'];
+
+describe('keyword stuffing', () => {
+  it('leaves a natural resume alone', () => {
+    expect(natural.stuffing!.penalty).toBe(0);
+  });
+
+  it.each([
+    ['comma', ', '],
+    ['space', ' '],
+    ['line', '\n'],
+  ])('catches a %s-separated dump of the missing keywords and gains it nothing', (_, separator) => {
+    const stuffed = scanResume(resume.replace('SUMMARY\n', `SUMMARY\n${natural.missingKeywords.join(separator)}\n\n`), jd);
+    expect(stuffed.stuffing!.findings.map((f) => f.signal)).toContain('keywordDump');
+    expect(stuffed.matchedKeywords).toEqual(natural.matchedKeywords);
+    expect(stuffed.score).toBeLessThan(natural.score);
+  });
+
+  it('catches a short list labelled as keywords', () => {
+    expect(signals(`Keywords: ${natural.missingKeywords.slice(0, 6).join(', ')}\n${resume}`)).toContain('keywordDump');
+  });
+
+  it('flags one keyword repeated far beyond natural use', () => {
+    const repeated = resume.replace('Mentored four engineers', 'Kubernetes expert: Kubernetes, Kubernetes clusters, Kubernetes operators, Kubernetes networking, Kubernetes security, Kubernetes upgrades. Mentored four engineers');
+    expect(signals(repeated)).toContain('repetition');
+  });
+
+  it('flags hidden text', () => {
+    expect(scanResume(resume, jd, { hiddenText: ['python kafka snowflake dbt'] }).stuffing!.findings.map((f) => f.signal)).toContain('hiddenText');
+  });
+});
+
+describe('real skills sections', () => {
+  it.each([
+    ['comma-separated, in JD order', withSkills(JD_ORDER.join(', '))],
+    ['one per line, in JD order', withSkills(JD_ORDER.join('\n'))],
+    ['under a "Skills:" label instead of a heading', resume.replace(/SKILLS[\s\S]*$/, `Skills: ${JD_ORDER.join(', ')}\n`)],
+  ])('are not penalised when %s', (_, text) => {
+    const result = scanResume(text, jd);
+    expect(result.stuffing!.penalty).toBe(0);
+    expect(result.score).toBeGreaterThanOrEqual(natural.score);
+  });
+
+  it('keep their keywords matched', () => {
+    expect(scanResume(withSkills(JD_ORDER.join(', ')), jd).matchedKeywords).toEqual(expect.arrayContaining(natural.matchedKeywords));
+  });
+
+  it('allow a short resume a higher keyword share', () => {
+    const short = [
+      'Jane Doe', 'Backend Engineer', '',
+      'SUMMARY', 'Backend engineer building payment services in Python and Go on AWS.', '',
+      'EXPERIENCE', 'Acme — Backend Engineer', 'Jan 2020 – Present',
+      '• Built services in Python, Django and PostgreSQL on AWS with Kubernetes',
+      '• Ran Kafka event streaming with Prometheus and Grafana', '',
+      'SKILLS', 'Python, Go, Kafka, Kubernetes, AWS, Terraform, Docker, PostgreSQL, Redis',
+    ].join('\n');
+    const result = scanResume(short, jd);
+    expect(result.stuffing!.keywordShare).toBeGreaterThan(35);
+    expect(result.stuffing!.penalty).toBe(0);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Applicant Tracking System (ATS) Job Board Access
+ * Hosted job boards are covered by optional host permissions that the user
+ * grants per platform from settings, so nothing broad is requested at install.
+ */
+
+export interface AtsPlatform {
+  id: string;
+  name: string;
+  /** Example host shown in settings */
+  example: string;
+  /** Match patterns, also listed under optional_host_permissions in wxt.config.ts */
+  origins: string[];
+  /** Hostnames (subdomains included) served by this platform */
+  domains: string[];
+}
+
+export const ATS_PLATFORMS: AtsPlatform[] = [
+  {
+    id: 'greenhouse',
+    name: 'Greenhouse',
+    example: 'boards.greenhouse.io',
+    origins: ['*://boards.greenhouse.io/*', '*://job-boards.greenhouse.io/*'],
+    domains: ['boards.greenhouse.io', 'job-boards.greenhouse.io'],
+  },
+  {
+    id: 'lever',
+    name: 'Lever',
+    example: 'jobs.lever.co',
+    origins: ['*://jobs.lever.co/*'],
+    domains: ['jobs.lever.co'],
+  },
+  {
+    id: 'ashby',
+    name: 'Ashby',
+    example: 'jobs.ashbyhq.com',
+    origins: ['*://jobs.ashbyhq.com/*'],
+    domains: ['jobs.ashbyhq.com'],
+  },
+  {
+    id: 'workday',
+    name: 'Workday',
+    example: '*.myworkdayjobs.com',
+    origins: ['*://*.myworkdayjobs.com/*'],
+    domains: ['myworkdayjobs.com'],
+  },
+  {
+    id: 'smartrecruiters',
+    name: 'SmartRecruiters',
+    example: 'jobs.smartrecruiters.com',
+    origins: ['*://jobs.smartrecruiters.com/*', '*://careers.smartrecruiters.com/*'],
+    domains: ['jobs.smartrecruiters.com', 'careers.smartrecruiters.com'],
+  },
+];
+
+/** Built content script files, registered at runtime for granted platforms (the overlay loads its own CSS) */
+const CONTENT_SCRIPT_FILES = {
+  js: ['content-scripts/content.js'],
+};
+
+// Main-world companion that reports history.pushState / replaceState navigations
+const NAVIGATION_SCRIPT_FILE = 'content-scripts/navigation.js';
+
+const SCRIPT_ID_PREFIX = 'jdscan-ats-';
+const NAVIGATION_SCRIPT_SUFFIX = '-nav';
+
+/**
+ * The content script and its navigation companion, registered at runtime on
+ * `matches`. Both run in every frame: boards are often embedded in an iframe
+ * on the company's career site.
+ */
+export function runtimeContentScripts(id: string, matches: string[], excludeMatches?: string[]): chrome.scripting.RegisteredContentScript[] {
+  return [
+    {
+      id,
+      matches,
+      excludeMatches,
+      ...CONTENT_SCRIPT_FILES,
+      runAt: 'document_idle',
+      allFrames: true,
+    },
+    {
+      id: `${id}${NAVIGATION_SCRIPT_SUFFIX}`,
+      matches,
+      excludeMatches,
+      js: [NAVIGATION_SCRIPT_FILE],
+      runAt: 'document_start',
+      world: 'MAIN',
+      allFrames: true,
+    },
+  ];
+}
+
+/**
+ * Find the ATS platform serving a URL, if any
+ */
+export function getAtsPlatformForUrl(href: string): AtsPlatform | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(href).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+  return ATS_PLATFORMS.find((p) =>
+    p.domains.some((d) => hostname === d || hostname.endsWith(`.${d}`))
+  );
+}
+
+/**
+ * Check which platforms the user has granted access to
+ */
+export async function getGrantedAtsPlatforms(): Promise<Record<string, boolean>> {
+  const granted: Record<string, boolean> = {};
+  if (!chrome.permissions) return granted;
+
+  for (const platform of ATS_PLATFORMS) {
+    granted[platform.id] = await chrome.permissions.contains({ origins: platform.origins });
+  }
+  return granted;
+}
+
+/**
+ * Ask the user for access to a platform. Must be called from a user gesture
+ * in an extension page (not from a content script).
+ */
+export async function requestAtsPlatformAccess(platformId: string): Promise<boolean> {
+  const platform = ATS_PLATFORMS.find((p) => p.id === platformId);
+  if (!platform || !chrome.permissions) return false;
+  return chrome.permissions.request({ origins: platform.origins });
+}
+
+/**
+ * Give back access to a platform
+ */
+export async function revokeAtsPlatformAccess(platformId: string): Promise<boolean> {
+  const platform = ATS_PLATFORMS.find((p) => p.id === platformId);
+  if (!platform || !chrome.permissions) return false;
+  return chrome.permissions.remove({ origins: platform.origins });
+}
+
+/**
+ * Register the content script on every granted platform and unregister it
+ * from revoked ones. Runs in the background on startup and permission changes.
+ */
+export async function syncAtsContentScripts(): Promise<void> {
+  if (!chrome.scripting?.registerContentScripts) return;
+
+  const granted = await getGrantedAtsPlatforms();
+  const registered = await chrome.scripting.getRegisteredContentScripts();
+  const registeredIds = new Set(registered.map((s) => s.id));
+
+  for (const platform of ATS_PLATFORMS) {
+    const scripts = runtimeContentScripts(`${SCRIPT_ID_PREFIX}${platform.id}`, platform.origins);
+    try {
+      if (granted[platform.id]) {
+        const missing = scripts.filter((script) => !registeredIds.has(script.id));
+        if (missing.length > 0) {
+          await chrome.scripting.registerContentScripts(missing);
+          console.log(`JD Scan: Registered content script for ${platform.name}`);
+        }
+        // Bring registrations from older versions up to date
+        const existing = scripts.filter((script) => registeredIds.has(script.id));
+        if (existing.length > 0) await chrome.scripting.updateContentScripts(existing);
+      } else {
+        const stale = scripts.map((script) => script.id).filter((scriptId) => registeredIds.has(scriptId));
+        if (stale.length > 0) {
+          await chrome.scripting.unregisterContentScripts({ ids: stale });
+          console.log(`JD Scan: Unregistered content script for ${platform.name}`);
+        }
+      }
+    } catch (error) {
+      console.error(`JD Scan: Failed to sync content script for ${platform.name}`, error);
+    }
+  }
+}
@@ -3,120 +3,286 @@
  * Performs keyword-based matching without AI
  */
 
+import { JDSection, SECTION_WEIGHTS } from './jdSections';
+import { ExperienceMatch, matchExperience } from './experience';
+import { ParsedResume, parseResume, ResumeSectionKind } from './resumeParser';
+import { CredentialMatch, matchCredentials } from './credentials';
+import { detectKeywordStuffing, findKeywordDumps, StuffingReport } from './keywordStuffing';
+import { SEMANTIC_WEIGHT, SemanticResult } from './semantic';
+import { buildTokenIndex, findKeyword, KeywordHit, keywordHits, TokenIndex } from './tokenIndex';
+import {
+  extractKeyPhrases,
+  KeyPhrase,
+  KeywordCategory,
+  KEYWORD_CATEGORIES,
+  KEYWORD_CATEGORY_LABELS,
+  KEYWORD_CATEGORY_WEIGHTS,
+} from './keyphrases';
+
+export interface CategoryScore {
+  category: KeywordCategory;
+  /** Importance-weighted share of this category's keywords found, 0-100 */
+  score: number;
+  matched: string[];
+  /** Most important first */
+  missing: string[];
+}
+
 export interface ATSResult {
+  /**
+   * Overall match score: category sub-scores blended by category weight.
+   * Keywords count more in important JD sections, when frequent, and when
+   * the job title names them. Blended with the semantic match score when
+   * one is given, less any keyword-stuffing penalty.
+   */
   score: number;
   matchedKeywords: string[];
   missingKeywords: string[];
   suggestions: string[];
   totalKeywords: number;
+  /** Plain share of JD keywords found in the resume */
   matchPercentage: number;
+  /** Resume wording for keywords matched under another form, e.g. { managed: "management" } */
+  matchedForms?: Record<string, string>;
+  /** The JD's keyphrases with their TF-IDF weights */
+  keyPhrases?: KeyPhrase[];
+  /** Sub-scores for the categories the JD has keywords in */
+  categories?: CategoryScore[];
+  /** Years-of-experience requirements against the resume's dated roles */
+  experience?: ExperienceMatch[];
+  /** Degree and certification requirements, one row each */
+  credentials?: CredentialMatch[];
+  /** Resume sections each matched keyword appears in */
+  keywordSections?: Record<string, ResumeSectionKind[]>;
+  /** Keyword density and stuffing findings, with the points they cost */
+  stuffing?: StuffingReport;
+  /** Each JD requirement paired with its closest resume bullet */
+  semantic?: SemanticResult;
 }
 
+export interface ScanOptions {
+  /** JD sections; when given, keywords are weighted by the section they appear in */
+  sections?: JDSection[];
+  /** Match word forms ("managed" ↔ "management"); off simulates an exact-match ATS. Default on. */
+  stemming?: boolean;
+  /** Job title; keywords it names count extra */
+  title?: string;
+  /** The resume's stored structure; parsed on the fly when missing */
+  parsed?: ParsedResume;
+  /** Text the resume file hides (white, hidden or tiny), found on upload */
+  hiddenText?: string[];
+  /** Requirement-to-bullet similarity, scored beforehand; blended into the score */
+  semantic?: SemanticResult;
+  /** The JD already analysed by analyzeJob; keyphrases, weights and stemming come from it */
+  job?: JobAnalysis;
+}
+
+export interface JobAnalysis {
+  stemming: boolean;
+  keyPhrases: KeyPhrase[];
+  /** Importance of each keyphrase: JD section × TF-IDF weight × title bonus */
+  weights: Record<string, number>;
+}
+
+/** Weight for keywords that no parsed section contains */
+const DEFAULT_KEYWORD_WEIGHT = SECTION_WEIGHTS.other;
+/** Extra weight for keywords in the job title */
+const TITLE_WEIGHT = 1.5;
+/** Where a hard skill or tool should show up besides a skills list */
+const EVIDENCE_SECTIONS: ResumeSectionKind[] = ['experience', 'projects', 'summary'];
+
 /**
- * Extract keywords from job description
+ * Extract keywords from job description: TF-IDF keyphrases, most important first
  */
-export function extractKeywords(text: string): string[] {
-  // Common stop words to ignore
-  const stopWords = new Set([
-    'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
-    'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been',
-    'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'should',
-    'could', 'may', 'might', 'must', 'can', 'this', 'that', 'these', 'those',
-    'i', 'you', 'he', 'she', 'it', 'we', 'they', 'what', 'which', 'who',
-    'when', 'where', 'why', 'how', 'all', 'each', 'every', 'both', 'few',
-    'more', 'most', 'other', 'some', 'such', 'no', 'nor', 'not', 'only',
-    'own', 'same', 'so', 'than', 'too', 'very', 'our', 'your'
-  ]);
-
-  // Extract words and phrases
-  const words = text
-    .toLowerCase()
-    .replace(/[^\w\s+#.-]/g, ' ')
-    .split(/\s+/)
-    .filter(word => word.length > 2 && !stopWords.has(word));
-
-  // Extract multi-word technical terms (e.g., "machine learning", "react.js")
-  const phrases: string[] = [];
-  const techPatterns = [
-    /\b(react|vue|angular|node|python|java|javascript|typescript|sql|nosql|aws|azure|gcp|docker|kubernetes|git|agile|scrum)\b/gi,
-    /\b([a-z]+\.js|[a-z]+\.py|[a-z]+\+\+)\b/gi,
-    /\b([a-z]+ [a-z]+ing)\b/gi, // e.g., "machine learning"
-  ];
-
-  techPatterns.forEach(pattern => {
-    const matches = text.match(pattern);
-    if (matches) {
-      phrases.push(...matches.map(m => m.toLowerCase()));
-    }
-  });
-
-  // Combine and deduplicate
-  const allKeywords = [...new Set([...words, ...phrases])];
-  
-  // Sort by frequency (most common first)
-  const frequency = new Map<string, number>();
-  allKeywords.forEach(keyword => {
-    const count = (text.toLowerCase().match(new RegExp(`\\b${keyword}\\b`, 'g')) || []).length;
-    frequency.set(keyword, count);
-  });
+export function extractKeywords(text: string, options: Pick<ScanOptions, 'stemming'> = {}): string[] {
+  return extractKeyPhrases(text, options).map(p => p.phrase);
+}
 
-  return allKeywords
-    .sort((a, b) => (frequency.get(b) || 0) - (frequency.get(a) || 0))
-    .slice(0, 50); // Top 50 keywords
+/**
+ * Weight of a keyword: the highest weight of any JD section mentioning it,
+ * so a term listed under requirements outweighs one only found in the perks
+ */
+function keywordWeight(keyword: string, sections: Array<{ kind: JDSection['kind']; index: TokenIndex }>, stemming: boolean): number {
+  if (sections.length === 0) return 1;
+  const weights = sections
+    .filter(section => findKeyword(section.index, keyword, stemming) !== null)
+    .map(section => SECTION_WEIGHTS[section.kind]);
+  return weights.length > 0 ? Math.max(...weights) : DEFAULT_KEYWORD_WEIGHT;
 }
 
 /**
- * Check if resume contains keyword (case-insensitive, whole word match)
+ * The resume-independent half of a scan: keyphrases and their importance.
+ * Done once per JD and shared by every resume scanned against it.
  */
-function containsKeyword(resume: string, keyword: string): boolean {
-  const regex = new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-  return regex.test(resume);
+export function analyzeJob(jobDescription: string, options: Pick<ScanOptions, 'sections' | 'stemming' | 'title'> = {}): JobAnalysis {
+  const stemming = options.stemming !== false;
+  const keyPhrases = extractKeyPhrases(jobDescription, { stemming });
+  const sections = (options.sections || []).map(section => ({ kind: section.kind, index: buildTokenIndex(section.text) }));
+  const title = options.title ? buildTokenIndex(options.title) : null;
+
+  // Importance: JD section × TF-IDF weight (frequency and specificity) × title bonus
+  const weights: Record<string, number> = {};
+  keyPhrases.forEach(({ phrase, weight }) => {
+    const titleWeight = title && findKeyword(title, phrase, stemming) !== null ? TITLE_WEIGHT : 1;
+    weights[phrase] = keywordWeight(phrase, sections, stemming) * weight * titleWeight;
+  });
+  return { stemming, keyPhrases, weights };
 }
 
 /**
  * Scan resume against job description
  */
-export function scanResume(resumeContent: string, jobDescription: string): ATSResult {
-  const jdKeywords = extractKeywords(jobDescription);
+export function scanResume(resumeContent: string, jobDescription: string, options: ScanOptions = {}): ATSResult {
+  const job = options.job ?? analyzeJob(jobDescription, options);
+  const { stemming, keyPhrases, weights } = job;
+  const jdKeywords = keyPhrases.map(p => p.phrase);
+  const resumeIndex = buildTokenIndex(resumeContent);
+  const parsed = options.parsed ?? parseResume(resumeContent);
+  // Keywords pasted into a dump don't count as matched, so the dump gains nothing
+  const dumps = findKeywordDumps(resumeContent, parsed, keyPhrases, stemming);
+  const outsideDumps = (hit: KeywordHit) => !dumps.some(dump => hit.start >= dump.start && hit.start < dump.end);
+  const dumpOnlyKeywords: string[] = [];
   const matchedKeywords: string[] = [];
   const missingKeywords: string[] = [];
+  const matchedForms: Record<string, string> = {};
+  const byCategory = new Map<KeywordCategory, { matched: number; total: number; matchedKeywords: string[]; missingKeywords: string[] }>();
 
-  // Check each keyword
-  jdKeywords.forEach(keyword => {
-    if (containsKeyword(resumeContent, keyword)) {
+  keyPhrases.forEach(({ phrase: keyword, category }) => {
+    const weight = weights[keyword];
+    const group = byCategory.get(category) || { matched: 0, total: 0, matchedKeywords: [], missingKeywords: [] };
+    byCategory.set(category, group);
+    group.total += weight;
+
+    const hits = [...keywordHits(resumeIndex, keyword, stemming)];
+    const found = hits.find(outsideDumps);
+    if (found) {
       matchedKeywords.push(keyword);
+      group.matchedKeywords.push(keyword);
+      group.matched += weight;
+      if (found.surface.toLowerCase() !== keyword.toLowerCase()) matchedForms[keyword] = found.surface;
     } else {
+      if (hits.length > 0) dumpOnlyKeywords.push(keyword);
       missingKeywords.push(keyword);
+      group.missingKeywords.push(keyword);
     }
   });
 
+  // Most important gaps first
+  const byWeight = (a: string, b: string) => (weights[b] || 0) - (weights[a] || 0);
+  missingKeywords.sort(byWeight);
+
+  const categories: CategoryScore[] = KEYWORD_CATEGORIES
+    .filter(category => (byCategory.get(category)?.total || 0) > 0)
+    .map(category => {
+      const group = byCategory.get(category)!;
+      return {
+        category,
+        score: Math.round((group.matched / group.total) * 100),
+        matched: group.matchedKeywords,
+        missing: group.missingKeywords.sort(byWeight),
+      };
+    });
+
   // Calculate score
   const totalKeywords = jdKeywords.length;
   const matchPercentage = totalKeywords > 0 
     ? Math.round((matchedKeywords.length / totalKeywords) * 100) 
     : 0;
+  const categoryWeight = categories.reduce((sum, c) => sum + KEYWORD_CATEGORY_WEIGHTS[c.category], 0);
+  const keywordScore = categoryWeight > 0
+    ? Math.round(categories.reduce((sum, c) => sum + c.score * KEYWORD_CATEGORY_WEIGHTS[c.category], 0) / categoryWeight)
+    : 0;
+
+  // Sections of every place outside a dump the resume mentions each matched keyword
+  const keywordSections: Record<string, ResumeSectionKind[]> = {};
+  matchedKeywords.forEach(keyword => {
+    const hits = [...keywordHits(resumeIndex, keyword, stemming)].filter(outsideDumps);
+    const found = parsed.sections.filter(section => hits.some(hit => hit.start >= section.start && hit.start < section.end));
+    keywordSections[keyword] = [...new Set(found.map(section => section.kind))];
+  });
+
+  // Pasted or repeated JD keywords cost points
+  const stuffing = detectKeywordStuffing({
+    resume: resumeContent,
+    parsed,
+    keyPhrases,
+    matchedKeywords,
+    keywordSections,
+    stemming,
+    hiddenText: options.hiddenText,
+    dumps,
+    dumpOnlyKeywords,
+  });
+  const semantic = options.semantic;
+  const blendedScore = semantic
+    ? Math.round(keywordScore * (1 - SEMANTIC_WEIGHT) + semantic.score * SEMANTIC_WEIGHT)
+    : keywordScore;
+  const score = Math.max(0, blendedScore - stuffing.penalty);
 
   // Generate suggestions
   const suggestions: string[] = [];
   const topMissing = missingKeywords.slice(0, 5);
-  
-  if (matchPercentage < 60) {
+
+  if (stuffing.findings.length > 0) {
+    suggestions.push(`Possible keyword stuffing (−${stuffing.penalty} points): ${stuffing.findings[0].message}`);
+  }
+  if (score < 60) {
     suggestions.push(`Add ${topMissing.length} key skills: ${topMissing.join(', ')}`);
   }
-  if (matchPercentage >= 60 && matchPercentage < 80) {
+  if (score >= 60 && score < 80) {
     suggestions.push('Good match! Consider adding: ' + topMissing.slice(0, 3).join(', '));
   }
-  if (matchPercentage >= 80) {
+  if (score >= 80) {
     suggestions.push('Excellent match! Your resume aligns well with the job requirements.');
   }
 
+  // Skills a resume only lists, without a role or project that shows them
+  const hasEvidence = parsed.sections.some(section => EVIDENCE_SECTIONS.includes(section.kind));
+  const listedOnly = keyPhrases
+    .filter(p => (p.category === 'hardSkill' || p.category === 'tool') && keywordSections[p.phrase])
+    .map(p => p.phrase)
+    .filter(keyword => {
+      const where = keywordSections[keyword];
+      return where.includes('skills') && !where.some(kind => EVIDENCE_SECTIONS.includes(kind));
+    });
+  if (hasEvidence && listedOnly.length > 0) {
+    suggestions.push(`Listed in skills but never shown in a role or project: ${listedOnly.slice(0, 4).join(', ')}`);
+  }
+
+  const experience = matchExperience(resumeContent, jobDescription, { stemming, parsed });
+  const widestGap = experience.filter(e => !e.met).sort((a, b) => b.gap - a.gap)[0];
+  if (widestGap) {
+    suggestions.push(`Experience gap: ${widestGap.skill ? widestGap.skill : 'overall'} asks for ${widestGap.years}+ years, resume shows ${widestGap.actual}`);
+  }
+  const credentials = matchCredentials(resumeContent, jobDescription, options.sections, parsed);
+  const missingCredential = credentials.find(c => c.status === 'unmet' && c.strictness === 'required');
+  if (missingCredential) {
+    suggestions.push(`Required ${missingCredential.kind === 'degree' ? 'education' : 'certification'} not found: ${missingCredential.label}`);
+  }
+  const unanswered = semantic?.matches.find(m => m.coverage === 0 && m.section === 'requirements');
+  if (unanswered) {
+    suggestions.push(`No bullet speaks to the requirement: "${unanswered.requirement}"`);
+  }
+  const weakest = categories.filter(c => c.category !== 'other' && c.score < 50 && c.missing.length > 0).sort((a, b) => a.score - b.score)[0];
+  if (weakest) {
+    suggestions.push(`Weakest area is ${KEYWORD_CATEGORY_LABELS[weakest.category].toLowerCase()} (${weakest.score}%): ${weakest.missing.slice(0, 3).join(', ')}`);
+  }
+
   return {
-    score: matchPercentage,
+    score,
     matchedKeywords,
     missingKeywords,
     suggestions,
     totalKeywords,
     matchPercentage,
+    matchedForms,
+    keyPhrases,
+    categories,
+    experience,
+    credentials,
+    keywordSections,
+    stuffing,
+    ...(semantic ? { semantic } : {}),
   };
 }
 
@@ -124,11 +290,13 @@ export function scanResume(resumeContent: string, jobDescription: string): ATSRe
  * Scan multiple resumes
  */
 export function scanMultipleResumes(
-  resumes: Array<{ id: string; content: string }>,
-  jobDescription: string
+  resumes: Array<{ id: string; content: string; parsed?: ParsedResume; hiddenText?: string[]; semantic?: SemanticResult }>,
+  jobDescription: string,
+  options: ScanOptions = {}
 ): Array<ATSResult & { resumeId: string }> {
+  const job = options.job ?? analyzeJob(jobDescription, options);
   return resumes.map(resume => ({
     resumeId: resume.id,
-    ...scanResume(resume.content, jobDescription),
+    ...scanResume(resume.content, jobDescription, { ...options, job, parsed: resume.parsed, hiddenText: resume.hiddenText, semantic: resume.semantic }),
   }));
 }
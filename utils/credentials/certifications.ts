@@ -0,0 +1,159 @@
+/**
+ * Bundled Certification Catalog
+ * Professional certifications with their official names, exam codes and
+ * common abbreviations, grouped by issuer so "any AWS certification" can be
+ * matched too. Bump the version whenever entries change.
+ */
+
+export interface CertificationEntry {
+  /** Canonical name, shown in reports */
+  name: string;
+  aliases: string[];
+  /** Key into CERTIFICATION_ISSUERS */
+  issuer: string;
+  /** Lower certifications this one includes (a Professional covers the Associate) */
+  implies?: string[];
+}
+
+export interface CertificationIssuer {
+  name: string;
+  /** How JDs refer to the issuer in "AWS certification", "Azure certified" */
+  aliases: string[];
+}
+
+export const CERTIFICATION_CATALOG_VERSION = '1.1.0';
+
+export const CERTIFICATION_ISSUERS: Record<string, CertificationIssuer> = {
+  aws: { name: 'AWS', aliases: ['AWS', 'Amazon Web Services'] },
+  azure: { name: 'Microsoft Azure', aliases: ['Azure', 'Microsoft Azure', 'Microsoft'] },
+  gcp: { name: 'Google Cloud', aliases: ['GCP', 'Google Cloud', 'Google Cloud Platform'] },
+  cncf: { name: 'Kubernetes', aliases: ['Kubernetes', 'CNCF'] },
+  hashicorp: { name: 'HashiCorp', aliases: ['HashiCorp', 'Terraform'] },
+  cisco: { name: 'Cisco', aliases: ['Cisco'] },
+  comptia: { name: 'CompTIA', aliases: ['CompTIA'] },
+  isc2: { name: 'ISC2', aliases: ['ISC2', '(ISC)2', 'ISC²'] },
+  isaca: { name: 'ISACA', aliases: ['ISACA'] },
+  security: { name: 'Security', aliases: ['security', 'cybersecurity', 'infosec'] },
+  pmi: { name: 'PMI', aliases: ['PMI', 'project management'] },
+  scrum: { name: 'Scrum', aliases: ['Scrum', 'Agile', 'SAFe'] },
+  axelos: { name: 'Axelos', aliases: ['ITIL', 'PRINCE2'] },
+  finance: { name: 'Finance', aliases: ['accounting', 'finance', 'financial'] },
+  hr: { name: 'HR', aliases: ['HR', 'SHRM', 'HRCI'] },
+  salesforce: { name: 'Salesforce', aliases: ['Salesforce'] },
+  oracle: { name: 'Oracle', aliases: ['Oracle', 'Java'] },
+  redhat: { name: 'Red Hat', aliases: ['Red Hat', 'RedHat', 'Linux'] },
+  data: { name: 'Data', aliases: ['Databricks', 'Snowflake', 'Tableau', 'Power BI'] },
+  quality: { name: 'Quality', aliases: ['Six Sigma', 'Lean', 'ISTQB', 'testing'] },
+  medical: { name: 'Medical', aliases: ['BLS', 'ACLS', 'nursing'] },
+  google: { name: 'Google', aliases: ['Google Analytics', 'Google Ads'] },
+};
+
+export const CERTIFICATION_CATALOG: CertificationEntry[] = [
+  // AWS
+  { name: 'AWS Certified Cloud Practitioner', aliases: ['AWS Cloud Practitioner', 'CLF-C02', 'CLF-C01'], issuer: 'aws' },
+  // Named without a level, either one counts
+  { name: 'AWS Certified Solutions Architect', aliases: ['AWS Solutions Architect'], issuer: 'aws', implies: ['AWS Certified Cloud Practitioner'] },
+  { name: 'AWS Certified Solutions Architect – Associate', aliases: ['AWS Solutions Architect Associate', 'AWS Certified Solutions Architect Associate', 'SAA-C03', 'AWS SAA'], issuer: 'aws', implies: ['AWS Certified Solutions Architect', 'AWS Certified Cloud Practitioner'] },
+  { name: 'AWS Certified Solutions Architect – Professional', aliases: ['AWS Solutions Architect Professional', 'AWS Certified Solutions Architect Professional', 'SAP-C02', 'AWS SAP'], issuer: 'aws', implies: ['AWS Certified Solutions Architect – Associate', 'AWS Certified Cloud Practitioner'] },
+  { name: 'AWS Certified Developer – Associate', aliases: ['AWS Developer Associate', 'AWS Certified Developer', 'AWS Certified Developer Associate', 'DVA-C02'], issuer: 'aws', implies: ['AWS Certified Cloud Practitioner'] },
+  { name: 'AWS Certified SysOps Administrator – Associate', aliases: ['AWS SysOps Administrator', 'AWS Certified SysOps Administrator', 'AWS SysOps', 'SOA-C02'], issuer: 'aws', implies: ['AWS Certified Cloud Practitioner'] },
+  { name: 'AWS Certified DevOps Engineer – Professional', aliases: ['AWS DevOps Engineer Professional', 'AWS Certified DevOps Engineer', 'DOP-C02'], issuer: 'aws', implies: ['AWS Certified Developer – Associate', 'AWS Certified SysOps Administrator – Associate', 'AWS Certified Cloud Practitioner'] },
+  { name: 'AWS Certified Security – Specialty', aliases: ['AWS Security Specialty', 'AWS Certified Security Specialty', 'SCS-C02'], issuer: 'aws' },
+  { name: 'AWS Certified Machine Learning – Specialty', aliases: ['AWS Machine Learning Specialty', 'AWS Certified Machine Learning Specialty', 'MLS-C01'], issuer: 'aws' },
+  { name: 'AWS Certified Data Engineer – Associate', aliases: ['AWS Data Engineer Associate', 'AWS Certified Data Engineer', 'DEA-C01'], issuer: 'aws' },
+
+  // Microsoft Azure
+  { name: 'Microsoft Certified: Azure Fundamentals', aliases: ['Azure Fundamentals', 'AZ-900'], issuer: 'azure' },
+  { name: 'Microsoft Certified: Azure Administrator Associate', aliases: ['Azure Administrator Associate', 'Azure Administrator', 'AZ-104'], issuer: 'azure', implies: ['Microsoft Certified: Azure Fundamentals'] },
+  { name: 'Microsoft Certified: Azure Developer Associate', aliases: ['Azure Developer Associate', 'Azure Developer', 'AZ-204'], issuer: 'azure', implies: ['Microsoft Certified: Azure Fundamentals'] },
+  { name: 'Microsoft Certified: Azure Solutions Architect Expert', aliases: ['Azure Solutions Architect Expert', 'Azure Solutions Architect', 'AZ-305'], issuer: 'azure', implies: ['Microsoft Certified: Azure Administrator Associate', 'Microsoft Certified: Azure Fundamentals'] },
+  { name: 'Microsoft Certified: DevOps Engineer Expert', aliases: ['Azure DevOps Engineer Expert', 'Azure DevOps Engineer', 'AZ-400'], issuer: 'azure', implies: ['Microsoft Certified: Azure Fundamentals'] },
+  { name: 'Microsoft Certified: Azure Data Engineer Associate', aliases: ['Azure Data Engineer Associate', 'Azure Data Engineer', 'DP-203'], issuer: 'azure' },
+  { name: 'Microsoft Certified: Azure AI Engineer Associate', aliases: ['Azure AI Engineer Associate', 'Azure AI Engineer', 'AI-102'], issuer: 'azure' },
+  { name: 'Microsoft Certified: Power BI Data Analyst Associate', aliases: ['Power BI Data Analyst Associate', 'Power BI Data Analyst', 'PL-300', 'DA-100'], issuer: 'azure' },
+
+  // Google Cloud
+  { name: 'Google Cloud Associate Cloud Engineer', aliases: ['Associate Cloud Engineer', 'GCP Associate Cloud Engineer'], issuer: 'gcp' },
+  { name: 'Google Cloud Professional Cloud Architect', aliases: ['Professional Cloud Architect', 'GCP Professional Cloud Architect', 'Google Cloud Architect', 'GCP Cloud Architect'], issuer: 'gcp', implies: ['Google Cloud Associate Cloud Engineer'] },
+  { name: 'Google Cloud Professional Data Engineer', aliases: ['Professional Data Engineer', 'GCP Professional Data Engineer', 'GCP Data Engineer'], issuer: 'gcp' },
+  { name: 'Google Cloud Professional Cloud Developer', aliases: ['Professional Cloud Developer', 'GCP Professional Cloud Developer'], issuer: 'gcp' },
+
+  // Kubernetes and infrastructure
+  { name: 'Certified Kubernetes Administrator', aliases: ['CKA'], issuer: 'cncf' },
+  { name: 'Certified Kubernetes Application Developer', aliases: ['CKAD'], issuer: 'cncf' },
+  { name: 'Certified Kubernetes Security Specialist', aliases: ['CKS'], issuer: 'cncf', implies: ['Certified Kubernetes Administrator'] },
+  { name: 'HashiCorp Certified: Terraform Associate', aliases: ['Terraform Associate', 'HashiCorp Terraform Associate', 'Terraform certification'], issuer: 'hashicorp' },
+  { name: 'Red Hat Certified System Administrator', aliases: ['RHCSA'], issuer: 'redhat' },
+  { name: 'Red Hat Certified Engineer', aliases: ['RHCE'], issuer: 'redhat', implies: ['Red Hat Certified System Administrator'] },
+  { name: 'Linux Professional Institute LPIC-1', aliases: ['LPIC-1', 'LPIC'], issuer: 'redhat' },
+
+  // Networking
+  { name: 'Cisco Certified Network Associate', aliases: ['CCNA'], issuer: 'cisco' },
+  { name: 'Cisco Certified Network Professional', aliases: ['CCNP'], issuer: 'cisco', implies: ['Cisco Certified Network Associate'] },
+  { name: 'Cisco Certified Internetwork Expert', aliases: ['CCIE'], issuer: 'cisco', implies: ['Cisco Certified Network Professional', 'Cisco Certified Network Associate'] },
+
+  // CompTIA
+  { name: 'CompTIA A+', aliases: ['A+ certification', 'A+ certified'], issuer: 'comptia' },
+  { name: 'CompTIA Network+', aliases: ['Network+'], issuer: 'comptia' },
+  { name: 'CompTIA Security+', aliases: ['Security+', 'Sec+'], issuer: 'comptia' },
+  { name: 'CompTIA CySA+', aliases: ['CySA+', 'Cybersecurity Analyst+'], issuer: 'comptia' },
+  { name: 'CompTIA PenTest+', aliases: ['PenTest+'], issuer: 'comptia' },
+  { name: 'CompTIA CASP+', aliases: ['CASP+', 'SecurityX'], issuer: 'comptia', implies: ['CompTIA Security+'] },
+
+  // Security
+  { name: 'CISSP', aliases: ['Certified Information Systems Security Professional'], issuer: 'isc2' },
+  { name: 'CCSP', aliases: ['Certified Cloud Security Professional'], issuer: 'isc2' },
+  { name: 'CISM', aliases: ['Certified Information Security Manager'], issuer: 'isaca' },
+  { name: 'CISA', aliases: ['Certified Information Systems Auditor'], issuer: 'isaca' },
+  { name: 'CEH', aliases: ['Certified Ethical Hacker'], issuer: 'security' },
+  { name: 'OSCP', aliases: ['Offensive Security Certified Professional'], issuer: 'security' },
+  { name: 'GIAC Security Essentials', aliases: ['GSEC'], issuer: 'security' },
+
+  // Project management and agile
+  { name: 'PMP', aliases: ['Project Management Professional'], issuer: 'pmi', implies: ['CAPM'] },
+  { name: 'CAPM', aliases: ['Certified Associate in Project Management'], issuer: 'pmi' },
+  { name: 'PMI-ACP', aliases: ['PMI Agile Certified Practitioner'], issuer: 'pmi' },
+  { name: 'PRINCE2', aliases: ['PRINCE2 Foundation', 'PRINCE2 Practitioner'], issuer: 'axelos' },
+  { name: 'ITIL 4 Foundation', aliases: ['ITIL Foundation', 'ITIL v4', 'ITIL 4', 'ITIL certification', 'ITIL certified'], issuer: 'axelos' },
+  { name: 'Certified ScrumMaster', aliases: ['CSM', 'Certified Scrum Master'], issuer: 'scrum' },
+  { name: 'Professional Scrum Master', aliases: ['PSM', 'PSM I', 'PSM II'], issuer: 'scrum' },
+  { name: 'Certified Scrum Product Owner', aliases: ['CSPO'], issuer: 'scrum' },
+  { name: 'Professional Scrum Product Owner', aliases: ['PSPO'], issuer: 'scrum' },
+  { name: 'SAFe Agilist', aliases: ['SAFe Agilist certification', 'Certified SAFe Agilist'], issuer: 'scrum' },
+
+  // Finance and accounting
+  { name: 'CPA', aliases: ['Certified Public Accountant'], issuer: 'finance' },
+  { name: 'CFA', aliases: ['Chartered Financial Analyst', 'CFA charterholder'], issuer: 'finance' },
+  { name: 'ACCA', aliases: ['Association of Chartered Certified Accountants', 'ACCA qualified'], issuer: 'finance' },
+  { name: 'CMA', aliases: ['Certified Management Accountant'], issuer: 'finance' },
+  { name: 'Certified Internal Auditor', aliases: ['CIA certification'], issuer: 'finance' },
+  { name: 'FRM', aliases: ['Financial Risk Manager'], issuer: 'finance' },
+  { name: 'CFP', aliases: ['Certified Financial Planner'], issuer: 'finance' },
+
+  // HR
+  { name: 'SHRM-CP', aliases: ['SHRM Certified Professional'], issuer: 'hr' },
+  { name: 'SHRM-SCP', aliases: ['SHRM Senior Certified Professional'], issuer: 'hr', implies: ['SHRM-CP'] },
+  { name: 'PHR', aliases: ['Professional in Human Resources'], issuer: 'hr' },
+  { name: 'SPHR', aliases: ['Senior Professional in Human Resources'], issuer: 'hr', implies: ['PHR'] },
+
+  // Vendors and data
+  { name: 'Salesforce Certified Administrator', aliases: ['Salesforce Administrator', 'Salesforce Admin certification', 'Salesforce Certified Admin'], issuer: 'salesforce' },
+  { name: 'Salesforce Certified Platform Developer I', aliases: ['Salesforce Platform Developer I', 'Platform Developer I', 'Salesforce PD1'], issuer: 'salesforce' },
+  { name: 'Oracle Certified Professional: Java SE Developer', aliases: ['OCP Java', 'Oracle Certified Professional Java', 'OCPJP', 'Oracle Java certification'], issuer: 'oracle' },
+  { name: 'Databricks Certified Data Engineer Associate', aliases: ['Databricks Data Engineer Associate', 'Databricks certification'], issuer: 'data' },
+  { name: 'SnowPro Core', aliases: ['SnowPro Core Certification', 'Snowflake SnowPro'], issuer: 'data' },
+  { name: 'Tableau Desktop Specialist', aliases: ['Tableau certification', 'Tableau Certified Data Analyst'], issuer: 'data' },
+  { name: 'Google Analytics Certification', aliases: ['GAIQ', 'Google Analytics Individual Qualification', 'Google Analytics certified'], issuer: 'google' },
+  { name: 'Google Ads Certification', aliases: ['Google Ads certified', 'Google AdWords certification'], issuer: 'google' },
+
+  // Quality and testing
+  { name: 'ISTQB Foundation Level', aliases: ['ISTQB', 'ISTQB CTFL', 'CTFL'], issuer: 'quality' },
+  { name: 'Six Sigma Green Belt', aliases: ['Lean Six Sigma Green Belt'], issuer: 'quality' },
+  { name: 'Six Sigma Black Belt', aliases: ['Lean Six Sigma Black Belt'], issuer: 'quality', implies: ['Six Sigma Green Belt'] },
+
+  // Healthcare and trades
+  { name: 'Basic Life Support', aliases: ['BLS', 'BLS certification', 'CPR certification', 'CPR certified'], issuer: 'medical' },
+  { name: 'Advanced Cardiovascular Life Support', aliases: ['ACLS'], issuer: 'medical', implies: ['Basic Life Support'] },
+  { name: 'Registered Nurse', aliases: ['RN license', 'RN licensure', 'licensed RN'], issuer: 'medical' },
+  { name: "Commercial Driver's License", aliases: ['CDL', 'CDL Class A', 'CDL Class B'], issuer: 'medical' },
+];
@@ -0,0 +1,175 @@
+/**
+ * Degree Detection
+ * Finds degrees in JD and resume text: the level ("BS", "Master's", "PhD")
+ * and the fields that follow it ("in Computer Science, Engineering or a
+ * related field"). Fields are grouped into families so "a related field"
+ * can be judged.
+ */
+
+import { stemPhrase } from '../stemmer';
+
+export type DegreeLevel = 'highSchool' | 'associate' | 'bachelor' | 'master' | 'doctorate';
+
+export const DEGREE_LEVEL_LABELS: Record<DegreeLevel, string> = {
+  highSchool: 'High school diploma',
+  associate: "Associate's degree",
+  bachelor: "Bachelor's degree",
+  master: "Master's degree",
+  doctorate: 'Doctorate',
+};
+
+/** Higher levels satisfy lower ones */
+export const DEGREE_LEVEL_RANK: Record<DegreeLevel, number> = {
+  highSchool: 0,
+  associate: 1,
+  bachelor: 2,
+  master: 3,
+  doctorate: 4,
+};
+
+export interface DegreeMention {
+  /** Undefined for an unqualified "degree in X" */
+  level?: DegreeLevel;
+  /** Lowercased, as written: ["computer science", "engineering"] */
+  fields: string[];
+  /** "or a related field", "or similar" */
+  relatedField: boolean;
+  /** The degree wording as written */
+  surface: string;
+  index: number;
+}
+
+// Abbreviations are matched with their capitalization, spelled-out names in any case
+const LEVEL_PATTERNS: Array<[DegreeLevel, RegExp]> = [
+  ['doctorate', /\b(?:doctorate|doctoral degree|[Dd]octor of [Pp]hilosophy)\b|\bPh\.?\s?D\b\.?/i],
+  ['master', /\b(?:master'?s?(?: degree)?|graduate degree|postgraduate degree)(?![\p{L}])/iu],
+  ['master', /(?<![\p{L}.])(?:M\.S\.|M\.Sc\.?|MSc|MS|M\.A\.|MA|MEng|M\.Eng\.?|MBA|M\.B\.A\.|MPH|MFA|LLM)(?![\p{L}\p{N}])/u],
+  ['bachelor', /\b(?:bachelor'?s?(?: degree)?|undergraduate degree|university degree|college degree|four-year degree|4-year degree)(?![\p{L}])/iu],
+  ['bachelor', /(?<![\p{L}.])(?:B\.S\.|B\.Sc\.?|BSc|BS|B\.A\.|BA|BEng|B\.Eng\.?|BTech|B\.Tech\.?|BBA|BFA|LLB)(?![\p{L}\p{N}])/u],
+  ['associate', /\bassociate'?s? degree\b|(?<![\p{L}.])(?:A\.A\.S?\.|AAS)(?![\p{L}\p{N}])/iu],
+  ['highSchool', /\b(?:high school diploma|high school|secondary school|GED)\b/i],
+];
+
+// "degree in X" with no level
+const BARE_DEGREE_RE = /\bdegree\b/i;
+// What may sit between the level and the field: "degree in", "of Science in"
+const FIELD_LEAD_RE = /^\s*(?:\([\w.]+\)\s*)?(?:degree\s*)?(?:of\s+(?:science|arts|engineering|applied science)\s*)?(?:in|of|,)?\s+/i;
+const FIELD_END_RE = /[.;\n()]|\b(?:or equivalent|or higher|or above|preferred|required|is (?:a plus|required|preferred)|with|from|and\s+\d|plus\b)/i;
+const RELATED_FIELD_RE = /\b(?:related|relevant|similar|equivalent|technical|quantitative|STEM)\s+(?:field|discipline|area|subject)s?\b|\bor similar\b|\bor related\b/i;
+const FIELD_WORD_RE = /^[\p{L}][\p{L}&'-]*$/u;
+const MAX_FIELD_WORDS = 5;
+// Words that start a clause rather than a field
+const NOT_FIELD_RE = /^(?:a|an|the|any|one|related|relevant|similar|equivalent|technical|quantitative|stem|field|discipline|experience|years?|degree|from|at|with|and|or|preferred|required|certification|is|are|university|college|institute|school|academy)$/i;
+
+/**
+ * Field families: a degree in any field of a family counts as "related" to
+ * the others
+ */
+const FIELD_FAMILIES: string[][] = [
+  ['computer science', 'software engineering', 'computer engineering', 'information technology', 'information systems', 'informatics', 'computing', 'data science', 'artificial intelligence', 'cybersecurity', 'computer information systems'],
+  ['engineering', 'electrical engineering', 'electronic engineering', 'mechanical engineering', 'civil engineering', 'chemical engineering', 'industrial engineering', 'aerospace engineering', 'computer engineering', 'physics'],
+  ['mathematics', 'math', 'applied mathematics', 'statistics', 'physics', 'data science', 'econometrics', 'operations research'],
+  ['business', 'business administration', 'management', 'finance', 'economics', 'accounting', 'marketing', 'commerce', 'mba'],
+  ['biology', 'chemistry', 'biochemistry', 'life sciences', 'biomedical engineering', 'pharmacy', 'medicine', 'nursing', 'public health'],
+  ['design', 'graphic design', 'interaction design', 'human-computer interaction', 'hci', 'fine arts', 'visual communication'],
+  ['communications', 'journalism', 'english', 'marketing', 'public relations', 'media studies'],
+  ['psychology', 'human resources', 'sociology', 'organizational behavior', 'social sciences'],
+];
+
+const familyIndex = new Map<string, number[]>();
+FIELD_FAMILIES.forEach((family, i) => family.forEach((field) => {
+  const key = stemPhrase(field);
+  familyIndex.set(key, [...(familyIndex.get(key) || []), i]);
+}));
+
+/** Families a field belongs to; multi-word fields also by their last word ("... engineering") */
+function familiesOf(field: string): number[] {
+  const key = stemPhrase(field);
+  const direct = familyIndex.get(key);
+  if (direct) return direct;
+  const head = key.split(' ').pop() || '';
+  return familyIndex.get(head) || [];
+}
+
+/**
+ * Whether two fields are the same ("CS" aside, by stems and containment:
+ * "Computer Science" ↔ "Computer Sciences", "Engineering" ↔ "Software Engineering")
+ */
+export function sameField(a: string, b: string): boolean {
+  const [x, y] = [stemPhrase(expandField(a)), stemPhrase(expandField(b))];
+  return x === y || ` ${x} `.includes(` ${y} `) || ` ${y} `.includes(` ${x} `);
+}
+
+/** Fields in one family */
+export function relatedFields(a: string, b: string): boolean {
+  const families = familiesOf(expandField(a));
+  return familiesOf(expandField(b)).some((f) => families.includes(f));
+}
+
+const FIELD_ABBREVIATIONS: Record<string, string> = {
+  cs: 'computer science',
+  it: 'information technology',
+  ee: 'electrical engineering',
+  ce: 'computer engineering',
+  cis: 'computer information systems',
+};
+
+function expandField(field: string): string {
+  return FIELD_ABBREVIATIONS[field.toLowerCase()] || field;
+}
+
+/**
+ * Fields listed after a degree: "in Computer Science, Mathematics or a
+ * related field" → ["computer science", "mathematics"], related
+ */
+function parseFields(after: string): { fields: string[]; relatedField: boolean } {
+  const lead = after.match(FIELD_LEAD_RE);
+  if (!lead) return { fields: [], relatedField: false };
+  const rest = after.slice(lead[0].length);
+  const end = rest.search(FIELD_END_RE);
+  const span = end >= 0 ? rest.slice(0, end) : rest.slice(0, 120);
+
+  const fields: string[] = [];
+  for (const part of span.split(/,|\/|\bor\b|\band\b(?!\s+(?:technology|science|engineering)\b)|&(?=\s)/i)) {
+    const words = part.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0 || words.length > MAX_FIELD_WORDS) continue;
+    if (NOT_FIELD_RE.test(words[0]) || !words.every((w) => FIELD_WORD_RE.test(w))) continue;
+    if (words.some((w) => NOT_FIELD_RE.test(w) && !/^and$/i.test(w))) continue;
+    fields.push(expandField(words.join(' ')).toLowerCase());
+  }
+  return { fields, relatedField: RELATED_FIELD_RE.test(span) };
+}
+
+/**
+ * Every degree mentioned in a text, in order
+ */
+export function detectDegrees(text: string): DegreeMention[] {
+  const found: DegreeMention[] = [];
+  const taken = (index: number, length: number) =>
+    found.some((d) => index < d.index + d.surface.length && d.index < index + length);
+
+  for (const [level, pattern] of LEVEL_PATTERNS) {
+    const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+    for (const match of text.matchAll(global)) {
+      const index = match.index ?? 0;
+      if (taken(index, match[0].length)) continue;
+      const after = text.slice(index + match[0].length);
+      const parsed = parseFields(after);
+      // Bare "MA", "BS" and "MS" ("MS Office", "BA team") need "degree", "in" or a known field
+      if (/^[A-Z]{2,4}$/.test(match[0]) && !/^\s*(?:degree\b|in\b|of\b|\(|,|\/)/i.test(after)
+        && !(parsed.fields.length > 0 && familiesOf(parsed.fields[0]).length > 0)) continue;
+      found.push({ level, ...parsed, surface: match[0], index });
+    }
+  }
+
+  for (const match of text.matchAll(new RegExp(BARE_DEGREE_RE.source, 'gi'))) {
+    const index = match.index ?? 0;
+    // "Bachelor's degree" was already taken whole; a nearby level owns this "degree" too
+    if (found.some((d) => index >= d.index && index <= d.index + d.surface.length + 40)) continue;
+    const parsed = parseFields(text.slice(index + match[0].length));
+    if (parsed.fields.length === 0 && !parsed.relatedField) continue;
+    found.push({ ...parsed, surface: match[0], index });
+  }
+
+  return found.sort((a, b) => a.index - b.index);
+}
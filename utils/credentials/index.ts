@@ -0,0 +1,345 @@
+/**
+ * Education and Certification Matching
+ * Detects degree and certification requirements in a JD ("BS in Computer
+ * Science or equivalent", "AWS Certified Solutions Architect", "PMP
+ * preferred") and the degrees and certifications a resume lists, then
+ * matches them requirement by requirement. "Or equivalent experience" makes
+ * a degree a soft requirement that enough years of work can stand in for.
+ */
+
+import type { JDSection } from '../jdSections';
+import { stemPhrase } from '../stemmer';
+import { datedRoles, experienceYears } from '../experience';
+import { ParsedResume, parseResume } from '../resumeParser';
+import { CERTIFICATION_CATALOG, CERTIFICATION_ISSUERS, CertificationEntry } from './certifications';
+import {
+  DEGREE_LEVEL_LABELS,
+  DEGREE_LEVEL_RANK,
+  DegreeLevel,
+  DegreeMention,
+  detectDegrees,
+  relatedFields,
+  sameField,
+} from './degrees';
+
+export { CERTIFICATION_CATALOG_VERSION } from './certifications';
+export type { CertificationEntry } from './certifications';
+export * from './degrees';
+
+export interface CertificationMention {
+  certification: CertificationEntry;
+  /** Text as written, e.g. "SAA-C03" */
+  surface: string;
+  index: number;
+}
+
+/** Required, nice to have, or replaceable by experience */
+export type CredentialStrictness = 'required' | 'preferred' | 'equivalent';
+
+export type CredentialStatus = 'met' | 'partial' | 'equivalent' | 'unmet';
+
+export interface CredentialRequirement {
+  kind: 'degree' | 'certification';
+  /** Shown in the match table: "Bachelor's degree in computer science", "PMP" */
+  label: string;
+  strictness: CredentialStrictness;
+  /** The JD clause it was read from */
+  text: string;
+  /** Degrees: lowest level accepted; undefined for any degree */
+  level?: DegreeLevel;
+  fields?: string[];
+  /** Degrees: "or a related field" */
+  relatedField?: boolean;
+  /** Certifications: catalog name */
+  certification?: string;
+  /** Certifications: any certification from this issuer ("AWS certification") */
+  issuer?: string;
+  /** Certifications outside the catalog, matched by wording */
+  phrase?: string;
+}
+
+export interface CredentialMatch extends CredentialRequirement {
+  status: CredentialStatus;
+  /** What the resume has that answers it */
+  found?: string;
+}
+
+export interface ResumeCredentials {
+  degrees: DegreeMention[];
+  /** Catalog names, implied certifications included */
+  certifications: string[];
+}
+
+const EQUIVALENT_RE = /\bor equivalent\b|\bequivalent (?:practical |professional |work |industry |relevant )?experience\b|\bor (?:relevant|related|comparable) (?:work |professional )?experience\b|\bin lieu of\b|\bor equivalent combination\b/i;
+const PREFERRED_RE = /\bpreferred\b|\bpreferably\b|\b(?:is|are|would be) a (?:big |huge )?plus\b|\bnice[\s-]to[\s-]have\b|\bdesirable\b|\bdesired\b|\bbonus\b|\bideally\b|\badvantage(?:ous)?\b|\bwelcome\b/i;
+// Clause boundaries: lines, semicolons and sentence ends (but not "B.S. in")
+const CLAUSE_SPLIT_RE = /\n|;|(?<![\s.][A-Za-z])\.\s+(?=[A-Z])/;
+const CERT_WORD = '(?:certifi(?:ed|cations?|cates?)|certificate)';
+// Certifications outside the catalog: "Certified Data Privacy Professional", "Scaled Agile certification"
+const GENERIC_CERT_RES = [
+  /(?<![\p{L}])[Cc]ertified\s+((?:[A-Z][\p{L}\p{N}+&-]*\s+){0,4}[A-Z][\p{L}\p{N}+&-]*)/gu,
+  /(?<![\p{L}])((?:[A-Z][\p{L}\p{N}+&-]*\s+){1,4})(?:[Cc]ertification|[Cc]ertificate)\b/gu,
+];
+/** Years of work that stand in for a degree when the JD accepts equivalent experience */
+const EQUIVALENT_YEARS: Record<DegreeLevel, number> = {
+  highSchool: 0,
+  associate: 2,
+  bachelor: 4,
+  master: 6,
+  doctorate: 8,
+};
+
+interface CertificationIndex {
+  byName: Map<string, CertificationEntry>;
+  /** Lowercased first word for a cheap pre-check, and the alias pattern */
+  patterns: Array<{ entry: CertificationEntry; first: string; regex: RegExp }>;
+  issuers: Array<{ key: string; regex: RegExp }>;
+}
+
+let certificationIndex: CertificationIndex | null = null;
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Loose separators, so "AZ 900", "AZ-900" and "Solutions Architect - Associate" all match */
+function certificationSource(alias: string): string {
+  const body = alias.trim().split(/[\s\-–—:]+/).map(escapeRegex).join('[\\s\\-–—:]*');
+  return `(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}+])`;
+}
+
+function certificationKey(term: string): string {
+  return term.toLowerCase().replace(/[\s\-–—:]+/g, ' ').trim();
+}
+
+function getCertificationIndex(): CertificationIndex {
+  if (certificationIndex) return certificationIndex;
+
+  const byName = new Map<string, CertificationEntry>();
+  const patterns: CertificationIndex['patterns'] = [];
+  for (const entry of CERTIFICATION_CATALOG) {
+    for (const alias of [entry.name, ...entry.aliases]) {
+      byName.set(certificationKey(alias), entry);
+      // Acronyms ("PMP", "CKA") only match in capitals
+      const caseSensitive = /^[A-Z0-9+-]{2,8}$/.test(alias);
+      patterns.push({
+        entry,
+        first: alias.trim().split(/[\s\-–—:]+/)[0].toLowerCase(),
+        regex: new RegExp(certificationSource(alias), caseSensitive ? 'gu' : 'giu'),
+      });
+    }
+  }
+  const issuers = Object.entries(CERTIFICATION_ISSUERS).map(([key, issuer]) => {
+    const names = issuer.aliases.map(escapeRegex).join('|');
+    return {
+      key,
+      regex: new RegExp(`(?<![\\p{L}])(?:(?:${names})\\s+${CERT_WORD}|${CERT_WORD}\\s+(?:in|on|for)\\s+(?:${names}))(?![\\p{L}])`, 'giu'),
+    };
+  });
+
+  certificationIndex = { byName, patterns, issuers };
+  return certificationIndex;
+}
+
+/**
+ * The catalog certification a term names, by official name or any alias
+ */
+export function findCertification(term: string): CertificationEntry | undefined {
+  return getCertificationIndex().byName.get(certificationKey(term));
+}
+
+/**
+ * Every catalog certification mentioned in a text, in order; the longest
+ * name wins where two overlap
+ */
+export function findCertificationMentions(text: string): CertificationMention[] {
+  const lower = text.toLowerCase();
+  const candidates: CertificationMention[] = [];
+  for (const { entry, first, regex } of getCertificationIndex().patterns) {
+    if (!lower.includes(first)) continue;
+    for (const match of text.matchAll(regex)) {
+      candidates.push({ certification: entry, surface: match[0], index: match.index ?? 0 });
+    }
+  }
+
+  candidates.sort((a, b) => b.surface.length - a.surface.length);
+  const mentions: CertificationMention[] = [];
+  for (const candidate of candidates) {
+    const end = candidate.index + candidate.surface.length;
+    if (mentions.some((m) => candidate.index < m.index + m.surface.length && m.index < end)) continue;
+    mentions.push(candidate);
+  }
+  return mentions.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Certification names plus every lower certification they include
+ */
+export function impliedCertifications(names: string[]): string[] {
+  const all = new Set<string>();
+  const visit = (name: string) => {
+    if (all.has(name)) return;
+    all.add(name);
+    findCertification(name)?.implies?.forEach(visit);
+  };
+  names.forEach(visit);
+  return [...all];
+}
+
+function clausesOf(text: string): string[] {
+  return text.split(CLAUSE_SPLIT_RE).map((clause) => clause.trim()).filter(Boolean);
+}
+
+function strictnessOf(clause: string, sections: JDSection[]): CredentialStrictness {
+  if (EQUIVALENT_RE.test(clause)) return 'equivalent';
+  if (PREFERRED_RE.test(clause)) return 'preferred';
+  if (sections.some((section) => section.kind === 'niceToHave' && section.text.includes(clause))) return 'preferred';
+  return 'required';
+}
+
+function degreeLabel(level: DegreeLevel | undefined, fields: string[], relatedField: boolean): string {
+  const base = level ? DEGREE_LEVEL_LABELS[level] : 'Degree';
+  if (fields.length === 0) return relatedField ? `${base} in a related field` : base;
+  return `${base} in ${fields.join(' / ')}${relatedField ? ' or related' : ''}`;
+}
+
+/**
+ * Degree and certification requirements of a JD, one row per requirement
+ */
+export function parseCredentialRequirements(jobDescription: string, sections: JDSection[] = []): CredentialRequirement[] {
+  const requirements = new Map<string, CredentialRequirement>();
+  const add = (requirement: CredentialRequirement) => {
+    const key = `${requirement.kind}:${requirement.label.toLowerCase()}`;
+    const existing = requirements.get(key);
+    // The strictest wording wins when a JD repeats itself
+    if (existing && existing.strictness === 'required') return;
+    if (existing && requirement.strictness !== 'required') return;
+    requirements.set(key, requirement);
+  };
+
+  for (const clause of clausesOf(jobDescription)) {
+    const strictness = strictnessOf(clause, sections);
+
+    // Degrees: one row per clause, "BS/MS in CS" asks for the lower of the two
+    const degrees = detectDegrees(clause);
+    if (degrees.length > 0) {
+      const levels = degrees.map((d) => d.level).filter((l): l is DegreeLevel => !!l);
+      const level = levels.sort((a, b) => DEGREE_LEVEL_RANK[a] - DEGREE_LEVEL_RANK[b])[0];
+      const fields = [...new Set(degrees.flatMap((d) => d.fields))];
+      const relatedField = degrees.some((d) => d.relatedField);
+      add({ kind: 'degree', label: degreeLabel(level, fields, relatedField), strictness, text: clause, level, fields, relatedField });
+    }
+
+    // Certifications from the catalog
+    const mentions = findCertificationMentions(clause);
+    const covered = (index: number, length: number) =>
+      mentions.some((m) => index < m.index + m.surface.length && m.index < index + length);
+    mentions.forEach(({ certification }) => add({
+      kind: 'certification',
+      label: certification.name,
+      strictness,
+      text: clause,
+      certification: certification.name,
+    }));
+
+    // "AWS certification": any certification from the issuer
+    const issuerHits: Array<{ index: number; length: number }> = [];
+    for (const { key, regex } of getCertificationIndex().issuers) {
+      for (const match of clause.matchAll(regex)) {
+        const index = match.index ?? 0;
+        if (covered(index, match[0].length)) continue;
+        issuerHits.push({ index, length: match[0].length });
+        add({ kind: 'certification', label: `${CERTIFICATION_ISSUERS[key].name} certification`, strictness, text: clause, issuer: key });
+      }
+    }
+
+    // Anything else that calls itself a certification
+    for (const pattern of GENERIC_CERT_RES) {
+      for (const match of clause.matchAll(pattern)) {
+        const index = match.index ?? 0;
+        if (covered(index, match[0].length) || issuerHits.some((h) => index < h.index + h.length && h.index < index + match[0].length)) continue;
+        const phrase = match[1].trim();
+        if (!phrase || /^(?:A|An|The|Any|Relevant|Professional|Industry)$/.test(phrase)) continue;
+        add({ kind: 'certification', label: `${phrase} certification`, strictness, text: clause, phrase });
+      }
+    }
+  }
+  return [...requirements.values()];
+}
+
+/**
+ * Degrees and catalog certifications a resume lists
+ */
+export function detectCredentials(resume: string): ResumeCredentials {
+  return {
+    degrees: detectDegrees(resume),
+    certifications: impliedCertifications([...new Set(findCertificationMentions(resume).map((m) => m.certification.name))]),
+  };
+}
+
+function describeDegree(degree: DegreeMention): string {
+  return degreeLabel(degree.level, degree.fields, false);
+}
+
+function matchDegree(requirement: CredentialRequirement, degrees: DegreeMention[], workYears: number): CredentialMatch {
+  const requiredRank = requirement.level ? DEGREE_LEVEL_RANK[requirement.level] : DEGREE_LEVEL_RANK.associate;
+  // A bare "degree in X" on a resume is taken as a bachelor's
+  const rank = (d: DegreeMention) => DEGREE_LEVEL_RANK[d.level || 'bachelor'];
+  const fields = requirement.fields || [];
+  const fieldMatch = (d: DegreeMention) => fields.length === 0 || d.fields.some((f) => fields.some((r) => sameField(f, r)));
+  const fieldRelated = (d: DegreeMention) => d.fields.some((f) => fields.some((r) => relatedFields(f, r)));
+
+  const atLevel = degrees.filter((d) => rank(d) >= requiredRank).sort((a, b) => rank(b) - rank(a));
+  const exact = atLevel.find(fieldMatch);
+  if (exact) return { ...requirement, status: 'met', found: describeDegree(exact) };
+  const related = atLevel.find(fieldRelated);
+  if (related && requirement.relatedField) return { ...requirement, status: 'met', found: describeDegree(related) };
+
+  // Experience stands in for the degree, or for its exact field
+  const equivalentYears = EQUIVALENT_YEARS[requirement.level || 'bachelor'];
+  if (requirement.strictness === 'equivalent' && workYears >= equivalentYears) {
+    return { ...requirement, status: 'equivalent', found: `${workYears} years of experience` };
+  }
+  if (related || atLevel.length > 0) return { ...requirement, status: 'partial', found: describeDegree(related || atLevel[0]) };
+  const lower = [...degrees].sort((a, b) => rank(b) - rank(a))[0];
+  if (lower) return { ...requirement, status: 'partial', found: describeDegree(lower) };
+  return { ...requirement, status: 'unmet' };
+}
+
+function matchCertification(requirement: CredentialRequirement, credentials: ResumeCredentials, resume: string): CredentialMatch {
+  const held = credentials.certifications;
+  if (requirement.certification) {
+    if (held.includes(requirement.certification)) return { ...requirement, status: 'met', found: requirement.certification };
+    const issuer = findCertification(requirement.certification)?.issuer;
+    const sibling = held.find((name) => findCertification(name)?.issuer === issuer);
+    return sibling ? { ...requirement, status: 'partial', found: sibling } : { ...requirement, status: 'unmet' };
+  }
+  if (requirement.issuer) {
+    const any = held.find((name) => findCertification(name)?.issuer === requirement.issuer);
+    return any ? { ...requirement, status: 'met', found: any } : { ...requirement, status: 'unmet' };
+  }
+  const phrase = stemPhrase(requirement.phrase || '');
+  const found = phrase && ` ${stemPhrase(resume)} `.includes(` ${phrase} `);
+  return found ? { ...requirement, status: 'met', found: requirement.phrase } : { ...requirement, status: 'unmet' };
+}
+
+/**
+ * Requirement-by-requirement match of a JD's degrees and certifications
+ * against a resume
+ */
+export function matchCredentials(
+  resume: string,
+  jobDescription: string,
+  sections: JDSection[] = [],
+  parsed?: ParsedResume
+): CredentialMatch[] {
+  const requirements = parseCredentialRequirements(jobDescription, sections);
+  if (requirements.length === 0) return [];
+
+  const credentials = detectCredentials(resume);
+  const workYears = experienceYears(datedRoles(parsed ?? parseResume(resume)));
+
+  return requirements.map((requirement) => (requirement.kind === 'degree'
+    ? matchDegree(requirement, credentials.degrees, workYears)
+    : matchCertification(requirement, credentials, resume)));
+}
@@ -0,0 +1,215 @@
+/**
+ * On-page Element Picker
+ * Lets the user point at the job description when automatic extraction picks
+ * the wrong block. Hover outlines the element under the cursor, ↑/↓ widen or
+ * narrow the selection, click confirms and Esc cancels.
+ */
+
+const PICKER_BOX_ID = 'jd-scan-picker-box';
+const PICKER_HINT_ID = 'jd-scan-picker-hint';
+const OVERLAY_ROOT_ID = 'jd-scan-overlay-root';
+
+let pickHandler: (() => Promise<boolean>) | null = null;
+
+/**
+ * Class names that look generated by CSS-in-JS or frameworks and change between builds
+ */
+function isStableToken(token: string): boolean {
+  return /^[a-z][\w-]*$/i.test(token) &&
+    !/\d{3,}/.test(token) &&
+    !/^(?:css|sc|jsx|emotion|ember|ng|svelte)-/i.test(token) &&
+    !/[A-Za-z0-9]{6,}_[A-Za-z0-9]{4,}/.test(token);
+}
+
+function isUnique(selector: string, el: Element): boolean {
+  try {
+    const matches = el.ownerDocument.querySelectorAll(selector);
+    return matches.length === 1 && matches[0] === el;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Bare tag paths like "div > p" match other blocks on the next page load;
+ * require at least one id or class somewhere in the selector
+ */
+function isAnchored(selector: string): boolean {
+  return /[#.]/.test(selector);
+}
+
+function describe(el: Element): string {
+  const tag = el.tagName.toLowerCase();
+  if (el.id && isStableToken(el.id)) return `#${CSS.escape(el.id)}`;
+
+  const classes = Array.from(el.classList).filter(isStableToken).slice(0, 3);
+  return classes.length > 0 ? `${tag}.${classes.map((c) => CSS.escape(c)).join('.')}` : tag;
+}
+
+/**
+ * Build a CSS selector for an element that is likely to survive reloads:
+ * a stable id or class list if unique, otherwise a short path of
+ * nth-of-type steps anchored at the nearest identifiable ancestor
+ */
+export function buildSelector(el: Element): string {
+  const own = describe(el);
+  if (isAnchored(own) && isUnique(own, el)) return own;
+
+  const steps: string[] = [];
+  let current: Element | null = el;
+  for (let depth = 0; current && current !== el.ownerDocument.body && depth < 6; depth++) {
+    const parent: Element | null = current.parentElement;
+    let step = describe(current);
+    if (parent && !step.startsWith('#')) {
+      const sameTag = Array.from(parent.children).filter((c) => c.tagName === current!.tagName);
+      if (sameTag.length > 1) step += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+    }
+    steps.unshift(step);
+
+    const selector = steps.join(' > ');
+    if (isAnchored(selector) && isUnique(selector, el)) return selector;
+    current = parent;
+  }
+  return steps.join(' > ');
+}
+
+function isOwnUi(el: Element): boolean {
+  return !!el.closest(`#${OVERLAY_ROOT_ID}, #${PICKER_BOX_ID}, #${PICKER_HINT_ID}`);
+}
+
+function createChrome(): { box: HTMLDivElement; hint: HTMLDivElement } {
+  const box = document.createElement('div');
+  box.id = PICKER_BOX_ID;
+  Object.assign(box.style, {
+    position: 'fixed',
+    zIndex: '2147483646',
+    pointerEvents: 'none',
+    border: '2px solid #2563eb',
+    background: 'rgba(37, 99, 235, 0.08)',
+    borderRadius: '4px',
+    transition: 'all 60ms ease-out',
+    display: 'none',
+  });
+
+  const hint = document.createElement('div');
+  hint.id = PICKER_HINT_ID;
+  hint.textContent = 'Click the job description · ↑ wider · ↓ narrower · Esc to cancel';
+  Object.assign(hint.style, {
+    position: 'fixed',
+    top: '16px',
+    left: '50%',
+    transform: 'translateX(-50%)',
+    zIndex: '2147483647',
+    pointerEvents: 'none',
+    padding: '8px 14px',
+    borderRadius: '10px',
+    background: 'rgba(15, 23, 42, 0.92)',
+    color: '#f8fafc',
+    font: '600 12px/1.4 system-ui, -apple-system, sans-serif',
+    boxShadow: '0 8px 24px rgba(0, 0, 0, 0.25)',
+  });
+
+  document.body.append(box, hint);
+  return { box, hint };
+}
+
+/**
+ * Let the user click an element on the page. Resolves with the element, or
+ * null when cancelled.
+ */
+export function startElementPicker(): Promise<Element | null> {
+  // Only one picker at a time
+  document.getElementById(PICKER_BOX_ID)?.remove();
+  document.getElementById(PICKER_HINT_ID)?.remove();
+
+  return new Promise((resolve) => {
+    const { box, hint } = createChrome();
+    let target: Element | null = null;
+    // Elements passed on the way up with ↑, so ↓ can go back
+    const trail: Element[] = [];
+
+    const outline = (el: Element | null) => {
+      target = el;
+      if (!el) {
+        box.style.display = 'none';
+        return;
+      }
+      const rect = el.getBoundingClientRect();
+      Object.assign(box.style, {
+        display: 'block',
+        top: `${rect.top}px`,
+        left: `${rect.left}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
+      });
+    };
+
+    const onMove = (e: MouseEvent) => {
+      const el = e.target as Element;
+      if (!el || isOwnUi(el) || el === target) return;
+      trail.length = 0;
+      outline(el);
+    };
+
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        finish(null);
+      } else if (e.key === 'ArrowUp' && target?.parentElement && target.parentElement !== document.documentElement) {
+        e.preventDefault();
+        trail.push(target);
+        outline(target.parentElement);
+      } else if (e.key === 'ArrowDown' && trail.length > 0) {
+        e.preventDefault();
+        outline(trail.pop()!);
+      }
+    };
+
+    // Swallow the click so links and buttons on the page don't fire
+    const onClick = (e: MouseEvent) => {
+      if (isOwnUi(e.target as Element)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      finish(target || (e.target as Element));
+    };
+
+    const finish = (el: Element | null) => {
+      document.removeEventListener('mousemove', onMove, true);
+      document.removeEventListener('keydown', onKey, true);
+      document.removeEventListener('click', onClick, true);
+      box.remove();
+      hint.remove();
+      resolve(el);
+    };
+
+    document.addEventListener('mousemove', onMove, true);
+    document.addEventListener('keydown', onKey, true);
+    document.addEventListener('click', onClick, true);
+  });
+}
+
+/**
+ * Register what the content script does when a pick is requested
+ * (run the picker and remember the selector)
+ */
+export function setElementPickHandler(handler: () => Promise<boolean>) {
+  pickHandler = handler;
+}
+
+/**
+ * Ask the job page to start the picker. From the side panel it goes to the
+ * active tab; inside the on-page overlay it runs directly. Resolves true when
+ * an element was picked.
+ */
+export async function requestElementPick(): Promise<boolean> {
+  if (!chrome.tabs?.query) return pickHandler ? pickHandler() : false;
+
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab?.id) return false;
+  try {
+    const response = await chrome.tabs.sendMessage(tab.id, { type: 'START_ELEMENT_PICKER' });
+    return !!response?.picked;
+  } catch {
+    return false;
+  }
+}
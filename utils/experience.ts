@@ -0,0 +1,229 @@
+/**
+ * Years of Experience
+ * Reads "5+ years of Python" or "3-5 years in backend development" out of a
+ * JD, works out how long each skill appears across the resume's dated roles,
+ * and compares the two. Overlapping roles count once; dates without a month
+ * are taken as mid-year.
+ */
+
+import { findSkill, findSkillMentions } from './skills';
+import { buildTokenIndex, findKeyword } from './tokenIndex';
+import { tagWord } from './keyphrases/pos';
+import { ParsedResume, parseResume, ResumeDate } from './resumeParser';
+
+export interface ExperienceRequirement {
+  /** Canonical skill name or JD phrase; null for overall experience */
+  skill: string | null;
+  /** Minimum years; "3-5 years" requires 3 */
+  years: number;
+  /** Upper end of a range, if the JD gives one */
+  maxYears?: number;
+  /** The JD wording it was read from */
+  text: string;
+}
+
+export interface ExperienceMatch extends ExperienceRequirement {
+  /** Years found on the resume */
+  actual: number;
+  met: boolean;
+  /** Years short of the requirement; 0 when met */
+  gap: number;
+  /** Computed from dated roles, or taken from the resume's own "N years of X" */
+  source: 'roles' | 'stated';
+}
+
+export interface DatedRole {
+  /** Months since year 0, inclusive start */
+  start: number;
+  /** Months since year 0, exclusive end */
+  end: number;
+  /** Header and bullets of the role */
+  text: string;
+}
+
+export interface ExperienceOptions {
+  /** Match word forms of non-skill phrases; default on */
+  stemming?: boolean;
+  /** "Present" in date ranges; defaults to now */
+  now?: Date;
+  /** The resume already parsed, to skip parsing it again */
+  parsed?: ParsedResume;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8,
+  nine: 9, ten: 10, eleven: 11, twelve: 12, fifteen: 15, twenty: 20,
+};
+const NUMBER_PATTERN = `(\\d{1,2}(?:\\.\\d)?|${Object.keys(NUMBER_WORDS).join('|')})`;
+const YEARS_RE = new RegExp(
+  `\\b${NUMBER_PATTERN}\\s*\\+?\\s*(?:(?:-|–|—|to)\\s*${NUMBER_PATTERN}\\s*\\+?\\s*)?(?:years?|yrs?)\\b['’]?(?:\\s*\\+)?`,
+  'gi'
+);
+// What may sit between "N years" and the subject: "of hands-on experience with"
+const LEAD_IN_RE = /^\s*(?:of\s+)?(?:(?:professional|hands-on|commercial|relevant|industry|practical|proven|solid|working|production|recent|related)\s+)*(?:(?:experience|exp\.?|background)\s*)?(?:(?:with|in|using|of|on|as|building|developing|working\s+with|working\s+in)\s+)?/i;
+// Clause boundaries around a requirement
+const CLAUSE_END_RE = /[.;\n•()]|\b(?:preferably|ideally|including|such as|and\s+(?:a|an|the|strong|excellent|good)\b)/i;
+const CLAUSE_START_RE = /[.;\n•]/g;
+// Years that aren't a requirement: "founded 20 years ago", "for over 10 years we have"
+const NOT_REQUIREMENT_RE = /^\s*(?:ago|old|in business|of (?:history|innovation|growth|success)|running)\b/i;
+const MAX_REQUIRED_YEARS = 30;
+const MAX_PHRASE_WORDS = 4;
+
+/** Year-only dates fall in the middle of the year (0-based month) */
+const MID_YEAR = 5;
+const BULLET_RE = /^\s*(?:[•\-*·▪◦●–—►✓✔]|\d{1,2}[.)])\s+/;
+
+function parseNumber(raw: string): number {
+  return NUMBER_WORDS[raw.toLowerCase()] ?? parseFloat(raw);
+}
+
+/**
+ * The subject right after a lead-in: a short noun phrase such as
+ * "backend development", or '' when it's generic ("a similar role")
+ */
+function leadingNounPhrase(text: string): string {
+  const words = text.match(/^[\p{L}\p{N}][\p{L}\p{N}.+#-]*(?:\s+[\p{L}\p{N}][\p{L}\p{N}.+#-]*)*/u)?.[0].split(/\s+/) || [];
+  const phrase: string[] = [];
+  for (const word of words.slice(0, MAX_PHRASE_WORDS)) {
+    const tag = tagWord(word);
+    if (tag !== 'noun' && tag !== 'adj' && tag !== 'participle') break;
+    phrase.push(word);
+  }
+  while (phrase.length > 0 && tagWord(phrase[phrase.length - 1]) !== 'noun') phrase.pop();
+  const result = phrase.join(' ').toLowerCase();
+  return result === 'experience' || result === 'exp' ? '' : result;
+}
+
+/**
+ * Years-of-experience requirements of a text, one per skill or subject; a
+ * skill asked for twice keeps the higher figure
+ */
+export function parseExperienceRequirements(text: string): ExperienceRequirement[] {
+  const requirements = new Map<string, ExperienceRequirement>();
+
+  for (const match of text.matchAll(YEARS_RE)) {
+    const index = match.index ?? 0;
+    const years = parseNumber(match[1]);
+    const maxYears = match[2] ? parseNumber(match[2]) : undefined;
+    if (!(years > 0) || years > MAX_REQUIRED_YEARS) continue;
+
+    const after = text.slice(index + match[0].length);
+    if (NOT_REQUIREMENT_RE.test(after)) continue;
+    const leadIn = after.match(LEAD_IN_RE)?.[0] || '';
+    const clauseEnd = after.search(CLAUSE_END_RE);
+    const tail = after.slice(leadIn.length, clauseEnd >= 0 ? Math.max(clauseEnd, leadIn.length) : undefined);
+
+    // Where the clause began, for "Python: 3+ years" and "React (2+ years)"
+    const before = text.slice(0, index);
+    const clauseStart = Math.max(0, ...[...before.matchAll(CLAUSE_START_RE)].map((m) => (m.index ?? 0) + 1));
+    const head = before.slice(clauseStart);
+
+    let subjects = findSkillMentions(tail).map((m) => m.skill.name);
+    if (subjects.length === 0 && /[:(–—-]\s*$/.test(head)) {
+      const mentions = findSkillMentions(head);
+      if (mentions.length > 0) subjects = [mentions[mentions.length - 1].skill.name];
+    }
+    if (subjects.length === 0) {
+      const phrase = leadingNounPhrase(tail);
+      // Without a subject, only count it if it talks about experience at all
+      if (!phrase && !/experience|exp\b/i.test(leadIn + head)) continue;
+      subjects = [phrase];
+    }
+
+    const clause = text.slice(clauseStart, index + match[0].length + (clauseEnd >= 0 ? clauseEnd : tail.length + leadIn.length)).trim().replace(BULLET_RE, '');
+    for (const subject of new Set(subjects)) {
+      const skill = subject || null;
+      const key = (skill || '').toLowerCase();
+      const existing = requirements.get(key);
+      if (existing && existing.years >= years) continue;
+      requirements.set(key, { skill, years, maxYears, text: clause });
+    }
+  }
+  return [...requirements.values()];
+}
+
+/** Months since year 0 of a resume date */
+function toMonth(date: ResumeDate): number {
+  return date.year * 12 + (date.month ? date.month - 1 : MID_YEAR);
+}
+
+/**
+ * Dated positions of a parsed resume as month intervals; a current role
+ * runs to this month
+ */
+export function datedRoles(parsed: ParsedResume, now = new Date()): DatedRole[] {
+  const currentMonth = now.getFullYear() * 12 + now.getMonth();
+  return parsed.experience
+    .map((role) => ({
+      start: toMonth(role.start),
+      // The end month is worked in, too
+      end: (role.end ? toMonth(role.end) : currentMonth) + 1,
+      text: role.text,
+    }))
+    .filter((role) => role.start <= currentMonth && role.end > role.start);
+}
+
+/**
+ * Dated positions of a resume's text
+ */
+export function parseDatedRoles(resume: string, now = new Date()): DatedRole[] {
+  return datedRoles(parseResume(resume), now);
+}
+
+/** Total months covered by a set of intervals, overlaps counted once */
+function coveredMonths(roles: DatedRole[]): number {
+  const sorted = [...roles].sort((a, b) => a.start - b.start);
+  let total = 0;
+  let reach = -Infinity;
+  for (const { start, end } of sorted) {
+    if (end <= reach) continue;
+    total += end - Math.max(start, reach);
+    reach = end;
+  }
+  return total;
+}
+
+/**
+ * Years covered by a set of roles, overlaps counted once, to one decimal
+ */
+export function experienceYears(roles: DatedRole[]): number {
+  return Math.round((coveredMonths(roles) / 12) * 10) / 10;
+}
+
+/**
+ * Compare a JD's experience requirements with the resume: years per skill
+ * from the dated roles that mention it, or the resume's own statement of
+ * years when that is higher
+ */
+export function matchExperience(resume: string, jobDescription: string, options: ExperienceOptions = {}): ExperienceMatch[] {
+  const requirements = parseExperienceRequirements(jobDescription);
+  if (requirements.length === 0) return [];
+
+  const stemming = options.stemming !== false;
+  const roles = datedRoles(options.parsed ?? parseResume(resume), options.now);
+  const roleIndexes = roles.map((role) => buildTokenIndex(role.text));
+  const roleSkills = roleIndexes.map((index) => new Set(index.skillMentions().map((m) => m.skill.name)));
+  const stated = new Map(parseExperienceRequirements(resume).map((claim) => [(claim.skill || '').toLowerCase(), claim.maxYears ?? claim.years]));
+
+  return requirements.map((requirement) => {
+    const { skill } = requirement;
+    const taxonomySkill = skill ? findSkill(skill) : undefined;
+    const relevant = roles.filter((_, r) => {
+      if (skill === null) return true;
+      if (taxonomySkill) return roleSkills[r].has(taxonomySkill.name);
+      return findKeyword(roleIndexes[r], skill, stemming) !== null;
+    });
+    const fromRoles = experienceYears(relevant);
+    const claimed = stated.get((skill || '').toLowerCase()) || 0;
+    const actual = Math.max(fromRoles, claimed);
+    const gap = Math.max(0, Math.round((requirement.years - actual) * 10) / 10);
+
+    return {
+      ...requirement,
+      actual,
+      met: gap === 0,
+      gap,
+      source: claimed > fromRoles ? 'stated' : 'roles',
+    };
+  });
+}
@@ -0,0 +1,29 @@
+/**
+ * Ashby hosted job board adapter (jobs.ashbyhq.com)
+ */
+
+import { createSelectorExtractor } from './selectorExtractor';
+import { companyFromTitle } from './dom';
+
+export const ashbyExtractor = createSelectorExtractor({
+  id: 'ashby',
+  name: 'Ashby',
+  domains: ['jobs.ashbyhq.com'],
+  descriptionSelectors: [
+    "[class*='_descriptionText_']",
+    '.ashby-job-posting-left-pane',
+    "[class*='ashby-job-posting-description']",
+  ],
+  titleSelectors: [
+    '.ashby-job-posting-heading',
+    'h1',
+  ],
+  companySelectors: [],
+  // "Senior Engineer @ Acme"
+  companyFromPage: (doc) => companyFromTitle(doc, /\s+@\s+/),
+  locationSelectors: [
+    "[class*='_section_'] [class*='_location']",
+    '.ashby-job-posting-right-pane p',
+  ],
+  confidence: 0.85,
+});
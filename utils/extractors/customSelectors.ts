@@ -0,0 +1,87 @@
+/**
+ * User-picked selectors
+ * When the automatic adapters grab the wrong block, the user can point at the
+ * right element once; the selector is remembered per hostname and outranks
+ * every other adapter on that site.
+ */
+
+import { JobExtractor, ExtractionResult } from './types';
+import { getElementText } from './dom';
+
+export interface CustomSelector {
+  selector: string;
+  createdAt: number;
+}
+
+export const CUSTOM_SELECTORS_KEY = 'jdScan_customSelectors';
+
+// Extraction is synchronous, so selectors are mirrored from storage into memory
+let customSelectors: Record<string, CustomSelector> = {};
+let listening = false;
+
+/**
+ * Load the stored selectors and keep the in-memory copy in sync with storage
+ */
+export async function loadCustomSelectors(): Promise<Record<string, CustomSelector>> {
+  const data = await chrome.storage.local.get(CUSTOM_SELECTORS_KEY);
+  customSelectors = (data?.[CUSTOM_SELECTORS_KEY] as Record<string, CustomSelector>) || {};
+
+  if (!listening) {
+    listening = true;
+    chrome.storage.onChanged.addListener((changes, namespace) => {
+      if (namespace === 'local' && changes[CUSTOM_SELECTORS_KEY]) {
+        customSelectors = (changes[CUSTOM_SELECTORS_KEY].newValue as Record<string, CustomSelector>) || {};
+      }
+    });
+  }
+  return customSelectors;
+}
+
+export function getCustomSelector(hostname: string): CustomSelector | undefined {
+  return customSelectors[hostname];
+}
+
+export async function saveCustomSelector(hostname: string, selector: string): Promise<void> {
+  const stored = await loadCustomSelectors();
+  customSelectors = { ...stored, [hostname]: { selector, createdAt: Date.now() } };
+  await chrome.storage.local.set({ [CUSTOM_SELECTORS_KEY]: customSelectors });
+}
+
+export async function removeCustomSelector(hostname: string): Promise<void> {
+  const { [hostname]: _removed, ...rest } = await loadCustomSelectors();
+  customSelectors = rest;
+  await chrome.storage.local.set({ [CUSTOM_SELECTORS_KEY]: customSelectors });
+}
+
+export const customSelectorExtractor: JobExtractor = {
+  id: 'custom-selector',
+  name: 'Picked element',
+  matches: (url) => !!customSelectors[url.hostname],
+  extract(doc: Document): ExtractionResult | null {
+    const custom = customSelectors[doc.location?.hostname || window.location.hostname];
+    if (!custom) return null;
+
+    let element: Element | null = null;
+    try {
+      element = doc.querySelector(custom.selector);
+    } catch {
+      // A selector saved from an older page layout may no longer parse
+    }
+    const jd = element ? getElementText(element) : '';
+    const debug = {
+      tried: [{ selector: custom.selector, found: !!element }],
+      found: jd ? { selector: custom.selector, textLength: jd.length, preview: jd.slice(0, 100) } : null,
+    };
+    if (jd.length < 50) return null;
+
+    return {
+      jd,
+      // Title and company come from the site's own adapter
+      title: '',
+      company: '',
+      confidence: 0.98,
+      element,
+      debug,
+    };
+  },
+};
@@ -0,0 +1,94 @@
+/**
+ * DOM helpers shared by the job extractors
+ */
+
+/**
+ * Normalize rendered text the way every adapter does: no blank lines or
+ * whitespace around line breaks
+ */
+export function cleanText(text: string): string {
+  return text.replace(/\s+\n/g, '\n').replace(/\n\s+/g, '\n').trim();
+}
+
+export function getElementText(el: Element | null): string {
+  if (!el) return '';
+  const anyEl = el as any;
+  const text = (typeof anyEl.innerText === 'string' ? anyEl.innerText : el.textContent) || '';
+  return cleanText(text);
+}
+
+/**
+ * Return the text of the first selector that yields non-empty text
+ */
+export function firstText(doc: ParentNode, selectors: string[]): string {
+  for (const selector of selectors) {
+    const text = getElementText(doc.querySelector(selector));
+    if (text) return text;
+  }
+  return '';
+}
+
+/**
+ * Pull the company out of a "<job> - <company>" style document title
+ */
+export function companyFromTitle(doc: Document, separator: RegExp, position: 'first' | 'last' = 'last'): string {
+  const parts = doc.title.split(separator).map((p) => p.trim()).filter(Boolean);
+  if (parts.length < 2) return '';
+  return position === 'first' ? parts[0] : parts[parts.length - 1];
+}
+
+/**
+ * Check whether a hostname is one of the given domains or a subdomain of them
+ */
+export function hostMatches(hostname: string, domains: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'SECTION', 'ARTICLE', 'UL', 'OL', 'TABLE', 'TR',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'BLOCKQUOTE', 'PRE', 'HR',
+]);
+
+/**
+ * Convert an HTML fragment (e.g. a JobPosting description) to clean plain text,
+ * keeping paragraph breaks and list bullets
+ */
+export function htmlToText(html: string): string {
+  if (!html) return '';
+  let source = html;
+  // Some sites entity-encode the markup inside JSON-LD ("&lt;p&gt;...")
+  if (!/<[a-z]/i.test(source) && /&lt;[a-z]/i.test(source)) {
+    source = new DOMParser().parseFromString(source, 'text/html').documentElement.textContent || '';
+  }
+
+  const body = new DOMParser().parseFromString(source, 'text/html').body;
+  const parts: string[] = [];
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parts.push((node.textContent || '').replace(/\s+/g, ' '));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as Element;
+    if (el.tagName === 'SCRIPT' || el.tagName === 'STYLE') return;
+    if (el.tagName === 'BR') {
+      parts.push('\n');
+      return;
+    }
+    if (el.tagName === 'LI') parts.push('\n• ');
+    else if (BLOCK_TAGS.has(el.tagName)) parts.push('\n\n');
+    el.childNodes.forEach(walk);
+    if (BLOCK_TAGS.has(el.tagName)) parts.push('\n\n');
+  };
+  body.childNodes.forEach(walk);
+
+  return parts
+    .join('')
+    .replace(/\u00a0/g, ' ')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n[ \t]+/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
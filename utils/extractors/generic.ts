@@ -0,0 +1,58 @@
+/**
+ * Generic heuristic adapter
+ * Runs on every page as the last link in the chain: looks for the largest
+ * section that reads like a job description.
+ */
+
+import { JobExtractor, ExtractionResult } from './types';
+import { getElementText, firstText } from './dom';
+
+const JOB_KEYWORDS = /(?:requirements?|responsibilities?|qualifications?|experience|skills?|about (?:the )?job|description)/i;
+
+export const genericExtractor: JobExtractor = {
+  id: 'generic',
+  name: 'Generic heuristics',
+  matches: () => true,
+  extract(doc: Document): ExtractionResult | null {
+    const debug: any = {};
+    let jd = '';
+    let element: Element | null = null;
+
+    // Look for job description by searching for common job description patterns
+    const allSections = doc.querySelectorAll('section, article, div[role="main"], .jobs-box');
+    for (const section of Array.from(allSections)) {
+      const text = getElementText(section);
+      // Look for sections with job-related keywords and decent length
+      if (text.length > 200 && text.length < 10000 && JOB_KEYWORDS.test(text) && text.length > jd.length) {
+        jd = text;
+        element = section;
+        debug.fallback = { type: 'keyword-search', selector: section.className || section.tagName, length: text.length };
+      }
+    }
+
+    // Last resort: anything that looks like a job details container
+    if (jd.length < 100) {
+      const detailsEl = doc.querySelector('[class*="job-details"], [class*="jobDetails"], [id*="job-details"]');
+      if (detailsEl) {
+        const text = getElementText(detailsEl);
+        if (text.length > jd.length) {
+          jd = text;
+          element = detailsEl;
+          debug.lastResort = { found: true, length: text.length };
+        }
+      }
+    }
+
+    if (!jd) return null;
+
+    return {
+      jd,
+      title: firstText(doc, ['h1', "[class*='job-title']", "[class*='jobTitle']"]),
+      company: firstText(doc, ["[class*='company-name']", "[class*='companyName']", "[itemprop='hiringOrganization']"]),
+      // Heuristic matches are a guess; never outrank a dedicated adapter
+      confidence: Math.min(0.5, jd.length / 4000),
+      element,
+      debug,
+    };
+  },
+};
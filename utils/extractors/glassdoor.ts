@@ -0,0 +1,32 @@
+/**
+ * Glassdoor job page adapter
+ */
+
+import { createSelectorExtractor } from './selectorExtractor';
+
+export const glassdoorExtractor = createSelectorExtractor({
+  id: 'glassdoor',
+  name: 'Glassdoor',
+  domains: ['glassdoor.com'],
+  descriptionSelectors: [
+    "[class*='JobDetails_jobDescription']",
+    '.jobDescriptionContent',
+    '#JobDescriptionContainer',
+    "[data-test='jobDescriptionContent']",
+  ],
+  titleSelectors: [
+    "[data-test='job-title']",
+    "[id^='jd-job-title']",
+    "[class*='JobDetails_jobTitle']",
+    'h1',
+  ],
+  companySelectors: [
+    "[data-test='employer-name']",
+    "[class*='EmployerProfile_employerName']",
+    "[class*='EmployerProfile_compactEmployerName']",
+  ],
+  locationSelectors: [
+    "[data-test='location']",
+    "[class*='JobDetails_location']",
+  ],
+});
@@ -0,0 +1,33 @@
+/**
+ * Greenhouse hosted job board adapter (boards.greenhouse.io, job-boards.greenhouse.io)
+ */
+
+import { createSelectorExtractor } from './selectorExtractor';
+import { companyFromTitle } from './dom';
+
+export const greenhouseExtractor = createSelectorExtractor({
+  id: 'greenhouse',
+  name: 'Greenhouse',
+  domains: ['boards.greenhouse.io', 'job-boards.greenhouse.io'],
+  descriptionSelectors: [
+    '.job__description',
+    '#content',
+    '#app_body .content',
+  ],
+  titleSelectors: [
+    '.job__title h1',
+    '.app-title',
+    'h1.section-header',
+    'h1',
+  ],
+  companySelectors: [
+    '.company-name span',
+  ],
+  // "Job Application for Senior Engineer at Acme"
+  companyFromPage: (doc) => companyFromTitle(doc, /\s+at\s+/),
+  locationSelectors: [
+    '.job__location',
+    '#header .location',
+    '.location',
+  ],
+});
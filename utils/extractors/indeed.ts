@@ -0,0 +1,33 @@
+/**
+ * Indeed job page adapter (all regional Indeed domains we have host access to)
+ */
+
+import { createSelectorExtractor } from './selectorExtractor';
+
+export const indeedExtractor = createSelectorExtractor({
+  id: 'indeed',
+  name: 'Indeed',
+  domains: ['indeed.com', 'indeed.co.uk', 'indeed.ca'],
+  descriptionSelectors: [
+    '#jobDescriptionText',
+    '.jobsearch-JobComponent-description',
+    '[data-testid="jobsearch-JobComponent-description"]',
+    '.jobsearch-jobDescriptionText',
+  ],
+  titleSelectors: [
+    '[data-testid="jobsearch-JobInfoHeader-title"]',
+    'h1.jobsearch-JobInfoHeader-title',
+    '.jobsearch-JobInfoHeader-title',
+    'h1',
+  ],
+  companySelectors: [
+    '[data-testid="inlineHeader-companyName"]',
+    '[data-company-name="true"]',
+    '.jobsearch-InlineCompanyRating div',
+  ],
+  locationSelectors: [
+    '[data-testid="inlineHeader-companyLocation"]',
+    '[data-testid="job-location"]',
+    '.jobsearch-JobInfoHeader-subtitle > div:last-child',
+  ],
+});
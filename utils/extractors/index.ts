@@ -0,0 +1,242 @@
+/**
+ * Job Extractor Registry
+ * schema.org JobPosting markup is read first, then site adapters are tried in
+ * registration order for the current hostname; the generic heuristic adapter
+ * always runs last.
+ */
+
+import { JobData, JobDetails, JobExtractor, ExtractionResult, ExtractionCandidate, ExtractionDebug } from './types';
+import { linkedInExtractor } from './linkedin';
+import { indeedExtractor } from './indeed';
+import { glassdoorExtractor } from './glassdoor';
+import { wellfoundExtractor } from './wellfound';
+import { pracujExtractor } from './pracuj';
+import { greenhouseExtractor } from './greenhouse';
+import { leverExtractor } from './lever';
+import { ashbyExtractor } from './ashby';
+import { workdayExtractor } from './workday';
+import { smartRecruitersExtractor } from './smartRecruiters';
+import { genericExtractor } from './generic';
+import { structuredDataExtractor } from './structuredData';
+import { customSelectorExtractor } from './customSelectors';
+import { parseJDSections } from '../jdSections';
+import { extractJobMetadata } from '../jobMetadata';
+import { getElementText } from './dom';
+
+export type {
+  JobData,
+  JobDetails,
+  JobExtractor,
+  ExtractionResult,
+  SalaryRange,
+  WorkplaceType,
+  SeniorityLevel,
+  EmploymentType,
+  ExtractionCandidate,
+  ExtractionDebug,
+} from './types';
+export { createSelectorExtractor } from './selectorExtractor';
+export { getElementText, htmlToText, cleanText } from './dom';
+export { hasStructuredJobPosting } from './structuredData';
+export { jobDataFromSelection } from './selection';
+export type { SelectionSource } from './selection';
+export {
+  loadCustomSelectors,
+  getCustomSelector,
+  saveCustomSelector,
+  removeCustomSelector,
+  CUSTOM_SELECTORS_KEY,
+} from './customSelectors';
+export type { CustomSelector } from './customSelectors';
+
+/** A result at or above this confidence stops the chain */
+const ACCEPT_CONFIDENCE = 0.6;
+/** Share of words two texts must have in common, both ways, to be the same description */
+const SAME_TEXT_OVERLAP = 0.8;
+
+const siteExtractors: JobExtractor[] = [
+  linkedInExtractor,
+  indeedExtractor,
+  glassdoorExtractor,
+  wellfoundExtractor,
+  pracujExtractor,
+  // Hosted ATS boards (only reachable once the user grants access in settings)
+  greenhouseExtractor,
+  leverExtractor,
+  ashbyExtractor,
+  workdayExtractor,
+  smartRecruitersExtractor,
+];
+
+/**
+ * Add a site adapter to the registry. It runs before the generic fallback.
+ */
+export function registerExtractor(extractor: JobExtractor): void {
+  const existing = siteExtractors.findIndex((e) => e.id === extractor.id);
+  if (existing >= 0) {
+    siteExtractors[existing] = extractor;
+  } else {
+    siteExtractors.push(extractor);
+  }
+}
+
+/**
+ * Get the adapter chain for a URL: a user-picked selector, then structured
+ * data, then site adapters, with the generic fallback last
+ */
+export function getExtractorsForUrl(href: string): JobExtractor[] {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return [structuredDataExtractor, genericExtractor];
+  }
+  return [
+    ...(customSelectorExtractor.matches(url) ? [customSelectorExtractor] : []),
+    structuredDataExtractor,
+    ...siteExtractors.filter((e) => e.matches(url)),
+    genericExtractor,
+  ];
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []);
+}
+
+function shareIn(words: Set<string>, other: Set<string>): number {
+  if (words.size === 0) return 0;
+  let found = 0;
+  for (const word of words) if (other.has(word)) found++;
+  return found / words.size;
+}
+
+/**
+ * Whether an element holds the given description, not just some other text
+ * on the page (a sidebar, a different job in a list, the whole page)
+ */
+function elementHoldsText(element: Element, jd: string): boolean {
+  const jdWords = wordSet(jd);
+  const elementWords = wordSet(getElementText(element));
+  return shareIn(jdWords, elementWords) >= SAME_TEXT_OVERLAP && shareIn(elementWords, jdWords) >= SAME_TEXT_OVERLAP;
+}
+
+/**
+ * The selector an adapter read its text from, as reported in its debug info
+ */
+function candidateSelector(debug: any): string | undefined {
+  return debug?.found?.selector || debug?.fallback?.selector || undefined;
+}
+
+export interface ExtractionOutcome {
+  data: JobData;
+  /** Element the winning description came from (not serializable, content script only) */
+  element: Element | null;
+  extractorId: string | null;
+  confidence: number;
+  candidates: ExtractionCandidate[];
+}
+
+/**
+ * Run the adapter chain and keep the first confident result (or the best one)
+ */
+export function runExtractors(doc: Document = document, href: string = window.location.href): ExtractionOutcome {
+  const results: Array<{ extractor: JobExtractor; result: ExtractionResult }> = [];
+
+  for (const extractor of getExtractorsForUrl(href)) {
+    let result: ExtractionResult | null = null;
+    try {
+      result = extractor.extract(doc);
+    } catch (err) {
+      console.error(`JD Scan: Extractor "${extractor.id}" failed`, err);
+    }
+    if (!result) continue;
+
+    results.push({ extractor, result });
+    // Keep going after a result without a DOM node so a later adapter can locate it,
+    // and after a picked element so the site adapter still supplies title and company
+    if (extractor !== customSelectorExtractor && result.confidence >= ACCEPT_CONFIDENCE && result.element) break;
+  }
+
+  const winner = results.reduce<(typeof results)[number] | null>(
+    (best, entry) => (!best || entry.result.confidence > best.result.confidence ? entry : best),
+    null
+  );
+
+  const candidates: ExtractionCandidate[] = results.map(({ extractor, result }) => ({
+    extractorId: extractor.id,
+    extractorName: extractor.name,
+    confidence: Math.round(result.confidence * 100) / 100,
+    jdLength: result.jd.length,
+    selector: candidateSelector(result.debug),
+    preview: result.jd.slice(0, 300),
+  }));
+
+  let host: string | undefined;
+  try {
+    host = new URL(href).hostname;
+  } catch {
+    host = undefined;
+  }
+
+  if (!winner) {
+    const debug: ExtractionDebug = { extractor: null, host, candidates, final: { jdLength: 0, title: '', company: '' } };
+    console.log('JD Scan: Extraction debug', debug);
+    return {
+      data: { jd: '', title: '', company: '', debug },
+      element: null,
+      extractorId: null,
+      confidence: 0,
+      candidates,
+    };
+  }
+
+  // Fill fields the winner could not find from the other adapters
+  const pick = (field: 'title' | 'company' | 'location') =>
+    winner.result[field] || results.map((r) => r.result[field]).find(Boolean) || '';
+
+  const { jd } = winner.result;
+  const title = pick('title');
+  const company = pick('company');
+
+  // Structured fields (salary, dates...) from any adapter, winner's take precedence
+  const details: JobDetails = {};
+  for (const { result } of [...results].reverse().filter((r) => r !== winner).concat(winner)) {
+    if (result.datePosted) details.datePosted = result.datePosted;
+    if (result.validThrough) details.validThrough = result.validThrough;
+    if (result.employmentType?.length) details.employmentType = result.employmentType;
+    if (result.salary) details.salary = result.salary;
+    if (result.workplace) details.workplace = result.workplace;
+    if (result.seniority) details.seniority = result.seniority;
+  }
+
+  // Parse whatever the page did not state outright from the JD text
+  const metadata = extractJobMetadata({ jd, title, location: pick('location') || undefined, ...details });
+
+  const debug: ExtractionDebug = {
+    ...winner.result.debug,
+    extractor: winner.extractor.id,
+    host,
+    confidence: winner.result.confidence,
+    candidates,
+    final: { jdLength: jd.length, title, company },
+  };
+  console.log('JD Scan: Extraction debug', debug);
+
+  return {
+    data: { jd, title, company, ...details, ...metadata, sections: parseJDSections(jd), debug },
+    // JSON-LD has no DOM node; borrow the element a selector adapter found, if it holds the same text
+    element: winner.result.element ||
+      results.map((r) => r.result.element).find((element) => !!element && elementHoldsText(element, jd)) ||
+      null,
+    extractorId: winner.extractor.id,
+    confidence: winner.result.confidence,
+    candidates,
+  };
+}
+
+/**
+ * Extract job data from the current page
+ */
+export function extractJobData(doc: Document = document, href: string = window.location.href): JobData {
+  return runExtractors(doc, href).data;
+}
@@ -0,0 +1,30 @@
+/**
+ * Lever hosted job board adapter (jobs.lever.co)
+ * Postings are split into several sections, joined into one description.
+ */
+
+import { createSelectorExtractor } from './selectorExtractor';
+import { companyFromTitle } from './dom';
+
+export const leverExtractor = createSelectorExtractor({
+  id: 'lever',
+  name: 'Lever',
+  domains: ['jobs.lever.co'],
+  descriptionSelectors: [
+    "[data-qa='job-description']",
+    '.posting-page .section-wrapper .section.page-centered',
+    "[data-qa='closing-description']",
+  ],
+  joinDescriptions: true,
+  titleSelectors: [
+    '.posting-headline h2',
+    'h2',
+  ],
+  companySelectors: [],
+  // "Acme - Senior Engineer"
+  companyFromPage: (doc) => companyFromTitle(doc, /\s+[-–]\s+/, 'first'),
+  locationSelectors: [
+    '.posting-categories .location',
+    '.posting-categories .workplaceTypes',
+  ],
+});
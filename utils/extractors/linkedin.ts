@@ -0,0 +1,49 @@
+/**
+ * LinkedIn job page adapter
+ */
+
+import { createSelectorExtractor } from './selectorExtractor';
+
+export const linkedInExtractor = createSelectorExtractor({
+  id: 'linkedin',
+  name: 'LinkedIn',
+  domains: ['linkedin.com'],
+  descriptionSelectors: [
+    // Job description containers
+    '.jobs-description__content',
+    '.jobs-description-content__text',
+    '.jobs-description-content',
+    '.jobs-box__html-content',
+    '#job-details',
+    '.jobs-search__job-details',
+    '.jobs-search__job-details--wrapper',
+    '.jobs-search__job-details--container',
+    '.jobs-details__main-content',
+    '.jobs-details__container',
+    '.job-view-layout',
+    'section.jobs-description',
+    "[class*='jobs-description']",
+    // More aggressive - any section with job-related text
+    '.jobs-unified-top-card~div',
+    '.jobs-search__right-rail',
+  ],
+  titleSelectors: [
+    '.jobs-unified-top-card__job-title',
+    '.job-details-jobs-unified-top-card__job-title',
+    'h1',
+    '.t-24.t-bold',
+    "[class*='job-title']",
+  ],
+  companySelectors: [
+    '.jobs-unified-top-card__company-name',
+    '.job-details-jobs-unified-top-card__company-name',
+    '.jobs-unified-top-card__primary-description',
+    '.jobs-company__name',
+    "[class*='company-name']",
+  ],
+  locationSelectors: [
+    '.jobs-unified-top-card__bullet',
+    '.job-details-jobs-unified-top-card__primary-description-container .tvm__text',
+    '.jobs-unified-top-card__workplace-type',
+  ],
+});
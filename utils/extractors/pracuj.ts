@@ -0,0 +1,33 @@
+/**
+ * pracuj.pl job page adapter
+ * Offers are split into separate sections, so they are joined into one description.
+ */
+
+import { createSelectorExtractor } from './selectorExtractor';
+
+export const pracujExtractor = createSelectorExtractor({
+  id: 'pracuj',
+  name: 'pracuj.pl',
+  domains: ['pracuj.pl'],
+  descriptionSelectors: [
+    "[data-test='section-about-project']",
+    "[data-test='section-responsibilities']",
+    "[data-test='section-requirements']",
+    "[data-test='section-offered']",
+    "[data-test='section-benefits']",
+    "[data-test='section-about-us-description']",
+  ],
+  joinDescriptions: true,
+  titleSelectors: [
+    "[data-test='text-positionName']",
+    'h1',
+  ],
+  companySelectors: [
+    "[data-test='text-employerName']",
+  ],
+  locationSelectors: [
+    "[data-test='text-benefit-workplaces'] a",
+    "[data-test='sections-benefit-workplaces']",
+    "[data-test='offer-badge-title']",
+  ],
+});
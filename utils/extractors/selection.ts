@@ -0,0 +1,108 @@
+/**
+ * Selected-text jobs
+ * Builds job data from text the user highlighted on any page (an email, a PDF
+ * opened in the browser, a site without an adapter). The text gets the same
+ * cleaning and metadata parsing as an extracted JD; title and company are
+ * guessed from labeled lines, the first line and the page title.
+ */
+
+import type { JobData, ExtractionDebug } from './types';
+import { cleanText } from './dom';
+import { parseJDSections } from '../jdSections';
+import { extractJobMetadata } from '../jobMetadata';
+
+export interface SelectionSource {
+  /** document.title of the page the text was selected on */
+  pageTitle?: string;
+  url?: string;
+}
+
+const ROLE_WORDS = /\b(?:engineer|developer|programmer|architect|designer|analyst|scientist|manager|director|lead|head|officer|consultant|specialist|administrator|coordinator|assistant|associate|intern|technician|researcher|writer|editor|accountant|recruiter|representative|executive|strategist|owner|devops|sre|qa|tester|nurse|teacher|agent|advisor|inżynier|programista|kierownik|specjalista)\b/i;
+const TITLE_LABEL_RE = /^(?:job title|position|role|title|stanowisko)\s*[:：]\s*(.{2,100})$/im;
+const COMPANY_LABEL_RE = /^(?:company|employer|organization|firma|pracodawca)\s*[:：]\s*(.{2,80})$/im;
+const ABOUT_COMPANY_RE = /^about\s+(?!the\s+(?:role|job|position|team|opportunity)\b|(?:you|us|this\s+role)\b)([A-Z][\w&.,' -]{1,60}?)\s*[:：]?$/m;
+const TITLE_AT_COMPANY_RE = /^(.{3,80}?)\s+(?:at|@)\s+([A-Z][\w&.,' -]{1,60})$/;
+const HIRING_RE = /^([A-Z][\w&.,' -]{1,60}?)\s+is\s+(?:hiring|looking\s+for|seeking)\b/m;
+const TITLE_SEPARATORS = /\s+[|–—-]\s+|\s+·\s+/;
+
+// Page title parts that name the app showing the text rather than the job
+const NOISE_PART = /@|\binbox\b|\bgmail\b|\boutlook\b|\bmail\b|\.pdf$|\bcareers?\b|\bjobs?\b$/i;
+
+function tidy(value: string): string {
+  return value.replace(/\s+/g, ' ').replace(/[\s:,;.–—-]+$/, '').trim();
+}
+
+/**
+ * A short line without sentence punctuation that names a role
+ */
+function looksLikeTitle(line: string): boolean {
+  const words = line.split(/\s+/).length;
+  return line.length <= 80 && words <= 10 && !/[.!?]$/.test(line) && ROLE_WORDS.test(line);
+}
+
+function guessFromText(text: string): { title: string; company: string } {
+  let title = text.match(TITLE_LABEL_RE)?.[1] || '';
+  let company = text.match(COMPANY_LABEL_RE)?.[1] || '';
+
+  const firstLine = text.split('\n').find((line) => line.trim())?.trim() || '';
+  const atCompany = firstLine.match(TITLE_AT_COMPANY_RE);
+  if (!title && atCompany && looksLikeTitle(atCompany[1])) {
+    title = atCompany[1];
+    company = company || atCompany[2];
+  }
+  if (!title && looksLikeTitle(firstLine)) title = firstLine;
+
+  company = company || text.match(HIRING_RE)?.[1] || text.match(ABOUT_COMPANY_RE)?.[1] || '';
+  return { title: tidy(title), company: tidy(company) };
+}
+
+function guessFromPageTitle(pageTitle: string): { title: string; company: string } {
+  const parts = pageTitle.split(TITLE_SEPARATORS).map((p) => p.trim()).filter((p) => p && !NOISE_PART.test(p));
+
+  for (let i = 0; i < parts.length; i++) {
+    const atCompany = parts[i].match(TITLE_AT_COMPANY_RE);
+    if (atCompany && looksLikeTitle(atCompany[1])) return { title: tidy(atCompany[1]), company: tidy(atCompany[2]) };
+    if (looksLikeTitle(parts[i])) {
+      // "<title> - <company>" is the usual order
+      const company = parts[i + 1] && !looksLikeTitle(parts[i + 1]) ? parts[i + 1] : '';
+      return { title: tidy(parts[i]), company: tidy(company) };
+    }
+  }
+  return { title: '', company: '' };
+}
+
+/**
+ * Turn selected text into job data. Returns null when nothing usable was selected.
+ */
+export function jobDataFromSelection(text: string, source: SelectionSource = {}): JobData | null {
+  const jd = cleanText(text);
+  if (!jd) return null;
+
+  const fromText = guessFromText(jd);
+  const fromPage = guessFromPageTitle(source.pageTitle || '');
+  const title = fromText.title || fromPage.title;
+  const company = fromText.company || fromPage.company;
+
+  let host: string | undefined;
+  try {
+    host = source.url ? new URL(source.url).hostname : undefined;
+  } catch {
+    host = undefined;
+  }
+
+  const debug: ExtractionDebug = {
+    extractor: 'selection',
+    host,
+    confidence: 1,
+    candidates: [{
+      extractorId: 'selection',
+      extractorName: 'Selected text',
+      confidence: 1,
+      jdLength: jd.length,
+      preview: jd.slice(0, 300),
+    }],
+    final: { jdLength: jd.length, title, company },
+  };
+
+  return { jd, title, company, ...extractJobMetadata({ jd, title }), sections: parseJDSections(jd), debug };
+}
@@ -0,0 +1,92 @@
+/**
+ * Selector-based extractor factory
+ * Most job boards only differ in which CSS selectors hold the description,
+ * title and company, so adapters are declared as data and built here.
+ */
+
+import { JobExtractor, ExtractionResult } from './types';
+import { getElementText, firstText, hostMatches } from './dom';
+
+export interface SelectorExtractorConfig {
+  id: string;
+  name: string;
+  /** Hostnames this adapter handles (subdomains included) */
+  domains: string[];
+  /** Tried in order; the longest matching text wins unless `joinDescriptions` is set */
+  descriptionSelectors: string[];
+  /** Concatenate every block matching any selector instead of picking the longest */
+  joinDescriptions?: boolean;
+  titleSelectors: string[];
+  companySelectors: string[];
+  locationSelectors?: string[];
+  /** Last resort for boards that only show the company in a logo or the page title */
+  companyFromPage?: (doc: Document) => string;
+  /** Confidence reported when a description of reasonable length is found */
+  confidence?: number;
+}
+
+const MIN_BLOCK_LENGTH = 50;
+const FULL_CONFIDENCE_LENGTH = 200;
+
+export function createSelectorExtractor(config: SelectorExtractorConfig): JobExtractor {
+  const baseConfidence = config.confidence ?? 0.9;
+
+  return {
+    id: config.id,
+    name: config.name,
+    matches: (url: URL) => hostMatches(url.hostname, config.domains),
+    extract(doc: Document): ExtractionResult | null {
+      const debug: any = { tried: [], found: null };
+      let jd = '';
+      let element: Element | null = null;
+      const blocks: string[] = [];
+
+      for (const selector of config.descriptionSelectors) {
+        if (config.joinDescriptions) {
+          const els = Array.from(doc.querySelectorAll(selector));
+          debug.tried.push({ selector, found: els.length > 0 });
+          for (const el of els) {
+            const text = getElementText(el);
+            if (text.length <= MIN_BLOCK_LENGTH || blocks.includes(text)) continue;
+            blocks.push(text);
+            element = element || el;
+          }
+          continue;
+        }
+
+        const el = doc.querySelector(selector);
+        debug.tried.push({ selector, found: !!el });
+        if (!el) continue;
+
+        const text = getElementText(el);
+        if (text.length > MIN_BLOCK_LENGTH && text.length > jd.length) {
+          jd = text;
+          element = el;
+          debug.found = { selector, textLength: text.length, preview: text.slice(0, 100) };
+        }
+      }
+
+      if (config.joinDescriptions) {
+        jd = blocks.join('\n\n');
+        if (jd) debug.found = { joined: blocks.length, textLength: jd.length };
+      }
+
+      if (!jd) return null;
+
+      // Short blocks are usually a teaser or a still-loading container
+      const confidence = jd.length >= FULL_CONFIDENCE_LENGTH
+        ? baseConfidence
+        : baseConfidence * (jd.length / FULL_CONFIDENCE_LENGTH);
+
+      return {
+        jd,
+        title: firstText(doc, config.titleSelectors),
+        company: firstText(doc, config.companySelectors) || config.companyFromPage?.(doc) || '',
+        location: config.locationSelectors ? firstText(doc, config.locationSelectors) || undefined : undefined,
+        confidence,
+        element,
+        debug,
+      };
+    },
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * SmartRecruiters hosted job board adapter (jobs.smartrecruiters.com)
+ */
+
+import { createSelectorExtractor } from './selectorExtractor';
+
+export const smartRecruitersExtractor = createSelectorExtractor({
+  id: 'smartrecruiters',
+  name: 'SmartRecruiters',
+  domains: ['jobs.smartrecruiters.com', 'careers.smartrecruiters.com'],
+  descriptionSelectors: [
+    '.job-sections',
+    "[itemprop='description']",
+    '.jobad-main',
+  ],
+  titleSelectors: [
+    'h1.job-title',
+    "[itemprop='title']",
+    'h1',
+  ],
+  companySelectors: [
+    "[itemprop='hiringOrganization'] [itemprop='name']",
+    '.header-company-name',
+  ],
+  locationSelectors: [
+    "[itemprop='jobLocation']",
+    'spl-job-location',
+    '.job-details .job-detail',
+  ],
+});
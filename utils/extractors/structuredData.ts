@@ -0,0 +1,227 @@
+/**
+ * schema.org JobPosting adapter
+ * Reads JSON-LD blocks and microdata before any CSS-selector scraping.
+ * Thousands of company career pages publish this markup for search engines,
+ * so it works without per-site selectors.
+ */
+
+import { JobExtractor, ExtractionResult, SalaryRange } from './types';
+import { getElementText, htmlToText } from './dom';
+import { normalizeEmploymentTypes } from '../jobMetadata';
+
+const SALARY_PERIODS: Record<string, SalaryRange['period']> = {
+  HOUR: 'hour',
+  DAY: 'day',
+  WEEK: 'week',
+  MONTH: 'month',
+  YEAR: 'year',
+};
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  const n = parseFloat(value.replace(/[^\d.]/g, ''));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function isJobPostingType(type: unknown): boolean {
+  return asArray(type as string | string[]).some((t) => typeof t === 'string' && /(^|\/)JobPosting$/i.test(t));
+}
+
+/**
+ * Collect every JobPosting node from the page's JSON-LD blocks,
+ * including ones nested in arrays or an @graph
+ */
+function findJsonLdPostings(doc: Document): any[] {
+  const postings: any[] = [];
+
+  const visit = (node: any) => {
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (isJobPostingType(node['@type'])) postings.push(node);
+    if (node['@graph']) visit(node['@graph']);
+  };
+
+  doc.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+    try {
+      visit(JSON.parse(script.textContent || ''));
+    } catch {
+      // Malformed JSON-LD is common; ignore the block
+    }
+  });
+
+  return postings;
+}
+
+function nameOf(value: any): string {
+  if (!value) return '';
+  if (typeof value === 'string') return value.trim();
+  return (value.name || value['@id'] || '').toString().trim();
+}
+
+function formatAddress(address: any): string {
+  if (!address) return '';
+  if (typeof address === 'string') return address.trim();
+  const parts = [
+    address.addressLocality,
+    address.addressRegion,
+    nameOf(address.addressCountry),
+  ].filter((p) => typeof p === 'string' && p.trim());
+  return [...new Set(parts)].join(', ');
+}
+
+function jsonLdLocation(posting: any): string {
+  const places = asArray(posting.jobLocation)
+    .map((place: any) => formatAddress(place?.address) || nameOf(place))
+    .filter(Boolean);
+  const remote = asArray(posting.jobLocationType).some((t: any) => /TELECOMMUTE/i.test(String(t)));
+  if (remote) places.unshift('Remote');
+  return [...new Set(places)].join(' · ');
+}
+
+function jsonLdSalary(baseSalary: any): SalaryRange | undefined {
+  if (baseSalary === undefined || baseSalary === null) return undefined;
+  if (typeof baseSalary === 'number' || typeof baseSalary === 'string') {
+    const value = toNumber(baseSalary);
+    return value !== undefined ? { min: value, max: value } : undefined;
+  }
+
+  const value = baseSalary.value ?? baseSalary;
+  const amount = toNumber(typeof value === 'object' ? value.value : value);
+  const min = toNumber(value?.minValue) ?? amount;
+  const max = toNumber(value?.maxValue) ?? amount;
+  if (min === undefined && max === undefined) return undefined;
+
+  const unit = String(value?.unitText || baseSalary.unitText || '').toUpperCase();
+  return {
+    min,
+    max,
+    currency: baseSalary.currency || value?.currency || undefined,
+    period: SALARY_PERIODS[unit],
+  };
+}
+
+/**
+ * The JSON-LD of a single-page app can describe the job the page was first
+ * loaded with rather than the one being viewed now
+ */
+function isStalePosting(posting: any): boolean {
+  const postingUrl = typeof posting.url === 'string' ? posting.url : '';
+  if (!postingUrl) return false;
+  try {
+    return new URL(postingUrl, window.location.href).pathname !== window.location.pathname;
+  } catch {
+    return false;
+  }
+}
+
+function fromJsonLd(posting: any): ExtractionResult {
+  const jd = htmlToText(String(posting.description || ''));
+  const stale = isStalePosting(posting);
+
+  return {
+    jd,
+    title: htmlToText(String(posting.title || posting.name || '')),
+    company: nameOf(posting.hiringOrganization),
+    location: jsonLdLocation(posting) || undefined,
+    datePosted: posting.datePosted || undefined,
+    validThrough: posting.validThrough || undefined,
+    employmentType: normalizeEmploymentTypes(asArray(posting.employmentType).map(String)),
+    salary: jsonLdSalary(posting.baseSalary),
+    // Structured markup is authoritative unless it is empty or stale
+    confidence: jd.length < 100 ? 0.3 : stale ? 0.5 : 0.95,
+    element: null,
+    debug: { source: 'json-ld', stale, url: posting.url },
+  };
+}
+
+/**
+ * Read an itemprop value, preferring content/datetime attributes over visible text
+ */
+function itemPropValue(scope: Element, prop: string): string {
+  const el = scope.querySelector(`[itemprop~="${prop}"]`);
+  if (!el) return '';
+  const attr = el.getAttribute('content') || el.getAttribute('datetime');
+  return (attr || getElementText(el)).trim();
+}
+
+function fromMicrodata(scope: Element): ExtractionResult {
+  const descriptionEl = scope.querySelector('[itemprop~="description"]');
+  const jd = descriptionEl ? getElementText(descriptionEl) : '';
+
+  const orgEl = scope.querySelector('[itemprop~="hiringOrganization"]');
+  const company = orgEl
+    ? itemPropValue(orgEl, 'name') || orgEl.getAttribute('content') || getElementText(orgEl)
+    : '';
+
+  const locationEl = scope.querySelector('[itemprop~="jobLocation"]');
+  const location = locationEl
+    ? [itemPropValue(locationEl, 'addressLocality'), itemPropValue(locationEl, 'addressRegion'), itemPropValue(locationEl, 'addressCountry')]
+      .filter(Boolean).join(', ') || getElementText(locationEl)
+    : '';
+
+  const salaryEl = scope.querySelector('[itemprop~="baseSalary"]');
+  let salary: SalaryRange | undefined;
+  if (salaryEl) {
+    const min = toNumber(itemPropValue(salaryEl, 'minValue') || itemPropValue(salaryEl, 'value'));
+    const max = toNumber(itemPropValue(salaryEl, 'maxValue') || itemPropValue(salaryEl, 'value'));
+    if (min !== undefined || max !== undefined) {
+      salary = {
+        min,
+        max,
+        currency: itemPropValue(salaryEl, 'currency') || itemPropValue(scope, 'salaryCurrency') || undefined,
+        period: SALARY_PERIODS[itemPropValue(salaryEl, 'unitText').toUpperCase()],
+      };
+    }
+  }
+
+  const employmentType = itemPropValue(scope, 'employmentType');
+
+  return {
+    jd,
+    title: itemPropValue(scope, 'title'),
+    company,
+    location: location || undefined,
+    datePosted: itemPropValue(scope, 'datePosted') || undefined,
+    validThrough: itemPropValue(scope, 'validThrough') || undefined,
+    employmentType: employmentType ? normalizeEmploymentTypes(employmentType.split(/\s*,\s*/)) : [],
+    salary,
+    confidence: jd.length < 100 ? 0.3 : 0.9,
+    element: descriptionEl,
+    debug: { source: 'microdata' },
+  };
+}
+
+/**
+ * Whether the document carries any schema.org JobPosting markup
+ */
+export function hasStructuredJobPosting(doc: Document = document): boolean {
+  return !!doc.querySelector('[itemtype*="schema.org/JobPosting" i]') || findJsonLdPostings(doc).length > 0;
+}
+
+export const structuredDataExtractor: JobExtractor = {
+  id: 'structured-data',
+  name: 'schema.org JobPosting',
+  matches: () => true,
+  extract(doc: Document): ExtractionResult | null {
+    const candidates: ExtractionResult[] = [
+      ...findJsonLdPostings(doc).map(fromJsonLd),
+      ...Array.from(doc.querySelectorAll('[itemtype*="schema.org/JobPosting" i]')).map(fromMicrodata),
+    ].filter((c) => c.jd || c.title);
+
+    if (candidates.length === 0) return null;
+
+    // Listing pages can carry many postings; prefer the most confident, then the longest
+    return candidates.reduce((best, c) =>
+      c.confidence > best.confidence || (c.confidence === best.confidence && c.jd.length > best.jd.length) ? c : best
+    );
+  },
+};
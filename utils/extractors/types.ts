@@ -0,0 +1,111 @@
+/**
+ * Job Extractor Types
+ * Shared shapes for the per-site job page adapters
+ */
+
+import type { JDSection } from '../jdSections';
+
+export interface SalaryRange {
+  min?: number;
+  max?: number;
+  /** ISO 4217 code where known, e.g. "USD", "PLN" */
+  currency?: string;
+  period?: 'hour' | 'day' | 'week' | 'month' | 'year';
+  /** Before or after tax, when the posting says so ("brutto", "net + VAT") */
+  basis?: 'gross' | 'net';
+}
+
+export type WorkplaceType = 'remote' | 'hybrid' | 'onsite';
+
+export type SeniorityLevel =
+  | 'intern'
+  | 'junior'
+  | 'mid'
+  | 'senior'
+  | 'lead'
+  | 'principal'
+  | 'manager'
+  | 'director'
+  | 'executive';
+
+export type EmploymentType = 'full-time' | 'part-time' | 'contract' | 'temporary' | 'internship' | 'freelance';
+
+/**
+ * Optional structured fields, filled when the page exposes them
+ * (schema.org JobPosting markup) or when they can be parsed from the JD
+ */
+export interface JobDetails {
+  datePosted?: string;
+  validThrough?: string;
+  employmentType?: EmploymentType[];
+  salary?: SalaryRange;
+  workplace?: WorkplaceType;
+  seniority?: SeniorityLevel;
+}
+
+export interface JobData extends JobDetails {
+  jd: string;
+  title: string;
+  company: string;
+  location?: string;
+  /** Labeled JD sections; absent when the JD was typed in manually */
+  sections?: JDSection[];
+  debug?: ExtractionDebug;
+}
+
+/**
+ * Summary of one adapter's result, kept for diagnostics
+ */
+export interface ExtractionCandidate {
+  extractorId: string;
+  extractorName: string;
+  confidence: number;
+  jdLength: number;
+  /** CSS selector the text came from, when the adapter used one */
+  selector?: string;
+  preview: string;
+}
+
+/**
+ * Why a JD was chosen: the winning adapter's own debug fields (selectors tried,
+ * fallback type, ...) plus the chain-level summary
+ */
+export interface ExtractionDebug {
+  extractor: string | null;
+  confidence?: number;
+  /** Hostname the extraction ran on; custom selectors are stored per host */
+  host?: string;
+  /** Set when the job was read from an embedded iframe rather than the page itself */
+  frameUrl?: string;
+  candidates: ExtractionCandidate[];
+  final: { jdLength: number; title: string; company: string };
+  tried?: Array<{ selector: string; found: boolean }>;
+  found?: { selector?: string; joined?: number; textLength: number; preview?: string } | null;
+  [key: string]: unknown;
+}
+
+/**
+ * What a single adapter pulled out of the page
+ */
+export interface ExtractionResult extends JobDetails {
+  jd: string;
+  title: string;
+  company: string;
+  location?: string;
+  /** 0..1 — how sure the adapter is that `jd` is the real job description */
+  confidence: number;
+  /** The DOM node the description was read from, if any */
+  element?: Element | null;
+  debug?: any;
+}
+
+export interface JobExtractor {
+  /** Stable identifier, e.g. "linkedin" */
+  id: string;
+  /** Human readable name shown in diagnostics */
+  name: string;
+  /** Whether this adapter should run for the given page URL */
+  matches(url: URL): boolean;
+  /** Extract job data from the document, or null when nothing usable was found */
+  extract(doc: Document): ExtractionResult | null;
+}
@@ -0,0 +1,30 @@
+/**
+ * Wellfound (formerly AngelList Talent) job page adapter
+ */
+
+import { createSelectorExtractor } from './selectorExtractor';
+
+export const wellfoundExtractor = createSelectorExtractor({
+  id: 'wellfound',
+  name: 'Wellfound',
+  domains: ['wellfound.com'],
+  descriptionSelectors: [
+    "[data-test='JobDescription']",
+    "[class*='styles_description']",
+    "[class*='job-description']",
+  ],
+  titleSelectors: [
+    "[data-test='JobTitle']",
+    'h1',
+  ],
+  companySelectors: [
+    "[data-test='StartupName']",
+    "a[href^='/company/'] h2",
+    "a[href^='/company/']",
+  ],
+  locationSelectors: [
+    "[data-test='JobLocation']",
+    "[class*='styles_location']",
+  ],
+  confidence: 0.85,
+});
@@ -0,0 +1,27 @@
+/**
+ * Workday hosted job board adapter (*.myworkdayjobs.com)
+ */
+
+import { createSelectorExtractor } from './selectorExtractor';
+
+export const workdayExtractor = createSelectorExtractor({
+  id: 'workday',
+  name: 'Workday',
+  domains: ['myworkdayjobs.com'],
+  descriptionSelectors: [
+    "[data-automation-id='jobPostingDescription']",
+  ],
+  titleSelectors: [
+    "[data-automation-id='jobPostingHeader']",
+    'h2',
+  ],
+  companySelectors: [
+    "[data-automation-id='company'] dd",
+  ],
+  // Tenant subdomain, e.g. "acme" in acme.wd5.myworkdayjobs.com
+  companyFromPage: (doc) => doc.location?.hostname.split('.')[0] || '',
+  locationSelectors: [
+    "[data-automation-id='locations'] dd",
+    "[data-automation-id='remoteType'] dd",
+  ],
+});
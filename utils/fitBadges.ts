@@ -0,0 +1,306 @@
+/**
+ * Fit Badges for Job Search Result Lists
+ * Scores each visible job card on LinkedIn / Indeed search pages against the
+ * user's default resume with the local scanner (in the scan worker) and
+ * injects a small badge. Cards use the full JD when it was cached from the
+ * detail view, otherwise the card's own snippet text.
+ */
+
+import { scanInBackground } from './scanWorker';
+import { loadSettings } from './settings';
+import { getElementText } from './extractors';
+import type { ParsedResume } from './resumeParser';
+import type { ResumeLintReport } from './resumeLint';
+
+interface JobListAdapter {
+  id: string;
+  host: RegExp;
+  /** Whether the path is a search results page for this site */
+  isListPath(pathname: string): boolean;
+  cardSelector: string;
+  getCardJobId(card: Element): string | null;
+  /** Where the badge is appended inside a card */
+  getBadgeAnchor(card: Element): Element;
+  /** Job id of the detail view currently open, used to cache its full JD */
+  jobIdFromUrl(url: URL): string | null;
+}
+
+interface StoredResume {
+  id: string;
+  name: string;
+  content: string;
+  selected: boolean;
+  parsed?: ParsedResume;
+  lint?: ResumeLintReport;
+}
+
+interface CachedJob {
+  jd: string;
+  cachedAt: number;
+}
+
+const JOB_CACHE_KEY = 'jdScan_jobCache';
+const JOB_CACHE_LIMIT = 100;
+const BADGE_ATTR = 'data-jdscan-badge';
+
+const LIST_ADAPTERS: JobListAdapter[] = [
+  {
+    id: 'linkedin',
+    host: /(^|\.)linkedin\.com$/,
+    isListPath: (pathname) => /^\/jobs\/(search|collections)/.test(pathname),
+    cardSelector: 'li[data-occludable-job-id], .job-card-container[data-job-id], .jobs-search-results__list-item',
+    getCardJobId: (card) =>
+      card.getAttribute('data-occludable-job-id') ||
+      card.getAttribute('data-job-id') ||
+      card.querySelector('[data-job-id]')?.getAttribute('data-job-id') ||
+      null,
+    getBadgeAnchor: (card) =>
+      card.querySelector('.job-card-list__title, .job-card-list__title--link, .artdeco-entity-lockup__title') || card,
+    jobIdFromUrl: (url) => url.searchParams.get('currentJobId') || url.pathname.match(/\/jobs\/view\/(\d+)/)?.[1] || null,
+  },
+  {
+    id: 'indeed',
+    host: /(^|\.)indeed\.(com|co\.uk|ca)$/,
+    isListPath: (pathname) => pathname.startsWith('/jobs') || pathname.startsWith('/q-'),
+    cardSelector: '.job_seen_beacon, [data-testid="slider_item"]',
+    getCardJobId: (card) =>
+      card.querySelector('[data-jk]')?.getAttribute('data-jk') ||
+      card.closest('[data-jk]')?.getAttribute('data-jk') ||
+      null,
+    getBadgeAnchor: (card) => card.querySelector('h2.jobTitle, .jobTitle') || card,
+    jobIdFromUrl: (url) => url.searchParams.get('vjk') || url.searchParams.get('jk'),
+  },
+];
+
+function getSiteAdapter(href: string): JobListAdapter | undefined {
+  try {
+    const { hostname } = new URL(href);
+    return LIST_ADAPTERS.find((a) => a.host.test(hostname));
+  } catch {
+    return undefined;
+  }
+}
+
+function getListAdapter(href: string): JobListAdapter | undefined {
+  const adapter = getSiteAdapter(href);
+  return adapter && adapter.isListPath(new URL(href).pathname) ? adapter : undefined;
+}
+
+/**
+ * Whether the site has search result lists we can badge. Both sites are
+ * single-page apps, so list pages can appear without a reload.
+ */
+export function supportsFitBadges(href: string = window.location.href): boolean {
+  return !!getSiteAdapter(href);
+}
+
+/**
+ * Remember the full JD of the job open in the detail pane so its card can be
+ * scored on the real description
+ */
+export async function cacheJobDetail(href: string, jd: string): Promise<void> {
+  const adapter = getSiteAdapter(href);
+  if (!adapter || !jd) return;
+
+  const jobId = adapter.jobIdFromUrl(new URL(href));
+  if (!jobId) return;
+
+  const data = await chrome.storage.local.get(JOB_CACHE_KEY);
+  const cache: Record<string, CachedJob> = (data?.[JOB_CACHE_KEY] as Record<string, CachedJob>) || {};
+  cache[`${adapter.id}:${jobId}`] = { jd, cachedAt: Date.now() };
+
+  // Keep only the most recent entries
+  const entries = Object.entries(cache).sort((a, b) => b[1].cachedAt - a[1].cachedAt).slice(0, JOB_CACHE_LIMIT);
+  await chrome.storage.local.set({ [JOB_CACHE_KEY]: Object.fromEntries(entries) });
+}
+
+/**
+ * The resume badges are scored against: the default one, else the first selected
+ */
+async function loadDefaultResume(): Promise<StoredResume | null> {
+  const [settings, data] = await Promise.all([loadSettings(), chrome.storage.local.get('resumes')]);
+  const resumes = (Array.isArray(data?.resumes) ? data.resumes : []) as StoredResume[];
+  return resumes.find((r) => r.id === settings.defaultResumeId) ||
+    resumes.find((r) => r.selected) ||
+    resumes[0] ||
+    null;
+}
+
+function scoreColor(score: number): string {
+  if (score >= 80) return '#16a34a';
+  if (score >= 60) return '#d97706';
+  return '#e11d48';
+}
+
+/**
+ * The badge's text lives in a shadow root, so reading the card's text (to
+ * score its snippet) never picks up "~NN%"
+ */
+function renderBadge(anchor: Element, score: number, resumeName: string, fromSnippet: boolean) {
+  let host = anchor.querySelector(`:scope > [${BADGE_ATTR}]`) as HTMLSpanElement | null;
+  if (!host) {
+    host = document.createElement('span');
+    host.setAttribute(BADGE_ATTR, '');
+    host.attachShadow({ mode: 'open' }).appendChild(document.createElement('span'));
+    anchor.appendChild(host);
+  }
+  const badge = host.shadowRoot!.firstElementChild as HTMLSpanElement;
+
+  const color = scoreColor(score);
+  badge.textContent = `${fromSnippet ? '~' : ''}${score}%`;
+  host.title = `JD Scan fit with "${resumeName}"${fromSnippet ? ' (estimated from the card snippet — open the job for a full score)' : ''}`;
+  Object.assign(badge.style, {
+    display: 'inline-flex',
+    alignItems: 'center',
+    marginLeft: '6px',
+    padding: '1px 6px',
+    borderRadius: '9999px',
+    fontSize: '11px',
+    fontWeight: '700',
+    lineHeight: '16px',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+    color,
+    background: `${color}14`,
+    border: `1px ${fromSnippet ? 'dashed' : 'solid'} ${color}66`,
+    verticalAlign: 'middle',
+    whiteSpace: 'nowrap',
+  });
+}
+
+function removeBadges() {
+  document.querySelectorAll(`[${BADGE_ATTR}]`).forEach((el) => el.remove());
+}
+
+/** Whether a DOM change only added or removed our own badges */
+function isBadgeMutation(record: MutationRecord): boolean {
+  const nodes = [...record.addedNodes, ...record.removedNodes];
+  return nodes.length > 0 && nodes.every((node) => node instanceof Element && node.hasAttribute(BADGE_ATTR));
+}
+
+/**
+ * Badge visible job cards while the page is a search results list.
+ * Returns a function that stops the controller and removes the badges.
+ */
+export function startFitBadges(): () => void {
+  let scored = new WeakMap<Element, string>();
+  /** Cards on or near the screen, per the IntersectionObserver */
+  const visible = new Set<Element>();
+  let resume: StoredResume | null = null;
+  let jobCache: Record<string, CachedJob> = {};
+  let enabled = false;
+  let stemming = true;
+  let scanTimer: number | null = null;
+
+  const scoreCard = (card: Element) => {
+    const adapter = getListAdapter(window.location.href);
+    if (!adapter || !resume || !enabled) return;
+
+    const jobId = adapter.getCardJobId(card);
+    const cached = jobId ? jobCache[`${adapter.id}:${jobId}`] : undefined;
+    const text = cached?.jd || getElementText(card);
+    const key = `${resume.id}:${stemming}:${cached ? 'jd' : 'snippet'}:${text}`;
+    if (!text || scored.get(card) === key) return;
+
+    // Claimed before the worker answers, so a card isn't queued twice
+    scored.set(card, key);
+    const scoring = resume;
+    scanInBackground({
+      resumes: [{ id: scoring.id, content: scoring.content, parsed: scoring.parsed, hiddenText: scoring.lint?.hiddenText }],
+      jobDescription: text,
+      stemming,
+    })
+      .then(([result]) => {
+        // Settings or the resume may have changed while it was scoring
+        if (scored.get(card) === key && enabled) renderBadge(adapter.getBadgeAnchor(card), result.score, scoring.name, !cached);
+      })
+      .catch((err) => {
+        scored.delete(card);
+        console.error('JD Scan: Fit badge scoring failed', err);
+      });
+  };
+
+  const visibility = new IntersectionObserver((entries) => {
+    entries.forEach((entry) => {
+      if (entry.isIntersecting) {
+        visible.add(entry.target);
+        scoreCard(entry.target);
+      } else {
+        visible.delete(entry.target);
+      }
+    });
+  }, { rootMargin: '200px 0px' });
+
+  // Scores are forgotten with their badges, so the next scan puts them back
+  const clearBadges = () => {
+    removeBadges();
+    scored = new WeakMap();
+  };
+
+  const observed = new WeakSet<Element>();
+  const scanCards = () => {
+    const adapter = getListAdapter(window.location.href);
+    if (!adapter || !enabled) return;
+    document.querySelectorAll(adapter.cardSelector).forEach((card) => {
+      if (observed.has(card)) return;
+      observed.add(card);
+      visibility.observe(card);
+    });
+    // Re-score visible cards whose cached JD may have arrived since
+    visible.forEach((card) => {
+      if (card.isConnected) scoreCard(card);
+      else visible.delete(card);
+    });
+  };
+
+  const scheduleScan = () => {
+    if (scanTimer) window.clearTimeout(scanTimer);
+    scanTimer = window.setTimeout(scanCards, 400);
+  };
+
+  // Lists grow as the user scrolls; only re-scan, never re-score everything
+  const listObserver = new MutationObserver((records) => {
+    if (!records.every(isBadgeMutation)) scheduleScan();
+  });
+
+  const reload = async () => {
+    const [settings, defaultResume, data] = await Promise.all([
+      loadSettings(),
+      loadDefaultResume(),
+      chrome.storage.local.get(JOB_CACHE_KEY),
+    ]);
+    enabled = settings.showFitBadges && !!defaultResume;
+    stemming = settings.stemming;
+    resume = defaultResume;
+    jobCache = (data?.[JOB_CACHE_KEY] as Record<string, CachedJob>) || {};
+
+    if (!enabled) {
+      clearBadges();
+      return;
+    }
+    scheduleScan();
+  };
+
+  const storageListener = (changes: Record<string, chrome.storage.StorageChange>, namespace: string) => {
+    if (namespace !== 'local') return;
+    if (changes.resumes || changes.userSettings) {
+      clearBadges();
+      reload();
+    } else if (changes[JOB_CACHE_KEY]) {
+      jobCache = (changes[JOB_CACHE_KEY].newValue as Record<string, CachedJob>) || {};
+      scheduleScan();
+    }
+  };
+
+  chrome.storage.onChanged.addListener(storageListener);
+  listObserver.observe(document.body, { childList: true, subtree: true });
+  reload();
+
+  return () => {
+    if (scanTimer) window.clearTimeout(scanTimer);
+    listObserver.disconnect();
+    visibility.disconnect();
+    chrome.storage.onChanged.removeListener(storageListener);
+    visible.clear();
+    removeBadges();
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Embedded Job Boards
+ * Career sites often embed their Greenhouse / Lever / Workable board in an
+ * iframe. The content script runs in every frame: sub-frames extract on their
+ * own and report their candidate (relayed by the background) to the top frame,
+ * which publishes the best job across all frames as a single JD_FOUND.
+ */
+
+import type { JobData } from './extractors';
+import { snapshotJobHtml } from './jobArchive';
+
+export interface FrameJobReport {
+  type: 'FRAME_JOB_CANDIDATE';
+  url: string;
+  /** null when the frame no longer shows a job */
+  data: JobData | null;
+  /** Sanitized snapshot of the description's markup, for the job archive */
+  html?: string;
+  /** Filled in by the background from the sender */
+  frameId?: number;
+}
+
+interface Candidate {
+  data: JobData;
+  html?: string;
+  confidence: number;
+}
+
+// Frames report as they finish loading; wait for the stragglers before picking
+const SETTLE_DELAY = 300;
+// Chrome's frameId of the top frame
+const TOP_FRAME = 0;
+
+export function isTopFrame(): boolean {
+  try {
+    return window.top === window.self;
+  } catch {
+    // Cross-origin access to window.top throws in sandboxed frames
+    return false;
+  }
+}
+
+/**
+ * Send this frame's job (or its loss) towards the top frame. The markup is
+ * only snapshotted when the job archive will keep it.
+ */
+export function reportFrameJob(data: JobData | null, element: Element | null = null, archive = false) {
+  const report: FrameJobReport = {
+    type: 'FRAME_JOB_CANDIDATE',
+    url: window.location.href,
+    data: data && { ...data, debug: data.debug && { ...data.debug, frameUrl: window.location.href } },
+    html: data && archive ? snapshotJobHtml(element, data.jd) : undefined,
+  };
+  chrome.runtime.sendMessage(report).catch(() => { });
+}
+
+function confidenceOf(data: JobData): number {
+  return data.debug?.confidence ?? 0;
+}
+
+export interface FrameJobPicker {
+  /** The top frame's own job, or null when it has none */
+  offerOwn(data: JobData | null, html?: string): void;
+  offerFrame(report: FrameJobReport): void;
+  /** Best job right now, optionally with a fresh extraction of the top frame */
+  best(own?: JobData): JobData | null;
+  stop(): void;
+}
+
+/**
+ * Collect candidates from the top frame and its sub-frames and publish the
+ * winner once they settle. The top frame wins ties; among frames the longer
+ * description does.
+ */
+export function createFrameJobPicker(publish: (data: JobData, html?: string) => void): FrameJobPicker {
+  const candidates = new Map<number, Candidate>();
+  // Sources that reported since the last pick; a winner among them is republished
+  const pending = new Set<number>();
+  let lastPublished: JobData | null = null;
+  let timer: number | null = null;
+
+  const pickFrom = (entries: Array<[number, Candidate]>): [number, Candidate] | null => {
+    let best: [number, Candidate] | null = null;
+    for (const entry of entries) {
+      if (!best) {
+        best = entry;
+        continue;
+      }
+      const [id, candidate] = entry;
+      const [bestId, bestCandidate] = best;
+      if (candidate.confidence > bestCandidate.confidence ||
+        (candidate.confidence === bestCandidate.confidence && bestId !== TOP_FRAME &&
+          (id === TOP_FRAME || candidate.data.jd.length > bestCandidate.data.jd.length))) {
+        best = entry;
+      }
+    }
+    return best;
+  };
+
+  const settle = () => {
+    timer = null;
+    const winner = pickFrom(Array.from(candidates.entries()));
+    const changed = winner && (pending.has(winner[0]) || winner[1].data !== lastPublished);
+    pending.clear();
+    if (!winner || !changed) return;
+
+    lastPublished = winner[1].data;
+    if (winner[0] !== TOP_FRAME) {
+      console.log('JD Scan: Using job from embedded frame', { url: winner[1].data.debug?.frameUrl });
+    }
+    publish(winner[1].data, winner[1].html);
+  };
+
+  const offer = (source: number, data: JobData | null, html?: string) => {
+    if (data?.jd) {
+      candidates.set(source, { data, html, confidence: confidenceOf(data) });
+    } else {
+      candidates.delete(source);
+    }
+    pending.add(source);
+    if (timer) window.clearTimeout(timer);
+    timer = window.setTimeout(settle, SETTLE_DELAY);
+  };
+
+  return {
+    offerOwn: (data, html) => offer(TOP_FRAME, data, html),
+    offerFrame: (report) => {
+      if (report.frameId) offer(report.frameId, report.data, report.html);
+    },
+    best: (own) => {
+      const entries = Array.from(candidates.entries()).filter(([id]) => !own || id !== TOP_FRAME);
+      if (own?.jd) entries.push([TOP_FRAME, { data: own, confidence: confidenceOf(own) }]);
+      return pickFrom(entries)?.[1].data ?? own ?? null;
+    },
+    stop: () => {
+      if (timer) window.clearTimeout(timer);
+      timer = null;
+      candidates.clear();
+      pending.clear();
+      lastPublished = null;
+    },
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Job Description Structure Parser
+ * Splits a plain-text JD into labeled sections (responsibilities, requirements,
+ * nice-to-haves, benefits, ...) using headings, bullet lists and common phrasings
+ */
+
+export type JDSectionKind =
+  | 'summary'
+  | 'about'
+  | 'responsibilities'
+  | 'requirements'
+  | 'niceToHave'
+  | 'benefits'
+  | 'other';
+
+export interface JDSection {
+  kind: JDSectionKind;
+  /** Heading as written on the page (empty for the untitled intro) */
+  heading: string;
+  /** Full section text, bullets included */
+  text: string;
+  /** Bullet items with their markers stripped */
+  bullets: string[];
+}
+
+export const SECTION_LABELS: Record<JDSectionKind, string> = {
+  summary: 'Overview',
+  about: 'About the Company',
+  responsibilities: 'Responsibilities',
+  requirements: 'Requirements',
+  niceToHave: 'Nice to Have',
+  benefits: 'Benefits',
+  other: 'Other',
+};
+
+/**
+ * How much a keyword found in each section counts towards the match score
+ */
+export const SECTION_WEIGHTS: Record<JDSectionKind, number> = {
+  requirements: 1,
+  responsibilities: 0.8,
+  summary: 0.6,
+  other: 0.6,
+  niceToHave: 0.5,
+  about: 0.2,
+  benefits: 0.1,
+};
+
+// Order matters: "Preferred qualifications" must hit niceToHave before requirements,
+// "About you" must hit requirements before about
+const HEADING_PATTERNS: Array<[JDSectionKind, RegExp]> = [
+  ['niceToHave', /nice[\s-]to[\s-]haves?|preferred|bonus points|(?:is|are) a plus|pluses|desired|would be (?:great|nice)|good to have|mile widziane/i],
+  ['benefits', /benefits?|perks|what we offer|we offer|what's in it for you|compensation|why (?:join|work)|you['’]ll love|oferujemy|benefity/i],
+  ['responsibilities', /responsibilit|what you['’]?ll (?:do|be doing)|what you will (?:do|be doing)|your role|the role|in this role|duties|day[\s-]to[\s-]day|your impact|your mission|key tasks|what the job involves|zakres obowiązków|twój zakres|obowiązki/i],
+  ['requirements', /requirements?|qualifications|must[\s-]haves?|what you['’]?ll need|what you need|what we['’]?re looking for|who you are|about you|what you bring|^(?:you have|you bring|skills)$|(?:required|key|core|technical|must-have) skills|skills (?:&|and) (?:experience|qualifications)|experience required|wymagania|oczekujemy/i],
+  ['summary', /about (?:the )?(?:job|position|opportunity)|overview|job description|summary/i],
+  ['about', /about (?:us|the company|the team)|who we are|our (?:mission|story|company)|company overview|o nas|o firmie/i],
+];
+
+const BULLET_RE = /^(?:[•\-*·▪◦●–—►✓✔]|\d{1,2}[.)])\s+/;
+
+function classifyHeading(heading: string): JDSectionKind | null {
+  for (const [kind, pattern] of HEADING_PATTERNS) {
+    if (pattern.test(heading)) return kind;
+  }
+  return null;
+}
+
+function isAllCaps(line: string): boolean {
+  return /[A-Z]/.test(line) && line === line.toUpperCase() && line.length > 3;
+}
+
+/**
+ * Decide whether a line is a section heading, returning its kind if so
+ */
+function headingKind(line: string): JDSectionKind | null {
+  if (line.length > 60 || BULLET_RE.test(line)) return null;
+  const words = line.split(/\s+/).length;
+  if (words > 8) return null;
+
+  const bare = line.replace(/[:：]\s*$/, '').trim();
+  const kind = classifyHeading(bare);
+  const endsWithColon = /[:：]\s*$/.test(line);
+
+  // Sentences ending in a period are content, not headings
+  if (/[.!?]$/.test(bare)) return null;
+  if (kind) return kind;
+  if (endsWithColon || isAllCaps(bare)) return 'other';
+  return null;
+}
+
+/**
+ * The section a trimmed line opens: a heading line, or an inline label such
+ * as "Must have: Go, Kubernetes". `length` is how much of the line is the
+ * heading, trailing colon excluded.
+ */
+export function lineHeading(line: string): { kind: JDSectionKind; length: number } | null {
+  const inline = line.match(/^([^:：]{3,40})[:：]\s+(.+)$/);
+  const inlineKind = inline && !BULLET_RE.test(line) ? classifyHeading(inline[1]) : null;
+  if (inline && inlineKind) return { kind: inlineKind, length: inline[1].length };
+
+  const kind = headingKind(line);
+  return kind ? { kind, length: line.replace(/[:：]\s*$/, '').length } : null;
+}
+
+/**
+ * Parse a job description into labeled sections
+ */
+export function parseJDSections(jd: string): JDSection[] {
+  const sections: JDSection[] = [];
+  let current = { kind: 'summary' as JDSectionKind, heading: '', lines: [] as string[] };
+
+  const flush = () => {
+    const lines = current.lines.filter(Boolean);
+    if (lines.length === 0) return;
+    sections.push({
+      kind: current.kind,
+      heading: current.heading,
+      text: lines.join('\n'),
+      bullets: lines.filter((l) => BULLET_RE.test(l)).map((l) => l.replace(BULLET_RE, '').trim()),
+    });
+  };
+
+  for (const raw of jd.split('\n')) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    const heading = lineHeading(line);
+    if (heading) {
+      flush();
+      const rest = line.slice(heading.length).replace(/^[:：]?\s*/, '');
+      current = { kind: heading.kind, heading: line.slice(0, heading.length).trim(), lines: rest ? [rest] : [] };
+      continue;
+    }
+
+    current.lines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Concatenated text of every section of the given kinds
+ */
+export function getSectionText(sections: JDSection[], kinds: JDSectionKind[]): string {
+  return sections
+    .filter((s) => kinds.includes(s.kind))
+    .map((s) => s.text)
+    .join('\n');
+}
@@ -0,0 +1,261 @@
+/**
+ * Job Archive
+ * Keeps a snapshot of every captured job (sanitized HTML, plain text, URL,
+ * capture time and extracted metadata) so postings that get taken down are
+ * still there for interview prep. A small index lists the jobs; each snapshot
+ * is stored under its own key so the list loads without the HTML. Pages and
+ * content scripts send their writes to the background, which applies them
+ * one at a time so captures in several tabs can't overwrite each other's
+ * index changes.
+ */
+
+import type { JobData, JobDetails } from './extractors';
+import type { JDSection } from './jdSections';
+import { jobIdentityFromUrl } from './jobWatcher';
+
+export interface ArchivedJobSummary {
+  id: string;
+  /** Which job this is, ignoring tracking parameters; one entry per job */
+  identity: string;
+  url: string;
+  capturedAt: number;
+  title: string;
+  company: string;
+  location?: string;
+  jdLength: number;
+}
+
+export interface ArchivedJob extends ArchivedJobSummary {
+  text: string;
+  html: string;
+  details: JobDetails;
+  sections?: JDSection[];
+  extractorId?: string | null;
+}
+
+/** A change to the archive, applied by the background */
+export type JobArchiveWrite =
+  | { op: 'archive'; data: JobData; url: string; html: string; identity?: string }
+  | { op: 'delete'; id: string }
+  | { op: 'clear' };
+
+export interface JobArchiveWriteMessage {
+  type: 'JOB_ARCHIVE_WRITE';
+  write: JobArchiveWrite;
+}
+
+export const JOB_ARCHIVE_KEY = 'jdScan_jobArchive';
+const ENTRY_KEY_PREFIX = `${JOB_ARCHIVE_KEY}:`;
+const MAX_ENTRIES = 300;
+const MAX_HTML_LENGTH = 250_000;
+
+// Markup kept in snapshots; anything else is unwrapped to its children
+const ALLOWED_TAGS = new Set([
+  'P', 'BR', 'HR', 'DIV', 'SPAN', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'DL', 'DT', 'DD',
+  'STRONG', 'B', 'EM', 'I', 'U', 'S', 'SMALL', 'SUB', 'SUP', 'MARK',
+  'A', 'BLOCKQUOTE', 'PRE', 'CODE', 'TABLE', 'THEAD', 'TBODY', 'TFOOT', 'TR', 'TH', 'TD',
+]);
+// Dropped together with their content
+const DROPPED_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'IFRAME', 'FRAME', 'OBJECT', 'EMBED',
+  'SVG', 'CANVAS', 'VIDEO', 'AUDIO', 'IMG', 'PICTURE', 'FORM', 'INPUT', 'BUTTON', 'SELECT', 'TEXTAREA', 'LINK', 'META',
+]);
+
+function entryKey(id: string): string {
+  return `${ENTRY_KEY_PREFIX}${id}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Plain text as minimal HTML, for jobs without a DOM source (JSON-LD, selections)
+ */
+export function textToHtml(text: string): string {
+  return text
+    .split(/\n{2,}|\n(?=[•\-*·]\s)/)
+    .map((block) => `<p>${escapeHtml(block.trim()).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+}
+
+function sanitizeNode(node: Node, doc: Document): Node | null {
+  if (node.nodeType === Node.TEXT_NODE) return doc.createTextNode(node.textContent || '');
+  if (node.nodeType !== Node.ELEMENT_NODE) return null;
+
+  const el = node as Element;
+  const tag = el.tagName.toUpperCase();
+  if (DROPPED_TAGS.has(tag) || el.getAttribute('aria-hidden') === 'true') return null;
+
+  const children = Array.from(el.childNodes).map((child) => sanitizeNode(child, doc)).filter((c): c is Node => !!c);
+  if (!ALLOWED_TAGS.has(tag)) {
+    const fragment = doc.createDocumentFragment();
+    children.forEach((child) => fragment.appendChild(child));
+    return fragment;
+  }
+
+  // No attributes survive except safe link targets and table spans
+  const clean = doc.createElement(tag.toLowerCase());
+  if (tag === 'A') {
+    const href = (el as HTMLAnchorElement).href;
+    if (/^https?:/i.test(href)) {
+      clean.setAttribute('href', href);
+      clean.setAttribute('target', '_blank');
+      clean.setAttribute('rel', 'noopener noreferrer');
+    }
+  }
+  for (const attr of ['colspan', 'rowspan']) {
+    const value = el.getAttribute(attr);
+    if (value && /^\d{1,2}$/.test(value)) clean.setAttribute(attr, value);
+  }
+  children.forEach((child) => clean.appendChild(child));
+  return clean;
+}
+
+/**
+ * Sanitized copy of the description's markup: structure and links only, no
+ * scripts, styles, media, forms or attributes. Falls back to the text when
+ * there is no element or the markup is too large.
+ */
+export function snapshotJobHtml(element: Element | null, text: string): string {
+  if (!element) return textToHtml(text);
+
+  const container = document.createElement('div');
+  const sanitized = sanitizeNode(element, document);
+  if (sanitized) container.appendChild(sanitized);
+  const html = container.innerHTML.replace(/(?:<(div|span)>\s*<\/\1>)+/g, '').trim();
+  return html && html.length <= MAX_HTML_LENGTH ? html : textToHtml(text);
+}
+
+/**
+ * Stored snapshot markup put through the same allow-list again before it is
+ * shown. Writes reach the archive from frames and pages the background can't
+ * vouch for, and it has no DOM to clean them with itself.
+ */
+export function sanitizeJobHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const container = doc.createElement('div');
+  for (const child of Array.from(doc.body.childNodes)) {
+    const sanitized = sanitizeNode(child, doc);
+    if (sanitized) container.appendChild(sanitized);
+  }
+  return container.innerHTML;
+}
+
+export async function listArchivedJobs(): Promise<ArchivedJobSummary[]> {
+  const data = await chrome.storage.local.get(JOB_ARCHIVE_KEY);
+  const index = data?.[JOB_ARCHIVE_KEY];
+  return Array.isArray(index) ? (index as ArchivedJobSummary[]) : [];
+}
+
+export async function getArchivedJob(id: string): Promise<ArchivedJob | null> {
+  const data = await chrome.storage.local.get(entryKey(id));
+  return (data?.[entryKey(id)] as ArchivedJob | undefined) || null;
+}
+
+/**
+ * Store a captured job. A job already in the archive is refreshed only when
+ * its text changed, so re-opening a posting does not reorder the list.
+ */
+async function storeJob(data: JobData, url: string, html: string, identity: string): Promise<ArchivedJobSummary | null> {
+  if (!data.jd) return null;
+
+  const index = await listArchivedJobs();
+  const existing = index.find((entry) => entry.identity === identity);
+  if (existing) {
+    const stored = await getArchivedJob(existing.id);
+    if (stored?.text === data.jd) return existing;
+  }
+
+  const { jd, title, company, location, sections, debug, ...details } = data;
+  const entry: ArchivedJob = {
+    id: existing?.id || crypto.randomUUID(),
+    identity,
+    url,
+    capturedAt: Date.now(),
+    title,
+    company,
+    location,
+    jdLength: jd.length,
+    text: jd,
+    html,
+    details,
+    sections,
+    extractorId: debug?.extractor,
+  };
+  const { text: _text, html: _html, details: _details, sections: _sections, extractorId: _extractorId, ...summary } = entry;
+
+  // Newest first; the oldest snapshots go once the archive is full
+  const next = [summary, ...index.filter((e) => e.id !== entry.id)];
+  const evicted = next.splice(MAX_ENTRIES);
+  await chrome.storage.local.set({ [JOB_ARCHIVE_KEY]: next, [entryKey(entry.id)]: entry });
+  if (evicted.length > 0) await chrome.storage.local.remove(evicted.map((e) => entryKey(e.id)));
+  return summary;
+}
+
+async function deleteJob(id: string): Promise<void> {
+  const index = await listArchivedJobs();
+  await chrome.storage.local.set({ [JOB_ARCHIVE_KEY]: index.filter((e) => e.id !== id) });
+  await chrome.storage.local.remove(entryKey(id));
+}
+
+async function clearJobs(): Promise<void> {
+  const index = await listArchivedJobs();
+  await chrome.storage.local.remove([JOB_ARCHIVE_KEY, ...index.map((e) => entryKey(e.id))]);
+}
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Apply a write once the ones before it are done. Background only: every
+ * other context goes through archiveJob / deleteArchivedJob / clearJobArchive.
+ */
+export function applyJobArchiveWrite(write: JobArchiveWrite): Promise<ArchivedJobSummary | null> {
+  const run = async (): Promise<ArchivedJobSummary | null> => {
+    if (write.op === 'archive') return storeJob(write.data, write.url, write.html, write.identity ?? jobIdentityFromUrl(write.url));
+    if (write.op === 'delete') await deleteJob(write.id);
+    else await clearJobs();
+    return null;
+  };
+  const result = writeQueue.then(run, run);
+  writeQueue = result.catch(() => { });
+  return result;
+}
+
+async function sendJobArchiveWrite(write: JobArchiveWrite): Promise<ArchivedJobSummary | null> {
+  const message: JobArchiveWriteMessage = { type: 'JOB_ARCHIVE_WRITE', write };
+  const response = await chrome.runtime.sendMessage(message);
+  if (response?.error) throw new Error(response.error);
+  return response?.summary ?? null;
+}
+
+/**
+ * Store a captured job through the background.
+ * `identity` overrides the URL-based one, e.g. for text selected in an inbox.
+ */
+export function archiveJob(data: JobData, url: string, html: string, identity?: string): Promise<ArchivedJobSummary | null> {
+  return sendJobArchiveWrite({ op: 'archive', data, url, html, identity });
+}
+
+export async function deleteArchivedJob(id: string): Promise<void> {
+  await sendJobArchiveWrite({ op: 'delete', id });
+}
+
+export async function clearJobArchive(): Promise<void> {
+  await sendJobArchiveWrite({ op: 'clear' });
+}
+
+/**
+ * Job data for an archived job, to load it back as the target job
+ */
+export function archivedJobToJobData(job: ArchivedJob): JobData {
+  return {
+    jd: job.text,
+    title: job.title,
+    company: job.company,
+    location: job.location,
+    ...job.details,
+    sections: job.sections,
+  };
+}
@@ -0,0 +1,324 @@
+/**
+ * Job Metadata Extraction
+ * Parses salary, location, remote policy, seniority and employment type
+ * from the extracted page fields and the JD text
+ */
+
+import type {
+  JobData,
+  JobDetails,
+  SalaryRange,
+  WorkplaceType,
+  SeniorityLevel,
+  EmploymentType,
+} from './extractors/types';
+
+// ---------------------------------------------------------------------------
+// Salary
+// ---------------------------------------------------------------------------
+
+const CURRENCY_SYMBOLS: Array<[RegExp, string]> = [
+  [/^(?:CA\$|C\$)$/i, 'CAD'],
+  [/^A\$$/i, 'AUD'],
+  [/^\$$/, 'USD'],
+  [/^€$/, 'EUR'],
+  [/^£$/, 'GBP'],
+  [/^₹$/, 'INR'],
+  [/^zł$/i, 'PLN'],
+];
+
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'PLN', 'CAD', 'AUD', 'CHF', 'INR', 'SEK', 'NOK', 'DKK', 'CZK'];
+
+const CURRENCY_PATTERN = `(?:CA\\$|C\\$|A\\$|\\$|€|£|₹|zł|\\b(?:${CURRENCY_CODES.join('|')})\\b)`;
+const NUMBER_PATTERN = String.raw`\d{1,3}(?:[ ,.\u00a0]\d{3})+(?:[.,]\d+)?|\d+(?:[.,]\d+)?`;
+const AMOUNT_PATTERN = `(${NUMBER_PATTERN})\\s?([kK])?`;
+
+// [currency] amount [k] [- [currency] amount [k]] [currency]
+const SALARY_RE = new RegExp(
+  `(${CURRENCY_PATTERN})?\\s?${AMOUNT_PATTERN}` +
+  `(?:\\s*(?:-|–|—|to|do)\\s*(${CURRENCY_PATTERN})?\\s?${AMOUNT_PATTERN})?` +
+  `(?:\\s?(${CURRENCY_PATTERN}))?`,
+  'gi'
+);
+
+const PERIOD_PATTERNS: Array<[NonNullable<SalaryRange['period']>, RegExp]> = [
+  ['hour', /^\s*(?:\/\s*|per\s+|an?\s+|each\s+)?(?:hour|hr|h)\b|^\s*hourly|^[^.\n]{0,25}(?:\/\s*h\b|per hour|godz)/i],
+  ['day', /^\s*(?:\/\s*|per\s+|a\s+)?(?:day|dzień)\b|^\s*daily|^[^.\n]{0,25}(?:per day|dziennie)/i],
+  ['week', /^\s*(?:\/\s*|per\s+|a\s+)?(?:week|wk)\b|^\s*weekly/i],
+  ['month', /^\s*(?:\/\s*|per\s+|a\s+)?(?:month|mo|mth|mies)\b|^\s*monthly|^[^.\n]{0,25}(?:per month|\/\s*mies|miesięcznie|mc\b)/i],
+  ['year', /^\s*(?:\/\s*|per\s+|a\s+)?(?:year|yr|annum|rok)\b|^\s*(?:annual|annually|yearly)|^[^.\n]{0,25}(?:per (?:year|annum)|rocznie)/i],
+];
+
+// A lone figure after these words is only a ceiling ("up to £90k") or a floor ("from $120k")
+const CEILING_RE = /(?:\bup\s+to|\bmax(?:imum)?\.?|\bdo|\bmaks(?:ymalnie)?\.?)\s*$/i;
+const FLOOR_RE = /(?:\bfrom|\bstarting\s+(?:at|from)|\bmin(?:imum)?\.?|\bod|\bat\s+least)\s*$/i;
+// A lone figure is only taken for pay when something says so: a range, a period, gross/net or one of these words
+const SALARY_CONTEXT_RE = /\b(?:salary|salaries|compensation|pay|wages?|rate|base|earn(?:ings)?|ote)\b|wynagrodzeni|widełki|stawk/i;
+// Money that isn't pay ("$5,000 learning budget", "$10k signing bonus")
+const PERK_RE = /\b(?:budget|stipend|allowance|bonus|sign(?:ing|-on)|relocation|equity|learning|training|education|conference|home[- ]office|wellness|gym|referral|reimburse\w*|401\s?\(?k\)?|credits?|vouchers?)\b|dofinansowani|budżet|premi/i;
+
+function currencyCode(token: string | undefined): string | undefined {
+  if (!token) return undefined;
+  const upper = token.toUpperCase();
+  if (CURRENCY_CODES.includes(upper)) return upper;
+  return CURRENCY_SYMBOLS.find(([re]) => re.test(token))?.[1];
+}
+
+/**
+ * Parse "120,000", "120 000", "12.500", "120.5" + optional k multiplier
+ */
+function parseAmount(raw: string, kilo: string | undefined): number {
+  let text = raw.replace(/\s/g, '');
+  if (kilo) {
+    text = text.replace(',', '.');
+  } else {
+    // A separator followed by exactly three digits groups thousands
+    text = text.replace(/[.,](?=\d{3}(?:\D|$))/g, '').replace(',', '.');
+  }
+  const value = parseFloat(text);
+  return kilo ? value * 1000 : value;
+}
+
+function detectPeriod(after: string, max: number, currency: string | undefined): SalaryRange['period'] {
+  const explicit = PERIOD_PATTERNS.find(([, re]) => re.test(after));
+  if (explicit) return explicit[0];
+  // No unit given: tiny numbers are hourly, Polish offers are quoted per month
+  if (max < 500) return 'hour';
+  if (currency === 'PLN' && max < 60000) return 'month';
+  if (max >= 20000) return 'year';
+  return undefined;
+}
+
+/**
+ * Find the first salary figure in a text, e.g. "$120k–$150k", "$45/hr",
+ * "15 000 - 20 000 PLN brutto / mies."
+ */
+export function parseSalary(text: string): SalaryRange | undefined {
+  if (!text) return undefined;
+  SALARY_RE.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = SALARY_RE.exec(text)) !== null) {
+    const [whole, cur1, num1, k1, cur2, num2, k2, cur3] = match;
+    const currency = currencyCode(cur1) || currencyCode(cur2) || currencyCode(cur3);
+    // Without a currency it is just a number ("5+ years", "2 offices")
+    if (!currency) continue;
+
+    // "$120k–150k": the k on the upper bound applies to both
+    const first = parseAmount(num1, k1 || (num2 ? k2 : undefined));
+    const second = num2 ? parseAmount(num2, k2) : first;
+    if (!Number.isFinite(first) || first <= 0) continue;
+
+    // The sentence around the figure, up to where this one starts or ends
+    const before = text.slice(Math.max(0, match.index - 80), match.index).split(/[.!?;]\s/).pop() || '';
+    let after = text.slice(match.index + whole.length, match.index + whole.length + 40);
+    // "$100K+" has no ceiling
+    const openEnded = !num2 && /^\+(?!\s*VAT)/i.test(after);
+    if (openEnded) after = after.slice(1);
+    const clause = `${before} ${after.split(/[.!?;]\s/)[0]}`;
+    if (PERK_RE.test(clause) && !SALARY_CONTEXT_RE.test(before)) continue;
+
+    const basis = /brutto|gross|before tax/i.test(after)
+      ? 'gross'
+      : /netto|\bnet\b|\+\s*VAT/i.test(after) ? 'net' : undefined;
+    const explicitPeriod = PERIOD_PATTERNS.some(([, re]) => re.test(after));
+    if (!num2 && !explicitPeriod && !basis && !SALARY_CONTEXT_RE.test(before)) continue;
+
+    let min: number | undefined = Math.min(first, second);
+    let max: number | undefined = Math.max(first, second);
+    if (openEnded || (!num2 && FLOOR_RE.test(before))) max = undefined;
+    else if (!num2 && CEILING_RE.test(before)) min = undefined;
+
+    return {
+      min,
+      max,
+      currency,
+      period: detectPeriod(after, Math.max(first, second), currency),
+      basis,
+    };
+  }
+  return undefined;
+}
+
+const PERIOD_LABELS: Record<NonNullable<SalaryRange['period']>, string> = {
+  hour: 'hr',
+  day: 'day',
+  week: 'wk',
+  month: 'mo',
+  year: 'yr',
+};
+
+const CURRENCY_DISPLAY: Record<string, string> = { USD: '$', EUR: '€', GBP: '£', INR: '₹' };
+
+/**
+ * Short human-readable salary, e.g. "$120K–$150K/yr" or "15K–20K PLN/mo gross"
+ */
+export function formatSalary(salary: SalaryRange): string {
+  const fmt = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 });
+  const symbol = salary.currency ? CURRENCY_DISPLAY[salary.currency] : undefined;
+  const amount = (n: number) => (symbol ? `${symbol}${fmt.format(n)}` : fmt.format(n));
+
+  const { min, max } = salary;
+  let range = '';
+  if (min !== undefined && max !== undefined && min !== max) range = `${amount(min)}–${amount(max)}`;
+  else if (min !== undefined && max !== undefined) range = amount(min);
+  else if (max !== undefined) range = `up to ${amount(max)}`;
+  else if (min !== undefined) range = `${amount(min)}+`;
+
+  const parts = [range];
+  if (!symbol && salary.currency) parts.push(` ${salary.currency}`);
+  if (salary.period) parts.push(`/${PERIOD_LABELS[salary.period]}`);
+  if (salary.basis) parts.push(` ${salary.basis}`);
+  return parts.join('');
+}
+
+// ---------------------------------------------------------------------------
+// Workplace, seniority, employment type
+// ---------------------------------------------------------------------------
+
+const WORKPLACE_PATTERNS: Array<[WorkplaceType, RegExp]> = [
+  ['hybrid', /\bhybrid\b|hybrydow/i],
+  ['remote', /\bfully remote\b|\bremote[- ]first\b|100% remote|\bremote\b|work from home|\bwfh\b|praca zdalna|zdaln/i],
+  ['onsite', /\bon[- ]?site\b|\bin[- ]office\b|\boffice[- ]based\b|stacjonarn/i],
+];
+
+/**
+ * Remote policy, checking the short page fields before the JD body
+ */
+export function detectWorkplace(...texts: Array<string | undefined>): WorkplaceType | undefined {
+  for (const text of texts) {
+    if (!text) continue;
+    const found = WORKPLACE_PATTERNS.find(([, re]) => re.test(text));
+    if (found) return found[0];
+  }
+  return undefined;
+}
+
+// Most specific first: "Senior Engineering Manager" is a manager, "Staff" outranks "Senior"
+const SENIORITY_PATTERNS: Array<[SeniorityLevel, RegExp]> = [
+  ['executive', /\b(?:chief|cto|ceo|cfo|coo|cio|vp|vice president)\b/i],
+  ['director', /\bdirector\b|\bhead of\b|dyrektor/i],
+  ['manager', /\bmanager\b|kierownik/i],
+  ['principal', /\b(?:principal|staff|distinguished|architect)\b/i],
+  ['lead', /\blead\b|\btech lead\b|\bteam lead\b|lider/i],
+  ['senior', /\bsenior\b|\bsr\.?\b|\bstarszy\b/i],
+  ['mid', /\bmid(?:-level)?\b|\bintermediate\b|\bregular\b/i],
+  ['junior', /\bjunior\b|\bjr\.?\b|\bentry[- ]level\b|\bgraduate\b|\bmłodszy\b/i],
+  ['intern', /\bintern(?:ship)?\b|\btrainee\b|\bstaż|praktykant/i],
+];
+
+const YEARS_RE = /(\d{1,2})\s*\+?\s*(?:-|–|to)?\s*(?:\d{1,2}\s*)?(?:years?|yrs?|lat)\b/gi;
+const EXPERIENCE_BEFORE_RE = /(?:experience|doświadczeni\w*)[^.\n]{0,20}$/i;
+const EXPERIENCE_AFTER_RE = /^[^.\n]{0,30}?(?:\bexperience|\bexperienced\b|\bprofessional|\bhands-on\b|\bworking\b|\bbackground\b|\btrack record\b|doświadczeni)/i;
+
+/**
+ * Seniority from the job title, falling back to years of experience in the JD
+ */
+export function detectSeniority(title: string, jd: string): SeniorityLevel | undefined {
+  const fromTitle = SENIORITY_PATTERNS.find(([, re]) => re.test(title));
+  if (fromTitle) return fromTitle[0];
+
+  // Only years asked of the candidate: "5+ years of experience", not "founded 25 years ago"
+  const years = Array.from(jd.matchAll(YEARS_RE)).find((match) => {
+    const before = jd.slice(Math.max(0, match.index - 30), match.index);
+    const after = jd.slice(match.index + match[0].length, match.index + match[0].length + 40);
+    return EXPERIENCE_BEFORE_RE.test(before) || EXPERIENCE_AFTER_RE.test(after);
+  });
+  if (years) {
+    const n = parseInt(years[1], 10);
+    if (n >= 8) return 'lead';
+    if (n >= 5) return 'senior';
+    if (n >= 2) return 'mid';
+    return 'junior';
+  }
+  if (/\bentry[- ]level\b|\bno experience required\b/i.test(jd)) return 'junior';
+  return undefined;
+}
+
+const EMPLOYMENT_PATTERNS: Array<[EmploymentType, RegExp]> = [
+  ['full-time', /\bfull[- ]time\b|pełny etat|umowa o pracę|\bpermanent\b/i],
+  ['part-time', /\bpart[- ]time\b|część etatu|pół etatu/i],
+  ['contract', /\bcontractor\b|\bcontract (?:role|position|basis|job)\b|\bon a contract\b|\bb2b\b|umowa zlecenie|\bc2c\b|\b1099\b/i],
+  ['temporary', /\btemporary\b|\bfixed[- ]term\b|\bseasonal\b/i],
+  ['internship', /\binternship\b|\bstaż\b|\bpraktyki\b/i],
+  ['freelance', /\bfreelance\b/i],
+];
+
+const SCHEMA_EMPLOYMENT_TYPES: Record<string, EmploymentType> = {
+  FULL_TIME: 'full-time',
+  PART_TIME: 'part-time',
+  CONTRACTOR: 'contract',
+  CONTRACT: 'contract',
+  TEMPORARY: 'temporary',
+  PER_DIEM: 'temporary',
+  INTERN: 'internship',
+  INTERNSHIP: 'internship',
+  FREELANCE: 'freelance',
+};
+
+/**
+ * Map schema.org / board labels ("FULL_TIME", "Full-time", "Contractor") to our types
+ */
+export function normalizeEmploymentTypes(values: string[]): EmploymentType[] {
+  const types = values
+    .map((v) => SCHEMA_EMPLOYMENT_TYPES[v.trim().toUpperCase().replace(/[\s-]+/g, '_')] ||
+      EMPLOYMENT_PATTERNS.find(([, re]) => re.test(v))?.[0])
+    .filter((t): t is EmploymentType => !!t);
+  return [...new Set(types)];
+}
+
+export function detectEmploymentTypes(text: string): EmploymentType[] {
+  return EMPLOYMENT_PATTERNS.filter(([, re]) => re.test(text)).map(([type]) => type);
+}
+
+export const WORKPLACE_LABELS: Record<WorkplaceType, string> = {
+  remote: 'Remote',
+  hybrid: 'Hybrid',
+  onsite: 'On-site',
+};
+
+export const SENIORITY_LABELS: Record<SeniorityLevel, string> = {
+  intern: 'Intern',
+  junior: 'Junior',
+  mid: 'Mid-level',
+  senior: 'Senior',
+  lead: 'Lead',
+  principal: 'Principal / Staff',
+  manager: 'Manager',
+  director: 'Director',
+  executive: 'Executive',
+};
+
+export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  'full-time': 'Full-time',
+  'part-time': 'Part-time',
+  contract: 'Contract',
+  temporary: 'Temporary',
+  internship: 'Internship',
+  freelance: 'Freelance',
+};
+
+// ---------------------------------------------------------------------------
+// Pipeline
+// ---------------------------------------------------------------------------
+
+const LOCATION_LINE_RE = /^(?:location|locations|lokalizacja|based in|office)\s*[:：]\s*(.{2,80})$/im;
+
+/**
+ * Fill the structured job fields the page did not provide by parsing the
+ * title, location and JD text. Page-provided values always win.
+ */
+export function extractJobMetadata(job: Pick<JobData, 'jd' | 'title' | 'location'> & JobDetails): JobDetails & { location?: string } {
+  const location = job.location || job.jd.match(LOCATION_LINE_RE)?.[1].trim() || undefined;
+  const employmentType = job.employmentType?.length
+    ? job.employmentType
+    : detectEmploymentTypes(`${job.title}\n${job.jd}`);
+
+  return {
+    location,
+    salary: job.salary || parseSalary(job.jd),
+    workplace: job.workplace || detectWorkplace(location, job.title, job.jd),
+    seniority: job.seniority || detectSeniority(job.title, job.jd),
+    employmentType: employmentType.length > 0 ? employmentType : undefined,
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Job Sites
+ * Hosts the content scripts are declared on in the manifest. Hosted ATS
+ * boards are added at runtime once the user grants access (see atsPlatforms),
+ * and so is any other domain the user writes a rule for.
+ * Which pages count as job pages is decided here too, with the user's per-domain
+ * rules from settings taking precedence over the built-in guesses.
+ */
+
+import { ATS_PLATFORMS, getAtsPlatformForUrl, getGrantedAtsPlatforms, runtimeContentScripts } from './atsPlatforms';
+
+export const JOB_SITE_MATCHES = [
+  '*://*.linkedin.com/*',
+  '*://*.indeed.com/*',
+  '*://*.indeed.co.uk/*',
+  '*://*.indeed.ca/*',
+  '*://*.glassdoor.com/*',
+  '*://*.wellfound.com/*',
+  '*://*.pracuj.pl/*',
+];
+
+/**
+ * A user rule for one domain (subdomains included). Patterns are matched
+ * against the URL path plus query, from the start; `*` matches anything,
+ * e.g. "/jobs/*" or "*apply*".
+ */
+export interface SiteRule {
+  id: string;
+  domain: string;
+  /** When set, only matching URLs on the domain are job pages */
+  include: string[];
+  /** Matching URLs are never job pages */
+  exclude: string[];
+  /** Never run here: no detection, overlay or badges on the domain */
+  disabled: boolean;
+}
+
+export type SiteRuleVerdict = 'job' | 'not-job' | 'disabled';
+
+// Board hosts where every page is worth a look
+const JOB_BOARD_HOSTS = ['indeed.com', 'indeed.co.uk', 'indeed.ca', 'glassdoor.com', 'wellfound.com', 'pracuj.pl'];
+// Path segments that usually mean a job or careers page on any other site
+const JOB_PATH_RE = /\/(?:careers?|jobs?|job-openings|openings|vacanc(?:y|ies)|positions?|apply)(?:[/?#._-]|$)/i;
+const JOB_HOST_RE = /^(?:careers?|jobs?)\./i;
+
+const SITE_SCRIPT_ID_PREFIX = 'jdscan-site-';
+// Built content scripts, injected into tabs already open when access is granted
+const CONTENT_SCRIPT_FILE = 'content-scripts/content.js';
+const NAVIGATION_SCRIPT_FILE = 'content-scripts/navigation.js';
+
+function hostMatchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Reduce user input like "https://www.Example.com/careers" to "www.example.com"
+ */
+export function normalizeRuleDomain(input: string): string {
+  return input.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/[/?#].*$/, '').replace(/:\d+$/, '');
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern.trim().split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+export function urlMatchesPattern(url: URL, pattern: string): boolean {
+  if (!pattern.trim()) return false;
+  return patternToRegExp(pattern).test(`${url.pathname}${url.search}`);
+}
+
+/**
+ * The most specific user rule for a URL's host, if any
+ */
+export function findSiteRule(href: string, rules: SiteRule[] = []): SiteRule | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(href).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+  return rules
+    .filter((rule) => rule.domain && hostMatchesDomain(hostname, rule.domain))
+    .sort((a, b) => b.domain.length - a.domain.length)[0];
+}
+
+/**
+ * What the user's rules say about a URL, or null when they don't decide it
+ */
+export function applySiteRules(href: string, rules: SiteRule[] = []): SiteRuleVerdict | null {
+  const rule = findSiteRule(href, rules);
+  if (!rule) return null;
+  if (rule.disabled) return 'disabled';
+
+  const url = new URL(href);
+  if (rule.exclude.some((pattern) => urlMatchesPattern(url, pattern))) return 'not-job';
+  if (rule.include.length === 0) return null;
+  return rule.include.some((pattern) => urlMatchesPattern(url, pattern)) ? 'job' : 'not-job';
+}
+
+export function isSiteDisabled(href: string, rules: SiteRule[] = []): boolean {
+  return applySiteRules(href, rules) === 'disabled';
+}
+
+/**
+ * Built-in guess from the URL alone: known boards, granted ATS hosts and
+ * career-looking paths
+ */
+export function isKnownJobUrl(href: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return false;
+  }
+  const hostname = url.hostname.toLowerCase();
+  if (hostMatchesDomain(hostname, 'linkedin.com')) return /^\/jobs?(?:\/|$)/.test(url.pathname);
+  return JOB_BOARD_HOSTS.some((domain) => hostMatchesDomain(hostname, domain)) ||
+    !!getAtsPlatformForUrl(href) ||
+    JOB_HOST_RE.test(hostname) ||
+    JOB_PATH_RE.test(url.pathname);
+}
+
+/**
+ * Whether a URL is a job page: the user's rules first, then the built-in guess
+ */
+export function isJobUrl(href: string, rules: SiteRule[] = []): boolean {
+  const verdict = applySiteRules(href, rules);
+  return verdict ? verdict === 'job' : isKnownJobUrl(href);
+}
+
+// ---------------------------------------------------------------------------
+// Access to rule domains
+// ---------------------------------------------------------------------------
+
+/**
+ * Match patterns covering a rule's domain and its subdomains
+ */
+export function siteRuleOrigins(domain: string): string[] {
+  return [`*://*.${domain}/*`];
+}
+
+function isBuiltInDomain(domain: string): boolean {
+  const builtIn = JOB_SITE_MATCHES.map((pattern) => pattern.replace(/^\*:\/\/\*\./, '').replace(/\/\*$/, ''));
+  return builtIn.some((host) => hostMatchesDomain(domain, host)) || !!getAtsPlatformForUrl(`https://${domain}/`);
+}
+
+/**
+ * Whether a rule's domain is one the extension can only run on once the
+ * user grants access: not switched off, not a built-in board or ATS platform
+ */
+export function siteRuleNeedsAccess(rule: SiteRule): boolean {
+  return !rule.disabled && !!rule.domain && !isBuiltInDomain(rule.domain);
+}
+
+/**
+ * Check which rule domains the user has granted access to
+ */
+export async function getGrantedSiteRules(rules: SiteRule[]): Promise<Record<string, boolean>> {
+  const granted: Record<string, boolean> = {};
+  if (!chrome.permissions) return granted;
+
+  for (const rule of rules.filter(siteRuleNeedsAccess)) {
+    granted[rule.domain] = await chrome.permissions.contains({ origins: siteRuleOrigins(rule.domain) }).catch(() => false);
+  }
+  return granted;
+}
+
+/**
+ * Ask the user for access to a rule's domain. Must be called from a user
+ * gesture in an extension page (not from a content script).
+ */
+export async function requestSiteRuleAccess(domain: string): Promise<boolean> {
+  if (!chrome.permissions) return false;
+  try {
+    return await chrome.permissions.request({ origins: siteRuleOrigins(domain) });
+  } catch (error) {
+    console.error(`JD Scan: Could not request access to ${domain}`, error);
+    return false;
+  }
+}
+
+/**
+ * Give back access to a domain whose rule was removed or switched off
+ */
+export async function revokeSiteRuleAccess(domain: string): Promise<boolean> {
+  if (!chrome.permissions || isBuiltInDomain(domain)) return false;
+  return chrome.permissions.remove({ origins: siteRuleOrigins(domain) }).catch(() => false);
+}
+
+/**
+ * Register the content script on every granted rule domain and unregister it
+ * from domains whose rule is gone or switched off. Runs in the background on
+ * startup, permission changes and rule edits.
+ */
+export async function syncSiteRuleContentScripts(rules: SiteRule[]): Promise<void> {
+  if (!chrome.scripting?.registerContentScripts || !chrome.permissions) return;
+
+  const granted = await getGrantedSiteRules(rules);
+  // A rule for jobs.example.com is covered by one for example.com; registering both would inject twice
+  const domains = Object.keys(granted).filter((domain) => granted[domain]);
+  const covered = domains.filter((domain) => !domains.some((other) => other !== domain && hostMatchesDomain(domain, other)));
+
+  // Built-in boards and granted ATS boards already have their own scripts
+  const atsGranted = await getGrantedAtsPlatforms();
+  const excludeMatches = [...JOB_SITE_MATCHES, ...ATS_PLATFORMS.filter((p) => atsGranted[p.id]).flatMap((p) => p.origins)];
+
+  const wanted = covered.flatMap((domain) => runtimeContentScripts(`${SITE_SCRIPT_ID_PREFIX}${domain}`, siteRuleOrigins(domain), excludeMatches));
+  const wantedIds = new Set(wanted.map((script) => script.id));
+  const registered = (await chrome.scripting.getRegisteredContentScripts())
+    .filter((script) => script.id.startsWith(SITE_SCRIPT_ID_PREFIX));
+  const registeredIds = new Set(registered.map((script) => script.id));
+
+  try {
+    const stale = registered.map((script) => script.id).filter((id) => !wantedIds.has(id));
+    if (stale.length > 0) await chrome.scripting.unregisterContentScripts({ ids: stale });
+
+    const existing = wanted.filter((script) => registeredIds.has(script.id));
+    if (existing.length > 0) await chrome.scripting.updateContentScripts(existing);
+
+    const added = wanted.filter((script) => !registeredIds.has(script.id));
+    if (added.length > 0) {
+      await chrome.scripting.registerContentScripts(added);
+      const addedDomains = covered.filter((domain) => added.some((script) => script.id === `${SITE_SCRIPT_ID_PREFIX}${domain}`));
+      console.log('JD Scan: Registered content script for', addedDomains);
+      await injectIntoOpenTabs(addedDomains, excludeMatches);
+    }
+  } catch (error) {
+    console.error('JD Scan: Failed to sync content scripts for site rules', error);
+  }
+}
+
+/**
+ * Start the content script in tabs that were already open on newly granted
+ * domains, so the user doesn't have to reload them
+ */
+async function injectIntoOpenTabs(domains: string[], excludeMatches: string[]): Promise<void> {
+  if (domains.length === 0) return;
+  const tabs = await chrome.tabs.query({ url: domains.flatMap(siteRuleOrigins) });
+  const excluded = await chrome.tabs.query({ url: excludeMatches });
+  const skip = new Set(excluded.map((tab) => tab.id));
+
+  for (const tab of tabs) {
+    if (tab.id === undefined || skip.has(tab.id)) continue;
+    const target = { tabId: tab.id, allFrames: true };
+    try {
+      await chrome.scripting.executeScript({ target, files: [NAVIGATION_SCRIPT_FILE], world: 'MAIN' });
+      await chrome.scripting.executeScript({ target, files: [CONTENT_SCRIPT_FILE] });
+    } catch (error) {
+      console.warn(`JD Scan: Could not start in open tab ${tab.url}`, error);
+    }
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Job Page Watcher
+ * Decides when to (re-)extract the job on the current page. Extraction runs on
+ * load and on SPA navigations (history.pushState / replaceState / popstate)
+ * that change the job's identity; between navigations only the resolved
+ * description container is observed. Lifecycle events are published so the
+ * overlay, highlighter and side panel can follow along.
+ */
+
+import { runExtractors } from './extractors';
+import type { JobData } from './extractors';
+import { NAVIGATION_EVENT } from './navigationHook';
+
+export type ExtractionReason = 'initial' | 'navigation' | 'container-changed' | 'manual';
+
+export type ExtractionEvent =
+  | { type: 'navigation'; url: string }
+  | { type: 'extraction-started'; url: string; reason: ExtractionReason }
+  | { type: 'job-found'; url: string; reason: ExtractionReason; title: string; company: string; jdLength: number; extractorId: string | null }
+  | { type: 'job-not-found'; url: string }
+  | { type: 'job-lost'; url: string };
+
+export interface JobWatcherOptions {
+  /** Whether the current URL is worth extracting at all */
+  isJobPage: () => boolean;
+  /** Called once per newly identified job, with the element the description was read from */
+  publish: (data: JobData, element: Element | null) => void;
+}
+
+export interface JobWatcher {
+  /** Re-extract now and publish even if the job looks unchanged */
+  refresh(): void;
+  stop(): void;
+}
+
+// Job pages render progressively; give them about ten seconds in total
+const RETRY_DELAYS = [0, 400, 800, 1500, 3000, 5000];
+const MIN_JD_LENGTH = 80;
+const CONTAINER_DEBOUNCE = 500;
+
+// Query parameters that carry the id of the job shown on list + detail layouts
+const JOB_ID_PARAMS = ['currentJobId', 'jk', 'vjk', 'jl', 'gh_jid', 'jobId', 'job_id', 'jobid'];
+
+const listeners = new Set<(event: ExtractionEvent) => void>();
+
+/**
+ * Subscribe to extraction lifecycle events. Returns an unsubscribe function.
+ */
+export function onExtractionEvent(listener: (event: ExtractionEvent) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function emit(event: ExtractionEvent) {
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error('JD Scan: Extraction event listener failed', err);
+    }
+  });
+}
+
+/**
+ * Which job a URL points at, ignoring tracking parameters: the job id
+ * parameter if there is one, otherwise the path
+ */
+export function jobIdentityFromUrl(href: string): string {
+  try {
+    const url = new URL(href);
+    for (const param of JOB_ID_PARAMS) {
+      const value = url.searchParams.get(param);
+      if (value) return `${url.hostname}?${param}=${value}`;
+    }
+    return `${url.hostname}${url.pathname}`;
+  } catch {
+    return href;
+  }
+}
+
+function contentKeyOf(data: JobData): string {
+  return `${data.title}::${data.company}::${data.jd.slice(0, 300)}`;
+}
+
+/**
+ * Start watching the page for jobs. Only one watcher should run per page.
+ */
+export function startJobWatcher({ isJobPage, publish }: JobWatcherOptions): JobWatcher {
+  let lastHref = window.location.href;
+  let urlKey = jobIdentityFromUrl(lastHref);
+  let publishedUrlKey = '';
+  let lastContentKey = '';
+  let retryTimer: number | null = null;
+  let containerTimer: number | null = null;
+  let containerObserver: MutationObserver | null = null;
+  let container: Element | null = null;
+
+  const clearTimers = () => {
+    if (retryTimer) window.clearTimeout(retryTimer);
+    if (containerTimer) window.clearTimeout(containerTimer);
+    retryTimer = null;
+    containerTimer = null;
+  };
+
+  const unwatchContainer = () => {
+    containerObserver?.disconnect();
+    containerObserver = null;
+    container = null;
+  };
+
+  // Only the description container is observed; its parent is watched
+  // (without subtree) so a re-rendered replacement is noticed too
+  const watchContainer = (element: Element | null) => {
+    if (element === container) return;
+    unwatchContainer();
+    if (!element) return;
+
+    container = element;
+    containerObserver = new MutationObserver(() => {
+      if (containerTimer) window.clearTimeout(containerTimer);
+      containerTimer = window.setTimeout(onContainerChanged, CONTAINER_DEBOUNCE);
+    });
+    containerObserver.observe(element, { childList: true, subtree: true, characterData: true });
+    if (element.parentElement) containerObserver.observe(element.parentElement, { childList: true });
+  };
+
+  const accept = (data: JobData, element: Element | null, extractorId: string | null, reason: ExtractionReason, force: boolean) => {
+    // The container may settle before a pending retry does
+    if (retryTimer) window.clearTimeout(retryTimer);
+    retryTimer = null;
+    publishedUrlKey = urlKey;
+    watchContainer(element);
+
+    const contentKey = contentKeyOf(data);
+    if (contentKey === lastContentKey && !force) return;
+    lastContentKey = contentKey;
+
+    publish(data, element);
+    emit({
+      type: 'job-found',
+      url: window.location.href,
+      reason,
+      title: data.title,
+      company: data.company,
+      jdLength: data.jd.length,
+      extractorId,
+    });
+  };
+
+  const extract = (reason: ExtractionReason, force = false) => {
+    clearTimers();
+    emit({ type: 'extraction-started', url: window.location.href, reason });
+
+    let attempt = 0;
+    const tryExtract = () => {
+      retryTimer = null;
+      const { data, element, extractorId } = runExtractors();
+      const ready = data.jd.length >= MIN_JD_LENGTH;
+      const lastAttempt = attempt >= RETRY_DELAYS.length - 1;
+
+      // After an in-page navigation the previous job can stay on screen for a moment
+      const stale = ready && reason === 'navigation' && urlKey !== publishedUrlKey &&
+        contentKeyOf(data) === lastContentKey;
+
+      if (ready && (!stale || lastAttempt)) {
+        accept(data, element, extractorId, reason, force);
+        return;
+      }
+      if (lastAttempt) {
+        console.log('JD Scan: No job description found', { url: window.location.href });
+        watchContainer(null);
+        emit({ type: 'job-not-found', url: window.location.href });
+        return;
+      }
+      attempt++;
+      retryTimer = window.setTimeout(tryExtract, RETRY_DELAYS[attempt]);
+    };
+    tryExtract();
+  };
+
+  // The container changed without a navigation: expanded "see more", a
+  // re-render, or a job switch on a site that keeps the URL
+  const onContainerChanged = () => {
+    containerTimer = null;
+    if (!container) return;
+    if (!container.isConnected) {
+      unwatchContainer();
+      extract('container-changed');
+      return;
+    }
+    const { data, element, extractorId } = runExtractors();
+    if (data.jd.length >= MIN_JD_LENGTH) accept(data, element, extractorId, 'container-changed', false);
+  };
+
+  // Left the job behind: on a page that isn't one, or one the user's rules now exclude
+  const forgetJob = (href: string) => {
+    clearTimers();
+    unwatchContainer();
+    if (lastContentKey) emit({ type: 'job-lost', url: href });
+    lastContentKey = '';
+    publishedUrlKey = '';
+    urlKey = '';
+  };
+
+  const onNavigation = () => {
+    const href = window.location.href;
+    if (href === lastHref) return;
+    lastHref = href;
+    emit({ type: 'navigation', url: href });
+
+    if (!isJobPage()) {
+      forgetJob(href);
+      return;
+    }
+
+    const key = jobIdentityFromUrl(href);
+    if (key === urlKey) return;
+    urlKey = key;
+    console.log('JD Scan: Job navigation', { url: href });
+    extract('navigation');
+  };
+
+  window.addEventListener(NAVIGATION_EVENT, onNavigation);
+  window.addEventListener('popstate', onNavigation);
+  window.addEventListener('hashchange', onNavigation);
+
+  if (isJobPage()) {
+    console.log('JD Scan: Starting job detection on', lastHref);
+    extract('initial');
+  } else {
+    urlKey = '';
+  }
+
+  return {
+    refresh: () => {
+      // Edited site rules can exclude the page the job was found on
+      if (!isJobPage()) {
+        forgetJob(window.location.href);
+        return;
+      }
+      urlKey = jobIdentityFromUrl(window.location.href);
+      extract('manual', true);
+    },
+    stop: () => {
+      clearTimers();
+      unwatchContainer();
+      window.removeEventListener(NAVIGATION_EVENT, onNavigation);
+      window.removeEventListener('popstate', onNavigation);
+      window.removeEventListener('hashchange', onNavigation);
+    },
+  };
+}
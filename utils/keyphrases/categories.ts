@@ -0,0 +1,59 @@
+/**
+ * Keyword Categories
+ * Sorts JD keyphrases into the groups an ATS scores separately: hard skills,
+ * tools, soft skills, certifications and education. Taxonomy skills carry
+ * their own category; other phrases are classified by wording, and those
+ * the wording says nothing about are "other", which counts least.
+ */
+
+import type { Skill } from '../skills';
+
+export type KeywordCategory = 'hardSkill' | 'tool' | 'softSkill' | 'certification' | 'education' | 'other';
+
+export const KEYWORD_CATEGORIES: KeywordCategory[] = ['hardSkill', 'tool', 'certification', 'education', 'softSkill', 'other'];
+
+export const KEYWORD_CATEGORY_LABELS: Record<KeywordCategory, string> = {
+  hardSkill: 'Hard Skills',
+  tool: 'Tools',
+  softSkill: 'Soft Skills',
+  certification: 'Certifications',
+  education: 'Education',
+  other: 'Other Terms',
+};
+
+/**
+ * How much each category's sub-score counts towards the overall score
+ */
+export const KEYWORD_CATEGORY_WEIGHTS: Record<KeywordCategory, number> = {
+  hardSkill: 1,
+  tool: 0.7,
+  certification: 0.6,
+  education: 0.5,
+  softSkill: 0.4,
+  other: 0.2,
+};
+
+const CERTIFICATION_PATTERN = /\b(?:certifi(?:ed|cations?|cates?)|licen[cs](?:e|ed|ure)|accredit\w*|chartered)\b|\b(?:PMP|CPA|CFA|ACCA|CISSP|CISM|CISA|CCNA|CCNP|CKA|CKAD|ITIL|PRINCE2|CSM|PSM|CompTIA|SHRM)\b/i;
+const EDUCATION_PATTERN = /\b(?:degrees?|bachelor'?s?|master'?s|ph\.?d|doctorate|diploma|b\.?sc|m\.?sc|mba|b\.?eng|m\.?eng|graduate|undergraduate|university|college|coursework|gpa|computer science)\b/i;
+// Technical wording, or a product-style name (MLflow, XGBoost), marks a hard skill the taxonomy lacks
+const HARD_SKILL_PATTERN = /\b(?:pipelines?|infrastructure|architecture|backend|back-end|frontend|front-end|full-stack|development|engineering|programming|algorithms?|databases?|apis?|sdks?|frameworks?|forecasting|modell?ing|analytics|analysis|statistic\w*|regression|boosting|learning|streaming|queues?|tooling|automation|testing|deployment|security|networking|protocols?|microservices|distributed|data)\b/i;
+const PRODUCT_NAME_PATTERN = /\b(?:[A-Za-z]*[a-z][A-Z]|[A-Z]{2,}[a-z])[A-Za-z]*\b/;
+const SOFT_SKILL_PATTERN = /\b(?:communicat\w*|leadership|teamwork|collaborat\w*|interpersonal|empath\w*|ownership|attitude|curiosity|curious|creativ\w*|adaptab\w*|initiative|proactiv\w*|self-starter|organi[sz]ational|negotiation|mentor\w*|coaching|problem[- ]solving|critical thinking|decision[- ]making|work ethic|resilien\w*|integrity|accountab\w*|detail-oriented|storytelling|influenc\w*)\b/i;
+
+const SKILL_CATEGORIES: Record<Skill['category'], KeywordCategory> = {
+  hard: 'hardSkill',
+  tool: 'tool',
+  soft: 'softSkill',
+};
+
+/**
+ * Category of a keyphrase; `skill` is the taxonomy entry it names, if any
+ */
+export function categorizePhrase(phrase: string, skill?: Skill): KeywordCategory {
+  if (CERTIFICATION_PATTERN.test(phrase)) return 'certification';
+  if (skill) return SKILL_CATEGORIES[skill.category];
+  if (EDUCATION_PATTERN.test(phrase)) return 'education';
+  if (SOFT_SKILL_PATTERN.test(phrase)) return 'softSkill';
+  if (HARD_SKILL_PATTERN.test(phrase) || PRODUCT_NAME_PATTERN.test(phrase)) return 'hardSkill';
+  return 'other';
+}
@@ -0,0 +1,70 @@
+/**
+ * Background Corpus
+ * Generic job-ad language across industries: the boilerplate every posting
+ * shares (team, culture, benefits, "strong communication skills"). Phrases
+ * common here get a low IDF, so they don't crowd out the skills that set
+ * one job apart. Bump the version when the documents change.
+ */
+
+export const BACKGROUND_CORPUS_VERSION = '1.2.0';
+
+export const BACKGROUND_CORPUS: string[] = [
+  `We are looking for a motivated team player to join our growing team. You will work closely with colleagues across the business and report to the team lead. We offer a competitive salary, health insurance and paid time off. We are an equal opportunity employer.`,
+  `About us: we are a fast-growing company on a mission to help our customers succeed. Our culture is built on trust, ownership and continuous learning. Join us and make an impact from day one.`,
+  `Responsibilities: work with stakeholders to understand requirements, deliver high quality work on time, and communicate progress to the team. Requirements: excellent communication skills, strong attention to detail and the ability to work independently.`,
+  `What we offer: flexible working hours, remote work options, a modern office, learning and development budget, private medical care and a friendly team. Apply now and grow your career with us.`,
+  `The ideal candidate has several years of experience in a similar role, strong organizational skills and a proactive attitude. A degree in a related field is a plus. Fluent English is required.`,
+  `We are hiring a customer service representative to handle customer inquiries by phone and email, resolve complaints and maintain a positive customer experience. Previous experience in a customer-facing role is preferred.`,
+  `As a sales manager you will drive revenue growth, manage a team of account executives, build relationships with key clients and meet quarterly targets. Strong negotiation and communication skills are essential.`,
+  `Our marketing team is looking for a marketing specialist to plan and execute campaigns, manage social media channels and analyze results. Experience with content creation and a creative mindset are a plus.`,
+  `Join our finance department as an accountant. You will prepare financial statements, manage accounts payable and receivable, support month-end closing and ensure compliance with regulations. A degree in accounting or finance is required.`,
+  `We are seeking a registered nurse to provide patient care in a busy hospital environment. Responsibilities include monitoring patients, administering medication and working closely with doctors. Valid license required.`,
+  `The warehouse associate will receive, pick and pack orders, keep the warehouse clean and organized, and follow safety procedures. Ability to lift heavy items and work in shifts. Full-time position with benefits.`,
+  `We are looking for a project manager to plan, coordinate and deliver projects on time and within budget. You will manage stakeholders, track progress, identify risks and report to senior management. Excellent organizational skills required.`,
+  `Our human resources team is hiring an HR generalist to support recruitment, onboarding, employee relations and payroll. You have strong interpersonal skills, discretion and experience in a similar role.`,
+  `Teacher wanted: plan and deliver engaging lessons, assess student progress, communicate with parents and contribute to school life. Teaching qualification and passion for education required.`,
+  `We are a family-owned restaurant looking for an experienced chef to prepare high quality dishes, manage kitchen staff, control food costs and maintain hygiene standards. Flexible schedule, including weekends.`,
+  `The office administrator will manage the front desk, answer phone calls, schedule meetings, order office supplies and support the management team with administrative tasks. Proficiency in office software is expected.`,
+  `As a software engineer on our team you will design, develop and maintain features, write clean code, review pull requests and collaborate with product and design. Experience with modern development practices is a plus.`,
+  `We offer a collaborative and inclusive work environment, opportunities for professional growth, an annual bonus, a pension plan, gym membership and regular team events. Hybrid work model with two office days per week.`,
+  `You are a self-starter who thrives in a fast-paced environment, takes ownership of your work, and is comfortable with ambiguity. You enjoy solving problems and learning new things. Good time management and prioritization skills.`,
+  `Key responsibilities: prepare reports, analyze data, identify opportunities for improvement and present findings to management. Requirements: analytical mindset, attention to detail, proficiency in spreadsheets and strong written communication.`,
+  `We are an equal opportunity employer and value diversity. All qualified applicants will receive consideration for employment without regard to race, religion, gender, sexual orientation, age, disability or veteran status.`,
+  `The logistics coordinator will plan shipments, coordinate with carriers and suppliers, track deliveries and resolve issues. Experience in logistics or supply chain and good knowledge of English are required.`,
+  `Our client, a leading company in its industry, is looking for a business analyst to gather requirements, document processes and support the delivery of business solutions. Strong stakeholder management skills needed.`,
+  `Graphic designer wanted to create visual content for digital and print channels, maintain brand consistency and work with the marketing team on campaigns. Please include a portfolio with your application.`,
+  `As a team leader you will coach and motivate your team, monitor performance, handle escalations and make sure service levels are met. Leadership experience and excellent people skills are required.`,
+  `We are looking for a receptionist to welcome visitors, manage bookings and handle correspondence. You are friendly, well organized and have a professional appearance. Part-time and full-time positions available.`,
+  `Benefits include medical, dental and vision insurance, a 401(k) plan with company match, generous parental leave, paid holidays, tuition reimbursement and employee discounts.`,
+  `The successful candidate will have a bachelor's degree, at least three years of relevant experience, excellent problem-solving skills and the ability to manage multiple priorities and meet deadlines.`,
+  `Electrician needed for residential and commercial projects. Install, maintain and repair electrical systems, read technical drawings and follow safety regulations. Valid certification and driving license required.`,
+  `Join our customer success team to onboard new customers, run training sessions, answer questions and help customers get value from our product. You are empathetic, patient and a great communicator.`,
+  `We value integrity, collaboration and innovation. Our people are our greatest asset, and we invest in their growth through mentoring, training and clear career paths. Come build the future with us.`,
+  `The operations manager oversees daily operations, improves processes, manages budgets and leads a team of supervisors. Proven track record of driving efficiency and strong leadership skills required.`,
+  `Responsibilities include data entry, maintaining records, processing documents and supporting the team with ad hoc tasks. Requirements: accuracy, reliability, basic computer skills and good command of English.`,
+  `We are looking for a legal assistant to support our lawyers with document preparation, research, filing and client communication. Previous experience in a law firm is an advantage.`,
+  `Retail sales associate: greet customers, provide product advice, process payments, keep the store tidy and help with inventory. Weekend availability required. Employee discount and career progression.`,
+  `This role requires strong written and verbal communication skills, the ability to work as part of a team and independently, and a willingness to learn. Prior experience is a plus but not required; full training provided.`,
+  `Recruiter wanted: source candidates, screen applications, schedule interviews and manage the hiring process end to end. You build great relationships with hiring managers and candidates alike.`,
+  `Mechanical engineer to design and test components, prepare technical documentation, support production and work with suppliers on quality issues. Degree in mechanical engineering and experience with CAD tools required.`,
+  `We are a remote-first company with a team spread across many countries. We offer flexible hours, a home office budget, regular offsites and a culture of transparency and trust.`,
+  `Compensation: attractive salary package, annual salary review, performance bonus and stock options. Benefits: health and dental coverage, life insurance, wellness allowance and a paid volunteering day.`,
+  `The salary range for this position is listed below; final pay depends on skills, experience and location. In addition to base salary we offer equity, benefits and a generous learning budget.`,
+  `Qualifications: a degree in a relevant field or equivalent experience. Equivalent practical experience will also be considered. A relevant professional certification is preferred, and we support employees who want to get certified.`,
+  `About the job: we are a venture-backed startup building the next generation of tools for our industry. Backed by top investors, we serve thousands of customers around the world and are growing fast.`,
+  `You will work with engineers, data scientists and product managers to ship features that customers love. You write clean, well-tested code, review code from your teammates and share what you learn.`,
+  `Requirements: proficiency in at least one programming language, familiarity with modern tools and practices, and a solid understanding of the fundamentals. A degree in computer science or a related field, or equivalent experience.`,
+  `Our data team builds models, runs experiments and turns data into insights. You will analyze results, present findings to stakeholders and help the business make better decisions with data.`,
+  `We are looking for a software developer to join our engineering team. You will build new features, fix bugs, write documentation and improve the quality of our code. Experience in a product company is a plus.`,
+  `Perks: team lunches every week, a yearly offsite, conference and travel budget, home office stipend, wellness allowance, free snacks and drinks, and the latest hardware.`,
+  `Our research team publishes papers, builds models and prototypes, and works with engineers to bring research results into our products. A background in science, mathematics or engineering is expected.`,
+  `As a technical lead you will set the technical direction for your team, mentor engineers, drive architecture decisions and work closely with product and design to deliver results. Several years of engineering experience required.`,
+  `We build software used by thousands of stores, restaurants and small businesses every day. Our products help them manage orders, payments and customers in one place.`,
+  `What you bring: a track record of shipping products, strong problem-solving skills, curiosity, and the ability to learn new technologies quickly. Experience working in an agile team and with code reviews is valued.`,
+  `The data analyst will collect and clean data, build reports and dashboards, track key metrics and share findings with the wider team. You are comfortable with numbers, spreadsheets and presenting results.`,
+  `Engineers at our company own their work end to end: from design and development through testing, deployment and monitoring in production. We value simple solutions, automation and continuous improvement.`,
+  `Join a small, senior team of engineers and researchers working on hard problems. We offer competitive pay, meaningful equity, flexible hours and the chance to shape the company and its culture.`,
+  `We are an early-stage startup on a mission to change how people work. We are a great team of builders who care about quality, speed and our users. Learn more about us on our website.`,
+  `This is a hybrid role based in our city office three days a week. The salary range depends on level and location; we also offer a bonus, stock options, parental leave and a generous vacation policy.`,
+  `Please send your CV and a short cover letter describing your relevant experience. Only shortlisted candidates will be contacted. Salary depends on experience. Start date as soon as possible.`,
+];
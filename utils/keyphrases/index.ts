@@ -0,0 +1,316 @@
+/**
+ * Keyphrase Extraction
+ * Finds the terms that set a job description apart: noun-phrase n-grams
+ * (one to three words) scored by TF-IDF against a background corpus of
+ * generic job-ad language, plus every taxonomy skill the JD mentions.
+ * Boilerplate like "team", "experience" or "competitive salary" scores low
+ * because every posting says it; section headings, the about-us and benefits
+ * sections, and phrases about people, perks or the job itself are left out.
+ */
+
+import { findSkillMentions, Skill } from '../skills';
+import { detectDegrees, findCertificationMentions } from '../credentials';
+import { JDSectionKind, lineHeading } from '../jdSections';
+import { stemPhrase, stemWord } from '../stemmer';
+import { BACKGROUND_CORPUS } from './corpus';
+import { isNounPhrase, PosTag, tagWord } from './pos';
+import { categorizePhrase, KeywordCategory } from './categories';
+
+export { BACKGROUND_CORPUS_VERSION } from './corpus';
+export * from './categories';
+
+export interface KeyPhrase {
+  /** As written in the JD; skills use their canonical name */
+  phrase: string;
+  /** Relative importance, 0-1; the top phrase of a JD is 1 */
+  weight: number;
+  /** Occurrences in the JD, all word forms together when stemming */
+  count: number;
+  /** A taxonomy skill rather than a free n-gram */
+  skill: boolean;
+  category: KeywordCategory;
+}
+
+export interface KeyPhraseOptions {
+  /** Group word forms ("managed teams", "managing teams"); default on */
+  stemming?: boolean;
+  /** Most phrases to return; default 50 */
+  limit?: number;
+}
+
+interface Token {
+  word: string;
+  index: number;
+  tag: PosTag;
+  /** Stem, used for corpus lookups whatever the stemming option */
+  stem: string;
+}
+
+const MAX_NGRAM = 3;
+const DEFAULT_LIMIT = 50;
+/** Words found in at least this many background ads are generic job-ad language */
+const GENERIC_MIN_DOCS = 3;
+/** Sections that describe the employer, not the work; only named skills count there */
+const SKIPPED_SECTIONS: JDSectionKind[] = ['about', 'benefits'];
+
+/**
+ * Nouns that make a phrase about people, the job, perks or amounts rather
+ * than a skill, when they head it: "great team", "data engineers", "team
+ * lunches", "thousands". Their modifiers go too ("senior backend" of "senior
+ * backend engineer"). Singular forms; plurals are matched too.
+ */
+const GENERIC_HEADS = new Set([
+  // People
+  'engineer', 'developer', 'researcher', 'scientist', 'team', 'teammate', 'colleague', 'stakeholder', 'customer',
+  'client', 'investor', 'partner', 'candidate', 'applicant', 'people', 'person', 'member', 'employee', 'staff', 'founder', 'hire',
+  // The job and the employer
+  'job', 'role', 'position', 'opportunity', 'company', 'organization', 'organisation', 'business', 'startup', 'employer',
+  'industry', 'mission', 'culture', 'environment', 'world', 'future', 'generation', 'journey',
+  // Amounts
+  'thousand', 'million', 'billion', 'hundred', 'dozen', 'number', 'variety', 'range', 'lot', 'plenty',
+  // Perks
+  'perk', 'benefit', 'lunch', 'dinner', 'snack', 'salary', 'equity', 'bonus', 'leave', 'holiday', 'vacation', 'budget',
+  'travel', 'offsite', 'insurance', 'allowance', 'stipend', 'discount', 'membership', 'pension', 'compensation',
+  // Time
+  'day', 'week', 'month', 'quarter', 'year', 'weekend', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+]);
+/**
+ * Nouns for wanting a skill rather than the skill: dropped as a head
+ * ("proficiency"), but "Go experience" still yields "Go"
+ */
+const REQUIREMENT_HEADS = new Set([
+  'proficiency', 'familiarity', 'knowledge', 'understanding', 'experience', 'expertise', 'ability', 'skill',
+  'background', 'exposure', 'passion', 'interest',
+]);
+
+// Words, keeping "node.js", "c++", "ci-cd" and "hands-on" whole
+const WORD_PATTERN = /[\p{L}\p{N}](?:[\p{L}\p{N}]|[.'’_-](?=[\p{L}\p{N}]))*[+#]*/gu;
+// Anything between two words that ends a phrase: punctuation, bullets, line breaks
+const BREAK_PATTERN = /[\n\r.,;:!?()[\]{}"“”•·|/&<>=*–—]/;
+
+let documentFrequency: Map<string, number> | null = null;
+
+/**
+ * Split text into runs of words that may form phrases; a run ends at
+ * punctuation or a line break
+ */
+function tokenizeChunks(text: string): Token[][] {
+  const chunks: Token[][] = [];
+  let current: Token[] = [];
+  let lastEnd = 0;
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const index = match.index ?? 0;
+    if (BREAK_PATTERN.test(text.slice(lastEnd, index)) && current.length > 0) {
+      chunks.push(current);
+      current = [];
+    }
+    const word = match[0];
+    current.push({ word, index, tag: tagWord(word), stem: stemWord(word) });
+    lastEnd = index + word.length;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * How many background documents contain each n-gram (by stems); built once
+ */
+function getDocumentFrequency(): Map<string, number> {
+  if (documentFrequency) return documentFrequency;
+
+  documentFrequency = new Map();
+  for (const doc of BACKGROUND_CORPUS) {
+    const seen = new Set<string>();
+    for (const chunk of tokenizeChunks(doc)) {
+      for (let i = 0; i < chunk.length; i++) {
+        for (let n = 1; n <= MAX_NGRAM && i + n <= chunk.length; n++) {
+          seen.add(chunk.slice(i, i + n).map((t) => t.stem).join(' '));
+        }
+      }
+    }
+    seen.forEach((key) => documentFrequency!.set(key, (documentFrequency!.get(key) || 0) + 1));
+  }
+  return documentFrequency;
+}
+
+/**
+ * Smoothed inverse document frequency of a stem or stemmed n-gram against
+ * the background corpus; 1 for words every background ad uses
+ */
+export function backgroundIdf(stemKey: string): number {
+  const df = getDocumentFrequency().get(stemKey) || 0;
+  return Math.log((BACKGROUND_CORPUS.length + 1) / (df + 1)) + 1;
+}
+
+/**
+ * Stock phrasing: a generic word, a multi-word phrase any background ad
+ * already uses ("competitive salary"), or one made only of generic words
+ * ("strong experience")
+ */
+function isBoilerplate(stemKey: string): boolean {
+  const frequency = getDocumentFrequency();
+  const stems = stemKey.split(' ');
+  if (stems.length > 1 && frequency.has(stemKey)) return true;
+  return stems.every((stem) => (frequency.get(stem) || 0) >= GENERIC_MIN_DOCS);
+}
+
+function inNounSet(nouns: Set<string>, word: string): boolean {
+  const lower = word.toLowerCase();
+  return nouns.has(lower) ||
+    nouns.has(lower.replace(/ies$/, 'y')) ||
+    nouns.has(lower.replace(/e?s$/, '')) ||
+    nouns.has(lower.replace(/s$/, ''));
+}
+
+/**
+ * Characters of a JD that n-grams skip: section headings ("About the job",
+ * "Perks & Benefits") and the about-us and benefits sections
+ */
+function skippedMask(text: string): Uint8Array {
+  const mask = new Uint8Array(text.length);
+  let skipping = false;
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const start = offset + (line.length - line.trimStart().length);
+    const heading = lineHeading(line.trim());
+    if (heading) {
+      skipping = SKIPPED_SECTIONS.includes(heading.kind);
+      mask.fill(1, start, skipping ? offset + line.length : start + heading.length);
+    } else if (skipping) {
+      mask.fill(1, offset, offset + line.length);
+    }
+    offset += line.length + 1;
+  }
+  return mask;
+}
+
+/**
+ * Which characters of a text lie inside a mention, so each token is checked
+ * once rather than against every mention
+ */
+function coverageMask(length: number, mentions: Array<{ index: number; surface: string }>): Uint8Array {
+  const mask = new Uint8Array(length);
+  mentions.forEach((m) => mask.fill(1, m.index, m.index + m.surface.length));
+  return mask;
+}
+
+/**
+ * Display form: lowercase, except acronyms and mixed-case names ("AWS", "GraphQL")
+ */
+function displayForm(words: string[]): string {
+  return words.map((word) => (/[A-Z]/.test(word.slice(1)) ? word : word.toLowerCase())).join(' ');
+}
+
+interface Candidate {
+  key: string;
+  stemKey: string;
+  size: number;
+  count: number;
+  surfaces: Map<string, number>;
+  skill?: Skill;
+  /** A taxonomy skill or catalog certification, kept whatever its score */
+  named: boolean;
+  category: KeywordCategory;
+  /** Text offsets of the words of each n-gram occurrence */
+  spans: number[][];
+  /** Occurrences that end their run of nouns, as a head-final phrase does */
+  headFinal: number;
+}
+
+/**
+ * Keyphrases of a job description, most important first
+ */
+export function extractKeyPhrases(text: string, options: KeyPhraseOptions = {}): KeyPhrase[] {
+  const stemming = options.stemming !== false;
+  const candidates = new Map<string, Candidate>();
+
+  const add = (key: string, stemKey: string, size: number, surface: string, skill?: Skill, category?: KeywordCategory, tokens?: Token[], next?: Token) => {
+    const candidate: Candidate = candidates.get(key) || {
+      key, stemKey, size, count: 0, surfaces: new Map(), skill,
+      named: !!skill || !!category,
+      category: category || categorizePhrase(surface, skill),
+      spans: [], headFinal: 0,
+    };
+    candidate.count++;
+    if (tokens) candidate.spans.push(tokens.map((t) => t.index));
+    if (tokens && next?.tag !== 'noun') candidate.headFinal++;
+    candidate.surfaces.set(surface, (candidate.surfaces.get(surface) || 0) + 1);
+    candidates.set(key, candidate);
+  };
+
+  // Certifications and skills first; their words are then left out of the n-grams,
+  // as are degree names ("BS", "Master's"), which are matched as credentials
+  const certifications = findCertificationMentions(text);
+  const inCertification = coverageMask(text.length, certifications);
+  const skills = findSkillMentions(text).filter((m) => !inCertification[m.index]);
+  const covered = coverageMask(text.length, [...certifications, ...skills, ...detectDegrees(text)]);
+  const skipped = skippedMask(text);
+  certifications.forEach(({ certification }) =>
+    add(`cert:${certification.name}`, stemPhrase(certification.name), 1, certification.name, undefined, 'certification'));
+  skills.forEach(({ skill }) => add(`skill:${skill.name}`, stemPhrase(skill.name), 1, skill.name, skill));
+
+  for (const chunk of tokenizeChunks(text)) {
+    for (let i = 0; i < chunk.length; i++) {
+      for (let n = 1; n <= MAX_NGRAM && i + n <= chunk.length; n++) {
+        const tokens = chunk.slice(i, i + n);
+        if (tokens.some((t) => covered[t.index] || skipped[t.index])) break;
+        if (!isNounPhrase(tokens.map((t) => t.tag))) continue;
+        if (tokens.some((t) => t.word.length < 2)) continue;
+        const head = tokens[n - 1].word;
+        if (inNounSet(GENERIC_HEADS, head) || inNounSet(REQUIREMENT_HEADS, head)) continue;
+        const next = chunk[i + n];
+        if (next && next.tag === 'noun' && inNounSet(GENERIC_HEADS, next.word)) continue;
+
+        const stemKey = tokens.map((t) => t.stem).join(' ');
+        const key = stemming ? stemKey : tokens.map((t) => t.word.toLowerCase()).join(' ');
+        add(key, stemKey, n, displayForm(tokens.map((t) => t.word)), undefined, undefined, tokens, next);
+      }
+    }
+  }
+
+  // Degrees and certifications count however common their wording
+  const isStock = (c: Candidate) => c.category !== 'education' && c.category !== 'certification' && isBoilerplate(c.stemKey);
+
+  // A shorter phrase that only ever appears inside a longer one adds nothing
+  const phrases = [...candidates.values()].filter((c) => !c.named && !isStock(c));
+  const kept = [...candidates.values()].filter((candidate) => {
+    if (candidate.named) return true;
+    if (isStock(candidate)) return false;
+    return !phrases.some((other) =>
+      other.size > candidate.size &&
+      other.count >= candidate.count &&
+      ` ${other.key} `.includes(` ${candidate.key} `)
+    );
+  });
+
+  const scored = kept.map((candidate) => ({
+    candidate,
+    score: (1 + Math.log(candidate.count)) * backgroundIdf(candidate.stemKey),
+  }));
+  scored.sort((a, b) => b.score - a.score || b.candidate.count - a.candidate.count || b.candidate.headFinal - a.candidate.headFinal);
+
+  // Overlapping n-grams of one run ("building streaming data", "streaming data pipelines"):
+  // the best-scoring one claims its words, and a phrase left with no occurrence that
+  // is free of, or nested in or around, a claimed one goes
+  const claimed = new Map<number, number[][]>();
+  const clashes = (span: number[]) => span.some((index) => (claimed.get(index) || []).some((other) =>
+    !span.every((i) => other.includes(i)) && !other.every((i) => span.includes(i))));
+  const distinct = scored.filter(({ candidate }) => {
+    if (candidate.named) return true;
+    const free = candidate.spans.filter((span) => !clashes(span));
+    free.forEach((span) => span.forEach((index) => claimed.set(index, [...(claimed.get(index) || []), span])));
+    return free.length > 0;
+  });
+  const top = distinct.slice(0, options.limit ?? DEFAULT_LIMIT);
+  const maxScore = top[0]?.score || 1;
+
+  return top.map(({ candidate, score }) => ({
+    // The surface form the JD uses most
+    phrase: [...candidate.surfaces.entries()].sort((a, b) => b[1] - a[1])[0][0],
+    weight: Math.round((score / maxScore) * 100) / 100,
+    count: candidate.count,
+    skill: !!candidate.skill,
+    category: candidate.category,
+  }));
+}
@@ -0,0 +1,152 @@
+/**
+ * Part-of-Speech Tagging
+ * A lexicon-and-suffix tagger, good enough to tell which n-grams look like
+ * noun phrases ("distributed systems", "payment processing") and which are
+ * sentence fragments ("looking for", "work closely"). Unknown words are
+ * taken as nouns: in a JD those are mostly product and technology names.
+ */
+
+export type PosTag = 'noun' | 'adj' | 'participle' | 'verb' | 'adv' | 'num' | 'function';
+
+// Determiners, pronouns, prepositions, conjunctions, auxiliaries and modals
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'some', 'any', 'each', 'every', 'all', 'both',
+  'either', 'neither', 'no', 'not', 'nor', 'few', 'many', 'much', 'more', 'most', 'less', 'least',
+  'other', 'another', 'such', 'same', 'own', 'several', 'various', 'etc', 'e.g', 'i.e', 'eg', 'ie',
+  'i', 'me', 'my', 'mine', 'you', 'your', 'yours', 'he', 'him', 'his', 'she', 'her', 'hers', 'it', 'its',
+  'we', 'us', 'our', 'ours', 'they', 'them', 'their', 'theirs', 'yourself', 'ourselves', 'themselves',
+  'who', 'whom', 'whose', 'which', 'what', 'whatever', 'whichever', 'whoever',
+  'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'as', 'into', 'onto', 'about', 'above',
+  'across', 'after', 'against', 'along', 'among', 'around', 'before', 'behind', 'below', 'beneath',
+  'beside', 'between', 'beyond', 'during', 'except', 'inside', 'like', 'near', 'off', 'out', 'outside',
+  'over', 'per', 'since', 'than', 'through', 'throughout', 'till', 'toward', 'towards', 'under', 'until',
+  'up', 'upon', 'via', 'within', 'without', 'down',
+  'and', 'or', 'but', 'so', 'yet', 'if', 'because', 'while', 'whereas', 'although', 'though', 'unless',
+  'whether', 'when', 'where', 'why', 'how', 'then', 'once', 'also', 'too', 'very', 'just', 'only',
+  'even', 'still', 'already', 'always', 'never', 'often', 'well', 'here', 'there', 'now', 'again',
+  'is', 'am', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'having',
+  'do', 'does', 'did', 'doing', 'done', 'will', 'would', 'shall', 'should', 'can', 'could',
+  'may', 'might', 'must', "don't", "won't", "can't", "we're", "you're", "you'll", "we'll", "it's",
+  "you've", "we've", "they're", 'able', 'plus', 'including', 'ideally',
+]);
+
+// Units that go with numbers ("5+ years", "2 days a week"), never keyphrases
+const MEASURE_WORDS = new Set([
+  'year', 'years', 'yr', 'yrs', 'month', 'months', 'week', 'weeks', 'day', 'days', 'hour', 'hours',
+  'percent', 'k', 'usd', 'eur', 'gbp', 'pln',
+]);
+
+// Words that are (almost) always verbs in a job ad; inflected forms are derived
+const VERBS = new Set([
+  'develop', 'ensure', 'collaborate', 'maintain', 'implement', 'create', 'provide', 'help', 'join',
+  'apply', 'deliver', 'improve', 'identify', 'understand', 'communicate', 'build', 'participate',
+  'contribute', 'manage', 'coordinate', 'define', 'drive', 'enable', 'establish', 'execute',
+  'write', 'prepare', 'perform', 'operate', 'take', 'make', 'get', 'keep', 'become', 'seek',
+  'look', 'want', 'need', 'require', 'include', 'involve', 'offer', 'enjoy', 'thrive', 'grow',
+  'learn', 'share', 'solve', 'analyze', 'analyse', 'assess', 'evaluate', 'optimize', 'optimise',
+  'use', 'utilize', 'utilise', 'leverage', 'ship', 'translate', 'read', 'explain', 'present',
+  'promote', 'propose', 'pursue', 'reduce', 'resolve', 'respond', 'hire', 'love', 'care',
+  'believe', 'bring', 'adapt', 'align', 'assist', 'attend', 'automate', 'conduct', 'debug',
+  'deploy', 'engage', 'enhance', 'expand', 'facilitate', 'foster', 'guide', 'handle', 'influence',
+  'investigate', 'launch', 'negotiate', 'oversee', 'prioritize', 'prioritise', 'produce',
+  'recommend', 'shape', 'streamline', 'tackle', 'troubleshoot', 'validate', 'verify', 'own', 'see',
+  'feel', 'know', 'think', 'give', 'come', 'go', 'let', 'put', 'find', 'tell', 'ask', 'seem',
+  'try', 'move', 'live', 'hold', 'allow', 'continue', 'follow', 'stay', 'encourage', 'empower',
+  'excel', 'strive', 'welcome', 'receive', 'send', 'submit', 'meet', 'exceed', 'achieve',
+  'iterate', 'demonstrate', 'possess', 'gain', 'spend', 'consider', 'discuss', 'mentor', 'review',
+]);
+
+// Verb-derived -ing words that usually name a field or activity
+const NOMINAL_GERUNDS = new Set([
+  'engineering', 'marketing', 'accounting', 'programming', 'testing', 'computing', 'networking',
+  'training', 'consulting', 'learning', 'processing', 'planning', 'modeling', 'modelling', 'scheduling',
+  'budgeting', 'forecasting', 'manufacturing', 'recruiting', 'onboarding', 'reporting', 'logging',
+  'monitoring', 'debugging', 'scripting', 'writing', 'building', 'tracking', 'housing',
+  'banking', 'nursing', 'teaching', 'coaching', 'mentoring', 'troubleshooting', 'profiling',
+  'caching', 'routing', 'messaging', 'streaming', 'rendering', 'hosting', 'billing', 'pricing',
+  'shipping', 'packaging', 'labeling', 'labelling', 'mapping', 'matching', 'ranking', 'indexing',
+  'staffing', 'sourcing', 'purchasing', 'auditing', 'bookkeeping',
+  'copywriting', 'branding', 'advertising', 'publishing', 'editing', 'printing', 'welding',
+  'machining', 'plumbing', 'catering', 'cleaning', 'cooking', 'lending', 'underwriting', 'trading',
+  'investing', 'fundraising', 'storytelling', 'wireframing', 'prototyping', 'benchmarking',
+  'balancing', 'solving', 'thinking', 'handling',
+]);
+
+const ADJECTIVES = new Set([
+  'strong', 'excellent', 'good', 'great', 'solid', 'proven', 'senior', 'junior', 'new', 'modern',
+  'large', 'small', 'high', 'low', 'key', 'relevant', 'similar', 'additional', 'related', 'deep',
+  'fast', 'complex', 'critical', 'competitive', 'flexible', 'remote', 'hybrid', 'full', 'part',
+  'best', 'better', 'ideal', 'successful', 'passionate', 'independent', 'hands-on', 'detail-oriented',
+  'fluent', 'native', 'basic', 'advanced', 'extensive', 'thorough', 'clear', 'clean', 'open', 'fun',
+  'friendly', 'dynamic', 'global', 'international', 'local', 'daily', 'weekly', 'annual', 'first',
+  'second', 'main', 'major', 'minor', 'top', 'real', 'true', 'whole', 'entire', 'next', 'last',
+  'early', 'late', 'long', 'short', 'big', 'huge', 'tiny', 'quick', 'smart', 'bright', 'happy',
+  'eager', 'keen', 'willing', 'comfortable', 'familiar', 'preferred', 'required', 'nice', 'bonus',
+  'ready', 'free', 'paid', 'unlimited', 'generous', 'diverse', 'inclusive', 'equal', 'qualified',
+  'skilled', 'experienced', 'talented', 'motivated', 'driven', 'organized', 'organised', 'excited',
+  'cross-functional', 'end-to-end', 'self-motivated', 'self-starter', 'fast-paced', 'highly', 'least',
+  'technical', 'functional', 'professional', 'personal', 'digital', 'internal', 'external',
+  'general', 'overall', 'central', 'commercial', 'financial', 'operational', 'practical', 'physical',
+  'mental', 'medical', 'legal', 'social', 'natural', 'formal', 'informal', 'visual', 'verbal',
+  'written', 'oral', 'actual', 'potential', 'essential', 'exceptional', 'multiple',
+  'current', 'recent', 'previous', 'prior', 'future', 'existing', 'scalable', 'reliable', 'robust',
+  'simple', 'easy', 'hard', 'difficult', 'possible', 'available', 'responsible', 'important',
+  'equivalent', 'comparable',
+]);
+
+// -ive / -al words that are nouns in job ads
+const NOUN_EXCEPTIONS = new Set([
+  'executive', 'objective', 'representative', 'initiative', 'alternative', 'incentive', 'directive',
+  'archive', 'drive', 'detective', 'hospital', 'capital', 'proposal', 'approval', 'portal', 'signal',
+  'terminal', 'journal', 'manual', 'rental', 'tutorial', 'principal', 'material', 'individual',
+  'supply', 'family', 'assembly', 'anomaly', 'ally', 'reply', 'italy', 'july', 'rally', 'monopoly',
+  'automobile', 'variable', 'deliverable', 'receivable', 'payable', 'table', 'cable', 'bible',
+]);
+
+const ADJECTIVE_SUFFIX = /(?:ous|ful|ible|able|ical|less|ive)$/;
+
+/**
+ * Base form of an inflected verb that is in the lexicon ("managed" → "manage")
+ */
+function verbBase(word: string): string | null {
+  if (VERBS.has(word)) return word;
+  const candidates: string[] = [];
+  if (word.endsWith('ies')) candidates.push(`${word.slice(0, -3)}y`);
+  if (word.endsWith('es')) candidates.push(word.slice(0, -2));
+  if (word.endsWith('s')) candidates.push(word.slice(0, -1));
+  if (word.endsWith('ied')) candidates.push(`${word.slice(0, -3)}y`);
+  if (word.endsWith('ed')) candidates.push(word.slice(0, -2), word.slice(0, -1), word.slice(0, -3));
+  if (word.endsWith('ing')) candidates.push(word.slice(0, -3), `${word.slice(0, -3)}e`, word.slice(0, -4));
+  return candidates.find((c) => VERBS.has(c)) || null;
+}
+
+/**
+ * Tag of a single word, lowercased; context-free
+ */
+export function tagWord(word: string): PosTag {
+  const lower = word.toLowerCase();
+  if (/^\d/.test(lower) || MEASURE_WORDS.has(lower)) return 'num';
+  if (FUNCTION_WORDS.has(lower)) return 'function';
+  if (NOMINAL_GERUNDS.has(lower)) return 'noun';
+  if (ADJECTIVES.has(lower)) return 'adj';
+  if (NOUN_EXCEPTIONS.has(lower)) return 'noun';
+
+  const base = verbBase(lower);
+  if (base) {
+    // "automated testing", "distributed systems": past participles modify nouns
+    return lower.endsWith('ed') ? 'participle' : 'verb';
+  }
+  if (lower.endsWith('ed') && lower.length > 4) return 'participle';
+  if (lower.endsWith('ly') && lower.length > 4) return 'adv';
+  if (ADJECTIVE_SUFFIX.test(lower)) return 'adj';
+  return 'noun';
+}
+
+/**
+ * Whether a tag sequence is a keyphrase: modifiers (adjectives, participles,
+ * nouns) followed by a noun head, e.g. ADJ NOUN, NOUN NOUN, ADJ NOUN NOUN
+ */
+export function isNounPhrase(tags: PosTag[]): boolean {
+  if (tags.length === 0 || tags[tags.length - 1] !== 'noun') return false;
+  return tags.slice(0, -1).every((tag) => tag === 'noun' || tag === 'adj' || tag === 'participle');
+}
@@ -0,0 +1,393 @@
+/**
+ * On-page Keyword Highlighter
+ * Wraps matched / missing keywords from a scan inside the live job description
+ * element with colored marks, shows a small legend with a "next missing" jump,
+ * and re-applies itself when single-page apps re-render the description.
+ */
+
+import { runExtractors } from './extractors';
+import { canonicalSkillName, findSkill, mentionsSkill, skillSurfacePatterns } from './skills';
+
+export type HighlightCommand =
+  | { action: 'show'; matched: string[]; missing: string[] }
+  | { action: 'hide' }
+  | { action: 'nextMissing' };
+
+export interface HighlightState {
+  active: boolean;
+  matchedCount: number;
+  missingCount: number;
+  /** Position of the last "next missing" jump, 1-based */
+  current?: { keyword: string; index: number; total: number };
+  error?: string;
+}
+
+type HighlightKind = 'matched' | 'missing';
+
+const MARK_ATTR = 'data-jdscan-hl';
+const LEGEND_ID = 'jd-scan-highlight-legend';
+const SKIP_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEXTAREA', 'INPUT', 'SELECT', 'MARK']);
+
+const COLORS: Record<HighlightKind, { fg: string; bg: string }> = {
+  matched: { fg: '#16a34a', bg: 'rgba(34, 197, 94, 0.22)' },
+  missing: { fg: '#e11d48', bg: 'rgba(244, 63, 94, 0.2)' },
+};
+
+interface ActiveHighlight {
+  keywords: Map<string, HighlightKind>;
+  pattern: RegExp;
+  element: Element;
+  /** Identifies the job the keywords belong to; a different job turns highlighting off */
+  jobKey: string;
+  markCount: number;
+  cursor: number;
+}
+
+let active: ActiveHighlight | null = null;
+let observer: MutationObserver | null = null;
+let reapplyTimer: number | null = null;
+const listeners = new Set<(state: HighlightState) => void>();
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * One alternation for every keyword, longest first so "machine learning"
+ * wins over "learning". Lookarounds instead of \b so "c++" and ".net" work.
+ * Skills also match their aliases, so "JavaScript" marks "JS" on the page.
+ */
+function buildPattern(keywords: string[]): RegExp {
+  const alternatives = keywords
+    .flatMap((keyword) => {
+      const skill = findSkill(keyword);
+      return skill ? skillSurfacePatterns(skill) : [escapeRegExp(keyword)];
+    })
+    .sort((a, b) => b.length - a.length);
+  return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_])`, 'giu');
+}
+
+/**
+ * Which keyword a match stands for; skills are re-checked since the page-wide
+ * pattern ignores case ("go" is not "Go")
+ */
+function kindOf(surface: string, state: ActiveHighlight): HighlightKind | undefined {
+  const skill = findSkill(surface);
+  if (skill) return mentionsSkill(surface, skill) ? state.keywords.get(skill.name.toLowerCase()) : undefined;
+  return state.keywords.get(surface.toLowerCase());
+}
+
+function styleMark(mark: HTMLElement, kind: HighlightKind) {
+  const { fg, bg } = COLORS[kind];
+  Object.assign(mark.style, {
+    background: bg,
+    color: 'inherit',
+    borderBottom: `2px solid ${fg}`,
+    borderRadius: '2px',
+    padding: '0 1px',
+    scrollMarginTop: '120px',
+  });
+}
+
+function wrapMatches(element: Element, state: ActiveHighlight): number {
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => {
+      const parent = node.parentElement;
+      if (!parent || SKIP_TAGS.has(parent.tagName) || parent.closest(`[${MARK_ATTR}]`)) {
+        return NodeFilter.FILTER_REJECT;
+      }
+      return node.nodeValue?.trim() ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_REJECT;
+    },
+  });
+
+  // Collect first: mutating while walking skips nodes
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+  let count = 0;
+  for (const node of textNodes) {
+    const text = node.nodeValue || '';
+    state.pattern.lastIndex = 0;
+    const matches = [...text.matchAll(state.pattern)];
+    if (matches.length === 0) continue;
+
+    const fragment = document.createDocumentFragment();
+    let last = 0;
+    for (const match of matches) {
+      const kind = kindOf(match[0], state);
+      if (!kind || match.index === undefined) continue;
+      if (match.index > last) fragment.appendChild(document.createTextNode(text.slice(last, match.index)));
+
+      const mark = document.createElement('mark');
+      mark.setAttribute(MARK_ATTR, kind);
+      mark.textContent = match[0];
+      styleMark(mark, kind);
+      fragment.appendChild(mark);
+
+      last = match.index + match[0].length;
+      count++;
+    }
+    if (last < text.length) fragment.appendChild(document.createTextNode(text.slice(last)));
+    node.parentNode?.replaceChild(fragment, node);
+  }
+  return count;
+}
+
+function unwrapMarks(root: ParentNode = document) {
+  const parents = new Set<Node>();
+  root.querySelectorAll(`mark[${MARK_ATTR}]`).forEach((mark) => {
+    const parent = mark.parentNode;
+    if (!parent) return;
+    parent.replaceChild(document.createTextNode(mark.textContent || ''), mark);
+    parents.add(parent);
+  });
+  // Merge the split text nodes back so the page's own code sees the original DOM shape
+  parents.forEach((parent) => parent.normalize());
+}
+
+function getMarks(kind?: HighlightKind): HTMLElement[] {
+  const selector = kind ? `mark[${MARK_ATTR}="${kind}"]` : `mark[${MARK_ATTR}]`;
+  return Array.from(document.querySelectorAll<HTMLElement>(selector));
+}
+
+function currentState(): HighlightState {
+  if (!active) return { active: false, matchedCount: 0, missingCount: 0 };
+  const missingMarks = getMarks('missing');
+  const state: HighlightState = {
+    active: true,
+    matchedCount: getMarks('matched').length,
+    missingCount: missingMarks.length,
+  };
+  if (active.cursor >= 0 && missingMarks[active.cursor]) {
+    state.current = {
+      keyword: missingMarks[active.cursor].textContent || '',
+      index: active.cursor + 1,
+      total: missingMarks.length,
+    };
+  }
+  return state;
+}
+
+function notify() {
+  const state = currentState();
+  listeners.forEach((listener) => listener(state));
+  renderLegend(state);
+}
+
+function legendButton(label: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = label;
+  Object.assign(button.style, {
+    border: 'none',
+    background: 'rgba(255, 255, 255, 0.12)',
+    color: 'inherit',
+    font: 'inherit',
+    fontWeight: '600',
+    padding: '3px 8px',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  });
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+function legendItem(kind: HighlightKind, label: string): HTMLSpanElement {
+  const item = document.createElement('span');
+  const swatch = document.createElement('span');
+  Object.assign(swatch.style, {
+    display: 'inline-block',
+    width: '10px',
+    height: '10px',
+    marginRight: '5px',
+    borderRadius: '2px',
+    background: COLORS[kind].bg,
+    borderBottom: `2px solid ${COLORS[kind].fg}`,
+    verticalAlign: 'middle',
+  });
+  item.append(swatch, label);
+  return item;
+}
+
+function renderLegend(state: HighlightState) {
+  let legend = document.getElementById(LEGEND_ID);
+  if (!state.active) {
+    legend?.remove();
+    return;
+  }
+
+  if (!legend) {
+    legend = document.createElement('div');
+    legend.id = LEGEND_ID;
+    Object.assign(legend.style, {
+      position: 'fixed',
+      top: '16px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      zIndex: '2147483646',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '12px',
+      padding: '6px 10px',
+      borderRadius: '10px',
+      background: 'rgba(15, 23, 42, 0.92)',
+      color: '#f8fafc',
+      font: '600 12px/1.4 system-ui, -apple-system, sans-serif',
+      boxShadow: '0 8px 24px rgba(0, 0, 0, 0.25)',
+    });
+    document.body.appendChild(legend);
+  }
+
+  const position = state.current ? ` ${state.current.index}/${state.current.total}` : '';
+  legend.replaceChildren(
+    legendItem('matched', `Matched (${state.matchedCount})`),
+    legendItem('missing', `Missing (${state.missingCount})`),
+    legendButton(`Next missing${position}`, () => handleHighlightCommand({ action: 'nextMissing' })),
+    legendButton('✕', () => handleHighlightCommand({ action: 'hide' })),
+  );
+}
+
+function jobKeyOf(title: string, company: string): string {
+  return `${title}::${company}`;
+}
+
+/**
+ * (Re)apply marks to the current job description element. Our own DOM writes
+ * are made with the observer disconnected so they don't trigger a re-apply.
+ */
+function apply() {
+  if (!active) return;
+  observer?.disconnect();
+
+  const outcome = runExtractors();
+  if (jobKeyOf(outcome.data.title, outcome.data.company) !== active.jobKey) {
+    // The user moved on to another job; these keywords no longer apply
+    hide();
+    return;
+  }
+
+  const element = outcome.element || active.element;
+  if (element !== active.element) unwrapMarks(active.element);
+  active.element = element;
+
+  unwrapMarks(element);
+  active.markCount = wrapMatches(element, active);
+  active.cursor = -1;
+
+  observer?.observe(document.body, { childList: true, subtree: true, characterData: true });
+  notify();
+}
+
+function scheduleReapply() {
+  if (reapplyTimer) window.clearTimeout(reapplyTimer);
+  reapplyTimer = window.setTimeout(() => {
+    reapplyTimer = null;
+    if (!active) return;
+    const marksGone = active.markCount > 0 && !active.element.querySelector(`mark[${MARK_ATTR}]`);
+    if (!active.element.isConnected || marksGone) {
+      console.log('JD Scan: Job description re-rendered, re-applying highlights');
+      apply();
+    }
+  }, 300);
+}
+
+function show(matched: string[], missing: string[]): HighlightState {
+  hide();
+
+  const outcome = runExtractors();
+  if (!outcome.element) {
+    return { active: false, matchedCount: 0, missingCount: 0, error: 'No job description element found on this page' };
+  }
+
+  const keywords = new Map<string, HighlightKind>();
+  matched.forEach((k) => keywords.set(canonicalSkillName(k).toLowerCase(), 'matched'));
+  missing.forEach((k) => keywords.set(canonicalSkillName(k).toLowerCase(), 'missing'));
+  if (keywords.size === 0) {
+    return { active: false, matchedCount: 0, missingCount: 0, error: 'No keywords to highlight' };
+  }
+
+  active = {
+    keywords,
+    pattern: buildPattern([...keywords.keys()]),
+    element: outcome.element,
+    jobKey: jobKeyOf(outcome.data.title, outcome.data.company),
+    markCount: 0,
+    cursor: -1,
+  };
+  observer = new MutationObserver(scheduleReapply);
+  apply();
+  return currentState();
+}
+
+function hide(): HighlightState {
+  if (reapplyTimer) window.clearTimeout(reapplyTimer);
+  reapplyTimer = null;
+  observer?.disconnect();
+  observer = null;
+
+  const wasActive = !!active;
+  active = null;
+  unwrapMarks();
+  document.getElementById(LEGEND_ID)?.remove();
+
+  if (wasActive) notify();
+  return currentState();
+}
+
+function nextMissing(): HighlightState {
+  if (!active) return currentState();
+  const marks = getMarks('missing');
+  if (marks.length === 0) return currentState();
+
+  getMarks().forEach((mark) => (mark.style.outline = ''));
+  active.cursor = (active.cursor + 1) % marks.length;
+  const mark = marks[active.cursor];
+  mark.style.outline = `2px solid ${COLORS.missing.fg}`;
+  mark.style.outlineOffset = '1px';
+  mark.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+  notify();
+  return currentState();
+}
+
+/**
+ * Run a highlight command against the current page (content script side)
+ */
+export function handleHighlightCommand(command: HighlightCommand): HighlightState {
+  switch (command.action) {
+    case 'show':
+      return show(command.matched, command.missing);
+    case 'hide':
+      return hide();
+    case 'nextMissing':
+      return nextMissing();
+  }
+}
+
+/**
+ * Be told when highlighting changes from the page itself (legend buttons,
+ * navigation to another job). Returns an unsubscribe function.
+ */
+export function subscribeHighlightState(listener: (state: HighlightState) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Send a highlight command to the job page. From the side panel it goes to the
+ * active tab; inside the on-page overlay it runs directly.
+ */
+export async function sendHighlightCommand(command: HighlightCommand): Promise<HighlightState> {
+  if (!chrome.tabs?.query) return handleHighlightCommand(command);
+
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab?.id) {
+    return { active: false, matchedCount: 0, missingCount: 0, error: 'No active tab' };
+  }
+  try {
+    const state = await chrome.tabs.sendMessage(tab.id, { type: 'HIGHLIGHT_KEYWORDS', command });
+    return state as HighlightState;
+  } catch {
+    return { active: false, matchedCount: 0, missingCount: 0, error: 'JD Scan is not running on this page' };
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * Keyword Stuffing
+ * Pasting a JD's missing keywords into a resume raises a keyword score and
+ * puts recruiters off. Flags JD keywords repeated far more than prose needs,
+ * resumes that are mostly JD keywords, keyword dumps (comma-, space- or
+ * line-separated), text the file hides, and skills lists no role or project
+ * backs up. Each finding takes points off the match score, and keywords only
+ * found in a dump don't count as matched at all.
+ */
+
+import { findCertification, findCertificationMentions } from './credentials';
+import type { KeyPhrase } from './keyphrases';
+import { ParsedResume, resumeHeadingKind, resumeSectionAt, ResumeSectionKind } from './resumeParser';
+import { findSkill, findSkillMentions } from './skills';
+import { stemPhrase, stemWord, tokenizeWords } from './stemmer';
+
+export type StuffingSignal = 'repetition' | 'density' | 'keywordDump' | 'hiddenText' | 'unsupportedSkills';
+
+export interface StuffingFinding {
+  signal: StuffingSignal;
+  message: string;
+  /** Points this finding takes off the score */
+  penalty: number;
+  /** The JD keywords involved */
+  keywords?: string[];
+}
+
+export interface KeywordDensity {
+  keyword: string;
+  /** Times the resume mentions it */
+  count: number;
+  /** Share of the resume's words, in percent */
+  density: number;
+}
+
+export interface StuffingReport {
+  /** Points taken off the match score, capped */
+  penalty: number;
+  findings: StuffingFinding[];
+  /** Matched JD keywords, most repeated first */
+  density: KeywordDensity[];
+  /** Share of the resume's words that belong to JD keywords, in percent */
+  keywordShare: number;
+}
+
+export interface KeywordDump {
+  /** Offsets of the list in the resume, end exclusive */
+  start: number;
+  end: number;
+  items: string[];
+  /** The items that are JD keywords */
+  keywords: string[];
+}
+
+export interface StuffingInput {
+  resume: string;
+  parsed: ParsedResume;
+  /** The JD's keyphrases, most important first */
+  keyPhrases: KeyPhrase[];
+  matchedKeywords: string[];
+  /** Resume sections each matched keyword appears in */
+  keywordSections: Record<string, ResumeSectionKind[]>;
+  stemming: boolean;
+  /** Text the file hides (white, hidden or tiny), found on upload */
+  hiddenText?: string[];
+  /** Keyword dumps found beforehand by findKeywordDumps; looked for here when missing */
+  dumps?: KeywordDump[];
+  /** JD keywords the resume mentions only inside a dump, left out of the match */
+  dumpOnlyKeywords?: string[];
+}
+
+export const STUFFING_SIGNAL_LABELS: Record<StuffingSignal, string> = {
+  repetition: 'Repeated keywords',
+  density: 'Keyword density',
+  keywordDump: 'Keyword dump',
+  hiddenText: 'Hidden text',
+  unsupportedSkills: 'Unsupported skills',
+};
+
+/** A keyword repeated this often, and this dense, reads as stuffed */
+const MIN_REPEATS = 6;
+const MAX_KEYWORD_DENSITY = 2.5;
+/**
+ * Share of all words that JD keywords may take up in a full-length resume.
+ * Shorter ones are mostly skills and headlines, so they get up to
+ * SHORT_RESUME_SHARE more, fading out by FULL_LENGTH_WORDS.
+ */
+const MAX_KEYWORD_SHARE = 35;
+const SHORT_RESUME_SHARE = 30;
+const FULL_LENGTH_WORDS = 600;
+/** A list needs this many items, mostly JD keywords, to count as a dump */
+const MIN_DUMP_ITEMS = 8;
+const MIN_DUMP_KEYWORD_SHARE = 0.7;
+/** A list whose keywords role, project or summary text backs up this much is not a dump */
+const MAX_DUMP_EVIDENCE_SHARE = 0.5;
+/** Longest line that still reads as a single list item, and longest keyphrase looked for in a run of words */
+const MAX_ITEM_WORDS = 4;
+/** Matched hard skills and tools that appear only in a skills list */
+const MIN_UNSUPPORTED = 5;
+const MIN_UNSUPPORTED_SHARE = 0.6;
+const MIN_HIDDEN_WORDS = 3;
+const MAX_PENALTY = 25;
+
+const PENALTIES: Record<StuffingSignal, number> = {
+  repetition: 3,
+  density: 5,
+  keywordDump: 10,
+  hiddenText: 15,
+  unsupportedSkills: 5,
+};
+const MAX_REPETITION_PENALTY = 9;
+
+const LIST_SPLIT_RE = /\s*[,;|•·]\s*/;
+const KEYWORDS_LABEL_RE = /^\s*(?:(?:ats\s+)?keywords?|tags|search terms)\s*[:：]/i;
+const SKILLS_LABEL_RE = /^\s*(?:(?:technical|core|key|hard)\s+)?(?:skills?|competencies|technolog(?:y|ies)|tech(?:nical)?\s+stack|stack|tools?)\s*[:：]/i;
+/** Where a skill is shown in use rather than listed */
+const EVIDENCE_SECTIONS: ResumeSectionKind[] = ['experience', 'projects', 'summary'];
+const BULLET_MARKER_RE = /^(?:[•\-*·▪◦●–—►✓✔]|\d{1,2}[.)])\s+/;
+
+type ListLabel = 'keywords' | 'skills' | null;
+
+interface ListCandidate {
+  start: number;
+  end: number;
+  items: string[];
+  label: ListLabel;
+}
+
+interface KeywordCount {
+  count: number;
+  /** Words the mentions take up, as written ("AWS" is one, "Amazon Web Services" three) */
+  words: number;
+}
+
+function addMention(counts: Map<string, KeywordCount>, key: string, surface: string): void {
+  const entry = counts.get(key) || { count: 0, words: 0 };
+  entry.count++;
+  entry.words += Math.max(1, tokenizeWords(surface).length);
+  counts.set(key, entry);
+}
+
+/**
+ * How often each keyword occurs in a text: skills and certifications under
+ * any alias, other phrases by their words (stemmed when stemming)
+ */
+function keywordCounts(text: string, keywords: string[], stemming: boolean): Map<string, KeywordCount> {
+  const skillCounts = new Map<string, KeywordCount>();
+  for (const mention of findSkillMentions(text)) addMention(skillCounts, mention.skill.name, mention.surface);
+  const certificationCounts = new Map<string, KeywordCount>();
+  for (const mention of findCertificationMentions(text)) addMention(certificationCounts, mention.certification.name, mention.surface);
+  const normalize = (word: string) => (stemming ? stemWord(word) : word.toLowerCase());
+  const words = tokenizeWords(text).map((token) => normalize(token.word));
+
+  const counts = new Map<string, KeywordCount>();
+  for (const keyword of keywords) {
+    const skill = findSkill(keyword);
+    const certification = skill ? undefined : findCertification(keyword);
+    if (skill) {
+      counts.set(keyword, skillCounts.get(skill.name) || { count: 0, words: 0 });
+    } else if (certification) {
+      counts.set(keyword, certificationCounts.get(certification.name) || { count: 0, words: 0 });
+    } else {
+      const parts = tokenizeWords(keyword).map((token) => normalize(token.word));
+      let count = 0;
+      for (let i = 0; parts.length > 0 && i + parts.length <= words.length; i++) {
+        if (parts.every((part, j) => words[i + j] === part)) count++;
+      }
+      counts.set(keyword, { count, words: count * parts.length });
+    }
+  }
+  return counts;
+}
+
+/** Key a list item or JD keyword is compared by: the skill, else its stems */
+function itemKey(text: string): string {
+  const skill = findSkill(text);
+  return skill ? `skill:${skill.name}` : stemPhrase(text);
+}
+
+/**
+ * A line without separators split into JD keyphrases where its words form
+ * one, longest first, and single words elsewhere
+ */
+function segmentWords(line: string, rank: Map<string, number>): string[] {
+  const words = line.split(/\s+/).filter(Boolean);
+  const items: string[] = [];
+  for (let i = 0; i < words.length;) {
+    let length = Math.min(MAX_ITEM_WORDS, words.length - i);
+    while (length > 1 && !rank.has(itemKey(words.slice(i, i + length).join(' ')))) length--;
+    items.push(words.slice(i, i + length).join(' '));
+    i += length;
+  }
+  return items;
+}
+
+/**
+ * Everything in the resume that could be a list: each line split on
+ * separators, or into keyphrases when it has none, and runs of short lines
+ * holding one item each
+ */
+function listCandidates(resume: string, rank: Map<string, number>): ListCandidate[] {
+  const candidates: ListCandidate[] = [];
+  let run: ListCandidate | null = null;
+  let labelAbove: ListLabel = null;
+  let offset = 0;
+  for (const line of resume.split('\n')) {
+    const start = offset;
+    const end = start + line.length;
+    offset = end + 1;
+    const label: ListLabel = KEYWORDS_LABEL_RE.test(line) ? 'keywords' : SKILLS_LABEL_RE.test(line) ? 'skills' : null;
+    const body = line.replace(KEYWORDS_LABEL_RE, '').replace(/^[^:：]{1,30}[:：]/, '');
+    const listed = body.split(LIST_SPLIT_RE).map((item) => item.trim()).filter(Boolean);
+    if (listed.length > 1) candidates.push({ start, end, items: listed, label });
+    else if (listed.length === 1) candidates.push({ start, end, items: segmentWords(body, rank), label });
+
+    // Blank lines and JD keywords that look like headings ("Certification") don't break a run;
+    // other headings, sentences and separated lists do
+    const item = line.replace(BULLET_MARKER_RE, '').trim();
+    if (!item) continue;
+    const single = !label && listed.length === 1 && (!resumeHeadingKind(line) || rank.has(itemKey(item))) && !/[.!?]$/.test(item) && tokenizeWords(item).length <= MAX_ITEM_WORDS;
+    if (single) {
+      run ??= { start, end, items: [], label: labelAbove };
+      run.items.push(item);
+      run.end = end;
+    } else if (run) {
+      candidates.push(run);
+      run = null;
+    }
+    labelAbove = listed.length === 0 ? label : null;
+  }
+  if (run) candidates.push(run);
+  return candidates;
+}
+
+/**
+ * Role, project and summary text, with one range (the list being judged)
+ * blanked out
+ */
+function evidenceText(resume: string, parsed: ParsedResume, skip: { start: number; end: number }): string {
+  return parsed.sections
+    .filter((section) => EVIDENCE_SECTIONS.includes(section.kind))
+    .map((section) => {
+      const text = resume.slice(section.start, section.end);
+      const from = Math.max(0, skip.start - section.start);
+      const to = Math.min(text.length, skip.end - section.start);
+      return from < to ? `${text.slice(0, from)}\n${text.slice(to)}` : text;
+    })
+    .join('\n');
+}
+
+/**
+ * Lists made mostly of JD keywords, separated by commas, spaces or line
+ * breaks, that sit outside any skills section or skills label and whose
+ * keywords no role, project or summary backs up. A real skills section is
+ * never a dump, even in the JD's own order; skills listed and never used
+ * are flagged as unsupported instead.
+ */
+export function findKeywordDumps(resume: string, parsed: ParsedResume, keyPhrases: KeyPhrase[], stemming: boolean): KeywordDump[] {
+  const rank = new Map<string, number>();
+  keyPhrases.forEach((phrase, i) => {
+    const key = itemKey(phrase.phrase);
+    if (!rank.has(key)) rank.set(key, i);
+  });
+
+  const dumps: KeywordDump[] = [];
+  for (const { start, end, items, label } of listCandidates(resume, rank)) {
+    if (label === 'skills' || resumeSectionAt(parsed, start) === 'skills') continue;
+    if (items.length < (label === 'keywords' ? MIN_DUMP_ITEMS / 2 : MIN_DUMP_ITEMS)) continue;
+
+    const keywords = items.filter((item) => rank.has(itemKey(item)));
+    if (keywords.length / items.length < MIN_DUMP_KEYWORD_SHARE) continue;
+
+    const evidence = keywordCounts(evidenceText(resume, parsed, { start, end }), keywords, stemming);
+    const backed = keywords.filter((keyword) => (evidence.get(keyword)?.count || 0) > 0);
+    if (backed.length / keywords.length <= MAX_DUMP_EVIDENCE_SHARE) dumps.push({ start, end, items, keywords });
+  }
+  return dumps;
+}
+
+/**
+ * Keyword density, repetition and stuffing patterns for a scanned resume
+ */
+export function detectKeywordStuffing(input: StuffingInput): StuffingReport {
+  const { resume, parsed, keyPhrases, matchedKeywords, keywordSections, stemming } = input;
+  const totalWords = tokenizeWords(resume).length;
+  const counts = keywordCounts(resume, matchedKeywords, stemming);
+  const density: KeywordDensity[] = matchedKeywords
+    .map((keyword) => {
+      const { count, words } = counts.get(keyword) || { count: 0, words: 0 };
+      return { keyword, count, density: totalWords > 0 ? Math.round((words / totalWords) * 1000) / 10 : 0 };
+    })
+    .sort((a, b) => b.count - a.count || b.density - a.density);
+  const keywordShare = Math.round(density.reduce((sum, d) => sum + d.density, 0) * 10) / 10;
+  const findings: StuffingFinding[] = [];
+
+  const repeated = density.filter((d) => d.count >= MIN_REPEATS && d.density >= MAX_KEYWORD_DENSITY);
+  if (repeated.length > 0) {
+    findings.push({
+      signal: 'repetition',
+      message: `Repeated far more than natural: ${repeated.slice(0, 4).map((d) => `${d.keyword} ×${d.count}`).join(', ')}`,
+      penalty: Math.min(MAX_REPETITION_PENALTY, PENALTIES.repetition * repeated.length),
+      keywords: repeated.map((d) => d.keyword),
+    });
+  }
+  const maxShare = Math.round(MAX_KEYWORD_SHARE + SHORT_RESUME_SHARE * Math.max(0, 1 - totalWords / FULL_LENGTH_WORDS));
+  if (keywordShare > maxShare) {
+    findings.push({
+      signal: 'density',
+      message: `${Math.round(keywordShare)}% of the resume's words are JD keywords; natural resumes this long stay under ${maxShare}%`,
+      penalty: PENALTIES.density,
+    });
+  }
+
+  const dumps = input.dumps ?? findKeywordDumps(resume, parsed, keyPhrases, stemming);
+  if (dumps.length > 0) {
+    const keywords = [...new Set(dumps.flatMap((dump) => dump.keywords))];
+    const dumpOnly = input.dumpOnlyKeywords || [];
+    findings.push({
+      signal: 'keywordDump',
+      message: `Keyword dump: a list of ${dumps[0].items.length} items lifted from the JD (${dumps[0].keywords.slice(0, 4).join(', ')}, …)` +
+        (dumpOnly.length > 0 ? `; ${dumpOnly.length} keywords found only there don't count as matched` : ''),
+      penalty: PENALTIES.keywordDump,
+      keywords,
+    });
+  }
+
+  const hidden = (input.hiddenText || []).join(' ');
+  if (tokenizeWords(hidden).length >= MIN_HIDDEN_WORDS) {
+    const jdKeywords = keyPhrases.map((p) => p.phrase);
+    const hiddenCounts = keywordCounts(hidden, jdKeywords, stemming);
+    const keywords = jdKeywords.filter((keyword) => (hiddenCounts.get(keyword)?.count || 0) > 0);
+    findings.push({
+      signal: 'hiddenText',
+      message: keywords.length > 0
+        ? `Hidden text (white, invisible or tiny) holding JD keywords: ${keywords.slice(0, 4).join(', ')}`
+        : 'Hidden text (white, invisible or tiny) in the file',
+      penalty: PENALTIES.hiddenText,
+      ...(keywords.length > 0 ? { keywords } : {}),
+    });
+  }
+
+  // Skills only listed, when the resume does have roles or projects to show them in
+  const hasEvidence = parsed.experience.length > 0 || parsed.projects.length > 0;
+  const skills = keyPhrases
+    .filter((p) => (p.category === 'hardSkill' || p.category === 'tool') && keywordSections[p.phrase])
+    .map((p) => p.phrase);
+  const unsupported = skills.filter((keyword) => {
+    const where = keywordSections[keyword];
+    return where.includes('skills') && !where.some((kind) => EVIDENCE_SECTIONS.includes(kind));
+  });
+  if (hasEvidence && unsupported.length >= MIN_UNSUPPORTED && unsupported.length / skills.length >= MIN_UNSUPPORTED_SHARE) {
+    findings.push({
+      signal: 'unsupportedSkills',
+      message: `${unsupported.length} of ${skills.length} matched skills appear only in a skills list, with no role or project bullet behind them`,
+      penalty: PENALTIES.unsupportedSkills,
+      keywords: unsupported,
+    });
+  }
+
+  const penalty = Math.min(MAX_PENALTY, findings.reduce((sum, finding) => sum + finding.penalty, 0));
+  return { penalty, findings, density, keywordShare };
+}
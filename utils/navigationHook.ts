@@ -0,0 +1,27 @@
+/**
+ * SPA Navigation Hook
+ * Content scripts live in an isolated world and cannot see the page calling
+ * history.pushState / replaceState. A tiny main-world script wraps both and
+ * re-announces them as a DOM event, which both worlds share.
+ */
+
+export const NAVIGATION_EVENT = 'jdscan:navigation';
+
+/**
+ * Wrap history.pushState / replaceState so every call dispatches NAVIGATION_EVENT.
+ * Runs in the page's main world.
+ */
+export function installNavigationHook() {
+  const marker = '__jdScanNavigationHook';
+  if ((history as any)[marker]) return;
+  (history as any)[marker] = true;
+
+  for (const method of ['pushState', 'replaceState'] as const) {
+    const original = history[method];
+    history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+      const result = original.apply(this, args);
+      window.dispatchEvent(new CustomEvent(NAVIGATION_EVENT, { detail: { method } }));
+      return result;
+    };
+  }
+}
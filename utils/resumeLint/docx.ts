@@ -0,0 +1,185 @@
+/**
+ * DOCX Inspection
+ * Reads the parts of a .docx (a zip of XML files) that decide how an ATS
+ * sees it: body text, tables, text boxes, section columns, headers and
+ * footers, images, fonts and text hidden from view.
+ */
+
+import type { ResumeFileFacts } from './index';
+import { inflate } from './inflate';
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  offset: number;
+  size: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/** Entries listed in the zip's central directory */
+function zipEntries(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let eocd = -1;
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return [];
+
+  const count = view.getUint16(eocd + 10, true);
+  let pos = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count && pos + 46 <= bytes.length; i++) {
+    if (view.getUint32(pos, true) !== CENTRAL_SIGNATURE) break;
+    const nameLength = view.getUint16(pos + 28, true);
+    entries.push({
+      name: decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength)),
+      method: view.getUint16(pos + 10, true),
+      size: view.getUint32(pos + 20, true),
+      offset: view.getUint32(pos + 42, true),
+    });
+    pos += 46 + nameLength + view.getUint16(pos + 30, true) + view.getUint16(pos + 32, true);
+  }
+  return entries;
+}
+
+async function readEntry(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(entry.offset, true) !== LOCAL_SIGNATURE) return '';
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const data = bytes.subarray(start, start + entry.size);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method === 8) return new TextDecoder().decode(await inflate(data, 'deflate-raw'));
+  return '';
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(text: string): string {
+  return text.replace(/&(?:#(\d+)|#x([\da-f]+)|(\w+));/gi, (whole, dec, hex, name) =>
+    dec ? String.fromCodePoint(+dec) : hex ? String.fromCodePoint(parseInt(hex, 16)) : XML_ENTITIES[name] ?? whole
+  );
+}
+
+/**
+ * Word keeps a second copy of drawings (text boxes included) for older
+ * readers; only the first counts
+ */
+function withoutFallbacks(xml: string): string {
+  return xml.replace(/<mc:Fallback>[\s\S]*?<\/mc:Fallback>/g, '');
+}
+
+/**
+ * Plain text of a WordprocessingML part: one line per paragraph, list
+ * paragraphs as bullets, tabs and breaks kept
+ */
+function partText(xml: string): string {
+  return decodeXml(
+    withoutFallbacks(xml)
+      .replace(/<w:p\b[^>]*>(?=(?:(?!<\/w:p>)[\s\S])*?<w:numPr>)/g, '• ')
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:br\/>|<\/w:p>/g, '\n')
+      .replace(/<w:instrText\b[^>]*>[\s\S]*?<\/w:instrText>/g, '')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** "Page 1 of 2", "3": page numbering, which an ATS losing does no harm */
+const PAGE_NUMBER_RE = /^(?:page\s*)?\d+(?:\s*(?:of|\/)\s*\d+)?$/i;
+
+/**
+ * Text a reader never sees: hidden runs, white text on an unshaded page and
+ * text under 2pt. Text boxes and shaded paragraphs are skipped, since white
+ * text on a coloured banner is ordinary design.
+ */
+function hiddenRuns(body: string): string[] {
+  const found: string[] = [];
+  const outsideShapes = body.replace(/<w:txbxContent\b[\s\S]*?<\/w:txbxContent>/g, '');
+  for (const paragraph of outsideShapes.match(/<w:p\b[\s\S]*?<\/w:p>/g) || []) {
+    const shaded = /<w:shd\b[^>]*?w:fill="(?!auto|FFFFFF)[\dA-F]{6}"/i.test(paragraph);
+    const parts: string[] = [];
+    for (const run of paragraph.match(/<w:r\b[\s\S]*?<\/w:r>/g) || []) {
+      const props = run.match(/<w:rPr>[\s\S]*?<\/w:rPr>/)?.[0] || '';
+      const hidden = /<w:vanish\/>|<w:vanish w:val="(?:1|true|on)"\/>/.test(props)
+        || (!shaded && /<w:color w:val="FFFFFF"/i.test(props))
+        || /<w:sz w:val="[1-3]"\/>/.test(props);
+      if (hidden) parts.push(...attributeValues(run, /<w:t\b[^>]*>([^<]*)<\/w:t>/g));
+    }
+    const text = parts.join('').trim();
+    if (text) found.push(text);
+  }
+  return found;
+}
+
+function attributeValues(xml: string, pattern: RegExp): string[] {
+  return [...xml.matchAll(pattern)].map((m) => decodeXml(m[1]));
+}
+
+/**
+ * Facts about a .docx file's layout and text
+ */
+export async function inspectDocx(bytes: Uint8Array): Promise<ResumeFileFacts | null> {
+  const entries = zipEntries(bytes);
+  const byName = new Map(entries.map((entry) => [entry.name, entry]));
+  const documentEntry = byName.get('word/document.xml');
+  if (!documentEntry) return null;
+  const read = (name: string) => {
+    const entry = byName.get(name);
+    return entry ? readEntry(bytes, entry) : Promise.resolve('');
+  };
+
+  const documentXml = await read('word/document.xml');
+  const body = withoutFallbacks(documentXml);
+  const text = partText(documentXml);
+
+  const headerFooterText: string[] = [];
+  for (const entry of entries) {
+    if (!/^word\/(?:header|footer)\d*\.xml$/.test(entry.name)) continue;
+    for (const line of partText(await readEntry(bytes, entry)).split('\n')) {
+      const trimmed = line.trim();
+      if (trimmed && !PAGE_NUMBER_RE.test(trimmed)) headerFooterText.push(trimmed);
+    }
+  }
+
+  const stylesXml = await read('word/styles.xml');
+  const themeXml = await read('word/theme/theme1.xml');
+  const fonts = new Set([
+    ...attributeValues(documentXml + stylesXml, /<w:rFonts\b[^>]*?\bw:(?:ascii|hAnsi)="([^"]+)"/g),
+    // Text without an explicit font uses the theme's body (minor) font
+    ...attributeValues(themeXml.match(/<a:minorFont>[\s\S]*?<\/a:minorFont>/)?.[0] || '', /<a:latin\b[^>]*?typeface="([^"]+)"/g),
+  ]);
+  if (/\bw:(?:ascii|hAnsi)Theme="major/.test(documentXml + stylesXml)) {
+    attributeValues(themeXml.match(/<a:majorFont>[\s\S]*?<\/a:majorFont>/)?.[0] || '', /<a:latin\b[^>]*?typeface="([^"]+)"/g)
+      .forEach((font) => fonts.add(font));
+  }
+  const embeddedFonts = attributeValues(await read('word/fontTable.xml'), /<w:font\b[^>]*?w:name="([^"]+)"[^>]*>(?:(?!<\/w:font>)[\s\S])*?<w:embed(?:Regular|Bold|Italic|BoldItalic)\b/g);
+
+  const pages = (await read('docProps/app.xml')).match(/<Pages>(\d+)<\/Pages>/);
+  const columns = Math.max(1, ...attributeValues(body, /<w:cols\b[^>]*?\bw:num="(\d+)"/g).map(Number));
+
+  return {
+    format: 'docx',
+    ...(pages ? { pages: +pages[1] } : {}),
+    columns,
+    tables: (body.match(/<w:tbl>/g) || []).length,
+    textBoxes: (body.match(/<w:txbxContent\b/g) || []).length,
+    headerFooterText,
+    headerFooterBlocks: headerFooterText.length,
+    images: entries.filter((entry) => entry.name.startsWith('word/media/')).length,
+    hasText: text.replace(/[•\s]/g, '').length > 0,
+    hiddenText: hiddenRuns(body),
+    fonts: [...fonts].filter((font) => !font.startsWith('+')),
+    embeddedFonts,
+    text,
+  };
+}
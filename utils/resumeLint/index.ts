@@ -0,0 +1,428 @@
+/**
+ * ATS Readiness Checks
+ * Layout and formatting problems that make an ATS misread a resume no
+ * matter how well its keywords match: columns, tables, text boxes, text in
+ * headers and footers, image-only pages, missing contact details, mixed date
+ * formats, unusual headings, uncommon fonts and length. Runs offline on
+ * upload; the report is stored with the resume.
+ */
+
+import { ParsedResume, parseDateRange, parseResume, resumeHeadingKind, resumeSectionAt } from '../resumeParser';
+import { inspectDocx } from './docx';
+import { inspectPdf } from './pdf';
+
+/** Bump when checks change so stored reports of text resumes are redone */
+export const RESUME_LINT_VERSION = 1;
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintCheck =
+  | 'columns'
+  | 'tables'
+  | 'textBoxes'
+  | 'headerFooter'
+  | 'hiddenText'
+  | 'images'
+  | 'contact'
+  | 'dates'
+  | 'headings'
+  | 'fonts'
+  | 'length'
+  | 'format';
+
+export interface LintIssue {
+  check: LintCheck;
+  severity: LintSeverity;
+  message: string;
+  /** Offending lines, fonts or dates from the resume */
+  examples?: string[];
+}
+
+export interface ResumeLintReport {
+  version: number;
+  /** Errors first */
+  issues: LintIssue[];
+  /** Whether the file's layout was inspected, not only its text */
+  fileChecked: boolean;
+  /** Text the file hides from readers; the scanner treats it as keyword stuffing */
+  hiddenText?: string[];
+}
+
+/**
+ * What the file itself shows, read from its bytes
+ */
+export interface ResumeFileFacts {
+  format: 'pdf' | 'docx';
+  pages?: number;
+  /** Most text columns side by side */
+  columns: number;
+  /** Undefined where the format can't tell */
+  tables?: number;
+  textBoxes?: number;
+  /** Readable text of page headers and footers */
+  headerFooterText: string[];
+  /** Header and footer blocks holding text, readable or not */
+  headerFooterBlocks: number;
+  images: number;
+  /** Whether the body has selectable text at all */
+  hasText: boolean;
+  /** White, hidden, invisible or tiny text, readable parts only */
+  hiddenText: string[];
+  fonts: string[];
+  embeddedFonts: string[];
+  /** Body text, where the format allows reading it */
+  text?: string;
+}
+
+export interface LintInput {
+  /** Resume text; undefined when it couldn't be extracted from the file */
+  text?: string;
+  parsed?: ParsedResume;
+  file?: ResumeFileFacts | null;
+  fileType?: string;
+}
+
+export const LINT_SEVERITY_LABELS: Record<LintSeverity, string> = {
+  error: 'Error',
+  warning: 'Warning',
+  info: 'Note',
+};
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/** Fonts every ATS and PDF reader handles; matched on the family's start */
+const STANDARD_FONTS = [
+  'arial', 'helvetica', 'calibri', 'cambria', 'times', 'georgia', 'garamond', 'ebgaramond', 'verdana', 'tahoma',
+  'trebuchet', 'bookantiqua', 'palatino', 'century', 'lato', 'roboto', 'opensans', 'sourcesans', 'segoeui', 'aptos',
+  'liberation', 'dejavu', 'courier', 'gillsans', 'franklingothic', 'carlito', 'caladea', 'notosans', 'notoserif',
+  // Bullet and symbol glyphs
+  'symbol', 'wingdings', 'zapfdingbats',
+];
+
+const MAX_PAGES = 2;
+const MAX_WORDS = 1000;
+const TOO_MANY_WORDS = 1600;
+const MIN_WORDS = 150;
+const WORDS_PER_PAGE = 500;
+
+const EMAIL_RE = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const PHONE_RE = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){2,4}/;
+const DATE_TOKEN_RE = /\b(?:(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?,?\s+|(\d{1,2})\s*([/.-])\s*)?((?:19|20)\d{2})\b/gi;
+const BULLET_RE = /^\s*(?:[•\-*·▪◦●–—►✓✔]|\d{1,2}[.)])\s+/;
+/** Text side by side: a wide gap between two runs of words */
+const COLUMN_GAP_RE = /\S(?: {4,}|\t+)\S/;
+/** Cells of a table copied as text come tab-separated */
+const TABLE_CELL_SPLIT_RE = /\t+/;
+
+function normalizeFont(name: string): string {
+  return name
+    .split(/[,-]/)[0]
+    .toLowerCase()
+    .replace(/[^a-z]/g, '')
+    .replace(/(?:psmt|mt|ps)$/, '')
+    .replace(/(?:bold|italic|regular|light|medium|semibold|black|thin|condensed|oblique|book|display)+$/, '');
+}
+
+function isStandardFont(name: string): boolean {
+  const font = normalizeFont(name);
+  return !font || STANDARD_FONTS.some((standard) => font.startsWith(standard));
+}
+
+function fileIssues(file: ResumeFileFacts, bodyText: string | undefined): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  if (!file.hasText) {
+    issues.push({
+      check: 'images',
+      severity: 'error',
+      message: file.images > 0
+        ? 'No selectable text — the resume looks like a scan or an image. An ATS reads it as blank'
+        : 'No selectable text found. An ATS reads it as blank',
+    });
+  } else if (file.images > 0) {
+    issues.push({
+      check: 'images',
+      severity: 'info',
+      message: `${file.images} image${file.images > 1 ? 's' : ''} (photo, logo or icons) — an ATS skips them, so keep no text in images`,
+    });
+  }
+
+  if (file.columns > 1) {
+    issues.push({
+      check: 'columns',
+      severity: 'error',
+      message: 'Multi-column layout — an ATS reads straight across the page and mixes lines from both columns',
+    });
+  }
+  if (file.tables) {
+    issues.push({
+      check: 'tables',
+      severity: 'warning',
+      message: `${file.tables} table${file.tables > 1 ? 's' : ''} — cells are often read out of order or dropped`,
+    });
+  }
+  if (file.textBoxes) {
+    issues.push({
+      check: 'textBoxes',
+      severity: 'error',
+      message: `${file.textBoxes} text box${file.textBoxes > 1 ? 'es' : ''} — many ATS skip text boxes entirely`,
+    });
+  }
+
+  if (file.headerFooterBlocks > 0) {
+    const contact = file.headerFooterText.filter((line) => EMAIL_RE.test(line) || PHONE_RE.test(line));
+    const contactOnlyThere = contact.length > 0 && bodyText !== undefined && !EMAIL_RE.test(bodyText) && !PHONE_RE.test(bodyText);
+    issues.push({
+      check: 'headerFooter',
+      severity: contactOnlyThere ? 'error' : 'warning',
+      message: contactOnlyThere
+        ? 'Contact details are only in the page header/footer, which many ATS ignore'
+        : 'Text in the page header/footer — many ATS ignore it, so keep nothing important there',
+      ...(file.headerFooterText.length > 0 ? { examples: file.headerFooterText.slice(0, 3) } : {}),
+    });
+  }
+
+  if (file.hiddenText.length > 0) {
+    issues.push({
+      check: 'hiddenText',
+      severity: 'error',
+      message: 'Hidden text (white, invisible or tiny) — recruiters see it in the ATS and read it as keyword stuffing',
+      examples: file.hiddenText.slice(0, 3),
+    });
+  }
+
+  const unusual = file.fonts.filter((font) => !isStandardFont(font));
+  if (unusual.length > 0) {
+    const embedded = unusual.filter((font) => file.embeddedFonts.some((e) => normalizeFont(e) === normalizeFont(font)));
+    issues.push({
+      check: 'fonts',
+      severity: 'warning',
+      message: embedded.length > 0
+        ? 'Uncommon embedded fonts — some ATS extract their text as gibberish; prefer Arial, Calibri, Garamond or similar'
+        : 'Uncommon fonts — prefer Arial, Calibri, Garamond or similar so text extracts cleanly',
+      examples: [...new Set(unusual.map((font) => font.replace(/[,-].*$/, '')))].slice(0, 5),
+    });
+  }
+
+  if (file.pages && file.pages > MAX_PAGES) {
+    issues.push({
+      check: 'length',
+      severity: file.pages > MAX_PAGES + 1 ? 'error' : 'warning',
+      message: `${file.pages} pages — keep it to ${MAX_PAGES} or fewer`,
+    });
+  }
+  return issues;
+}
+
+/** Role dates by how they're written: "Jan 2020", "January 2020", "01/2020", "2020" */
+function dateStyles(parsed: ParsedResume): Map<string, string[]> {
+  const styles = new Map<string, string[]>();
+  for (const role of parsed.experience) {
+    for (const match of role.dates.matchAll(DATE_TOKEN_RE)) {
+      const [surface, month, number, separator] = match;
+      // "May" is both the abbreviation and the full name
+      if (month?.toLowerCase() === 'may') continue;
+      const style = month
+        ? (month.length > 3 && !/^sept$/i.test(month) ? 'Month YYYY' : 'Mon YYYY')
+        : number ? `MM${separator}YYYY` : 'YYYY';
+      styles.set(style, [...(styles.get(style) || []), surface.trim()]);
+    }
+  }
+  return styles;
+}
+
+/**
+ * Heading-like lines (short, all caps or ending in a colon, on their own)
+ * that aren't a heading an ATS knows
+ */
+function unusualHeadings(text: string, parsed: ParsedResume): string[] {
+  // Company, school and project names can be in capitals too
+  const entryNames = [
+    ...parsed.experience.flatMap((role) => [role.title, role.company]),
+    ...parsed.education.flatMap((entry) => [entry.institution, entry.degree]),
+    ...parsed.projects.map((project) => project.name),
+  ].filter((name): name is string => !!name && name.length > 2);
+  const found: string[] = [];
+  const lines = text.split('\n');
+  let offset = 0;
+  let seen = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const lineOffset = offset;
+    offset += lines[i].length + 1;
+    if (!line) continue;
+    // The name and contact lines come first
+    if (++seen <= 3) continue;
+
+    const bare = line.replace(/[:：]$/, '').trim();
+    const words = bare.split(/\s+/);
+    if (words.length > 4 || bare.length > 40 || /[\d,|@]/.test(bare) || BULLET_RE.test(line)) continue;
+    if ((bare.match(/\p{L}/gu) || []).length < 4) continue;
+    const allCaps = bare === bare.toUpperCase() && /\p{Lu}/u.test(bare);
+    if (!allCaps && !/[:：]$/.test(line)) continue;
+    if (resumeHeadingKind(line) || entryNames.some((name) => line.includes(name))) continue;
+    // Skill group labels ("Frontend:") sit under a skills heading
+    if (resumeSectionAt(parsed, lineOffset) === 'skills') continue;
+    // A heading has content under it
+    if (!lines[i + 1]?.trim()) continue;
+    found.push(bare);
+  }
+  return found;
+}
+
+/** Lines holding two runs of prose side by side, as plain-text columns do */
+function sideBySideLines(lines: string[]): string[] {
+  return lines.filter((line) => {
+    if (!COLUMN_GAP_RE.test(line) || line.includes('|')) return false;
+    const parts = line.trim().split(/ {4,}|\t+/);
+    if (parts.length < 2) return false;
+    return parts.every((part) => part.split(/\s+/).length >= 3 && !parseDateRange(part) && !/\b(?:19|20)\d{2}\b/.test(part));
+  });
+}
+
+/** Runs of three or more lines split into the same number of cells */
+function tableRows(lines: string[]): string[] {
+  const rows: string[] = [];
+  let run: string[] = [];
+  let cells = 0;
+  const flush = () => {
+    if (run.length >= 3) rows.push(...run);
+    run = [];
+  };
+  for (const line of lines) {
+    const count = line.trim() ? line.trim().split(TABLE_CELL_SPLIT_RE).length : 0;
+    if (count >= 3 && (run.length === 0 || count === cells)) {
+      run.push(line.trim());
+      cells = count;
+    } else {
+      flush();
+      if (count >= 3) {
+        run.push(line.trim());
+        cells = count;
+      }
+    }
+  }
+  flush();
+  return rows;
+}
+
+function textIssues(text: string, parsed: ParsedResume, file: ResumeFileFacts | null | undefined): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const lines = text.split('\n');
+
+  // Contact details only in a page header are reported with the header
+  const headerText = file?.headerFooterText.join('\n') || '';
+  if (!parsed.contact.email && !EMAIL_RE.test(headerText)) {
+    issues.push({ check: 'contact', severity: 'error', message: 'No email address found at the top of the resume' });
+  }
+  if (!parsed.contact.phone && !PHONE_RE.test(headerText)) {
+    issues.push({ check: 'contact', severity: 'warning', message: 'No phone number found at the top of the resume' });
+  }
+  if (!parsed.contact.name) {
+    issues.push({ check: 'contact', severity: 'warning', message: 'No name found on the first line' });
+  }
+
+  if (!parsed.sections.some((section) => section.kind === 'experience') && parsed.experience.length === 0) {
+    issues.push({ check: 'headings', severity: 'warning', message: 'No Experience section — label it "Experience" or "Work Experience"' });
+  }
+  if (!parsed.sections.some((section) => section.kind === 'education')) {
+    issues.push({ check: 'headings', severity: 'info', message: 'No Education section' });
+  }
+  const headings = unusualHeadings(text, parsed);
+  if (headings.length > 0) {
+    issues.push({
+      check: 'headings',
+      severity: 'warning',
+      message: 'Headings an ATS may not recognize — use standard ones like Summary, Experience, Education, Skills',
+      examples: headings.slice(0, 5),
+    });
+  }
+
+  const styles = dateStyles(parsed);
+  if (styles.size > 1) {
+    issues.push({
+      check: 'dates',
+      severity: 'warning',
+      message: `Dates written ${styles.size} ways (${[...styles.keys()].join(', ')}) — use one format throughout`,
+      examples: [...styles.values()].map((surfaces) => surfaces[0]),
+    });
+  }
+
+  if (!file) {
+    const sideBySide = sideBySideLines(lines);
+    const nonBlank = lines.filter((line) => line.trim()).length;
+    if (sideBySide.length >= 5 && sideBySide.length / nonBlank >= 0.15) {
+      issues.push({
+        check: 'columns',
+        severity: 'warning',
+        message: 'Text laid out side by side in columns — an ATS reads across and mixes them',
+        examples: sideBySide.slice(0, 2),
+      });
+    }
+    const rows = tableRows(lines);
+    if (rows.length > 0) {
+      issues.push({
+        check: 'tables',
+        severity: 'warning',
+        message: 'Table-like rows of cells — an ATS may read them out of order',
+        examples: rows.slice(0, 2),
+      });
+    }
+  }
+
+  const words = text.split(/\s+/).filter(Boolean).length;
+  if (!file?.pages && words > MAX_WORDS) {
+    issues.push({
+      check: 'length',
+      severity: words > TOO_MANY_WORDS ? 'error' : 'warning',
+      message: `${words} words (about ${Math.ceil(words / WORDS_PER_PAGE)} pages) — keep it to ${MAX_PAGES} pages`,
+    });
+  } else if (words < MIN_WORDS && file?.hasText !== false) {
+    issues.push({ check: 'length', severity: 'warning', message: `Only ${words} words — too little for an ATS to match against` });
+  }
+  return issues;
+}
+
+/**
+ * Check a resume's layout (when its file was inspected) and text
+ */
+export function lintResume(input: LintInput): ResumeLintReport {
+  const { text, file, fileType } = input;
+  const issues: LintIssue[] = [];
+
+  if (file) issues.push(...fileIssues(file, text));
+  if (fileType === 'application/msword') {
+    issues.push({ check: 'format', severity: 'warning', message: 'Legacy .doc file — some ATS parse it poorly; upload a .docx or PDF' });
+  }
+  if (text !== undefined) {
+    issues.push(...textIssues(text, input.parsed ?? parseResume(text), file));
+  } else if (file?.hasText !== false) {
+    issues.push({
+      check: 'format',
+      severity: 'info',
+      message: 'Contact, date, heading and length checks need the resume text — upload a DOCX or TXT copy to run them',
+    });
+  }
+
+  issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  return {
+    version: RESUME_LINT_VERSION,
+    issues,
+    fileChecked: !!file,
+    ...(file && file.hiddenText.length > 0 ? { hiddenText: file.hiddenText } : {}),
+  };
+}
+
+/**
+ * Read a PDF or DOCX file's layout facts; null for other formats and
+ * unreadable files
+ */
+export async function inspectResumeFile(file: Blob & { name?: string }): Promise<ResumeFileFacts | null> {
+  const name = file.name?.toLowerCase() || '';
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return inspectPdf(bytes);
+  if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || name.endsWith('.docx')) {
+    return inspectDocx(bytes);
+  }
+  return null;
+}
@@ -0,0 +1,43 @@
+/**
+ * Byte Helpers
+ * Decompression through the platform's DecompressionStream, so reading DOCX
+ * and PDF files needs no bundled zip or zlib code.
+ */
+
+/** Stop reading a stream past this many bytes; resumes are far smaller */
+const MAX_INFLATED_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Inflate zlib ("deflate") or raw deflate ("deflate-raw") data. Truncated or
+ * corrupt data yields whatever could be read before the error.
+ */
+export async function inflate(bytes: Uint8Array, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> {
+  const reader = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  try {
+    while (total < MAX_INFLATED_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      total += value.length;
+    }
+  } catch {
+    // Keep the part that inflated
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/** Bytes as a string of the same length, one char per byte, for scanning binary formats */
+export function latin1(bytes: Uint8Array): string {
+  return new TextDecoder('latin1').decode(bytes);
+}
@@ -0,0 +1,315 @@
+/**
+ * PDF Inspection
+ * Reads a PDF's objects and page content streams without rendering it:
+ * page count, fonts (and which are embedded), images, whether there is
+ * selectable text, invisible or tiny text, text in header/footer artifacts,
+ * and whether lines start at a shared mid-page edge, the mark of a second
+ * column.
+ */
+
+import type { ResumeFileFacts } from './index';
+import { inflate, latin1 } from './inflate';
+
+/** Streams past this are not read; a resume has a handful */
+const MAX_STREAMS = 400;
+/** Share of page width where a second column's left edge can sit */
+const MID_PAGE_BAND: [number, number] = [0.25, 0.65];
+/** Rows starting at one mid-page edge before it counts as a column */
+const MIN_COLUMN_ROWS = 8;
+const MIN_COLUMN_SHARE = 0.25;
+/** Text smaller than this many points can't be read on the page */
+const MIN_VISIBLE_SIZE = 2;
+/** Text render mode that paints nothing */
+const INVISIBLE_RENDER_MODE = 3;
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+interface ContentFacts {
+  /** Where each run of text starts, in page space */
+  runs: Array<{ x: number; y: number }>;
+  shownText: number;
+  artifactBlocks: number;
+  artifactText: string[];
+  hiddenChars: number;
+  hiddenText: string[];
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  fontSize: number;
+  renderMode: number;
+}
+
+type Token = { kind: 'number'; value: number } | { kind: 'name'; value: string } | { kind: 'string'; value: string } | { kind: 'operator'; value: string };
+
+/** Literal string "(...)" starting at `start`; returns its text and the index after it */
+function readLiteral(content: string, start: number): [string, number] {
+  let depth = 0;
+  let out = '';
+  for (let i = start; i < content.length; i++) {
+    const c = content[i];
+    if (c === '\\') {
+      const next = content[i + 1];
+      const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/);
+      if (octal) {
+        out += String.fromCharCode(parseInt(octal[0], 8));
+        i += octal[0].length;
+      } else {
+        out += ({ n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' } as Record<string, string>)[next] ?? next;
+        i++;
+      }
+      continue;
+    }
+    if (c === '(') {
+      if (depth++ > 0) out += c;
+      continue;
+    }
+    if (c === ')') {
+      if (--depth === 0) return [out, i + 1];
+      out += c;
+      continue;
+    }
+    out += c;
+  }
+  return [out, content.length];
+}
+
+const TOKEN_RE = /\s+|%[^\r\n]*|<<|>>|<[\da-fA-F\s]*>|\[|\]|\{|\}|\/[^\s/<>[\](){}%]*|[+-]?(?:\d+\.?\d*|\.\d+)|[^\s/<>[\](){}%]+/y;
+
+function* tokens(content: string): Generator<Token> {
+  let i = 0;
+  while (i < content.length) {
+    if (content[i] === '(') {
+      const [value, end] = readLiteral(content, i);
+      i = end;
+      yield { kind: 'string', value };
+      continue;
+    }
+    TOKEN_RE.lastIndex = i;
+    const match = TOKEN_RE.exec(content);
+    if (!match) {
+      i++;
+      continue;
+    }
+    const text = match[0];
+    i += text.length;
+    if (/^\s|^%/.test(text) || text === '<<' || text === '>>' || text === '[' || text === ']' || text === '{' || text === '}') continue;
+    if (text[0] === '<') {
+      const hex = text.slice(1, -1).replace(/\s/g, '');
+      yield { kind: 'string', value: hex.length % 4 === 0 && /^(?:00[\da-f]{2})+$/i.test(hex)
+        ? String.fromCharCode(...(hex.match(/.{4}/g) || []).map((h) => parseInt(h, 16)))
+        : String.fromCharCode(...(hex.match(/.{2}/g) || []).map((h) => parseInt(h, 16))) };
+    } else if (text[0] === '/') yield { kind: 'name', value: text.slice(1) };
+    else if (/^[+-]?[\d.]/.test(text)) yield { kind: 'number', value: parseFloat(text) };
+    else if (text === 'BI') {
+      // Inline image data is binary; skip to its end
+      const end = content.indexOf('EI', i);
+      i = end < 0 ? content.length : end + 2;
+    } else yield { kind: 'operator', value: text };
+  }
+}
+
+/** Text a reader can use: mostly printable characters */
+function readable(text: string): boolean {
+  const printable = text.replace(/[^\x20-\x7e\u00a0-\u024f]/g, '').length;
+  return text.trim().length > 0 && printable / text.length > 0.8;
+}
+
+/**
+ * Run a content stream's text and graphics state operators, noting where
+ * text runs start and which text sits in header/footer artifacts
+ */
+function readContent(content: string, facts: ContentFacts): void {
+  let state: GraphicsState = { ctm: IDENTITY, fontSize: 0, renderMode: 0 };
+  const stack: GraphicsState[] = [];
+  let tm: Matrix = IDENTITY;
+  let tlm: Matrix = IDENTITY;
+  let leading = 0;
+  // Marked content: whether each open block is a header/footer artifact
+  const marked: boolean[] = [];
+  let artifactParts: string[] = [];
+  let hiddenParts: string[] = [];
+  let numbers: number[] = [];
+  let names: string[] = [];
+  let strings: string[] = [];
+
+  const show = () => {
+    const text = strings.join('');
+    if (!text.trim()) return;
+    if (marked.includes(true)) {
+      artifactParts.push(text);
+      return;
+    }
+    const size = state.fontSize * Math.hypot(tm[2], tm[3]) * Math.hypot(state.ctm[2], state.ctm[3]);
+    if (state.renderMode === INVISIBLE_RENDER_MODE || (state.fontSize > 0 && size < MIN_VISIBLE_SIZE)) {
+      facts.hiddenChars += text.length;
+      hiddenParts.push(text);
+      return;
+    }
+    facts.shownText += text.length;
+    const [a, b, c, d, e, f] = state.ctm;
+    facts.runs.push({ x: tm[4] * a + tm[5] * c + e, y: tm[4] * b + tm[5] * d + f });
+  };
+  const nextLine = () => {
+    tlm = multiply([1, 0, 0, 1, 0, -leading], tlm);
+    tm = tlm;
+  };
+
+  for (const token of tokens(content)) {
+    if (token.kind === 'number') numbers.push(token.value);
+    else if (token.kind === 'name') names.push(token.value);
+    else if (token.kind === 'string') strings.push(token.value);
+    else {
+      const n = numbers.slice(-6);
+      switch (token.value) {
+        case 'q': stack.push({ ...state }); break;
+        case 'Q': state = stack.pop() || { ctm: IDENTITY, fontSize: 0, renderMode: 0 }; break;
+        case 'cm': if (n.length === 6) state.ctm = multiply(n as Matrix, state.ctm); break;
+        case 'Tf': state.fontSize = numbers[numbers.length - 1] ?? state.fontSize; break;
+        case 'Tr': state.renderMode = numbers[numbers.length - 1] ?? state.renderMode; break;
+        case 'BT': tm = tlm = IDENTITY; break;
+        case 'ET': {
+          const hidden = hiddenParts.join('').trim();
+          if (hidden && readable(hidden)) facts.hiddenText.push(hidden);
+          hiddenParts = [];
+          break;
+        }
+        case 'Tm': if (n.length === 6) tm = tlm = n as Matrix; break;
+        case 'TL': leading = numbers[numbers.length - 1] ?? leading; break;
+        case 'TD':
+          leading = -(numbers[numbers.length - 1] ?? 0);
+          tlm = multiply([1, 0, 0, 1, numbers[numbers.length - 2] ?? 0, numbers[numbers.length - 1] ?? 0], tlm);
+          tm = tlm;
+          break;
+        case 'Td':
+          tlm = multiply([1, 0, 0, 1, numbers[numbers.length - 2] ?? 0, numbers[numbers.length - 1] ?? 0], tlm);
+          tm = tlm;
+          break;
+        case 'T*': nextLine(); break;
+        case "'": case '"': nextLine(); show(); break;
+        case 'Tj': case 'TJ': show(); break;
+        case 'BMC': marked.push(false); break;
+        case 'BDC':
+          marked.push(names[0] === 'Artifact' && names.some((name) => /^(?:Pagination|Header|Footer|Top|Bottom)$/.test(name)));
+          break;
+        case 'EMC':
+          if (marked.pop() && artifactParts.length > 0) {
+            facts.artifactBlocks++;
+            const text = artifactParts.join('').trim();
+            if (readable(text)) facts.artifactText.push(text);
+            artifactParts = [];
+          }
+          break;
+      }
+      numbers = [];
+      names = [];
+      strings = [];
+    }
+  }
+}
+
+/**
+ * Lines starting at one shared mid-page x, across enough rows to be a
+ * column rather than centred headings or inline formatting
+ */
+function columnCount(runs: ContentFacts['runs'], pageWidth: number): number {
+  const rows = new Set(runs.map((run) => Math.round(run.y / 2)));
+  if (rows.size < MIN_COLUMN_ROWS) return 1;
+  const edges = new Map<number, Set<number>>();
+  for (const run of runs) {
+    const share = run.x / pageWidth;
+    if (share < MID_PAGE_BAND[0] || share > MID_PAGE_BAND[1]) continue;
+    const edge = Math.round(run.x / 3);
+    edges.set(edge, (edges.get(edge) || new Set()).add(Math.round(run.y / 2)));
+  }
+  const best = Math.max(0, ...[...edges.values()].map((edgeRows) => edgeRows.size));
+  return best >= MIN_COLUMN_ROWS && best / rows.size >= MIN_COLUMN_SHARE ? 2 : 1;
+}
+
+const NAME_CHARS = '[^\\s/<>\\[\\]()]+';
+
+function pdfName(name: string): string {
+  return name.replace(/#([\da-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))).replace(/^[A-Z]{6}\+/, '');
+}
+
+/**
+ * Facts about a PDF file's layout and text
+ */
+export async function inspectPdf(bytes: Uint8Array): Promise<ResumeFileFacts | null> {
+  const raw = latin1(bytes);
+  if (!raw.slice(0, 1024).includes('%PDF')) return null;
+
+  const objectText: string[] = [raw];
+  const facts: ContentFacts = { runs: [], shownText: 0, artifactBlocks: 0, artifactText: [], hiddenChars: 0, hiddenText: [] };
+  const pageRuns: ContentFacts['runs'][] = [];
+
+  const streamRe = /\bobj\s*(<<(?:(?!endobj)[\s\S])*?>>)\s*stream\r?\n/g;
+  let streams = 0;
+  for (const match of raw.matchAll(streamRe)) {
+    if (++streams > MAX_STREAMS) break;
+    const dict = match[1];
+    // Only content streams, form XObjects and object streams hold what's checked here
+    if (/\/(?:Length1|Length2|Length3)\b|\/Subtype\s*\/(?!Form\b)|\/Type\s*\/(?:XRef|Metadata|EmbeddedFile)\b/.test(dict)) continue;
+    const start = (match.index ?? 0) + match[0].length;
+    const length = dict.match(/\/Length\s+(\d+)\b(?!\s+\d+\s+R)/);
+    let end = length ? start + +length[1] : raw.indexOf('endstream', start);
+    if (end < start || end > raw.length) end = raw.indexOf('endstream', start);
+    if (end < 0) continue;
+
+    const data = bytes.subarray(start, end);
+    const filter = dict.match(/\/Filter\s*\[?\s*\/(\w+)/)?.[1];
+    if (filter && filter !== 'FlateDecode') continue;
+    const text = latin1(filter ? await inflate(data, 'deflate') : data);
+
+    if (/\/Type\s*\/ObjStm\b/.test(dict)) {
+      objectText.push(text);
+    } else if (/\bBT\b/.test(text)) {
+      const before = facts.runs.length;
+      readContent(text, facts);
+      pageRuns.push(facts.runs.slice(before));
+    }
+  }
+
+  const objects = objectText.join('\n');
+  const pages = (objects.match(/\/Type\s*\/Page(?![a-zA-Z])/g) || []).length;
+  const mediaBox = objects.match(/\/MediaBox\s*\[\s*([-\d.]+)\s+[-\d.]+\s+([-\d.]+)/);
+  const pageWidth = mediaBox ? Math.abs(+mediaBox[2] - +mediaBox[1]) || 612 : 612;
+
+  const fonts = new Set<string>();
+  for (const match of objects.matchAll(new RegExp(`/BaseFont\\s*/(${NAME_CHARS})`, 'g'))) fonts.add(pdfName(match[1]));
+  const embeddedFonts = new Set<string>();
+  for (const match of objects.matchAll(/<<((?:(?!>>)[\s\S])*?\/FontFile[23]?\b(?:(?!>>)[\s\S])*?)>>/g)) {
+    const name = match[1].match(new RegExp(`/FontName\\s*/(${NAME_CHARS})`));
+    if (name) embeddedFonts.add(pdfName(name[1]));
+  }
+
+  const images = (objects.match(/\/Subtype\s*\/Image\b/g) || []).length;
+  // Invisible text over page images is a scan's OCR layer, which is what an ATS reads
+  const ocrLayer = facts.shownText === 0 && facts.hiddenChars > 0 && images > 0;
+
+  return {
+    format: 'pdf',
+    ...(pages > 0 ? { pages } : {}),
+    columns: Math.max(1, ...pageRuns.map((runs) => columnCount(runs, pageWidth))),
+    headerFooterText: facts.artifactText,
+    headerFooterBlocks: facts.artifactBlocks,
+    images,
+    hasText: facts.shownText > 0 || ocrLayer,
+    hiddenText: ocrLayer ? [] : facts.hiddenText,
+    fonts: [...fonts],
+    embeddedFonts: [...embeddedFonts],
+  };
+}
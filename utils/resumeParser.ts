@@ -0,0 +1,513 @@
+/**
+ * Resume Structure Parser
+ * Splits a plain-text resume into contact details, summary, experience
+ * (company, title, dates, bullets), education, skills, projects and
+ * certifications, so checks can tell a keyword in a skills list from one in
+ * a recent role. The result is stored with the resume; bump the version when
+ * the output changes so stored copies are parsed again.
+ */
+
+import { DegreeLevel, detectDegrees } from './credentials/degrees';
+
+export const RESUME_PARSER_VERSION = 1;
+
+export type ResumeSectionKind =
+  | 'contact'
+  | 'summary'
+  | 'experience'
+  | 'education'
+  | 'skills'
+  | 'projects'
+  | 'certifications'
+  | 'other';
+
+export interface ResumeSection {
+  kind: ResumeSectionKind;
+  /** Heading as written (empty for the untitled header) */
+  heading: string;
+  text: string;
+  /** Offsets of the section in the raw text, end exclusive */
+  start: number;
+  end: number;
+}
+
+export interface ResumeDate {
+  year: number;
+  /** 1-12; absent for year-only dates */
+  month?: number;
+}
+
+export interface ResumeContact {
+  name?: string;
+  email?: string;
+  phone?: string;
+  location?: string;
+  links: string[];
+}
+
+export interface ResumeRole {
+  title?: string;
+  company?: string;
+  location?: string;
+  /** The date range as written */
+  dates: string;
+  start: ResumeDate;
+  /** Absent while current */
+  end?: ResumeDate;
+  current: boolean;
+  bullets: string[];
+  /** Header and bullets */
+  text: string;
+}
+
+export interface ResumeEducation {
+  institution?: string;
+  /** The degree as written: "B.Sc. in Computer Science" */
+  degree?: string;
+  level?: DegreeLevel;
+  fields: string[];
+  start?: ResumeDate;
+  end?: ResumeDate;
+  text: string;
+}
+
+export interface ResumeProject {
+  name: string;
+  description?: string;
+  bullets: string[];
+  text: string;
+}
+
+export interface ParsedResume {
+  version: number;
+  contact: ResumeContact;
+  summary?: string;
+  sections: ResumeSection[];
+  /** Most recent first, as resumes list them */
+  experience: ResumeRole[];
+  education: ResumeEducation[];
+  /** As written in the skills sections */
+  skills: string[];
+  projects: ResumeProject[];
+  /** Lines of the certifications sections */
+  certifications: string[];
+}
+
+export interface DateRange {
+  start: ResumeDate;
+  end?: ResumeDate;
+  current: boolean;
+  surface: string;
+  index: number;
+}
+
+interface Line {
+  text: string;
+  offset: number;
+}
+
+const HEADING_PATTERNS: Array<[ResumeSectionKind, RegExp]> = [
+  ['summary', /^(?:(?:professional|career|executive|personal)\s+)?(?:summary|profile|overview|statement)$|^about(?: me)?$|^(?:career\s+)?objective$/i],
+  ['experience', /^(?:(?:work|professional|relevant|employment|career|industry)\s+)?(?:experience|history)$|^employment(?: history)?$|^positions?(?: held)?$|^volunteer(?:ing| experience| work)?$/i],
+  ['education', /^education(?:al background)?$|^academic (?:background|history|qualifications)$|^academics$|^education (?:&|and) (?:training|certifications?)$/i],
+  ['skills', /^(?:(?:technical|core|key|professional|relevant|hard|soft)\s+)?(?:skills|competencies|expertise)$|^skills (?:&|and) (?:tools|technologies|expertise|abilities)$|^technologies$|^tech(?:nical)? stack$|^tools(?: (?:&|and) technologies)?$/i],
+  ['projects', /^(?:(?:personal|side|selected|key|academic|open[- ]source)\s+)?projects$|^portfolio$/i],
+  ['certifications', /^certifications?$|^licen[cs]es?(?: (?:&|and) certifications?)?$|^certifications? (?:&|and) (?:licen[cs]es|training|courses)$|^certificates$|^courses$|^training$|^professional development$/i],
+  ['other', /^(?:languages|interests|hobbies|publications|awards|honou?rs(?: (?:&|and) awards)?|achievements|references|activities|additional information|extracurricular activities)$/i],
+];
+
+const BULLET_RE = /^\s*(?:[•\-*·▪◦●–—►✓✔]|\d{1,2}[.)])\s+/;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+const MONTH_NAME = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DATE_PATTERN = `(?:${MONTH_NAME}\\.?,?\\s+|(\\d{1,2})\\s*[/.]\\s*)?((?:19|20)\\d{2})`;
+const DATE_RANGE_RE = new RegExp(
+  `${DATE_PATTERN}\\s*(?:-|–|—|to|until)\\s*(?:(present|current|now|today|ongoing)|${DATE_PATTERN})`,
+  'i'
+);
+const YEAR_RE = /\b(?:19|20)\d{2}\b/g;
+
+/** Lines above a date line that can still be part of its header (company, title) */
+const MAX_HEADER_LINES = 2;
+const MAX_HEADER_LENGTH = 80;
+const MAX_HEADING_LENGTH = 50;
+/** Header lines longer than this are prose: an untitled summary */
+const MIN_SUMMARY_LINE = 100;
+
+const EMAIL_RE = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const PHONE_RE = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}/g;
+const LINK_RE = /\b(?:https?:\/\/|www\.)[^\s|,;]+|\b(?:linkedin\.com|github\.com|gitlab\.com|behance\.net|dribbble\.com|medium\.com)\/[^\s|,;]+/gi;
+const LOCATION_RE = /^(?:remote|hybrid|[\p{Lu}][\p{L}.' -]+,\s*[\p{Lu}][\p{L}.' -]+)$/iu;
+const SEGMENT_SPLIT_RE = /\s*[|•·◆♦]\s*|\s+[–—]\s+|\s+-\s+|\t|\s{3,}/;
+const TITLE_WORDS_RE = /\b(?:engineer|developer|programmer|manager|analyst|designer|director|lead|head|consultant|specialist|intern|architect|scientist|officer|coordinator|administrator|assistant|associate|representative|technician|nurse|teacher|accountant|executive|president|vp|founder|co-founder|owner|editor|writer|researcher|recruiter|advisor|strategist|supervisor|agent|clerk|cashier|chef|instructor|tutor|trainer|fellow|apprentice|contractor|freelancer|sre|cto|ceo|cfo|coo)s?\b/i;
+const INSTITUTION_RE = /\b(?:universit(?:y|é|à|ät)|college|institute|school|academy|polytechnic|uniwersytet|politechnika|hochschule)\b/i;
+const SKILL_SPLIT_RE = /\s*[,;|•·]\s*|\t|\s{2,}/;
+const MAX_SKILL_LENGTH = 50;
+const MAX_SKILL_WORDS = 6;
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let offset = 0;
+  for (const raw of text.split('\n')) {
+    lines.push({ text: raw.replace(/\r$/, ''), offset });
+    offset += raw.length + 1;
+  }
+  return lines;
+}
+
+/**
+ * The section a heading line starts, or null for a line that isn't a known heading
+ */
+export function resumeHeadingKind(line: string): ResumeSectionKind | null {
+  const bare = line.trim().replace(/^[#=*_\s]+|[:：#=*_\s]+$/g, '');
+  if (!bare || bare.length > MAX_HEADING_LENGTH || BULLET_RE.test(line)) return null;
+  for (const [kind, pattern] of HEADING_PATTERNS) {
+    if (pattern.test(bare)) return kind;
+  }
+  return null;
+}
+
+function toDate(monthName: string | undefined, monthNumber: string | undefined, year: string): ResumeDate {
+  const date: ResumeDate = { year: parseInt(year, 10) };
+  if (monthName) date.month = MONTHS[monthName.slice(0, 4).toLowerCase()] ?? MONTHS[monthName.slice(0, 3).toLowerCase()];
+  else if (monthNumber && +monthNumber >= 1 && +monthNumber <= 12) date.month = +monthNumber;
+  return date;
+}
+
+/** Sort key for comparing dates; year-only dates sit mid-year */
+function dateKey(date: ResumeDate): number {
+  return date.year * 12 + (date.month ?? 6);
+}
+
+/**
+ * The first date range in a text: "Jan 2019 – Present", "03/2016 - 12/2019", "2014–2018"
+ */
+export function parseDateRange(text: string): DateRange | null {
+  const match = text.match(DATE_RANGE_RE);
+  if (!match) return null;
+  const start = toDate(match[1], match[2], match[3]);
+  const current = !!match[4];
+  const end = current ? undefined : toDate(match[5], match[6], match[7]);
+  if (end && dateKey(end) < dateKey(start)) return null;
+  return { start, end, current, surface: match[0], index: match.index ?? 0 };
+}
+
+function isBullet(line: string): boolean {
+  return BULLET_RE.test(line);
+}
+
+function stripBullet(line: string): string {
+  return line.replace(BULLET_RE, '').trim();
+}
+
+/**
+ * Bullets of a block: bullet lines, with wrapped continuation lines joined
+ * back on, and any other line as its own item
+ */
+function collectBullets(lines: Line[]): string[] {
+  const bullets: string[] = [];
+  let lastWasBullet = false;
+  for (const { text } of lines) {
+    const line = text.trim();
+    if (!line) {
+      lastWasBullet = false;
+      continue;
+    }
+    if (isBullet(text)) {
+      bullets.push(stripBullet(text));
+      lastWasBullet = true;
+    } else if (lastWasBullet && /^[a-z(]/.test(line)) {
+      bullets[bullets.length - 1] += ` ${line}`;
+    } else {
+      bullets.push(line);
+      lastWasBullet = false;
+    }
+  }
+  return bullets;
+}
+
+function parseContact(lines: Line[]): ResumeContact {
+  const contact: ResumeContact = { links: [] };
+  const segments = lines.flatMap(({ text }) => text.split(SEGMENT_SPLIT_RE)).map((s) => s.trim()).filter(Boolean);
+
+  for (const segment of segments) {
+    const email = segment.match(EMAIL_RE);
+    if (email && !contact.email) contact.email = email[0];
+    for (const link of segment.match(LINK_RE) || []) {
+      if (!contact.links.includes(link)) contact.links.push(link);
+    }
+    if (!contact.phone && !email) {
+      const phone = (segment.match(PHONE_RE) || []).find((candidate) => {
+        const digits = candidate.replace(/\D/g, '').length;
+        return digits >= 7 && digits <= 15 && !parseDateRange(candidate);
+      });
+      if (phone) contact.phone = phone.trim();
+    }
+    if (!contact.location && !/\d|@/.test(segment) && LOCATION_RE.test(segment)) contact.location = segment;
+  }
+
+  // The name is the first short line that is nothing else
+  const first = lines.find(({ text }) => text.trim())?.text.split(SEGMENT_SPLIT_RE)[0].trim();
+  if (first && !/[\d@/]/.test(first) && first.split(/\s+/).length <= 5 && first !== contact.location) {
+    contact.name = first;
+  }
+  return contact;
+}
+
+/**
+ * Title, company and location from a role's header: "Senior Engineer at
+ * Acme", "Acme Corp | Backend Developer | Berlin, Germany", or two lines
+ */
+function parseRoleHeader(header: string[]): Pick<ResumeRole, 'title' | 'company' | 'location'> {
+  const role: Pick<ResumeRole, 'title' | 'company' | 'location'> = {};
+  const parts = header.flatMap((line) => line.split(SEGMENT_SPLIT_RE)).map((p) => p.replace(/^[,(\s]+|[,)\s]+$/g, '')).filter(Boolean);
+  const rest: string[] = [];
+
+  for (const part of parts) {
+    const at = part.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+    if (at && !role.title && TITLE_WORDS_RE.test(at[1])) {
+      role.title = at[1].trim();
+      role.company = at[2].trim();
+      continue;
+    }
+    if (!role.location && LOCATION_RE.test(part) && !TITLE_WORDS_RE.test(part)) {
+      role.location = part;
+      continue;
+    }
+    // "Software Engineer, Acme Corp"
+    const comma = part.match(/^(.+?),\s+(.+)$/);
+    if (comma && !role.title && TITLE_WORDS_RE.test(comma[1]) && !TITLE_WORDS_RE.test(comma[2])) {
+      role.title = comma[1].trim();
+      if (!role.company) role.company = comma[2].trim();
+      continue;
+    }
+    if (!role.title && TITLE_WORDS_RE.test(part)) {
+      role.title = part;
+      continue;
+    }
+    rest.push(part);
+  }
+  if (!role.company && rest.length > 0) role.company = rest[0];
+  return role;
+}
+
+/**
+ * Roles of a block of lines: each line with a date range starts a role,
+ * taking the short header lines just above it, and runs until the next one
+ */
+function parseRoles(lines: Line[]): ResumeRole[] {
+  const starts = lines
+    .map((line, i) => ({ i, range: parseDateRange(line.text) }))
+    .filter((s): s is { i: number; range: DateRange } => s.range !== null);
+
+  const headerStarts = starts.map(({ i }, r) => {
+    const floor = r > 0 ? starts[r - 1].i + 1 : 0;
+    let first = i;
+    while (
+      first - 1 >= floor &&
+      i - (first - 1) <= MAX_HEADER_LINES &&
+      lines[first - 1].text.trim() &&
+      !isBullet(lines[first - 1].text) &&
+      lines[first - 1].text.length <= MAX_HEADER_LENGTH &&
+      !/[.;]\s*$/.test(lines[first - 1].text)
+    ) first--;
+    return first;
+  });
+
+  return starts.map(({ i, range }, r) => {
+    const last = r + 1 < starts.length ? headerStarts[r + 1] : lines.length;
+    const dateLine = lines[i].text;
+    const remainder = (dateLine.slice(0, range.index) + dateLine.slice(range.index + range.surface.length)).trim();
+    const header = [...lines.slice(headerStarts[r], i).map((l) => l.text.trim()), remainder].filter(Boolean);
+
+    return {
+      ...parseRoleHeader(header),
+      dates: range.surface,
+      start: range.start,
+      end: range.end,
+      current: range.current,
+      bullets: collectBullets(lines.slice(i + 1, last)),
+      text: lines.slice(headerStarts[r], last).map((l) => l.text).join('\n').trim(),
+    };
+  });
+}
+
+function parseEducation(lines: Line[]): ResumeEducation[] {
+  // One entry per degree or institution, or per blank-line separated block
+  const entries: Line[][] = [];
+  let current: Line[] = [];
+  let has = { degree: false, institution: false };
+  const flush = () => {
+    if (current.length > 0) entries.push(current);
+    current = [];
+    has = { degree: false, institution: false };
+  };
+
+  for (const line of lines) {
+    if (!line.text.trim()) {
+      flush();
+      continue;
+    }
+    const degree = detectDegrees(line.text).length > 0;
+    const institution = INSTITUTION_RE.test(line.text);
+    if ((degree && has.degree) || (institution && has.institution && !degree)) flush();
+    current.push(line);
+    has = { degree: has.degree || degree, institution: has.institution || institution };
+  }
+  flush();
+
+  return entries.map((entry) => {
+    const text = entry.map((l) => stripBullet(l.text)).join('\n');
+    const degree = detectDegrees(text)[0];
+    const segments = entry.flatMap((l) => stripBullet(l.text).split(SEGMENT_SPLIT_RE)).map((s) => s.trim());
+    const range = parseDateRange(text);
+    const years = [...text.matchAll(YEAR_RE)].map((m) => parseInt(m[0], 10));
+
+    const education: ResumeEducation = {
+      fields: degree?.fields || [],
+      text,
+    };
+    const institution = segments.flatMap((s) => s.split(/,\s+/)).find((s) => INSTITUTION_RE.test(s));
+    if (institution) education.institution = institution.trim();
+    if (degree) {
+      education.level = degree.level;
+      // "B.Sc. in Computer Science, University of Warsaw, 2016" → the part before the school or year
+      const segment = segments.find((s) => s.includes(degree.surface)) || '';
+      const parts = segment.split(/,\s+/);
+      const cut = parts.findIndex((part, i) => i > 0 && (INSTITUTION_RE.test(part) || /\b(?:19|20)\d{2}\b/.test(part)));
+      education.degree = (cut > 0 ? parts.slice(0, cut) : parts).join(', ').trim();
+    }
+    if (range) {
+      education.start = range.start;
+      if (range.end) education.end = range.end;
+    } else if (years.length > 0) {
+      // A lone year is the graduation year
+      education.end = { year: Math.max(...years) };
+    }
+    return education;
+  });
+}
+
+function parseSkills(lines: Line[]): string[] {
+  const skills: string[] = [];
+  const seen = new Set<string>();
+  for (const { text } of lines) {
+    // "Languages: Go, Python" lists skills under a label
+    const line = stripBullet(text).replace(/^[^:,]{2,30}:\s*/, '');
+    for (const item of line.split(SKILL_SPLIT_RE)) {
+      const skill = item.trim().replace(/\.$/, '');
+      if (!skill || skill.length > MAX_SKILL_LENGTH || skill.split(/\s+/).length > MAX_SKILL_WORDS) continue;
+      if (seen.has(skill.toLowerCase())) continue;
+      seen.add(skill.toLowerCase());
+      skills.push(skill);
+    }
+  }
+  return skills;
+}
+
+function parseProjects(lines: Line[]): ResumeProject[] {
+  const projects: Array<{ name: string; description?: string; lines: Line[] }> = [];
+
+  for (const line of lines) {
+    const text = line.text.trim();
+    if (!text) continue;
+    const current = projects[projects.length - 1];
+    // A plain line after bullets (or the first line) names the next project
+    if (!isBullet(line.text) && (!current || current.lines.some((l) => isBullet(l.text)))) {
+      const range = parseDateRange(text);
+      const title = range ? (text.slice(0, range.index) + text.slice(range.index + range.surface.length)).trim() : text;
+      const [name, ...description] = title.split(/\s+[–—-]\s+|:\s+|\s*\|\s*/);
+      projects.push({ name: name.replace(/[,(\s]+$/, ''), description: description.join(' – ') || undefined, lines: [line] });
+      continue;
+    }
+    if (current) current.lines.push(line);
+    else projects.push({ name: text, lines: [line] });
+  }
+
+  return projects.map(({ name, description, lines: projectLines }) => ({
+    name,
+    ...(description ? { description } : {}),
+    bullets: collectBullets(projectLines.slice(1)),
+    text: projectLines.map((l) => l.text).join('\n').trim(),
+  }));
+}
+
+/**
+ * Parse a plain-text resume into its sections and structured entries
+ */
+export function parseResume(text: string): ParsedResume {
+  const lines = splitLines(text);
+  const blocks: Array<{ kind: ResumeSectionKind; heading: string; lines: Line[] }> = [];
+  let current: { kind: ResumeSectionKind; heading: string; lines: Line[] } = { kind: 'contact', heading: '', lines: [] };
+
+  for (const line of lines) {
+    const kind = resumeHeadingKind(line.text);
+    if (kind) {
+      if (current.lines.some((l) => l.text.trim()) || current.heading) blocks.push(current);
+      current = { kind, heading: line.text.trim().replace(/[:：]\s*$/, ''), lines: [] };
+      continue;
+    }
+    current.lines.push(line);
+  }
+  blocks.push(current);
+
+  // Without any headings, only the top lines are contact details
+  if (blocks.length === 1 && blocks[0].kind === 'contact') {
+    const blank = blocks[0].lines.findIndex((l, i) => i > 0 && !l.text.trim());
+    const split = blank > 0 ? blank : Math.min(blocks[0].lines.length, 4);
+    const rest = blocks[0].lines.slice(split);
+    blocks[0].lines = blocks[0].lines.slice(0, split);
+    blocks.push({ kind: 'other', heading: '', lines: rest });
+  }
+
+  const sections: ResumeSection[] = blocks
+    .filter((block) => block.lines.some((l) => l.text.trim()))
+    .map((block) => {
+      const content = block.lines.filter((l) => l.text.trim());
+      const first = content[0];
+      const last = content[content.length - 1];
+      return {
+        kind: block.kind,
+        heading: block.heading,
+        text: content.map((l) => l.text.trim()).join('\n'),
+        start: first.offset,
+        end: last.offset + last.text.length,
+      };
+    });
+
+  const linesOf = (kind: ResumeSectionKind) => blocks.filter((b) => b.kind === kind).map((b) => b.lines);
+  const contactLines = linesOf('contact').flat();
+  const isProse = (line: Line) => line.text.trim().length >= MIN_SUMMARY_LINE && !/[@|]/.test(line.text) && line.text.search(LINK_RE) < 0;
+  const header = contactLines.filter((l) => !isProse(l));
+  const prose = contactLines.filter(isProse);
+
+  // Roles come from experience sections, or from untitled text when there are none
+  const roleBlocks = linesOf('experience');
+  const roleScopes = roleBlocks.length > 0
+    ? roleBlocks
+    : blocks.filter((b) => b.kind === 'contact' || (b.kind === 'other' && !b.heading)).map((b) => b.lines);
+
+  const summary = sections.filter((s) => s.kind === 'summary').map((s) => s.text).join('\n')
+    || prose.map((l) => l.text.trim()).join('\n');
+
+  return {
+    version: RESUME_PARSER_VERSION,
+    contact: parseContact(header),
+    ...(summary ? { summary } : {}),
+    sections,
+    experience: roleScopes.flatMap(parseRoles),
+    education: linesOf('education').flatMap(parseEducation),
+    skills: parseSkills(linesOf('skills').flat()),
+    projects: linesOf('projects').flatMap(parseProjects),
+    certifications: linesOf('certifications').flat().map((l) => stripBullet(l.text)).filter(Boolean),
+  };
+}
+
+/**
+ * Kind of section a position in the raw resume text falls in
+ */
+export function resumeSectionAt(parsed: ParsedResume, index: number): ResumeSectionKind {
+  return parsed.sections.find((s) => index >= s.start && index < s.end)?.kind ?? 'other';
+}
@@ -0,0 +1,70 @@
+/**
+ * Resume Library
+ * Resumes live in chrome.storage.local under one key, shared by the side
+ * panel, the on-page overlay, fit badges and the background context menu.
+ */
+
+import { ParsedResume, parseResume, RESUME_PARSER_VERSION } from './resumeParser';
+import { lintResume, RESUME_LINT_VERSION, ResumeLintReport } from './resumeLint';
+
+export interface Resume {
+  id: string;
+  name: string;
+  content: string;
+  fileSize: number;
+  fileType: string;
+  uploadedAt: string;
+  selected: boolean;
+  /** Structure of `content`; missing on resumes stored before parsing existed */
+  parsed?: ParsedResume;
+  /** ATS readiness report from upload */
+  lint?: ResumeLintReport;
+}
+
+export const RESUMES_KEY = 'resumes';
+
+export async function loadResumes(): Promise<Resume[]> {
+  const data = await chrome.storage.local.get(RESUMES_KEY);
+  return Array.isArray(data?.[RESUMES_KEY]) ? (data[RESUMES_KEY] as Resume[]) : [];
+}
+
+/**
+ * The resume with its structure parsed, when missing or from an older parser
+ */
+export function withParsedResume(resume: Resume): Resume {
+  if (resume.parsed?.version === RESUME_PARSER_VERSION) return resume;
+  return { ...resume, parsed: parseResume(resume.content) };
+}
+
+/**
+ * The resume with a readiness report, for text resumes missing one or checked
+ * by older rules. A file's layout can only be checked on upload, while its
+ * bytes are at hand.
+ */
+export function withResumeLint(resume: Resume): Resume {
+  if (resume.fileType !== 'text/plain' || resume.lint?.version === RESUME_LINT_VERSION) return resume;
+  return { ...resume, lint: lintResume({ text: resume.content, parsed: resume.parsed, fileType: resume.fileType }) };
+}
+
+/**
+ * Add plain text to the library as a TXT resume, selected for scanning
+ */
+export async function addTextResume(name: string, content: string): Promise<Resume> {
+  const fileName = /\.txt$/i.test(name) ? name : `${name}.txt`;
+  const parsed = parseResume(content);
+  const resume: Resume = {
+    id: crypto.randomUUID(),
+    name: fileName,
+    content,
+    fileSize: new Blob([content]).size,
+    fileType: 'text/plain',
+    uploadedAt: new Date().toISOString(),
+    selected: true,
+    parsed,
+    lint: lintResume({ text: content, parsed, fileType: 'text/plain' }),
+  };
+
+  const resumes = await loadResumes();
+  await chrome.storage.local.set({ [RESUMES_KEY]: [...resumes, resume] });
+  return resume;
+}
@@ -0,0 +1,170 @@
+/**
+ * Background Scans
+ * Local scans run in a dedicated worker (entrypoints/scan-worker.ts), so
+ * scanning dozens of resumes against a long JD never freezes the side panel
+ * or the on-page overlay. The page posts a job; the worker analyses the JD
+ * once, scans the resumes one at a time and reports progress after each.
+ * Where no worker can start, the job runs on the page instead, yielding to
+ * the UI between resumes.
+ */
+
+import { analyzeJob, ATSResult, scanResume } from './atsScanner';
+import type { JDSection } from './jdSections';
+import type { ParsedResume } from './resumeParser';
+import { scoreSemanticMatch } from './semantic';
+import { getSkillAliases, UserSkillAliases } from './skills';
+
+export interface ScanJob {
+  resumes: Array<{ id: string; content: string; parsed?: ParsedResume; hiddenText?: string[] }>;
+  jobDescription: string;
+  sections?: JDSection[];
+  stemming?: boolean;
+  title?: string;
+  /** Blend in requirement-to-bullet similarity; with the embedding model when useModel */
+  semantic?: { useModel: boolean };
+}
+
+export interface ScanProgress {
+  /** Resumes scanned so far */
+  done: number;
+  total: number;
+}
+
+export type ScanJobResult = ATSResult & { resumeId: string };
+
+/** What the page posts to the worker */
+export interface ScanWorkerRequest {
+  id: number;
+  job: ScanJob;
+  /** The worker can't read storage, so the user's skill aliases travel with the job */
+  skillAliases: UserSkillAliases;
+  /** Extension root URL, for the semantic model's files */
+  assetBase: string;
+}
+
+/** What the worker posts back, tied to a request by id */
+export type ScanWorkerMessage =
+  | { type: 'progress'; id: number; progress: ScanProgress }
+  | { type: 'done'; id: number; results: ScanJobResult[] }
+  | { type: 'error'; id: number; message: string };
+
+interface PendingScan {
+  request: ScanWorkerRequest;
+  onProgress?: (progress: ScanProgress) => void;
+  resolve: (results: ScanJobResult[]) => void;
+  reject: (error: Error) => void;
+}
+
+const WORKER_PATH = '/scan-worker.js';
+
+/** undefined until the first scan; null when no worker could start */
+let worker: Worker | null | undefined;
+let starting: Promise<Worker | null> | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingScan>();
+
+/**
+ * Scan resumes against a JD, reporting progress after each resume. Both the
+ * worker and the on-page fallback run this.
+ */
+export async function runScanJob(
+  job: ScanJob,
+  assetBase: string,
+  onProgress?: (progress: ScanProgress) => void,
+  yieldBetween = false
+): Promise<ScanJobResult[]> {
+  const { jobDescription, sections, stemming, title } = job;
+  const analysis = analyzeJob(jobDescription, { sections, stemming, title });
+  const results: ScanJobResult[] = [];
+  onProgress?.({ done: 0, total: job.resumes.length });
+
+  for (const resume of job.resumes) {
+    const semantic = job.semantic
+      ? await scoreSemanticMatch(resume.content, jobDescription, { sections, parsed: resume.parsed, useModel: job.semantic.useModel, assetBase })
+      : undefined;
+    results.push({
+      resumeId: resume.id,
+      ...scanResume(resume.content, jobDescription, { job: analysis, sections, parsed: resume.parsed, hiddenText: resume.hiddenText, semantic }),
+    });
+    onProgress?.({ done: results.length, total: job.resumes.length });
+    if (yieldBetween) await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  return results;
+}
+
+/** Run a job on the page, for when the worker is unavailable or died */
+function runOnPage(scan: PendingScan): void {
+  runScanJob(scan.request.job, scan.request.assetBase, scan.onProgress, true).then(scan.resolve, scan.reject);
+}
+
+function handleMessage(event: MessageEvent<ScanWorkerMessage>): void {
+  const message = event.data;
+  const scan = pending.get(message.id);
+  if (!scan) return;
+  if (message.type === 'progress') {
+    scan.onProgress?.(message.progress);
+    return;
+  }
+  pending.delete(message.id);
+  if (message.type === 'done') scan.resolve(message.results);
+  else scan.reject(new Error(message.message));
+}
+
+/**
+ * Start the worker. Extension pages load it from the extension; content
+ * scripts run on the job site's origin and can't, so they start it from a
+ * copy of its code, which the site's CSP may still refuse.
+ */
+async function startWorker(): Promise<Worker | null> {
+  try {
+    const url = chrome.runtime.getURL(WORKER_PATH);
+    let started: Worker;
+    if (new URL(url).origin === self.location.origin) {
+      started = new Worker(url);
+    } else {
+      const source = await (await fetch(url)).text();
+      started = new Worker(URL.createObjectURL(new Blob([source], { type: 'text/javascript' })));
+    }
+    started.addEventListener('message', handleMessage);
+    started.addEventListener('error', (event) => {
+      event.preventDefault();
+      console.warn('JD Scan: Scan worker failed, scanning on the page instead', event.message);
+      started.terminate();
+      worker = null;
+      // Whatever the worker was doing is redone here
+      const stranded = [...pending.values()];
+      pending.clear();
+      stranded.forEach(runOnPage);
+    });
+    return started;
+  } catch (error) {
+    console.warn('JD Scan: Scan worker unavailable, scanning on the page instead', error);
+    return null;
+  }
+}
+
+/**
+ * Scan resumes against a JD off the UI thread
+ */
+export async function scanInBackground(job: ScanJob, onProgress?: (progress: ScanProgress) => void): Promise<ScanJobResult[]> {
+  if (worker === undefined) {
+    starting ??= startWorker();
+    worker = await starting;
+  }
+  const request: ScanWorkerRequest = {
+    id: nextId++,
+    job,
+    skillAliases: getSkillAliases(),
+    assetBase: chrome.runtime.getURL('/'),
+  };
+
+  return new Promise((resolve, reject) => {
+    const scan: PendingScan = { request, onProgress, resolve, reject };
+    if (!worker) {
+      runOnPage(scan);
+      return;
+    }
+    pending.set(request.id, scan);
+    worker.postMessage(request);
+  });
+}
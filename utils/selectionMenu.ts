@@ -0,0 +1,95 @@
+/**
+ * Selection Context Menu
+ * Right-click entries for highlighted text on any page: load it as the target
+ * job, or save it to the resume library. Covers JDs from emails, PDFs opened
+ * in the browser and sites without an adapter. Runs in the background.
+ */
+
+import { jobDataFromSelection } from './extractors';
+import { addTextResume } from './resumes';
+import { applyJobArchiveWrite, textToHtml } from './jobArchive';
+import { jobIdentityFromUrl } from './jobWatcher';
+import { loadSettings } from './settings';
+
+const SCAN_SELECTION_ID = 'jdscan-scan-selection';
+const ADD_RESUME_ID = 'jdscan-add-resume';
+const MAX_RESUME_NAME = 40;
+
+/**
+ * Create the menu entries. Call from runtime.onInstalled; menus persist.
+ */
+export function registerSelectionMenus() {
+  if (!chrome.contextMenus) return;
+  chrome.contextMenus.removeAll(() => {
+    chrome.contextMenus.create({ id: SCAN_SELECTION_ID, title: 'Scan selection as job description', contexts: ['selection'] });
+    chrome.contextMenus.create({ id: ADD_RESUME_ID, title: 'Add selection to resume library', contexts: ['selection'] });
+  });
+}
+
+/**
+ * The selection with its line breaks (info.selectionText flattens them) and
+ * the page title. Falls back to the menu info where scripts can't run, e.g.
+ * the built-in PDF viewer.
+ */
+async function readSelection(info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab): Promise<{ text: string; pageTitle: string }> {
+  const fallback = { text: info.selectionText || '', pageTitle: tab?.title || '' };
+  if (!tab?.id) return fallback;
+
+  try {
+    const [injection] = await chrome.scripting.executeScript({
+      target: { tabId: tab.id, frameIds: [info.frameId ?? 0] },
+      func: () => ({ text: window.getSelection()?.toString() || '', pageTitle: document.title }),
+    });
+    const result = injection?.result as { text: string; pageTitle: string } | undefined;
+    return result?.text.trim() ? result : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function resumeNameFor(text: string, pageTitle: string): string {
+  const firstLine = text.split('\n').find((line) => line.trim())?.trim() || '';
+  const base = (firstLine.length <= MAX_RESUME_NAME ? firstLine : '') || pageTitle || 'Pasted resume';
+  return `${base.replace(/[\\/:*?"<>|]+/g, ' ').trim().slice(0, MAX_RESUME_NAME)} (selection)`;
+}
+
+async function scanSelection(info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab) {
+  const { text, pageTitle } = await readSelection(info, tab);
+  const url = info.frameUrl || info.pageUrl || tab?.url;
+  const data = jobDataFromSelection(text, { pageTitle, url });
+  if (!data) return;
+
+  console.log('JD Scan: Loaded selection as job description', { title: data.title, company: data.company, jdLength: data.jd.length });
+  await chrome.storage.local.set({ jdScan_lastJob: { data, timestamp: Date.now(), url } });
+  chrome.runtime.sendMessage({ type: 'JD_FOUND', data }).catch(() => { });
+
+  const { archiveJobs } = await loadSettings();
+  // One page (an inbox, a PDF) can hold many jobs: tell selections apart by their opening text
+  if (archiveJobs && url) {
+    await applyJobArchiveWrite({ op: 'archive', data, url, html: textToHtml(data.jd), identity: `${jobIdentityFromUrl(url)}#${data.jd.slice(0, 80)}` });
+  }
+}
+
+async function addSelectionAsResume(info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab) {
+  const { text, pageTitle } = await readSelection(info, tab);
+  const content = text.trim();
+  if (!content) return;
+
+  const resume = await addTextResume(resumeNameFor(content, pageTitle), content);
+  console.log('JD Scan: Added selection to resume library', { name: resume.name, size: resume.fileSize });
+}
+
+/**
+ * Handle a click on one of our entries. The side panel is opened right away,
+ * while the click still counts as a user gesture.
+ */
+export function handleSelectionMenuClick(info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab) {
+  if (info.menuItemId !== SCAN_SELECTION_ID && info.menuItemId !== ADD_RESUME_ID) return;
+
+  if (tab?.windowId !== undefined) {
+    chrome.sidePanel.open({ windowId: tab.windowId }).catch((err) => console.error('JD Scan: Failed to open side panel', err));
+  }
+
+  const action = info.menuItemId === SCAN_SELECTION_ID ? scanSelection : addSelectionAsResume;
+  action(info, tab).catch((err) => console.error('JD Scan: Context menu action failed', err));
+}
@@ -0,0 +1,164 @@
+/**
+ * Semantic Match
+ * Keyword matching misses a requirement met in other words: "built real-time
+ * event pipelines" answers "stream processing experience" without sharing a
+ * keyword. Pairs each JD requirement with the resume bullet closest in
+ * meaning, by the bundled embedding model or by TF-IDF cosine when the model
+ * is off or missing, and scores how well the requirements are covered.
+ */
+
+import { JDSection, JDSectionKind, parseJDSections, SECTION_WEIGHTS } from '../jdSections';
+import { ParsedResume, parseResume } from '../resumeParser';
+import { tokenizeWords } from '../stemmer';
+import { modelSimilarities } from './model';
+import { tfidfSimilarities } from './tfidf';
+
+export type SemanticMode = 'model' | 'tfidf';
+
+export interface SemanticMatch {
+  requirement: string;
+  section: JDSectionKind;
+  /** The closest resume bullet, or null when none comes near */
+  bullet: string | null;
+  /** Cosine similarity to that bullet */
+  similarity: number;
+  /** How fully the bullet answers the requirement, 0-1 */
+  coverage: number;
+}
+
+export interface SemanticResult {
+  /** What scored the pairs: the embedding model, or TF-IDF when it was off or failed to load */
+  mode: SemanticMode;
+  /** Importance-weighted coverage of the JD's requirements, 0-100 */
+  score: number;
+  /** One per requirement: required ones first, each section in JD order */
+  matches: SemanticMatch[];
+}
+
+export interface SemanticOptions {
+  /** JD sections; parsed on the fly when missing */
+  sections?: JDSection[];
+  /** The resume's stored structure; parsed on the fly when missing */
+  parsed?: ParsedResume;
+  /** Score with the embedding model; default on */
+  useModel?: boolean;
+  /** Extension root URL the model files load from; chrome.runtime.getURL('/') by default */
+  assetBase?: string;
+}
+
+/** Share of the keyword score that semantic match replaces */
+export const SEMANTIC_WEIGHT = 0.3;
+
+/**
+ * Similarity below which a bullet says nothing about a requirement, and at
+ * which it fully answers it. Embeddings put unrelated sentences near 0.1
+ * and paraphrases above 0.6; TF-IDF vectors share far fewer terms.
+ */
+const SIMILARITY_RANGE: Record<SemanticMode, [number, number]> = {
+  model: [0.25, 0.65],
+  tfidf: [0.05, 0.45],
+};
+const REQUIREMENT_SECTIONS: JDSectionKind[] = ['requirements', 'responsibilities', 'niceToHave'];
+/** Sections whose lines are requirements when the JD has no requirement headings */
+const FALLBACK_SECTIONS: JDSectionKind[] = ['summary', 'other'];
+const MIN_REQUIREMENT_WORDS = 3;
+const MIN_BULLET_WORDS = 4;
+const MAX_REQUIREMENTS = 40;
+const MAX_BULLETS = 150;
+
+const BULLET_MARKER_RE = /^(?:[•\-*·▪◦●–—►✓✔]|\d{1,2}[.)])\s+/;
+
+/** Sentences of a block of text, bullet markers stripped */
+function sentences(text: string): string[] {
+  return text
+    .split('\n')
+    .flatMap((line) => line.replace(BULLET_MARKER_RE, '').split(/(?<=[.!?])\s+(?=[A-Z])/))
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The JD's requirements with the section each came from: bullets of the
+ * requirement sections, or their sentences when they have no bullets
+ */
+function jdRequirements(sections: JDSection[]): Array<{ text: string; section: JDSectionKind }> {
+  const pick = (kinds: JDSectionKind[]) => sections
+    .filter((section) => kinds.includes(section.kind))
+    .flatMap((section) => (section.bullets.length > 0 ? section.bullets : sentences(section.text))
+      .map((text) => ({ text, section: section.kind })));
+
+  let requirements = pick(REQUIREMENT_SECTIONS);
+  if (requirements.length === 0) requirements = pick(FALLBACK_SECTIONS);
+
+  const seen = new Set<string>();
+  return requirements
+    .filter(({ text }) => {
+      const key = text.toLowerCase();
+      if (seen.has(key) || tokenizeWords(text).length < MIN_REQUIREMENT_WORDS) return false;
+      seen.add(key);
+      return true;
+    })
+    // Keep the most important when a JD lists more than we compare
+    .sort((a, b) => SECTION_WEIGHTS[b.section] - SECTION_WEIGHTS[a.section])
+    .slice(0, MAX_REQUIREMENTS);
+}
+
+/**
+ * What the resume claims, one statement each: role and project bullets and
+ * the summary's sentences; role text for roles written as prose
+ */
+function resumeStatements(resume: string, parsed: ParsedResume): string[] {
+  const statements = [
+    ...sentences(parsed.summary || ''),
+    ...parsed.experience.flatMap((role) => (role.bullets.length > 0 ? role.bullets : sentences(role.text).slice(1))),
+    ...parsed.projects.flatMap((project) => [project.description || '', ...project.bullets]),
+  ];
+  if (statements.length === 0) {
+    parsed.sections
+      .filter((section) => section.kind !== 'contact' && section.kind !== 'skills')
+      .forEach((section) => statements.push(...sentences(section.text)));
+    if (statements.length === 0) statements.push(...sentences(resume));
+  }
+  return [...new Set(statements.map((s) => s.trim()))]
+    .filter((s) => tokenizeWords(s).length >= MIN_BULLET_WORDS)
+    .slice(0, MAX_BULLETS);
+}
+
+/**
+ * Pair each JD requirement with the resume bullet closest in meaning
+ */
+export async function scoreSemanticMatch(resume: string, jobDescription: string, options: SemanticOptions = {}): Promise<SemanticResult> {
+  const sections = options.sections ?? parseJDSections(jobDescription);
+  const parsed = options.parsed ?? parseResume(resume);
+  const requirements = jdRequirements(sections);
+  const statements = resumeStatements(resume, parsed);
+  if (requirements.length === 0) return { mode: 'tfidf', score: 0, matches: [] };
+
+  const texts = requirements.map((r) => r.text);
+  const fromModel = options.useModel !== false && statements.length > 0
+    ? await modelSimilarities(texts, statements, options.assetBase ?? chrome.runtime.getURL('/'))
+    : null;
+  const mode: SemanticMode = fromModel ? 'model' : 'tfidf';
+  const similarities = fromModel ?? tfidfSimilarities(texts, statements);
+  const [floor, ceiling] = SIMILARITY_RANGE[mode];
+
+  let covered = 0;
+  let total = 0;
+  const matches = requirements.map(({ text, section }, i): SemanticMatch => {
+    const row = similarities[i] || [];
+    const best = row.reduce((top, similarity, j) => (similarity > row[top] ? j : top), 0);
+    const similarity = row.length > 0 ? Math.max(0, row[best]) : 0;
+    const coverage = Math.min(1, Math.max(0, (similarity - floor) / (ceiling - floor)));
+    covered += coverage * SECTION_WEIGHTS[section];
+    total += SECTION_WEIGHTS[section];
+    return {
+      requirement: text,
+      section,
+      bullet: similarity > floor ? statements[best] : null,
+      similarity: Math.round(similarity * 100) / 100,
+      coverage: Math.round(coverage * 100) / 100,
+    };
+  });
+
+  return { mode, score: Math.round((covered / total) * 100), matches };
+}
@@ -0,0 +1,133 @@
+/**
+ * On-device Embedding Model
+ * all-MiniLM-L6-v2, quantized to ONNX, run by onnxruntime-web's WASM backend
+ * on one CPU thread. The model, vocabulary and runtime ship inside the
+ * extension (npm run semantic-model puts them in public/, and builds fail
+ * without them), so no text leaves the browser. Sentences become mean-pooled, unit-length 384-d vectors.
+ */
+
+import type { InferenceSession, Tensor } from 'onnxruntime-web';
+import { encodeWordPiece, parseVocab, WordPieceVocab } from './wordpiece';
+
+type OrtModule = typeof import('onnxruntime-web/wasm');
+
+interface LoadedModel {
+  ort: OrtModule;
+  session: InferenceSession;
+  vocab: WordPieceVocab;
+}
+
+const MODEL_DIR = 'models/all-MiniLM-L6-v2';
+const RUNTIME_WASM = 'ort/ort-wasm-simd-threaded.wasm';
+/** Files under public/ the model needs; the build refuses to ship without them */
+export const SEMANTIC_MODEL_FILES = [`${MODEL_DIR}/model_quantized.onnx`, `${MODEL_DIR}/vocab.txt`, RUNTIME_WASM];
+/** Requirements and bullets are a sentence or two; anything longer is cut */
+const MAX_TOKENS = 128;
+const BATCH_SIZE = 16;
+
+let loading: Promise<LoadedModel | null> | null = null;
+
+async function loadModel(assetBase: string): Promise<LoadedModel | null> {
+  const asset = (path: string) => new URL(path, assetBase).href;
+  try {
+    const vocabResponse = await fetch(asset(`${MODEL_DIR}/vocab.txt`));
+    if (!vocabResponse.ok) throw new Error(`vocab.txt: HTTP ${vocabResponse.status}`);
+    const vocab = parseVocab(await vocabResponse.text());
+
+    // Loaded on first use: the runtime is large and most scans never need it
+    const ort = await import('onnxruntime-web/wasm');
+    ort.env.wasm.wasmPaths = { wasm: asset(RUNTIME_WASM) };
+    // Extension pages aren't cross-origin isolated, so no SharedArrayBuffer threads
+    ort.env.wasm.numThreads = 1;
+    const session = await ort.InferenceSession.create(asset(`${MODEL_DIR}/model_quantized.onnx`), {
+      executionProviders: ['wasm'],
+      graphOptimizationLevel: 'all',
+    });
+    return { ort, session, vocab };
+  } catch (error) {
+    console.warn('Semantic model unavailable, falling back to TF-IDF similarity:', error);
+    return null;
+  }
+}
+
+/**
+ * The model, loaded once; null when its files aren't bundled or it fails to
+ * start, in which case the next call tries again
+ */
+function getModel(assetBase: string): Promise<LoadedModel | null> {
+  loading ??= loadModel(assetBase).then((model) => {
+    if (!model) loading = null;
+    return model;
+  });
+  return loading;
+}
+
+async function embedBatch(model: LoadedModel, texts: string[]): Promise<Float32Array[]> {
+  const { ort, session, vocab } = model;
+  const encoded = texts.map((text) => encodeWordPiece(text, vocab, MAX_TOKENS));
+  const length = Math.max(...encoded.map((ids) => ids.length));
+  const inputIds = new BigInt64Array(texts.length * length).fill(BigInt(vocab.pad));
+  const attentionMask = new BigInt64Array(texts.length * length);
+  encoded.forEach((ids, row) => {
+    ids.forEach((id, col) => {
+      inputIds[row * length + col] = BigInt(id);
+      attentionMask[row * length + col] = 1n;
+    });
+  });
+
+  const dims = [texts.length, length];
+  const feeds: Record<string, Tensor> = {
+    input_ids: new ort.Tensor('int64', inputIds, dims),
+    attention_mask: new ort.Tensor('int64', attentionMask, dims),
+  };
+  if (session.inputNames.includes('token_type_ids')) {
+    feeds.token_type_ids = new ort.Tensor('int64', new BigInt64Array(texts.length * length), dims);
+  }
+  const outputs = await session.run(feeds);
+  const hidden = outputs.last_hidden_state ?? outputs[session.outputNames[0]];
+  const size = hidden.dims[2];
+  const data = hidden.data as Float32Array;
+
+  // Mean of the real (unpadded) token vectors, scaled to unit length
+  return encoded.map((ids, row) => {
+    const vector = new Float32Array(size);
+    for (let col = 0; col < ids.length; col++) {
+      const offset = (row * length + col) * size;
+      for (let k = 0; k < size; k++) vector[k] += data[offset + k];
+    }
+    const norm = Math.hypot(...vector) || 1;
+    return vector.map((value) => value / norm);
+  });
+}
+
+async function embed(model: LoadedModel, texts: string[]): Promise<Float32Array[]> {
+  const vectors: Float32Array[] = [];
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    vectors.push(...(await embedBatch(model, texts.slice(i, i + BATCH_SIZE))));
+  }
+  return vectors;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Cosine similarity of every query to every passage under the model, or
+ * null when the model can't be used. `assetBase` is the extension's root URL,
+ * which a worker can't look up itself.
+ */
+export async function modelSimilarities(queries: string[], passages: string[], assetBase: string): Promise<number[][] | null> {
+  const model = await getModel(assetBase);
+  if (!model) return null;
+  try {
+    const queryVectors = await embed(model, queries);
+    const passageVectors = await embed(model, passages);
+    return queryVectors.map((query) => passageVectors.map((passage) => dot(query, passage)));
+  } catch (error) {
+    console.warn('Semantic model failed, falling back to TF-IDF similarity:', error);
+    return null;
+  }
+}
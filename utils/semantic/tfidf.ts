@@ -0,0 +1,55 @@
+/**
+ * TF-IDF Similarity
+ * Cosine similarity of stemmed word vectors, each word weighted by how rare
+ * it is in job-ad language. The fallback when the embedding model is off or
+ * missing: it can't see paraphrases, but known skills match under any alias.
+ */
+
+import { backgroundIdf } from '../keyphrases';
+import { findSkillMentions } from '../skills';
+import { stemWord, tokenizeWords } from '../stemmer';
+
+type SparseVector = Map<string, number>;
+
+/** Unit-length TF-IDF vector of a text's stems and skills */
+function termVector(text: string): SparseVector {
+  const counts = new Map<string, number>();
+  const add = (term: string) => counts.set(term, (counts.get(term) || 0) + 1);
+  tokenizeWords(text).forEach(({ word }) => add(stemWord(word)));
+  // "k8s" and "Kubernetes" share a term
+  findSkillMentions(text).forEach((mention) => add(`skill:${mention.skill.name}`));
+
+  const vector: SparseVector = new Map();
+  let norm = 0;
+  counts.forEach((count, term) => {
+    // Words every background ad uses ("the", "and") carry no weight
+    const weight = (1 + Math.log(count)) * (backgroundIdf(term) - 1);
+    if (weight <= 0) return;
+    vector.set(term, weight);
+    norm += weight * weight;
+  });
+  norm = Math.sqrt(norm);
+  vector.forEach((weight, term) => vector.set(term, weight / norm));
+  return vector;
+}
+
+function cosine(a: SparseVector, b: SparseVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let sum = 0;
+  small.forEach((weight, term) => {
+    sum += weight * (large.get(term) || 0);
+  });
+  return sum;
+}
+
+/**
+ * Similarity of every query to every passage, 0-1: rows follow queries,
+ * columns passages
+ */
+export function tfidfSimilarities(queries: string[], passages: string[]): number[][] {
+  const passageVectors = passages.map(termVector);
+  return queries.map((query) => {
+    const vector = termVector(query);
+    return passageVectors.map((passage) => cosine(vector, passage));
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * WordPiece Tokenizer
+ * The uncased BERT tokenizer the bundled sentence model was trained with:
+ * lowercase, strip accents, split off punctuation, then break each word into
+ * the longest pieces its vocabulary knows ("kubernetes" → "ku", "##bern", ...).
+ */
+
+export interface WordPieceVocab {
+  ids: Map<string, number>;
+  unk: number;
+  cls: number;
+  sep: number;
+  pad: number;
+}
+
+/** Longer words are never in the vocabulary and become [UNK] whole */
+const MAX_WORD_CHARS = 100;
+
+// BERT counts every non-letter, non-digit ASCII symbol as punctuation, as well as Unicode P*
+const PUNCTUATION_RE = /[\p{P}!-\/:-@[-`{-~]/u;
+const CJK_RE = /[\u4e00-\u9fff\u3400-\u4dbf\uf900-\ufaff\u{20000}-\u{2fa1f}]/u;
+
+/**
+ * Vocabulary from a vocab.txt: one token per line, ids by line number
+ */
+export function parseVocab(text: string): WordPieceVocab {
+  const ids = new Map<string, number>();
+  text.split('\n').forEach((line, i) => {
+    const token = line.replace(/\r$/, '');
+    if (token && !ids.has(token)) ids.set(token, i);
+  });
+  const id = (token: string) => ids.get(token) ?? 0;
+  return { ids, unk: id('[UNK]'), cls: id('[CLS]'), sep: id('[SEP]'), pad: id('[PAD]') };
+}
+
+/** Lowercased, accent-free words and punctuation marks */
+function basicTokens(text: string): string[] {
+  const tokens: string[] = [];
+  let word = '';
+  const flush = () => {
+    if (word) tokens.push(word);
+    word = '';
+  };
+  const normalized = text.toLowerCase().normalize('NFD').replace(/\p{Mn}/gu, '');
+  for (const char of normalized) {
+    if (/\s/.test(char)) {
+      flush();
+    } else if (/\p{Cc}|\p{Cf}/u.test(char) || char === '\ufffd') {
+      continue;
+    } else if (PUNCTUATION_RE.test(char) || CJK_RE.test(char)) {
+      flush();
+      tokens.push(char);
+    } else {
+      word += char;
+    }
+  }
+  flush();
+  return tokens;
+}
+
+/** Greedy longest-match-first pieces of one word */
+function wordPieces(word: string, vocab: WordPieceVocab): number[] {
+  const chars = [...word];
+  if (chars.length > MAX_WORD_CHARS) return [vocab.unk];
+  const pieces: number[] = [];
+  let start = 0;
+  while (start < chars.length) {
+    let end = chars.length;
+    let id: number | undefined;
+    while (start < end) {
+      const piece = (start > 0 ? '##' : '') + chars.slice(start, end).join('');
+      id = vocab.ids.get(piece);
+      if (id !== undefined) break;
+      end--;
+    }
+    if (id === undefined) return [vocab.unk];
+    pieces.push(id);
+    start = end;
+  }
+  return pieces;
+}
+
+/**
+ * Token ids for one text: [CLS] pieces [SEP], cut to maxTokens
+ */
+export function encodeWordPiece(text: string, vocab: WordPieceVocab, maxTokens: number): number[] {
+  const ids = [vocab.cls];
+  for (const word of basicTokens(text)) {
+    ids.push(...wordPieces(word, vocab));
+    if (ids.length >= maxTokens - 1) break;
+  }
+  return [...ids.slice(0, maxTokens - 1), vocab.sep];
+}
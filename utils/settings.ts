@@ -2,12 +2,21 @@
  * User Settings Management
  */
 
+import type { SiteRule } from './jobSites';
+
 export interface UserSettings {
   displayMode: 'sidebar' | 'overlay';
   colorMode: 'light' | 'dark' | 'auto';
   overlayPosition: 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';
   autoScan: boolean;
   showNotifications: boolean;
+  showFitBadges: boolean; // Score job cards on search result lists
+  defaultResumeId?: string; // Resume used for fit badges and quick scans
+  siteRules: SiteRule[]; // Per-domain job page rules and "never run here" switches
+  archiveJobs: boolean; // Keep a snapshot of every captured job in the local archive
+  stemming: boolean; // Match word forms (managed/management); off for exact-match ATS simulation
+  semanticMatch: boolean; // Blend requirement-to-bullet similarity into local scan scores
+  semanticModel: boolean; // Use the bundled embedding model for semantic match; off uses TF-IDF similarity
   selectedLLMConfigId?: string; // ID of the LLM config to use for ATS scanning
 }
 
@@ -17,6 +26,13 @@ export const DEFAULT_SETTINGS: UserSettings = {
   overlayPosition: 'bottom-right',
   autoScan: true,
   showNotifications: true,
+  showFitBadges: true,
+  defaultResumeId: undefined,
+  siteRules: [],
+  archiveJobs: false,
+  stemming: true,
+  semanticMatch: false,
+  semanticModel: true,
   selectedLLMConfigId: undefined,
 };
 
@@ -27,7 +43,18 @@ let mqlListener: ((event: MediaQueryListEvent) => void) | null = null;
 let currentMql: MediaQueryList | null = null;
 
 /**
- * Apply the given color mode to the current document by toggling the `dark` class.
+ * Element that carries the `dark` class. Extension pages use <html>; the
+ * on-page overlay points this at its theme root inside the shadow DOM so the
+ * job site's own theme is left alone.
+ */
+let colorModeRoot: HTMLElement | null = null;
+
+export function setColorModeRoot(element: HTMLElement | null) {
+  colorModeRoot = element;
+}
+
+/**
+ * Apply the given color mode by toggling the `dark` class on the color mode root.
  * - "light": always remove `dark`
  * - "dark": always add `dark`
  * - "auto": follow system preference via prefers-color-scheme
@@ -35,7 +62,7 @@ let currentMql: MediaQueryList | null = null;
 export function applyColorMode(colorMode: UserSettings['colorMode']) {
   if (typeof document === 'undefined') return;
 
-  const root = document.documentElement;
+  const root = colorModeRoot ?? document.documentElement;
 
   // Cleanup old listener if it exists
   if (currentMql && mqlListener) {
@@ -0,0 +1,256 @@
+/**
+ * Skill Normalization
+ * Maps every alias and spelling variant in the bundled taxonomy (plus the
+ * user's own aliases) to one canonical skill, so "JS" in a resume matches
+ * "JavaScript" in a JD and "k8s" matches "Kubernetes".
+ */
+
+import { SKILL_TAXONOMY, SkillCategory, SkillEntry } from './taxonomy';
+
+export { SKILL_TAXONOMY_VERSION } from './taxonomy';
+export type { SkillCategory, SkillEntry } from './taxonomy';
+
+export interface Skill {
+  name: string;
+  /** Bundled and user aliases */
+  aliases: string[];
+  category: SkillCategory;
+  /** The canonical name only matches with its own capitalization */
+  caseSensitive: boolean;
+  /** Added by the user rather than bundled */
+  custom: boolean;
+}
+
+export interface SkillMention {
+  skill: Skill;
+  /** Text as written, e.g. "k8s" */
+  surface: string;
+  index: number;
+}
+
+/** Extra aliases per canonical skill name; unknown names become custom skills */
+export type UserSkillAliases = Record<string, string[]>;
+
+export const SKILL_ALIASES_KEY = 'jdScan_skillAliases';
+
+interface SkillIndex {
+  skills: Skill[];
+  byKey: Map<string, Skill>;
+  /** Sticky patterns by the lowercased first character of the names they hold */
+  byFirstChar: Map<string, RegExp[]>;
+  patterns: Map<Skill, RegExp[]>;
+}
+
+// Scans are synchronous, so user aliases are mirrored from storage into memory
+let userAliases: UserSkillAliases = {};
+let listening = false;
+let index: SkillIndex | null = null;
+
+/**
+ * Lookup key that ignores case and separators: "Node.js", "nodejs" and
+ * "node js" share one key, while "C++" and "C#" stay apart from "C"
+ */
+export function skillKey(term: string): string {
+  return term.toLowerCase().replace(/[\s._\-/]+/g, '');
+}
+
+/** Pattern for one name, without the word-start check */
+function aliasBody(alias: string): string {
+  const body = alias
+    .trim()
+    .split(/[\s._\-/]+/)
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[\\s._/-]?');
+  // A leading dot (".NET") is part of the name
+  const lead = alias.trim().startsWith('.') ? '\\.' : '';
+  // Single letters ("C", "R") must not be the start of "C-level" or "R&D"
+  const tail = alias.trim().length === 1
+    ? "(?![\\p{L}\\p{N}+#]|[-'&.][\\p{L}\\p{N}])"
+    : '(?![\\p{L}\\p{N}+#])';
+  return `${lead}${body}${tail}`;
+}
+
+function aliasSource(alias: string): string {
+  return `(?<![\\p{L}\\p{N}])${aliasBody(alias)}`;
+}
+
+/**
+ * One sticky pattern per first character, so scanning tries only the few
+ * names that could start at a position instead of the whole taxonomy
+ */
+function groupByFirstChar(entries: Array<{ alias: string; source: string }>, flags: string, into: Map<string, RegExp[]>) {
+  const groups = new Map<string, string[]>();
+  for (const { alias, source } of entries) {
+    const first = alias.trim()[0]?.toLowerCase();
+    if (!first) continue;
+    groups.set(first, [...(groups.get(first) || []), source]);
+  }
+  groups.forEach((sources, first) => {
+    // Longest first, so "C++" wins over "C" and "Spring Boot" over "Spring"
+    const sorted = [...sources].sort((a, b) => b.length - a.length);
+    into.set(first, [...(into.get(first) || []), new RegExp(sorted.join('|'), flags)]);
+  });
+}
+
+function buildIndex(): SkillIndex {
+  const skills: Skill[] = SKILL_TAXONOMY.map((entry: SkillEntry) => ({
+    name: entry.name,
+    aliases: [...entry.aliases],
+    category: entry.category || 'hard',
+    caseSensitive: !!entry.caseSensitive,
+    custom: false,
+  }));
+  const byKey = new Map<string, Skill>();
+  skills.forEach((skill) => byKey.set(skillKey(skill.name), skill));
+
+  for (const [name, aliases] of Object.entries(userAliases)) {
+    let skill = byKey.get(skillKey(name));
+    if (!skill) {
+      skill = { name, aliases: [], category: 'hard', caseSensitive: false, custom: true };
+      skills.push(skill);
+      byKey.set(skillKey(name), skill);
+    }
+    skill.aliases.push(...aliases.filter((alias) => !skill!.aliases.includes(alias)));
+  }
+
+  const sensitive: Array<{ alias: string; source: string }> = [];
+  const insensitive: Array<{ alias: string; source: string }> = [];
+  const patterns = new Map<Skill, RegExp[]>();
+  for (const skill of skills) {
+    skill.aliases.forEach((alias) => {
+      if (!byKey.has(skillKey(alias))) byKey.set(skillKey(alias), skill);
+    });
+    const aliasSources = skill.aliases.filter((a) => a.trim()).map(aliasSource);
+    const nameSource = aliasSource(skill.name);
+    // Scanning only tries names at word starts, so these skip the lookbehind
+    (skill.caseSensitive ? sensitive : insensitive).push({ alias: skill.name, source: aliasBody(skill.name) });
+    skill.aliases.filter((a) => a.trim()).forEach((alias) => insensitive.push({ alias, source: aliasBody(alias) }));
+
+    const own = [new RegExp([...(skill.caseSensitive ? [] : [nameSource]), ...aliasSources].join('|') || '(?!)', 'iu')];
+    if (skill.caseSensitive) own.push(new RegExp(nameSource, 'u'));
+    patterns.set(skill, own);
+  }
+
+  const byFirstChar = new Map<string, RegExp[]>();
+  groupByFirstChar(insensitive, 'iuy', byFirstChar);
+  groupByFirstChar(sensitive, 'uy', byFirstChar);
+
+  return { skills, byKey, byFirstChar, patterns };
+}
+
+function getIndex(): SkillIndex {
+  if (!index) index = buildIndex();
+  return index;
+}
+
+/**
+ * Load the user's aliases and keep the in-memory copy in sync with storage
+ */
+export async function loadSkillAliases(): Promise<UserSkillAliases> {
+  const data = await chrome.storage.local.get(SKILL_ALIASES_KEY);
+  setSkillAliases((data?.[SKILL_ALIASES_KEY] as UserSkillAliases) || {});
+
+  if (!listening) {
+    listening = true;
+    chrome.storage.onChanged.addListener((changes, namespace) => {
+      if (namespace === 'local' && changes[SKILL_ALIASES_KEY]) {
+        setSkillAliases((changes[SKILL_ALIASES_KEY].newValue as UserSkillAliases) || {});
+      }
+    });
+  }
+  return userAliases;
+}
+
+/**
+ * Replace the in-memory user aliases (storage is left alone)
+ */
+export function setSkillAliases(aliases: UserSkillAliases) {
+  userAliases = aliases;
+  index = null;
+}
+
+export function getSkillAliases(): UserSkillAliases {
+  return userAliases;
+}
+
+export async function addSkillAlias(skillName: string, alias: string): Promise<void> {
+  const name = skillName.trim();
+  const value = alias.trim();
+  if (!name || !value) return;
+
+  const stored = await loadSkillAliases();
+  // Attach to the canonical spelling when the name is a known skill or alias
+  const canonical = findSkill(name)?.name || name;
+  const existing = stored[canonical] || [];
+  if (existing.some((a) => skillKey(a) === skillKey(value))) return;
+  const next = { ...stored, [canonical]: [...existing, value] };
+  setSkillAliases(next);
+  await chrome.storage.local.set({ [SKILL_ALIASES_KEY]: next });
+}
+
+export async function removeSkillAlias(skillName: string, alias: string): Promise<void> {
+  const stored = await loadSkillAliases();
+  const remaining = (stored[skillName] || []).filter((a) => a !== alias);
+  const { [skillName]: _removed, ...rest } = stored;
+  const next = remaining.length > 0 ? { ...rest, [skillName]: remaining } : rest;
+  setSkillAliases(next);
+  await chrome.storage.local.set({ [SKILL_ALIASES_KEY]: next });
+}
+
+export function listSkills(): Skill[] {
+  return getIndex().skills;
+}
+
+/**
+ * The skill a term names, by canonical name or any alias
+ */
+export function findSkill(term: string): Skill | undefined {
+  return getIndex().byKey.get(skillKey(term));
+}
+
+/**
+ * Canonical name for a term, or the term itself when it is not a known skill
+ */
+export function canonicalSkillName(term: string): string {
+  return findSkill(term)?.name || term;
+}
+
+/**
+ * Every skill mentioned in a text, in order, with the words actually used
+ */
+export function findSkillMentions(text: string): SkillMention[] {
+  const { byKey, byFirstChar } = getIndex();
+  const mentions: SkillMention[] = [];
+  const starts = /(?<![\p{L}\p{N}])[\p{L}\p{N}.]/gu;
+
+  let match: RegExpExecArray | null;
+  while ((match = starts.exec(text))) {
+    const index = match.index;
+    let surface = '';
+    for (const regex of byFirstChar.get(match[0].toLowerCase()) || []) {
+      regex.lastIndex = index;
+      const found = regex.exec(text);
+      if (found && found[0].length > surface.length) surface = found[0];
+    }
+    const skill = surface ? byKey.get(skillKey(surface)) : undefined;
+    if (!skill) continue;
+    mentions.push({ skill, surface, index });
+    // Nothing inside a match starts another one ("Spring" within "Spring Boot")
+    starts.lastIndex = index + surface.length;
+  }
+  return mentions;
+}
+
+/**
+ * Whether a text mentions a skill under any of its names
+ */
+export function mentionsSkill(text: string, skill: Skill): boolean {
+  return getIndex().patterns.get(skill)?.some((regex) => regex.test(text)) ?? false;
+}
+
+/**
+ * Regex sources for every way of writing a skill, for highlighting
+ */
+export function skillSurfacePatterns(skill: Skill): string[] {
+  return [skill.name, ...skill.aliases].map(aliasSource);
+}
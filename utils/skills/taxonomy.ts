@@ -0,0 +1,233 @@
+/**
+ * Bundled Skills Taxonomy
+ * Canonical skill names with their aliases, abbreviations and spelling
+ * variants. Separators inside a name ("Node.js", "CI/CD", "scikit-learn")
+ * are matched loosely, so "nodejs", "node js" and "Node.JS" need no entry of
+ * their own. Bump the version whenever entries change.
+ */
+
+/** Products you use, as opposed to hard skills (languages, methods, platforms) and soft skills */
+export type SkillCategory = 'hard' | 'tool' | 'soft';
+
+export interface SkillEntry {
+  /** Canonical name, shown in reports */
+  name: string;
+  aliases: string[];
+  /** Defaults to 'hard' */
+  category?: SkillCategory;
+  /**
+   * Names that are also ordinary words ("Go", "Rust", "Swift") only match
+   * with the capitalization written here
+   */
+  caseSensitive?: boolean;
+}
+
+export const SKILL_TAXONOMY_VERSION = '1.1.0';
+
+export const SKILL_TAXONOMY: SkillEntry[] = [
+  // Languages
+  { name: 'JavaScript', aliases: ['JS', 'ECMAScript', 'ES6', 'ES2015', 'Vanilla JS'] },
+  { name: 'TypeScript', aliases: ['TS'] },
+  { name: 'Python', aliases: ['Python3', 'Python 3'] },
+  { name: 'Java', aliases: ['Java SE', 'Java EE', 'J2EE', 'Jakarta EE'], caseSensitive: true },
+  { name: 'C#', aliases: ['C Sharp', 'CSharp'] },
+  { name: 'C++', aliases: ['CPP', 'C plus plus'] },
+  { name: 'C', aliases: ['ANSI C'], caseSensitive: true },
+  { name: 'Go', aliases: ['Golang'], caseSensitive: true },
+  { name: 'Rust', aliases: ['Rust lang', 'Rustlang'], caseSensitive: true },
+  { name: 'Ruby', aliases: [], caseSensitive: true },
+  { name: 'PHP', aliases: [] },
+  { name: 'Kotlin', aliases: [] },
+  { name: 'Swift', aliases: ['SwiftUI'], caseSensitive: true },
+  { name: 'Objective-C', aliases: ['ObjC', 'Obj-C'] },
+  { name: 'Scala', aliases: [] },
+  { name: 'R', aliases: ['R language', 'RStudio'], caseSensitive: true },
+  { name: 'MATLAB', aliases: [] },
+  { name: 'Perl', aliases: [] },
+  { name: 'Elixir', aliases: [] },
+  { name: 'Haskell', aliases: [] },
+  { name: 'Dart', aliases: [], caseSensitive: true },
+  { name: 'Lua', aliases: [] },
+  { name: 'Bash', aliases: ['Shell scripting', 'Shell script', 'Zsh'] },
+  { name: 'PowerShell', aliases: [] },
+  { name: 'SQL', aliases: ['Structured Query Language'] },
+  { name: 'PL/SQL', aliases: ['PLSQL'] },
+  { name: 'T-SQL', aliases: ['Transact-SQL', 'TSQL'] },
+  { name: 'HTML', aliases: ['HTML5'] },
+  { name: 'CSS', aliases: ['CSS3'] },
+  { name: 'Sass', aliases: ['SCSS'] },
+  { name: 'GraphQL', aliases: ['GQL'] },
+  { name: 'Solidity', aliases: [] },
+  { name: 'COBOL', aliases: [] },
+  { name: 'Fortran', aliases: [] },
+  { name: 'Assembly', aliases: ['ASM', 'x86 assembly'] },
+  { name: 'VBA', aliases: ['Visual Basic for Applications'] },
+
+  // Front-end
+  { name: 'React', aliases: ['React.js', 'ReactJS', 'React JS'] },
+  { name: 'React Native', aliases: [] },
+  { name: 'Next.js', aliases: ['NextJS'] },
+  { name: 'Vue.js', aliases: ['Vue', 'VueJS', 'Vue 3'] },
+  { name: 'Nuxt', aliases: ['Nuxt.js', 'NuxtJS'] },
+  { name: 'Angular', aliases: ['Angular 2+', 'AngularJS', 'Angular.js'] },
+  { name: 'Svelte', aliases: ['SvelteKit'] },
+  { name: 'jQuery', aliases: [] },
+  { name: 'Redux', aliases: ['Redux Toolkit', 'RTK'] },
+  { name: 'Tailwind CSS', aliases: ['Tailwind', 'TailwindCSS'] },
+  { name: 'Bootstrap', aliases: [] },
+  { name: 'Webpack', aliases: [], category: 'tool' },
+  { name: 'Vite', aliases: ['ViteJS'], category: 'tool' },
+  { name: 'Storybook', aliases: [], category: 'tool' },
+  { name: 'Flutter', aliases: [] },
+
+  // Back-end
+  { name: 'Node.js', aliases: ['Node', 'NodeJS'] },
+  { name: 'Express', aliases: ['Express.js', 'ExpressJS'], caseSensitive: true },
+  { name: 'NestJS', aliases: ['Nest.js'] },
+  { name: 'Django', aliases: ['Django REST Framework', 'DRF'] },
+  { name: 'Flask', aliases: [] },
+  { name: 'FastAPI', aliases: [] },
+  { name: 'Spring', aliases: ['Spring Framework', 'Spring Boot', 'SpringBoot'], caseSensitive: true },
+  { name: 'Hibernate', aliases: ['JPA'] },
+  { name: '.NET', aliases: ['dotnet', 'dot net', '.NET Core', 'ASP.NET', 'ASP.NET Core'] },
+  { name: 'Ruby on Rails', aliases: ['Rails', 'RoR'] },
+  { name: 'Laravel', aliases: [] },
+  { name: 'Symfony', aliases: [] },
+  { name: 'gRPC', aliases: [] },
+  { name: 'REST APIs', aliases: ['REST', 'RESTful', 'RESTful APIs', 'REST API'] },
+  { name: 'Microservices', aliases: ['Microservice architecture', 'Micro-services'] },
+
+  // Data & ML
+  { name: 'Machine Learning', aliases: ['ML'] },
+  { name: 'Deep Learning', aliases: [] },
+  { name: 'Artificial Intelligence', aliases: ['AI'] },
+  { name: 'Natural Language Processing', aliases: ['NLP'] },
+  { name: 'Computer Vision', aliases: [] },
+  { name: 'Large Language Models', aliases: ['LLM', 'LLMs'] },
+  { name: 'TensorFlow', aliases: [] },
+  { name: 'PyTorch', aliases: ['Torch'] },
+  { name: 'scikit-learn', aliases: ['sklearn', 'scikit'] },
+  { name: 'Keras', aliases: [] },
+  { name: 'pandas', aliases: [] },
+  { name: 'NumPy', aliases: [] },
+  { name: 'Apache Spark', aliases: ['Spark', 'PySpark'] },
+  { name: 'Apache Kafka', aliases: ['Kafka'] },
+  { name: 'Apache Airflow', aliases: ['Airflow'], category: 'tool' },
+  { name: 'Hadoop', aliases: ['HDFS'] },
+  { name: 'dbt', aliases: ['data build tool'], category: 'tool' },
+  { name: 'Snowflake', aliases: [], category: 'tool' },
+  { name: 'Databricks', aliases: [], category: 'tool' },
+  { name: 'BigQuery', aliases: ['Google BigQuery'], category: 'tool' },
+  { name: 'Amazon Redshift', aliases: ['Redshift'], category: 'tool' },
+  { name: 'ETL', aliases: ['ELT', 'Extract Transform Load'] },
+  { name: 'Data Warehousing', aliases: ['Data Warehouse', 'DWH'] },
+  { name: 'Tableau', aliases: [], category: 'tool' },
+  { name: 'Power BI', aliases: ['PowerBI'], category: 'tool' },
+  { name: 'Looker', aliases: ['LookML'], category: 'tool' },
+  { name: 'Microsoft Excel', aliases: ['Excel', 'MS Excel'], category: 'tool' },
+  { name: 'Statistics', aliases: ['Statistical analysis', 'Statistical modeling', 'Statistical modelling'] },
+  { name: 'A/B Testing', aliases: ['AB testing', 'Split testing', 'Experimentation'] },
+
+  // Databases
+  { name: 'PostgreSQL', aliases: ['Postgres', 'PSQL'] },
+  { name: 'MySQL', aliases: ['MariaDB'] },
+  { name: 'Microsoft SQL Server', aliases: ['SQL Server', 'MSSQL', 'MS SQL'] },
+  { name: 'Oracle Database', aliases: ['Oracle DB', 'Oracle'] },
+  { name: 'SQLite', aliases: [] },
+  { name: 'MongoDB', aliases: ['Mongo'] },
+  { name: 'Redis', aliases: [] },
+  { name: 'Elasticsearch', aliases: ['Elastic Search', 'ELK', 'OpenSearch'] },
+  { name: 'Cassandra', aliases: ['Apache Cassandra'] },
+  { name: 'DynamoDB', aliases: ['Dynamo DB', 'Amazon DynamoDB'] },
+  { name: 'NoSQL', aliases: [] },
+  { name: 'Neo4j', aliases: [] },
+
+  // Cloud & infrastructure
+  { name: 'Amazon Web Services', aliases: ['AWS'] },
+  { name: 'Microsoft Azure', aliases: ['Azure'] },
+  { name: 'Google Cloud Platform', aliases: ['GCP', 'Google Cloud'] },
+  { name: 'AWS Lambda', aliases: ['Lambda'] },
+  { name: 'Amazon S3', aliases: ['S3'] },
+  { name: 'Amazon EC2', aliases: ['EC2'] },
+  { name: 'Docker', aliases: ['Containers', 'Containerization', 'Containerisation'], category: 'tool' },
+  { name: 'Kubernetes', aliases: ['K8s', 'Kube'], category: 'tool' },
+  { name: 'Helm', aliases: ['Helm charts'], category: 'tool' },
+  { name: 'Terraform', aliases: ['HCL'], category: 'tool' },
+  { name: 'Ansible', aliases: [], category: 'tool' },
+  { name: 'Pulumi', aliases: [], category: 'tool' },
+  { name: 'CloudFormation', aliases: ['AWS CloudFormation', 'CFN'], category: 'tool' },
+  { name: 'Infrastructure as Code', aliases: ['IaC'] },
+  { name: 'CI/CD', aliases: ['CICD', 'Continuous Integration', 'Continuous Delivery', 'Continuous Deployment'] },
+  { name: 'Jenkins', aliases: [], category: 'tool' },
+  { name: 'GitHub Actions', aliases: ['GH Actions'], category: 'tool' },
+  { name: 'GitLab CI', aliases: ['GitLab CI/CD'], category: 'tool' },
+  { name: 'CircleCI', aliases: ['Circle CI'], category: 'tool' },
+  { name: 'DevOps', aliases: [] },
+  { name: 'Site Reliability Engineering', aliases: ['SRE'] },
+  { name: 'Linux', aliases: ['Unix', 'Ubuntu', 'RHEL', 'Debian', 'CentOS'] },
+  { name: 'Nginx', aliases: [], category: 'tool' },
+  { name: 'Prometheus', aliases: [], category: 'tool' },
+  { name: 'Grafana', aliases: [], category: 'tool' },
+  { name: 'Datadog', aliases: ['Data Dog'], category: 'tool' },
+  { name: 'Observability', aliases: ['Monitoring and alerting'] },
+  { name: 'Serverless', aliases: [] },
+  { name: 'Networking', aliases: ['TCP/IP', 'DNS'] },
+
+  // Practices & tools
+  { name: 'Git', aliases: ['Version control', 'GitHub', 'GitLab', 'Bitbucket'], category: 'tool' },
+  { name: 'Jira', aliases: ['Atlassian Jira'], category: 'tool' },
+  { name: 'Confluence', aliases: [], category: 'tool' },
+  { name: 'Agile', aliases: ['Agile methodologies', 'Agile methodology'] },
+  { name: 'Scrum', aliases: ['Scrum Master'] },
+  { name: 'Kanban', aliases: [] },
+  { name: 'Test-Driven Development', aliases: ['TDD'] },
+  { name: 'Unit Testing', aliases: ['Unit tests'] },
+  { name: 'Jest', aliases: [], category: 'tool' },
+  { name: 'Cypress', aliases: [], category: 'tool' },
+  { name: 'Playwright', aliases: [], category: 'tool' },
+  { name: 'Selenium', aliases: ['WebDriver'], category: 'tool' },
+  { name: 'Object-Oriented Programming', aliases: ['OOP', 'OOD', 'Object oriented design'] },
+  { name: 'Functional Programming', aliases: [] },
+  { name: 'Design Patterns', aliases: [] },
+  { name: 'System Design', aliases: ['Systems design', 'Distributed systems design'] },
+  { name: 'Distributed Systems', aliases: [] },
+  { name: 'Data Structures', aliases: ['Algorithms and data structures', 'DSA'] },
+  { name: 'Figma', aliases: [], category: 'tool' },
+  { name: 'Sketch', aliases: [], caseSensitive: true, category: 'tool' },
+  { name: 'Adobe Photoshop', aliases: ['Photoshop'], category: 'tool' },
+  { name: 'Adobe Illustrator', aliases: ['Illustrator'], category: 'tool' },
+  { name: 'UX Design', aliases: ['UX', 'User Experience', 'User Experience Design'] },
+  { name: 'UI Design', aliases: ['UI', 'User Interface Design'] },
+  { name: 'Salesforce', aliases: ['SFDC'], category: 'tool' },
+  { name: 'SAP', aliases: [], category: 'tool' },
+  { name: 'HubSpot', aliases: [], category: 'tool' },
+  { name: 'Google Analytics', aliases: ['GA4'], category: 'tool' },
+  { name: 'Search Engine Optimization', aliases: ['SEO'] },
+  { name: 'Search Engine Marketing', aliases: ['SEM', 'PPC', 'Pay per click'] },
+  { name: 'Customer Relationship Management', aliases: ['CRM'] },
+  { name: 'Enterprise Resource Planning', aliases: ['ERP'] },
+  { name: 'Security', aliases: ['Cybersecurity', 'Cyber security', 'Information security', 'InfoSec'] },
+  { name: 'OAuth', aliases: ['OAuth2', 'OAuth 2.0', 'OpenID Connect', 'OIDC'] },
+  { name: 'Accessibility', aliases: ['a11y', 'WCAG'] },
+  { name: 'Internationalization', aliases: ['i18n', 'Internationalisation', 'Localization', 'Localisation', 'l10n'] },
+  { name: 'Product Management', aliases: ['Product manager'] },
+  { name: 'Project Management', aliases: ['Project manager', 'PMO'] },
+  { name: 'Key Performance Indicators', aliases: ['KPI', 'KPIs'] },
+  { name: 'Objectives and Key Results', aliases: ['OKR', 'OKRs'] },
+  { name: 'Software Development Life Cycle', aliases: ['SDLC'] },
+  { name: 'Quality Assurance', aliases: ['QA'] },
+  { name: 'User Acceptance Testing', aliases: ['UAT'] },
+  { name: 'Business Intelligence', aliases: ['BI'] },
+
+  // Soft skills
+  { name: 'Communication', aliases: ['Communication skills', 'Verbal and written communication', 'Written and verbal communication'], category: 'soft' },
+  { name: 'Leadership', aliases: ['Team leadership', 'Leading teams', 'People management'], category: 'soft' },
+  { name: 'Collaboration', aliases: ['Teamwork', 'Team player', 'Cross-functional collaboration'], category: 'soft' },
+  { name: 'Problem Solving', aliases: ['Problem-solving skills'], category: 'soft' },
+  { name: 'Mentoring', aliases: ['Mentorship', 'Coaching'], category: 'soft' },
+  { name: 'Stakeholder Management', aliases: ['Stakeholder engagement', 'Managing stakeholders'], category: 'soft' },
+  { name: 'Time Management', aliases: ['Prioritization', 'Prioritisation'], category: 'soft' },
+  { name: 'Critical Thinking', aliases: ['Analytical thinking', 'Analytical skills'], category: 'soft' },
+  { name: 'Attention to Detail', aliases: ['Detail-oriented', 'Detail oriented'], category: 'soft' },
+  { name: 'Adaptability', aliases: ['Adaptable'], category: 'soft' },
+];
@@ -0,0 +1,194 @@
+/**
+ * English Stemmer
+ * Offline word normalization for keyword matching: a small table of
+ * irregular forms ("led" → "lead", "analyses" → "analysis") followed by the
+ * Porter stemming algorithm, so "managed", "manages" and "management" all
+ * reduce to "manag". Stems are only compared, never shown.
+ */
+
+// Irregular verb and plural forms the suffix rules can't reach
+const IRREGULAR_FORMS: Record<string, string> = {
+  led: 'lead', leading: 'lead', leads: 'lead',
+  built: 'build', wrote: 'write', written: 'write', writing: 'write',
+  ran: 'run', running: 'run', runs: 'run',
+  taught: 'teach', brought: 'bring', bought: 'buy', thought: 'think',
+  made: 'make', making: 'make', drove: 'drive', driven: 'drive', driving: 'drive',
+  grew: 'grow', grown: 'grow', began: 'begin', begun: 'begin',
+  won: 'win', sold: 'sell', held: 'hold', kept: 'keep', met: 'meet',
+  spoke: 'speak', spoken: 'speak', chose: 'choose', chosen: 'choose',
+  oversaw: 'oversee', overseen: 'oversee', undertook: 'undertake', undertaken: 'undertake',
+  analyses: 'analysis', analyzing: 'analyze', analysing: 'analyze', analysed: 'analyze',
+  crises: 'crisis', criteria: 'criterion', theses: 'thesis', hypotheses: 'hypothesis',
+  indices: 'index', matrices: 'matrix', appendices: 'appendix',
+  people: 'person', children: 'child', men: 'man', women: 'woman',
+  data: 'data', media: 'media', better: 'good', best: 'good',
+};
+
+// British spellings folded into American ones (organise → organize, colour → color)
+const BRITISH_SPELLINGS: Array<[RegExp, string]> = [
+  [/is(e|ed|es|ing|ation|ations|er|ers)$/, 'iz$1'],
+  [/our(s|ed|ing)?$/, 'or$1'],
+];
+
+function isConsonant(word: string, i: number): boolean {
+  const ch = word[i];
+  if ('aeiou'.includes(ch)) return false;
+  if (ch === 'y') return i === 0 || !isConsonant(word, i - 1);
+  return true;
+}
+
+/** Number of vowel-consonant sequences (Porter's "m") */
+function measure(stem: string): number {
+  let m = 0;
+  let i = 0;
+  const n = stem.length;
+  while (i < n && isConsonant(stem, i)) i++;
+  while (i < n) {
+    while (i < n && !isConsonant(stem, i)) i++;
+    if (i >= n) break;
+    while (i < n && isConsonant(stem, i)) i++;
+    m++;
+  }
+  return m;
+}
+
+function hasVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+}
+
+function endsDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+/** consonant-vowel-consonant ending, where the last is not w, x or y */
+function endsCvc(word: string): boolean {
+  const n = word.length;
+  if (n < 3) return false;
+  return isConsonant(word, n - 3) && !isConsonant(word, n - 2) && isConsonant(word, n - 1)
+    && !'wxy'.includes(word[n - 1]);
+}
+
+/**
+ * Replace the first matching suffix when the remaining stem passes `condition`
+ */
+function replaceSuffix(word: string, rules: Array<[string, string]>, condition: (stem: string) => boolean): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return condition(stem) ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+const STEP2: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'], ['logi', 'log'],
+];
+const STEP3: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+const STEP4 = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent',
+  'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize',
+];
+
+function porterStem(input: string): string {
+  let word = input;
+  if (word.length <= 2) return word;
+
+  // Step 1a: plurals
+  if (word.endsWith('sses')) word = word.slice(0, -2);
+  else if (word.endsWith('ies')) word = word.slice(0, -2);
+  else if (!word.endsWith('ss') && word.endsWith('s')) word = word.slice(0, -1);
+
+  // Step 1b: -ed and -ing
+  if (word.endsWith('eed')) {
+    if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+  } else {
+    const suffix = word.endsWith('ed') ? 'ed' : word.endsWith('ing') ? 'ing' : '';
+    const stem = suffix ? word.slice(0, -suffix.length) : '';
+    if (suffix && hasVowel(stem)) {
+      word = stem;
+      if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) word += 'e';
+      else if (endsDoubleConsonant(word) && !/[lsz]$/.test(word)) word = word.slice(0, -1);
+      else if (measure(word) === 1 && endsCvc(word)) word += 'e';
+    }
+  }
+
+  // Step 1c: y → i
+  if (word.endsWith('y') && hasVowel(word.slice(0, -1))) word = `${word.slice(0, -1)}i`;
+
+  // Steps 2-3: derivational suffixes
+  word = replaceSuffix(word, STEP2, (stem) => measure(stem) > 0);
+  word = replaceSuffix(word, STEP3, (stem) => measure(stem) > 0);
+
+  // Step 4: drop the remaining suffix on long stems
+  for (const suffix of [...STEP4].sort((a, b) => b.length - a.length)) {
+    if (!word.endsWith(suffix)) continue;
+    const stem = word.slice(0, -suffix.length);
+    const ok = measure(stem) > 1 && (suffix !== 'ion' || /[st]$/.test(stem));
+    if (ok) word = stem;
+    break;
+  }
+
+  // Step 5: trailing e and double l
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsCvc(stem))) word = stem;
+  }
+  if (measure(word) > 1 && word.endsWith('ll')) word = word.slice(0, -1);
+
+  // Step 4 can leave a y that step 1c already turned into i elsewhere ("deployment" vs "deploying")
+  if (word.endsWith('y') && hasVowel(word.slice(0, -1))) word = `${word.slice(0, -1)}i`;
+
+  return word;
+}
+
+const cache = new Map<string, string>();
+
+/**
+ * Stem of one word; lowercased, and left alone when it isn't plain letters
+ */
+export function stemWord(word: string): string {
+  const lower = word.toLowerCase();
+  const cached = cache.get(lower);
+  if (cached !== undefined) return cached;
+
+  let stem = lower;
+  if (/^[a-z]+$/.test(lower)) {
+    let base = IRREGULAR_FORMS[lower] || lower;
+    for (const [pattern, replacement] of BRITISH_SPELLINGS) {
+      if (base.length > 5 && pattern.test(base)) {
+        base = base.replace(pattern, replacement);
+        break;
+      }
+    }
+    stem = porterStem(base);
+  }
+  if (cache.size > 20_000) cache.clear();
+  cache.set(lower, stem);
+  return stem;
+}
+
+/**
+ * Words of a text with their positions, for matching stems back to the
+ * surface form that was actually written
+ */
+export function tokenizeWords(text: string): Array<{ word: string; index: number }> {
+  return [...text.matchAll(/[\p{L}\p{N}]+/gu)].map((match) => ({ word: match[0], index: match.index ?? 0 }));
+}
+
+/**
+ * Stems of every word in a phrase, as one comparable key ("Managed Teams" → "manag team")
+ */
+export function stemPhrase(phrase: string): string {
+  return tokenizeWords(phrase).map(({ word }) => stemWord(word)).join(' ');
+}
@@ -0,0 +1,189 @@
+/**
+ * Token Index
+ * One pass over a text yields its words, with offsets and stems, and an
+ * inverted index from each word and stem to where it occurs. Looking up a
+ * keyword then visits only the places its first word appears, instead of
+ * running a regular expression over the whole text for every keyword.
+ */
+
+import { CertificationMention, findCertification, findCertificationMentions, impliedCertifications } from './credentials';
+import { findSkill, findSkillMentions, SkillMention } from './skills';
+import { stemWord, tokenizeWords } from './stemmer';
+
+export interface IndexedToken {
+  /** Lowercased */
+  word: string;
+  stem: string;
+  start: number;
+  /** Exclusive */
+  end: number;
+}
+
+export interface TokenIndex {
+  text: string;
+  tokens: IndexedToken[];
+  /** Token positions of each lowercased word */
+  words: Map<string, number[]>;
+  /** Token positions of each stem */
+  stems: Map<string, number[]>;
+  /** Taxonomy skills the text mentions, found on first use */
+  skillMentions(): SkillMention[];
+  /** Catalog certifications the text mentions, found on first use */
+  certificationMentions(): CertificationMention[];
+}
+
+export interface KeywordHit {
+  /** Offsets in the indexed text, end exclusive */
+  start: number;
+  end: number;
+  /** The keyword as written there */
+  surface: string;
+}
+
+/** A keyword split the way the index splits text */
+interface KeywordShape {
+  words: string[];
+  /** Lowercased text around and between the words: "node.js" → ['', '.', ''] */
+  gaps: string[];
+}
+
+const WORD_CHAR_RE = /[\p{L}\p{N}]/u;
+
+function addPosition(map: Map<string, number[]>, key: string, position: number): void {
+  const positions = map.get(key);
+  if (positions) positions.push(position);
+  else map.set(key, [position]);
+}
+
+/** Lowercase, with whitespace runs as one space, for comparing what sits between words */
+function normalizeGap(gap: string): string {
+  return gap.toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Tokenize a text once and index its words and stems
+ */
+export function buildTokenIndex(text: string): TokenIndex {
+  const tokens: IndexedToken[] = [];
+  const words = new Map<string, number[]>();
+  const stems = new Map<string, number[]>();
+  for (const { word, index } of tokenizeWords(text)) {
+    const token = { word: word.toLowerCase(), stem: stemWord(word), start: index, end: index + word.length };
+    addPosition(words, token.word, tokens.length);
+    addPosition(stems, token.stem, tokens.length);
+    tokens.push(token);
+  }
+
+  let skills: SkillMention[] | null = null;
+  let certifications: CertificationMention[] | null = null;
+  return {
+    text,
+    tokens,
+    words,
+    stems,
+    skillMentions: () => (skills ??= findSkillMentions(text)),
+    certificationMentions: () => (certifications ??= findCertificationMentions(text)),
+  };
+}
+
+function keywordShape(keyword: string): KeywordShape {
+  const words: string[] = [];
+  const gaps: string[] = [];
+  let last = 0;
+  for (const { word, index } of tokenizeWords(keyword)) {
+    gaps.push(normalizeGap(keyword.slice(last, index)));
+    words.push(word.toLowerCase());
+    last = index + word.length;
+  }
+  gaps.push(normalizeGap(keyword.slice(last)));
+  // Leading and trailing spaces are not part of the keyword
+  gaps[0] = gaps[0].trimStart();
+  gaps[gaps.length - 1] = gaps[gaps.length - 1].trimEnd();
+  return { words, gaps };
+}
+
+/**
+ * Runs of tokens whose words (or stems) follow one another as in the
+ * keyword, found from the positions of its first word
+ */
+function* sequenceHits(index: TokenIndex, keys: string[], byStem: boolean): Generator<[number, number]> {
+  const { tokens } = index;
+  const positions = (byStem ? index.stems : index.words).get(keys[0]) || [];
+  for (const position of positions) {
+    if (position + keys.length > tokens.length) break;
+    const matches = keys.every((key, j) => (byStem ? tokens[position + j].stem : tokens[position + j].word) === key);
+    if (matches) yield [position, position + keys.length - 1];
+  }
+}
+
+/**
+ * Where a keyword is written out exactly: whole words, case-insensitive,
+ * with the same punctuation between and around them ("node.js", "c++")
+ */
+function* exactHits(index: TokenIndex, shape: KeywordShape): Generator<KeywordHit> {
+  const { text, tokens } = index;
+  const { words, gaps } = shape;
+  const lead = gaps[0];
+  const tail = gaps[gaps.length - 1];
+  for (const [first, last] of sequenceHits(index, words, false)) {
+    const inner = words.slice(1).every((_, j) => normalizeGap(text.slice(tokens[first + j].end, tokens[first + j + 1].start)) === gaps[j + 1]);
+    if (!inner) continue;
+    const start = tokens[first].start - lead.length;
+    const end = tokens[last].end + tail.length;
+    if (start < 0 || text.slice(start, tokens[first].start).toLowerCase() !== lead) continue;
+    if (text.slice(tokens[last].end, end).toLowerCase() !== tail) continue;
+    // Still a whole word when the keyword starts or ends with punctuation
+    if ((lead && WORD_CHAR_RE.test(text[start - 1] || '')) || (tail && WORD_CHAR_RE.test(text[end] || ''))) continue;
+    yield { start, end, surface: text.slice(start, end) };
+  }
+}
+
+/**
+ * Every place a text mentions a keyword: known skills under any alias,
+ * certifications by any name (a Professional certification answers for the
+ * Associate it includes), other keywords written out whole and, with
+ * stemming, in any form of their words ("deploying" for "deployment")
+ */
+export function* keywordHits(index: TokenIndex, keyword: string, stemming: boolean): Generator<KeywordHit> {
+  const hit = (start: number, surface: string): KeywordHit => ({ start, end: start + surface.length, surface });
+
+  const skill = findSkill(keyword);
+  if (skill) {
+    for (const mention of index.skillMentions()) {
+      if (mention.skill === skill) yield hit(mention.index, mention.surface);
+    }
+    return;
+  }
+
+  const certification = findCertification(keyword);
+  if (certification) {
+    for (const mention of index.certificationMentions()) {
+      if (impliedCertifications([mention.certification.name]).includes(certification.name)) yield hit(mention.index, mention.surface);
+    }
+    return;
+  }
+
+  const shape = keywordShape(keyword);
+  if (shape.words.length === 0) return;
+  const seen = new Set<number>();
+  for (const exact of exactHits(index, shape)) {
+    seen.add(exact.start);
+    yield exact;
+  }
+  if (!stemming) return;
+
+  const { text, tokens } = index;
+  for (const [first, last] of sequenceHits(index, shape.words.map(stemWord), true)) {
+    const start = tokens[first].start;
+    if (!seen.has(start) && !seen.has(start - shape.gaps[0].length)) yield hit(start, text.slice(start, tokens[last].end));
+  }
+}
+
+/**
+ * The first place a text mentions a keyword, exact forms before stemmed
+ * ones, or null
+ */
+export function findKeyword(index: TokenIndex, keyword: string, stemming: boolean): KeywordHit | null {
+  for (const hit of keywordHits(index, keyword, stemming)) return hit;
+  return null;
+}
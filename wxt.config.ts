@@ -1,10 +1,15 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
 import { defineConfig } from 'wxt';
+import { ATS_PLATFORMS } from './utils/atsPlatforms';
+import { JOB_SITE_MATCHES } from './utils/jobSites';
+import { SEMANTIC_MODEL_FILES } from './utils/semantic/model';
 
 // See https://wxt.dev/api/config.html
 export default defineConfig({
   modules: ['@wxt-dev/module-react'],
   manifest: {
-    permissions: ['sidePanel', 'storage', 'tabs', 'activeTab'],
+    permissions: ['sidePanel', 'storage', 'tabs', 'activeTab', 'scripting', 'contextMenus', 'unlimitedStorage'],
     host_permissions: [
       '*://*.linkedin.com/*',
       '*://*.indeed.com/*',
@@ -14,10 +19,41 @@ export default defineConfig({
       '*://*.indeed.ca/*',
       '*://*.pracuj.pl/*',
     ],
+    // Hosted ATS boards are granted per platform from settings, other sites per site rule
+    optional_host_permissions: [...ATS_PLATFORMS.flatMap((p) => p.origins), '*://*/*'],
+    // The overlay fetches its shadow-root stylesheet; runtime-registered scripts need it too,
+    // on whichever domain the user grants a site rule for
+    web_accessible_resources: [
+      {
+        resources: ['content-scripts/content.css'],
+        matches: ['*://*/*'],
+      },
+      // Content scripts start the scan worker from a copy of its code (see utils/scanWorker)
+      {
+        resources: ['scan-worker.js'],
+        matches: ['*://*/*'],
+      },
+      // ...and that worker loads the semantic model and its runtime by extension URL, which
+      // only pages the content script is declared on or ATS boards need
+      {
+        resources: SEMANTIC_MODEL_FILES,
+        matches: [...JOB_SITE_MATCHES, ...ATS_PLATFORMS.flatMap((p) => p.origins)],
+      },
+    ],
     side_panel: {
       default_path: 'sidepanel.html',
     },
   },
+  hooks: {
+    // A release without the model would quietly fall back to TF-IDF for everyone who turns semantic match on
+    'build:before': (wxt) => {
+      const missing = SEMANTIC_MODEL_FILES.filter((file) => !existsSync(join(wxt.config.publicDir, file)));
+      if (missing.length === 0) return;
+      const message = `Semantic model files missing from public/ (${missing.join(', ')}); run npm run semantic-model`;
+      if (wxt.config.command === 'build') throw new Error(message);
+      wxt.logger.warn(`${message}. Semantic match falls back to TF-IDF in this dev build.`);
+    },
+  },
   vite: () => ({
     define: {
       'import.meta.env.VITE_API_BASE_URL': JSON.stringify(